@@ -1,8 +1,23 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { GraphData, ThemeConfig, EventSequence, GraphProject } from './types';
 import Editor from './components/Editor';
 import { Dashboard } from './components/Dashboard';
+import { Presenter } from './components/Presenter';
 import { useTranslation } from './i18n';
+import { downloadBlob, toFileName } from './utils/fileDownload';
+import { ImportConflictStrategy, MIJIN_BUNDLE_EXTENSION, createBundle, mergeProjects, serializeBundle } from './utils/projectBundle';
+import { CURRENT_SCHEMA_VERSION, RecoveredData } from './utils/projectMigrations';
+import { RevisionRequest, createRevision } from './utils/projectRevisions';
+import {
+  ProjectStorage,
+  StorageErrorKind,
+  StorageSettings,
+  StoredProjects,
+  classifyStorageError,
+  openProjectStorage,
+  readStorageSettings,
+  writeStorageSettings,
+} from './utils/projectStorage';
 
 // --- DEFAULTS ---
 const INITIAL_GRAPH: GraphData = {
@@ -51,7 +66,8 @@ const INITIAL_THEME: ThemeConfig = {
       persistent: { outlineColor: "#94a3b8", outlineWidth: 1, mainColor: "#cbd5e1", opacity: 0.5 },
       animation: { packetColor: "#10b981", packetRadius: 4, duration: 0.6 }
     }
-  }
+  },
+  exclusiveStateGroups: [["loading", "processing", "success", "error"]]
 };
 
 const INITIAL_EVENTS: EventSequence = {
@@ -105,36 +121,76 @@ const INITIAL_EVENTS: EventSequence = {
   ]
 };
 
+// #/present/<id> shows a project full screen, so a presentation can be linked to or reloaded
+const PRESENT_ROUTE = /^#\/present\/(.+)$/;
+
+const readPresentedId = () => {
+  const match = window.location.hash.match(PRESENT_ROUTE);
+  return match ? decodeURIComponent(match[1]) : null;
+};
+
 const App: React.FC = () => {
   const { t } = useTranslation();
   const [projects, setProjects] = useState<GraphProject[]>([]);
   const [activeProjectId, setActiveProjectId] = useState<string | null>(null);
+  const [presentedId, setPresentedId] = useState<string | null>(readPresentedId);
   const [isLoaded, setIsLoaded] = useState(false);
+  const [recovered, setRecovered] = useState<RecoveredData | null>(null);
+  const [storageError, setStorageError] = useState<StorageErrorKind | null>(null);
+  const [storageSettings, setStorageSettings] = useState<StorageSettings>(readStorageSettings);
+  const storageRef = useRef<ProjectStorage | null>(null);
+  // Shared across StrictMode's double effect run so storage is only loaded once
+  const loadingRef = useRef<Promise<StoredProjects> | null>(null);
 
   useEffect(() => {
-    const saved = localStorage.getItem('graphflow_projects');
-    if (saved) {
-      try {
-        const parsed = JSON.parse(saved);
-        // Safety check: Ensure it is an array
-        if (Array.isArray(parsed)) {
-          setProjects(parsed);
+    let cancelled = false;
+    loadingRef.current ??= openProjectStorage(storageSettings).then((storage) => {
+      storageRef.current = storage;
+      return storage.load();
+    });
+    loadingRef.current
+      .then(({ projects: loaded, recovered }) => {
+        if (cancelled) return;
+        setRecovered(recovered);
+        if (loaded.length > 0) {
+          setProjects(loaded);
         } else {
-          console.warn("Corrupted data found in localStorage, resetting to demo.");
-          initDemo();
+          initDemo(recovered);
         }
-      } catch (e) {
-        console.error("Failed to parse projects:", e);
-        initDemo();
-      }
-    } else {
-      initDemo();
-    }
-    setIsLoaded(true);
+      })
+      .catch((e) => {
+        console.error("Failed to load projects:", e);
+        if (!cancelled) setStorageError('unavailable');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoaded(true);
+      });
+    return () => { cancelled = true; };
   }, []);
 
-  const initDemo = () => {
+  useEffect(() => {
+    const handleHashChange = () => setPresentedId(readPresentedId());
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  // Saving is held back while unreadable data exists only in the main key
+  const isPersistenceBlocked = recovered !== null && recovered.key === null;
+
+  const reportStorageError = (error: unknown) => {
+    console.error("Failed to write projects:", error);
+    setStorageError(classifyStorageError(error));
+  };
+
+  const writeProjects = (changed: GraphProject[], blocked = isPersistenceBlocked) => {
+    const storage = storageRef.current;
+    if (!storage || blocked) return;
+    Promise.all(changed.map(project => storage.save(project))).catch(reportStorageError);
+  };
+
+  const initDemo = (recovered: RecoveredData | null) => {
     const demoProject: GraphProject = {
+      schemaVersion: CURRENT_SCHEMA_VERSION,
       id: 'demo-architecture',
       name: 'Microservices Flow',
       updatedAt: Date.now(),
@@ -144,16 +200,12 @@ const App: React.FC = () => {
       eventData: INITIAL_EVENTS
     };
     setProjects([demoProject]);
+    writeProjects([demoProject], recovered !== null && recovered.key === null);
   };
 
-  useEffect(() => {
-    if (isLoaded) {
-      localStorage.setItem('graphflow_projects', JSON.stringify(projects));
-    }
-  }, [projects, isLoaded]);
-
   const handleCreateProject = () => {
     const newProject: GraphProject = {
+      schemaVersion: CURRENT_SCHEMA_VERSION,
       id: crypto.randomUUID ? crypto.randomUUID() : Date.now().toString(),
       name: `${t('project.new_name')} ${projects.length + 1}`,
       updatedAt: Date.now(),
@@ -163,6 +215,7 @@ const App: React.FC = () => {
       eventData: INITIAL_EVENTS
     };
     setProjects(prev => [...prev, newProject]);
+    writeProjects([newProject]);
     setActiveProjectId(newProject.id);
   };
 
@@ -170,27 +223,105 @@ const App: React.FC = () => {
     e.preventDefault();
     setProjects(prev => prev.filter(p => p.id !== id));
     if (activeProjectId === id) setActiveProjectId(null);
+    if (storageRef.current && !isPersistenceBlocked) storageRef.current.remove(id).catch(reportStorageError);
   };
 
   const handleTogglePin = (id: string, e: React.MouseEvent) => {
     e.preventDefault();
-    setProjects(prev => prev.map(p => p.id === id ? { ...p, isPinned: !p.isPinned } : p));
+    const project = projects.find(p => p.id === id);
+    if (!project) return;
+    const updated = { ...project, isPinned: !project.isPinned };
+    setProjects(prev => prev.map(p => p.id === id ? updated : p));
+    writeProjects([updated]);
   };
 
-  const handleSaveProject = (updatedProject: GraphProject) => {
+  // Rejects so the Editor can show why its save failed
+  const handleSaveProject = async (updatedProject: GraphProject, snapshot?: RevisionRequest) => {
     setProjects(prev => prev.map(p => p.id === updatedProject.id ? updatedProject : p));
+    const storage = storageRef.current;
+    if (!storage) throw new Error('Project storage is not available');
+    if (isPersistenceBlocked) throw new Error('Saving is paused until unreadable data is backed up');
+    await storage.save(updatedProject);
+    if (!snapshot) return null;
+    const revision = createRevision(updatedProject, snapshot);
+    await storage.addRevision(revision);
+    return revision;
+  };
+
+  const handleLoadRevisions = async (projectId: string) => {
+    return storageRef.current ? storageRef.current.listRevisions(projectId) : [];
+  };
+
+  const handleExportProjects = (selected: GraphProject[]) => {
+    const blob = new Blob([serializeBundle(createBundle(selected))], { type: 'application/json' });
+    const name = selected.length === 1 ? selected[0].name : `mijin-projects-${new Date().toISOString().slice(0, 10)}`;
+    downloadBlob(blob, toFileName(name, MIJIN_BUNDLE_EXTENSION));
+  };
+
+  const handleImportProjects = (imported: GraphProject[], strategy: ImportConflictStrategy) => {
+    const merged = mergeProjects(projects, imported, strategy, t('bundle.copy_suffix'));
+    setProjects(merged);
+    writeProjects(merged.filter(project => !projects.includes(project)));
+  };
+
+  // Throws so the settings dialog can show why the switch failed
+  const handleChangeStorage = async (settings: StorageSettings, copyProjects: boolean) => {
+    const storage = await openProjectStorage(settings);
+    if (copyProjects) await Promise.all(projects.map(project => storage.save(project)));
+    const { projects: loaded, recovered } = await storage.load();
+    writeStorageSettings(settings);
+    storageRef.current = storage;
+    setStorageSettings(settings);
+    setRecovered(recovered);
+    setStorageError(null);
+    setProjects(loaded);
+  };
+
+  const handleDownloadRecovered = () => {
+    if (!recovered) return;
+    const name = `mijin-recovered-${new Date().toISOString().slice(0, 10)}`;
+    downloadBlob(new Blob([recovered.data], { type: 'application/json' }), toFileName(name, 'json'));
+  };
+
+  const handleDismissRecovered = () => {
+    setRecovered(null);
+    // Catch up on everything that was held back while saving was paused
+    if (isPersistenceBlocked) writeProjects(projects, false);
+  };
+
+  const handlePresentProject = (id: string) => {
+    window.location.hash = `#/present/${encodeURIComponent(id)}`;
+  };
+
+  const handleExitPresentation = () => {
+    history.replaceState(null, '', window.location.pathname + window.location.search);
+    setPresentedId(null);
   };
 
   const activeProject = projects.find(p => p.id === activeProjectId);
+  const presentedProject = projects.find(p => p.id === presentedId);
 
   if (!isLoaded) return null;
 
+  if (presentedProject) {
+    return (
+      <Presenter
+        key={presentedProject.id}
+        project={presentedProject}
+        onExit={handleExitPresentation}
+        onExportBundle={() => handleExportProjects([presentedProject])}
+      />
+    );
+  }
+
   if (activeProjectId && activeProject) {
     return (
       <Editor 
         key={activeProject.id}
         initialProject={activeProject}
         onSave={handleSaveProject}
+        onLoadRevisions={() => handleLoadRevisions(activeProject.id)}
+        collabServerUrl={storageSettings.mode === 'server' ? storageSettings.serverUrl : null}
         onBack={() => setActiveProjectId(null)}
       />
     );
@@ -201,8 +332,18 @@ const App: React.FC = () => {
       projects={projects}
       onCreateProject={handleCreateProject}
       onOpenProject={setActiveProjectId}
+      onPresentProject={handlePresentProject}
       onDeleteProject={handleDeleteProject}
       onTogglePin={handleTogglePin}
+      onExportProjects={handleExportProjects}
+      onImportProjects={handleImportProjects}
+      recovered={recovered}
+      onDownloadRecovered={handleDownloadRecovered}
+      onDismissRecovered={handleDismissRecovered}
+      storageError={storageError}
+      onDismissStorageError={() => setStorageError(null)}
+      storageSettings={storageSettings}
+      onChangeStorage={handleChangeStorage}
     />
   );
 };
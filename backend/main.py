@@ -8,11 +8,13 @@ Start with:
 from fastapi import FastAPI
 from fastapi.middleware.cors import CORSMiddleware
 
+from routers.collab import router as collab_router
 from routers.generate import router as generate_router
+from routers.projects import router as projects_router
 
 app = FastAPI(
     title="GraphFlow AI Backend",
-    description="AI-powered graph structure generation using OpenAI-compatible APIs.",
+    description="AI-powered graph structure generation using OpenAI-compatible APIs, plus a shared project library with live editing.",
     version="1.0.0",
 )
 
@@ -26,6 +28,8 @@ app.add_middleware(
 )
 
 app.include_router(generate_router)
+app.include_router(projects_router)
+app.include_router(collab_router)
 
 
 @app.get("/health", tags=["health"])
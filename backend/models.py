@@ -3,17 +3,23 @@ Pydantic models mirroring the TypeScript types in types.ts.
 """
 from __future__ import annotations
 
-from typing import Any, Optional, Union
-from pydantic import BaseModel, Field
+from typing import Any, Literal, Optional, Union
+from pydantic import AliasChoices, BaseModel, Field
 
 
 # ---------------------------------------------------------------------------
 # Graph primitives
 # ---------------------------------------------------------------------------
 
-class NodeApparence(BaseModel):
+NodeShape = Literal["circle", "rect", "rounded", "hexagon", "cylinder", "diamond"]
+
+
+class NodeAppearance(BaseModel):
     fill: Optional[str] = None
     stroke: Optional[str] = None
+    shape: Optional[NodeShape] = None
+    icon: Optional[str] = None
+    image: Optional[str] = None
 
 
 class GraphNode(BaseModel):
@@ -22,16 +28,23 @@ class GraphNode(BaseModel):
     group: Optional[int] = None
     x: Optional[float] = None
     y: Optional[float] = None
-    apparence: Optional[NodeApparence] = None
+    # "apparence" is the pre-schema-v2 spelling, still accepted on input
+    appearance: Optional[NodeAppearance] = Field(
+        default=None, validation_alias=AliasChoices("appearance", "apparence")
+    )
     activeStates: Optional[list[str]] = None
     meta_data: Optional[dict[str, Any]] = None
 
 
 class GraphLink(BaseModel):
+    id: Optional[str] = None
     source: str
     target: str
     value: Optional[float] = None
+    direction: Optional[Literal["forward", "both", "none"]] = None
+    routing: Optional[Literal["straight", "curved", "orthogonal"]] = None
     activeStates: Optional[list[str]] = None
+    meta_data: Optional[dict[str, Any]] = None
 
 
 class AttachedElementIds(BaseModel):
@@ -87,6 +100,10 @@ class NodeStyleVisuals(BaseModel):
     stroke: Optional[str] = None
     strokeWidth: Optional[float] = None
     radius: Optional[float] = None
+    shape: Optional[NodeShape] = None
+    icon: Optional[str] = None
+    iconColor: Optional[str] = None
+    image: Optional[str] = None
     badge: Optional[Badge] = None
 
 
@@ -96,6 +113,7 @@ class LinkStyleVisuals(BaseModel):
     opacity: Optional[float] = None
     outlineColor: Optional[str] = None
     outlineWidth: Optional[float] = None
+    routing: Optional[Literal["straight", "curved", "orthogonal"]] = None
 
 
 class AnimationProps(BaseModel):
@@ -119,6 +137,7 @@ class LinkStyleDefinition(BaseModel):
 class ThemeConfig(BaseModel):
     nodeStyles: dict[str, NodeStyleDefinition] = Field(default_factory=dict)
     linkStyles: dict[str, LinkStyleDefinition] = Field(default_factory=dict)
+    exclusiveStateGroups: Optional[list[list[str]]] = None
 
 
 # ---------------------------------------------------------------------------
@@ -135,10 +154,17 @@ class AtomicStep(BaseModel):
     from_node: str = Field(alias="from")
     to: str
     label: Optional[str] = None
+    description: Optional[str] = None
+    linkId: Optional[str] = None
+    via: Optional[list[str]] = None
     linkStyle: Optional[str] = None
     targetNodeState: Optional[str] = None
     processingNodeState: Optional[str] = None
     finalNodeState: Optional[str] = None
+    clearNodeStates: Optional[bool] = None
+    removeNodeState: Optional[Union[str, list[str]]] = None
+    setNodeState: Optional[str] = None
+    toggleNodeState: Optional[str] = None
     duration: Optional[float] = None
     durationProcessing: Optional[float] = None
     durationFinal: Optional[float] = None
@@ -149,18 +175,75 @@ class AtomicStep(BaseModel):
 
 class ParallelStep(BaseModel):
     type: str = "parallel"
-    steps: list[AtomicStep]
+    steps: list[SimulationAction]
+    delay: Optional[float] = None
+    label: Optional[str] = None
+    description: Optional[str] = None
+
+
+class BranchOutcome(BaseModel):
+    name: str
+    steps: list[SimulationAction]
+
+
+class BranchStep(BaseModel):
+    type: str = "branch"
+    id: str
+    label: Optional[str] = None
+    description: Optional[str] = None
+    outcomes: list[BranchOutcome]
+    defaultOutcome: Optional[str] = None
+    delay: Optional[float] = None
+
+
+class RepeatStep(BaseModel):
+    type: str = "repeat"
+    steps: list[SimulationAction]
+    count: int
+    interval: Optional[float] = None
+    backoff: Optional[float] = None
     delay: Optional[float] = None
     label: Optional[str] = None
+    description: Optional[str] = None
+
 
+SimulationAction = Union[AtomicStep, ParallelStep, BranchStep, RepeatStep]
 
-SimulationAction = Union[AtomicStep, ParallelStep]
+ParallelStep.model_rebuild()
+BranchOutcome.model_rebuild()
+RepeatStep.model_rebuild()
 
 
 class EventSequence(BaseModel):
     name: str
     initNodes: Optional[list[InitialNodeState]] = None
     steps: list[SimulationAction]
+    captions: Optional[Literal["off", "subtitle", "link"]] = None
+
+
+# ---------------------------------------------------------------------------
+# Stored projects
+# ---------------------------------------------------------------------------
+
+class GraphProject(BaseModel):
+    schemaVersion: int = 1
+    id: str
+    name: str
+    updatedAt: int
+    isPinned: bool = False
+    graphData: GraphData
+    themeData: ThemeConfig
+    eventData: EventSequence
+
+
+class ProjectRevision(BaseModel):
+    id: str
+    projectId: str
+    createdAt: int
+    kind: Literal["auto", "manual", "restore"]
+    label: Optional[str] = None
+    restoredFrom: Optional[str] = None
+    project: GraphProject
 
 
 # ---------------------------------------------------------------------------
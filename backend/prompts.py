@@ -12,15 +12,17 @@ Output rules:
 - Do NOT include x/y coordinates — positions are computed by the layout engine.
 - Keep the graph focused: 4–20 nodes, enough links to convey meaningful relationships.
 - Optionally add `meta_data` to nodes for extra context (e.g. {"tech": "Redis", "role": "cache"}).
+- Optionally give nodes an `appearance` with a `shape` (circle, rect, rounded, hexagon, cylinder, diamond) and an `icon` that says what they are (e.g. a database as a cylinder with the "database" icon).
+  Available icons: database, server, cloud, container, cpu, hard-drive, layers, network, router, globe, queue, inbox, message-square, mail, bell, zap, user, users, smartphone, laptop, monitor, lock, key, shield, credit-card, shopping-cart, file-text, search, settings, activity, code, git-branch, bot, brain, building.
 - Return only the JSON object matching the GraphData schema. No markdown, no explanation.
 
 GraphData schema:
 {
   "nodes": [
-    {"id": "string", "label": "string", "group": number, "meta_data": {...}}
+    {"id": "string", "label": "string", "group": number, "appearance": {"shape": "string", "icon": "string"}, "meta_data": {...}}
   ],
   "links": [
-    {"source": "node_id", "target": "node_id", "value": number}
+    {"id": "unique link id", "source": "node_id", "target": "node_id", "value": number, "direction": "forward | both | none", "meta_data": {"label": "optional edge label"}}
   ]
 }
 """
@@ -34,24 +36,29 @@ Rules:
 - Each style has optional `persistent` (permanent visuals) and `animation` (transient effects during events).
 - Colors should be valid CSS color strings (hex, rgb, named).
 - Node radius typically 16–32. Link width typically 1–6.
+- Node `shape` and `icon` are optional; shapes are circle, rect, rounded, hexagon, cylinder and diamond.
+  Available icons: database, server, cloud, container, cpu, hard-drive, layers, network, router, globe, queue, inbox, message-square, mail, bell, zap, user, users, smartphone, laptop, monitor, lock, key, shield, credit-card, shopping-cart, file-text, search, settings, activity, code, git-branch, bot, brain, building.
+- Link `routing` is optional: "orthogonal" suits dense architecture diagrams, "curved" softer flows.
 - Packet animations: packetColor as hex, packetRadius 4–10, duration in seconds (0.5–3.0).
 - Node impact animations: scale 1.1–1.8, durationIn in seconds (0.1–0.5).
+- Optionally list `exclusiveStateGroups`: arrays of node style names that replace each other (e.g. ["loading", "success", "error"]).
 - Return only the JSON object matching the ThemeConfig schema. No markdown, no explanation.
 
 ThemeConfig schema:
 {
   "nodeStyles": {
     "style_name": {
-      "persistent": {"fill": "#hex", "stroke": "#hex", "strokeWidth": number, "radius": number},
+      "persistent": {"fill": "#hex", "stroke": "#hex", "strokeWidth": number, "radius": number, "shape": "string", "icon": "string", "iconColor": "#hex"},
       "animation": {"scale": number, "durationIn": number}
     }
   },
   "linkStyles": {
     "style_name": {
-      "persistent": {"mainColor": "#hex", "width": number, "opacity": number},
+      "persistent": {"mainColor": "#hex", "width": number, "opacity": number, "routing": "straight | curved | orthogonal"},
       "animation": {"packetColor": "#hex", "packetRadius": number, "duration": number}
     }
-  }
+  },
+  "exclusiveStateGroups": [["style_name", "style_name"]]
 }
 """
 
@@ -64,9 +71,12 @@ Rules:
 - `steps`: ordered array of animation steps. Each step is either:
   - AtomicStep: a single packet traveling from one node to another with optional node state transitions.
   - ParallelStep: multiple atomic steps that fire simultaneously.
+  - RepeatStep: child steps played `count` times, with an optional `interval` between iterations and an optional `backoff` multiplier (for retries and polling).
+  - BranchStep: a decision point with named outcomes, each holding its own list of steps; only one outcome plays.
 - `from` and `to` in AtomicStep must be valid node ids from the graph.
 - `linkStyle` must reference a key in linkStyles from the theme (or omit if none).
 - `targetNodeState`, `processingNodeState`, `finalNodeState` must reference keys in nodeStyles from the theme (or omit).
+- To change rather than add states on the target node, use `setNodeState` (replace all), `removeNodeState` (string or array), `toggleNodeState`, or `clearNodeStates: true`.
 - Timing: duration (travel time) 0.5–3.0s, durationProcessing 0.3–2.0s, durationFinal 0.3–2.0s, delay 0–2.0s.
 - Create a believable scenario with 3–12 steps that tells a coherent story about the system.
 - Return only the JSON object matching the EventSequence schema. No markdown, no explanation.
@@ -80,7 +90,10 @@ EventSequence schema:
       "type": "atomic",
       "from": "node_id",
       "to": "node_id",
-      "label": "optional description",
+      "label": "optional short caption",
+      "description": "optional narration shown under the caption",
+      "linkId": "optional id of the link to use when several join from/to",
+      "via": ["optional node_ids the packet passes through between from and to"],
       "linkStyle": "style_name",
       "targetNodeState": "style_name",
       "processingNodeState": "style_name",
@@ -94,6 +107,23 @@ EventSequence schema:
       "type": "parallel",
       "label": "optional description",
       "steps": [ /* array of atomic step objects without type field */ ]
+    },
+    {
+      "type": "repeat",
+      "label": "optional description",
+      "count": number,
+      "interval": number,
+      "backoff": number,
+      "steps": [ /* array of step objects */ ]
+    },
+    {
+      "type": "branch",
+      "id": "unique_branch_id",
+      "label": "optional decision, e.g. Auth valid?",
+      "defaultOutcome": "outcome_name",
+      "outcomes": [
+        {"name": "outcome_name", "steps": [ /* array of step objects */ ]}
+      ]
     }
   ]
 }
@@ -0,0 +1,62 @@
+"""
+/collab/{project_id} — WebSocket relay for live editing.
+
+Messages are JSON objects with a "type":
+  client -> server: join {client, seed, presence}, ops {ops}, presence {presence}
+  server -> client: snapshot {ops, peers}, ops {ops}, presence {client, presence}, leave {client}
+"""
+from typing import Any
+
+from fastapi import APIRouter, WebSocket, WebSocketDisconnect
+
+from services.collab_rooms import CollabRoom, get_collab_rooms
+
+router = APIRouter(prefix="/collab", tags=["collab"])
+
+
+async def _broadcast(room: CollabRoom, sender: str, message: dict[str, Any]) -> None:
+    for client, connection in list(room.connections.items()):
+        if client == sender:
+            continue
+        try:
+            await connection.send_json(message)
+        except Exception:
+            # The peer's own handler notices the closed socket and leaves
+            pass
+
+
+@router.websocket("/{project_id}")
+async def collab(websocket: WebSocket, project_id: str):
+    await websocket.accept()
+    rooms = get_collab_rooms()
+
+    join = await websocket.receive_json()
+    if join.get("type") != "join" or not join.get("client"):
+        await websocket.close(code=1008, reason="Expected a join message")
+        return
+    client = join["client"]
+    room = rooms.join(project_id, client, websocket, join.get("seed", []))
+    await websocket.send_json({
+        "type": "snapshot",
+        "ops": room.snapshot(),
+        "peers": [{"client": c, **p} for c, p in room.presence.items() if c != client],
+    })
+    if join.get("presence"):
+        room.presence[client] = join["presence"]
+        await _broadcast(room, client, {"type": "presence", "client": client, "presence": join["presence"]})
+
+    try:
+        while True:
+            message = await websocket.receive_json()
+            if message.get("type") == "ops":
+                applied = room.merge(message.get("ops", []))
+                if applied:
+                    await _broadcast(room, client, {"type": "ops", "ops": applied})
+            elif message.get("type") == "presence":
+                room.presence[client] = message["presence"]
+                await _broadcast(room, client, {"type": "presence", "client": client, "presence": message["presence"]})
+    except WebSocketDisconnect:
+        pass
+    finally:
+        rooms.leave(project_id, client)
+        await _broadcast(room, client, {"type": "leave", "client": client})
@@ -0,0 +1,85 @@
+"""
+/projects/* routes — a shared project library stored in SQLite.
+
+Bodies are validated against the Pydantic models but stored as sent, so the
+responses are the same JSON the frontend saved.
+"""
+from typing import Any
+
+from fastapi import APIRouter, Body, HTTPException, Response
+from pydantic import BaseModel, ValidationError
+
+from models import GraphProject, ProjectRevision
+from services.project_store import get_project_store
+
+router = APIRouter(prefix="/projects", tags=["projects"])
+
+
+def _validate(model: type[BaseModel], body: dict[str, Any], what: str) -> None:
+    try:
+        model.model_validate(body)
+    except ValidationError as e:
+        raise HTTPException(status_code=422, detail=f"Invalid {what}: {e}")
+
+
+def _require_project(project_id: str) -> dict[str, Any]:
+    project = get_project_store().get_project(project_id)
+    if project is None:
+        raise HTTPException(status_code=404, detail=f"Project {project_id} not found")
+    return project
+
+
+@router.get("")
+def list_projects() -> list[dict[str, Any]]:
+    """Every project in the library, most recently updated first."""
+    return get_project_store().list_projects()
+
+
+@router.post("", status_code=201)
+def create_project(body: dict[str, Any] = Body(...)) -> dict[str, Any]:
+    _validate(GraphProject, body, "project")
+    store = get_project_store()
+    if store.get_project(body["id"]) is not None:
+        raise HTTPException(status_code=409, detail=f"Project {body['id']} already exists")
+    store.save_project(body)
+    return body
+
+
+@router.get("/{project_id}")
+def get_project(project_id: str) -> dict[str, Any]:
+    return _require_project(project_id)
+
+
+@router.put("/{project_id}")
+def save_project(project_id: str, body: dict[str, Any] = Body(...)) -> dict[str, Any]:
+    """Creates or replaces a project; the frontend saves through this route."""
+    _validate(GraphProject, body, "project")
+    if body["id"] != project_id:
+        raise HTTPException(status_code=422, detail="Project id does not match the URL")
+    get_project_store().save_project(body)
+    return body
+
+
+@router.delete("/{project_id}", status_code=204)
+def delete_project(project_id: str) -> Response:
+    """Deletes the project together with its revisions."""
+    if not get_project_store().delete_project(project_id):
+        raise HTTPException(status_code=404, detail=f"Project {project_id} not found")
+    return Response(status_code=204)
+
+
+@router.get("/{project_id}/revisions")
+def list_revisions(project_id: str) -> list[dict[str, Any]]:
+    """Revisions of one project, newest first."""
+    _require_project(project_id)
+    return get_project_store().list_revisions(project_id)
+
+
+@router.post("/{project_id}/revisions", status_code=201)
+def add_revision(project_id: str, body: dict[str, Any] = Body(...)) -> dict[str, Any]:
+    _validate(ProjectRevision, body, "revision")
+    if body["projectId"] != project_id:
+        raise HTTPException(status_code=422, detail="Revision projectId does not match the URL")
+    _require_project(project_id)
+    get_project_store().add_revision(body)
+    return body
@@ -0,0 +1,70 @@
+"""
+In-memory rooms for live editing, one per project.
+
+A room holds the merged register map of utils/collabDoc.ts: every register is
+last-writer-wins on its (clock, client) stamp, so the server can merge ops in
+any order and hand newcomers a snapshot every peer agrees with. Rooms are not
+persisted; clients keep saving the project through the usual storage.
+"""
+from typing import Any, Optional
+
+
+def _stamp_key(stamp: dict[str, Any]) -> tuple[int, str]:
+    return (stamp["clock"], stamp["client"])
+
+
+class CollabRoom:
+    def __init__(self) -> None:
+        self.registers: dict[str, dict[str, Any]] = {}
+        # client id -> last presence message, sent to peers who join later
+        self.presence: dict[str, dict[str, Any]] = {}
+        self.connections: dict[str, Any] = {}
+
+    def merge(self, ops: list[dict[str, Any]]) -> list[dict[str, Any]]:
+        """Applies ops and returns the ones that won, which are the only ones worth relaying."""
+        applied = []
+        for op in ops:
+            current = self.registers.get(op["key"])
+            if current is not None and _stamp_key(op["stamp"]) <= _stamp_key(current["stamp"]):
+                continue
+            self.registers[op["key"]] = {"value": op["value"], "stamp": op["stamp"]}
+            applied.append(op)
+        return applied
+
+    def snapshot(self) -> list[dict[str, Any]]:
+        return [{"key": key, **register} for key, register in self.registers.items()]
+
+
+class CollabRooms:
+    def __init__(self) -> None:
+        self._rooms: dict[str, CollabRoom] = {}
+
+    def join(self, project_id: str, client: str, connection: Any, seed: list[dict[str, Any]]) -> CollabRoom:
+        """Adds a connection; the first peer's document seeds an empty room."""
+        room = self._rooms.setdefault(project_id, CollabRoom())
+        if not room.registers:
+            room.merge(seed)
+        room.connections[client] = connection
+        return room
+
+    def leave(self, project_id: str, client: str) -> None:
+        room = self._rooms.get(project_id)
+        if room is None:
+            return
+        room.connections.pop(client, None)
+        room.presence.pop(client, None)
+        if not room.connections:
+            del self._rooms[project_id]
+
+    def get(self, project_id: str) -> Optional[CollabRoom]:
+        return self._rooms.get(project_id)
+
+
+_rooms: Optional[CollabRooms] = None
+
+
+def get_collab_rooms() -> CollabRooms:
+    global _rooms
+    if _rooms is None:
+        _rooms = CollabRooms()
+    return _rooms
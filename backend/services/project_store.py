@@ -0,0 +1,115 @@
+"""
+SQLite-backed store for the shared project library.
+
+Projects and revisions are kept as the JSON the frontend sent, so fields the
+Pydantic models do not know about (pinned positions, newer metadata) survive
+a round trip. Validation happens in the router before anything is written.
+"""
+import json
+import os
+import sqlite3
+from pathlib import Path
+from typing import Any, Optional
+
+DEFAULT_DB_PATH = Path(__file__).resolve().parent.parent / "projects.db"
+
+# Mirrors MAX_AUTO_REVISIONS in utils/projectRevisions.ts
+MAX_AUTO_REVISIONS = 30
+
+_SCHEMA = """
+CREATE TABLE IF NOT EXISTS projects (
+    id TEXT PRIMARY KEY,
+    updated_at INTEGER NOT NULL,
+    data TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS revisions (
+    id TEXT PRIMARY KEY,
+    project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    created_at INTEGER NOT NULL,
+    kind TEXT NOT NULL,
+    data TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS revisions_by_project ON revisions (project_id, created_at);
+"""
+
+
+class ProjectStore:
+    def __init__(self, path: str):
+        self.path = path
+        with self._connect() as conn:
+            conn.executescript(_SCHEMA)
+
+    def _connect(self) -> sqlite3.Connection:
+        conn = sqlite3.connect(self.path)
+        conn.execute("PRAGMA foreign_keys = ON")
+        return conn
+
+    # -- projects -------------------------------------------------------------
+
+    def list_projects(self) -> list[dict[str, Any]]:
+        with self._connect() as conn:
+            rows = conn.execute("SELECT data FROM projects ORDER BY updated_at DESC").fetchall()
+        return [json.loads(data) for (data,) in rows]
+
+    def get_project(self, project_id: str) -> Optional[dict[str, Any]]:
+        with self._connect() as conn:
+            row = conn.execute("SELECT data FROM projects WHERE id = ?", (project_id,)).fetchone()
+        return json.loads(row[0]) if row else None
+
+    def save_project(self, project: dict[str, Any]) -> None:
+        """Inserts or replaces a project; its revisions are left alone."""
+        with self._connect() as conn:
+            conn.execute(
+                "INSERT INTO projects (id, updated_at, data) VALUES (?, ?, ?) "
+                "ON CONFLICT(id) DO UPDATE SET updated_at = excluded.updated_at, data = excluded.data",
+                (project["id"], project["updatedAt"], json.dumps(project, ensure_ascii=False)),
+            )
+
+    def delete_project(self, project_id: str) -> bool:
+        """Deletes a project and its revisions. Returns False if it did not exist."""
+        with self._connect() as conn:
+            cursor = conn.execute("DELETE FROM projects WHERE id = ?", (project_id,))
+        return cursor.rowcount > 0
+
+    # -- revisions ------------------------------------------------------------
+
+    def list_revisions(self, project_id: str) -> list[dict[str, Any]]:
+        """Newest first."""
+        with self._connect() as conn:
+            rows = conn.execute(
+                "SELECT data FROM revisions WHERE project_id = ? ORDER BY created_at DESC",
+                (project_id,),
+            ).fetchall()
+        return [json.loads(data) for (data,) in rows]
+
+    def add_revision(self, revision: dict[str, Any]) -> None:
+        """Stores a revision and prunes automatic snapshots beyond MAX_AUTO_REVISIONS."""
+        with self._connect() as conn:
+            conn.execute(
+                "INSERT OR REPLACE INTO revisions (id, project_id, created_at, kind, data) VALUES (?, ?, ?, ?, ?)",
+                (
+                    revision["id"],
+                    revision["projectId"],
+                    revision["createdAt"],
+                    revision["kind"],
+                    json.dumps(revision, ensure_ascii=False),
+                ),
+            )
+            conn.execute(
+                "DELETE FROM revisions WHERE id IN ("
+                "  SELECT id FROM revisions WHERE project_id = ? AND kind = 'auto'"
+                "  ORDER BY created_at DESC LIMIT -1 OFFSET ?"
+                ")",
+                (revision["projectId"], MAX_AUTO_REVISIONS),
+            )
+
+
+_store: Optional[ProjectStore] = None
+
+
+def get_project_store() -> ProjectStore:
+    """Shared store; the database file can be moved with MIJIN_DB_PATH."""
+    global _store
+    if _store is None:
+        _store = ProjectStore(os.environ.get("MIJIN_DB_PATH", str(DEFAULT_DB_PATH)))
+    return _store
@@ -1,25 +1,54 @@
-import React from 'react';
-import { Plus, Pin, LayoutGrid, Activity } from 'lucide-react';
+import React, { useState } from 'react';
+import { Plus, Pin, LayoutGrid, Activity, Upload, Download, AlertTriangle, X, Cloud, HardDrive } from 'lucide-react';
 import { GraphProject } from '../types';
 import { ProjectCard } from './dashboard/ProjectCard';
+import { ExportProjectsModal } from './dashboard/ExportProjectsModal';
+import { ImportProjectsModal } from './dashboard/ImportProjectsModal';
+import { StorageSettingsModal } from './dashboard/StorageSettingsModal';
+import { ImportConflictStrategy } from '../utils/projectBundle';
+import { RecoveredData } from '../utils/projectMigrations';
+import { StorageErrorKind, StorageSettings } from '../utils/projectStorage';
 import { useTranslation } from '../i18n';
 
 interface DashboardProps {
   projects: GraphProject[];
   onCreateProject: () => void;
   onOpenProject: (id: string) => void;
+  onPresentProject: (id: string) => void;
   onDeleteProject: (id: string, e: React.MouseEvent) => void;
   onTogglePin: (id: string, e: React.MouseEvent) => void;
+  onExportProjects: (projects: GraphProject[]) => void;
+  onImportProjects: (projects: GraphProject[], strategy: ImportConflictStrategy) => void;
+  recovered: RecoveredData | null;
+  onDownloadRecovered: () => void;
+  onDismissRecovered: () => void;
+  storageError: StorageErrorKind | null;
+  onDismissStorageError: () => void;
+  storageSettings: StorageSettings;
+  onChangeStorage: (settings: StorageSettings, copyProjects: boolean) => Promise<void>;
 }
 
 export const Dashboard: React.FC<DashboardProps> = ({ 
   projects, 
   onCreateProject, 
   onOpenProject,
+  onPresentProject,
   onDeleteProject,
-  onTogglePin
+  onTogglePin,
+  onExportProjects,
+  onImportProjects,
+  recovered,
+  onDownloadRecovered,
+  onDismissRecovered,
+  storageError,
+  onDismissStorageError,
+  storageSettings,
+  onChangeStorage
 }) => {
   const { t, language, setLanguage } = useTranslation();
+  const [showExportModal, setShowExportModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [showStorageModal, setShowStorageModal] = useState(false);
   const pinnedProjects = projects.filter(p => p.isPinned);
   const otherProjects = projects.filter(p => !p.isPinned);
 
@@ -39,22 +68,89 @@ export const Dashboard: React.FC<DashboardProps> = ({
             <p className="text-slate-500 mt-1">{t('app.subtitle')}</p>
           </div>
           
-          <div className="flex bg-white rounded-lg p-1 border border-slate-200 shadow-sm">
-             <button 
-               onClick={() => setLanguage('en')}
-               className={`px-3 py-1 text-xs font-bold rounded transition-colors ${language === 'en' ? 'bg-indigo-50 text-indigo-600' : 'text-slate-500 hover:bg-slate-50'}`}
-             >
-               EN
-             </button>
-             <button 
-               onClick={() => setLanguage('zh')}
-               className={`px-3 py-1 text-xs font-bold rounded transition-colors ${language === 'zh' ? 'bg-indigo-50 text-indigo-600' : 'text-slate-500 hover:bg-slate-50'}`}
-             >
-               中文
-             </button>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setShowStorageModal(true)}
+              title={storageSettings.mode === 'server' ? storageSettings.serverUrl : undefined}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-bold rounded-lg bg-white border border-slate-200 shadow-sm text-slate-600 hover:bg-slate-50 transition-colors"
+            >
+              {storageSettings.mode === 'server'
+                ? <><Cloud className="w-3.5 h-3.5 text-indigo-500" /> {t('storage_settings.server')}</>
+                : <><HardDrive className="w-3.5 h-3.5" /> {t('storage_settings.local')}</>}
+            </button>
+            <button
+              onClick={() => setShowImportModal(true)}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-bold rounded-lg bg-white border border-slate-200 shadow-sm text-slate-600 hover:bg-slate-50 transition-colors"
+            >
+              <Upload className="w-3.5 h-3.5" /> {t('bundle.import')}
+            </button>
+            <button
+              onClick={() => setShowExportModal(true)}
+              disabled={projects.length === 0}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-bold rounded-lg bg-white border border-slate-200 shadow-sm text-slate-600 hover:bg-slate-50 transition-colors disabled:opacity-40"
+            >
+              <Download className="w-3.5 h-3.5" /> {t('bundle.export')}
+            </button>
+            <div className="flex bg-white rounded-lg p-1 border border-slate-200 shadow-sm">
+               <button 
+                 onClick={() => setLanguage('en')}
+                 className={`px-3 py-1 text-xs font-bold rounded transition-colors ${language === 'en' ? 'bg-indigo-50 text-indigo-600' : 'text-slate-500 hover:bg-slate-50'}`}
+               >
+                 EN
+               </button>
+               <button 
+                 onClick={() => setLanguage('zh')}
+                 className={`px-3 py-1 text-xs font-bold rounded transition-colors ${language === 'zh' ? 'bg-indigo-50 text-indigo-600' : 'text-slate-500 hover:bg-slate-50'}`}
+               >
+                 中文
+               </button>
+            </div>
           </div>
         </div>
 
+        {/* Unreadable data set aside on load */}
+        {recovered && (
+          <div className="flex items-start gap-3 p-4 rounded-xl border border-amber-200 bg-amber-50 text-amber-800">
+            <AlertTriangle className="w-5 h-5 shrink-0 mt-0.5" />
+            <div className="flex-1 text-sm">
+              <p className="font-semibold">{t('recovery.title')}</p>
+              <p className="mt-1 text-amber-700">
+                {recovered.key
+                  ? t('recovery.kept_aside').replace('{key}', recovered.key)
+                  : t('recovery.not_kept')}
+              </p>
+            </div>
+            <button
+              onClick={onDownloadRecovered}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-bold rounded-lg bg-white border border-amber-200 text-amber-700 hover:bg-amber-100 transition-colors"
+            >
+              <Download className="w-3.5 h-3.5" /> {t('recovery.download')}
+            </button>
+            <button
+              onClick={onDismissRecovered}
+              title={t('recovery.dismiss')}
+              className="p-1.5 rounded-lg text-amber-600 hover:bg-amber-100 transition-colors"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+
+        {/* Failed writes, most often a full storage quota */}
+        {storageError && (
+          <div className="flex items-start gap-3 p-4 rounded-xl border border-red-200 bg-red-50 text-red-800">
+            <AlertTriangle className="w-5 h-5 shrink-0 mt-0.5" />
+            <p className="flex-1 text-sm font-semibold">{t(`storage.${storageError}`)}</p>
+            <button
+              onClick={onDismissStorageError}
+              title={t('recovery.dismiss')}
+              className="p-1.5 rounded-lg text-red-600 hover:bg-red-100 transition-colors"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+
         {/* Pinned Section */}
         {showPinnedSection && (
           <section>
@@ -72,6 +168,14 @@ export const Dashboard: React.FC<DashboardProps> = ({
                     e.stopPropagation();
                     onTogglePin(project.id, e);
                   }}
+                  onExport={(e) => {
+                    e.stopPropagation();
+                    onExportProjects([project]);
+                  }}
+                  onPresent={(e) => {
+                    e.stopPropagation();
+                    onPresentProject(project.id);
+                  }}
                 />
               ))}
             </div>
@@ -109,12 +213,44 @@ export const Dashboard: React.FC<DashboardProps> = ({
                     e.stopPropagation();
                     onTogglePin(project.id, e);
                   }}
+                  onExport={(e) => {
+                    e.stopPropagation();
+                    onExportProjects([project]);
+                  }}
+                  onPresent={(e) => {
+                    e.stopPropagation();
+                    onPresentProject(project.id);
+                  }}
                 />
             ))}
           </div>
         </section>
 
       </div>
+
+      {showExportModal && (
+        <ExportProjectsModal
+          projects={projects}
+          onExport={(selected) => { onExportProjects(selected); setShowExportModal(false); }}
+          onClose={() => setShowExportModal(false)}
+        />
+      )}
+      {showImportModal && (
+        <ImportProjectsModal
+          existingProjects={projects}
+          onImport={(imported, strategy) => { onImportProjects(imported, strategy); setShowImportModal(false); }}
+          onClose={() => setShowImportModal(false)}
+        />
+      )}
+
+      {showStorageModal && (
+        <StorageSettingsModal
+          settings={storageSettings}
+          projectCount={projects.length}
+          onApply={onChangeStorage}
+          onClose={() => setShowStorageModal(false)}
+        />
+      )}
     </div>
   );
 };
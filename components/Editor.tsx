@@ -1,28 +1,55 @@
 
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import GraphCanvas, { GraphCanvasHandle } from './GraphCanvas';
-import { GraphData, EventSequence, GraphNode, GraphLink, ThemeConfig, GraphProject, AtomicStep, ParallelStep, EnvironmentZone, EnvironmentLabel } from '../types';
+import { GraphData, EventSequence, GraphNode, GraphLink, ThemeConfig, GraphProject, ProjectRevision, AtomicStep, ParallelStep, BranchStep, RepeatStep, EnvironmentZone, EnvironmentLabel } from '../types';
 import { EditorToolbar } from './editor/EditorToolbar';
 import { DevToolsSidebar } from './editor/DevToolsSidebar';
 import { DirectorSidebar } from './editor/DirectorSidebar';
 import { ImportFromAIModal } from './editor/ImportFromAIModal';
+import { ImportDiagramModal } from './editor/ImportDiagramModal';
+import { RevisionDiffModal } from './editor/RevisionDiffModal';
+import { DiagramExportFormat, DIAGRAM_EXPORT_FILES, exportDiagram } from '../utils/diagramExport';
+import { ImageExportOptions } from '../utils/imageExport';
 import { Minimap } from './graph/Minimap';
+import { useEditorHistory } from '../hooks/useEditorHistory';
+import { useCollaboration } from '../hooks/useCollaboration';
+import { CollabState } from '../utils/collabDoc';
+import { AnimationExportFormat, ExportProgressCallback } from '../utils/animationExport';
+import { downloadBlob, toFileName } from '../utils/fileDownload';
+import { SubgraphClipboard, pasteSubgraph } from '../utils/subgraphClipboard';
+import { StorageErrorKind, classifyStorageError } from '../utils/projectStorage';
+import { CURRENT_REVISION_ID, RevisionRequest, createRevision, revisionsToPrune, shouldAutoSnapshot } from '../utils/projectRevisions';
+import { assignLinkIds, createLinkId, getLinkId } from '../utils/linkGeometry';
+
+// Quiet period after the last edit before the project is written
+const AUTOSAVE_DELAY_MS = 1500;
 
 interface EditorProps {
   initialProject: GraphProject;
-  onSave: (project: GraphProject) => void;
+  // Resolves with the revision created for `snapshot`, if one was requested
+  onSave: (project: GraphProject, snapshot?: RevisionRequest) => Promise<ProjectRevision | null>;
+  onLoadRevisions: () => Promise<ProjectRevision[]>;
+  // Backend to edit live through; null when projects are stored locally
+  collabServerUrl: string | null;
   onBack: () => void;
 }
 
-const Editor: React.FC<EditorProps> = ({ initialProject, onSave, onBack }) => {
+const Editor: React.FC<EditorProps> = ({ initialProject, onSave, onLoadRevisions, collabServerUrl, onBack }) => {
   // --- UI State ---
   const [devMode, setDevMode] = useState(false);
   const [isDirectorMode, setIsDirectorMode] = useState(false);
   const [isLinkMode, setIsLinkMode] = useState(false);
-  const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved'>('idle');
+  const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
+  const [saveError, setSaveError] = useState<StorageErrorKind | null>(null);
   const [isDirty, setIsDirty] = useState(false);
   const [canvasKey, setCanvasKey] = useState(0);
   const [showImportModal, setShowImportModal] = useState(false);
+  const [showDiagramImportModal, setShowDiagramImportModal] = useState(false);
+  const [revisions, setRevisions] = useState<ProjectRevision[]>([]);
+  const [comparedRevisions, setComparedRevisions] = useState<[ProjectRevision, ProjectRevision] | null>(null);
+  // Set by a restore so the snapshot is taken once the restored state has rendered
+  const [pendingSnapshot, setPendingSnapshot] = useState<RevisionRequest | null>(null);
+  const [isCollabEnabled, setIsCollabEnabled] = useState(false);
 
   // --- Data State ---
   const [projectName, setProjectName] = useState(initialProject.name);
@@ -41,7 +68,7 @@ const Editor: React.FC<EditorProps> = ({ initialProject, onSave, onBack }) => {
   const [draftEventData, setDraftEventData] = useState<EventSequence>(initialProject.eventData);
   const [directorPicking, setDirectorPicking] = useState<'source' | 'target' | null>(null);
   const [isContinuousPick, setIsContinuousPick] = useState(false);
-  const [currentPickInfo, setCurrentPickInfo] = useState<{ source?: string, groupIndex?: number } | null>(null);
+  const [currentPickInfo, setCurrentPickInfo] = useState<{ source?: string, groupIndex?: number, outcomeIndex?: number } | null>(null);
   const [isDirectorConfigOpen, setIsDirectorConfigOpen] = useState(false);
   const [preDirectorGraphData, setPreDirectorGraphData] = useState<GraphData | null>(null);
   const [directorDefaults, setDirectorDefaults] = useState({ 
@@ -55,10 +82,14 @@ const Editor: React.FC<EditorProps> = ({ initialProject, onSave, onBack }) => {
 
   const canvasRef = useRef<GraphCanvasHandle>(null);
   const isFirstRender = useRef(true);
+  // Bumped on every edit so a save only clears the edits it actually wrote
+  const editRevision = useRef(0);
+  const history = useEditorHistory();
 
   // --- Effects ---
   useEffect(() => {
     if (isFirstRender.current) { isFirstRender.current = false; return; }
+    editRevision.current += 1;
     setIsDirty(true);
     if (saveStatus === 'saved') setSaveStatus('idle');
   }, [graphData, themeData, eventData, projectName]);
@@ -96,6 +127,27 @@ const Editor: React.FC<EditorProps> = ({ initialProject, onSave, onBack }) => {
     return () => window.removeEventListener('keydown', handleEsc);
   }, []);
 
+  useEffect(() => {
+    const handleUndoKeys = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && e.shiftKey) {
+        e.preventDefault();
+        history.redo();
+      } else if (key === 'z') {
+        e.preventDefault();
+        history.undo();
+      } else if (key === 'y') {
+        e.preventDefault();
+        history.redo();
+      }
+    };
+    window.addEventListener('keydown', handleUndoKeys);
+    return () => window.removeEventListener('keydown', handleUndoKeys);
+  }, [history]);
+
   useEffect(() => {
     const validate = (text: string, type: 'graph' | 'theme' | 'event') => {
       try {
@@ -119,7 +171,8 @@ const Editor: React.FC<EditorProps> = ({ initialProject, onSave, onBack }) => {
       group: rest.group,
       x: rest.x !== undefined ? Math.round(rest.x) : 0,
       y: rest.y !== undefined ? Math.round(rest.y) : 0,
-      apparence: rest.apparence,
+      // Graph JSON pasted in Dev Mode or returned by AI import may still use the old spelling
+      appearance: rest.appearance ?? rest.apparence,
       activeStates: rest.activeStates || [],
       meta_data: rest.meta_data || {}
     };
@@ -127,33 +180,181 @@ const Editor: React.FC<EditorProps> = ({ initialProject, onSave, onBack }) => {
 
   const cleanLinkData = (link: any): GraphLink => {
     return {
+      ...(link.id ? { id: link.id } : {}),
       source: (link.source as any).id || link.source,
       target: (link.target as any).id || link.target,
-      activeStates: link.activeStates || []
+      activeStates: link.activeStates || [],
+      ...(link.direction ? { direction: link.direction } : {}),
+      ...(link.routing ? { routing: link.routing } : {}),
+      ...(link.meta_data ? { meta_data: link.meta_data } : {})
     };
   };
 
+  // --- History ---
+  // Every persistent edit goes through a commit* helper so it lands on the
+  // undo stack. Graph edits made in Director Mode are discarded when it
+  // closes, so they bypass history.
+  // Links arriving without an id (imports, pasted JSON) get one here
+  const applyGraphData = (data: GraphData) => {
+    const withIds = { ...data, links: assignLinkIds(data.links) };
+    setGraphData(withIds);
+    setGraphJson(JSON.stringify(withIds, null, 2));
+  };
+
+  const applyThemeData = (data: ThemeConfig) => {
+    setThemeData(data);
+    setThemeJson(JSON.stringify(data, null, 2));
+  };
+
+  const applyEventData = (data: EventSequence) => {
+    setEventData(data);
+    setEventJson(JSON.stringify(data, null, 2));
+  };
+
+  const commitGraphData = (label: string, next: GraphData) => {
+    if (isDirectorMode) {
+      applyGraphData(next);
+      return;
+    }
+    const previous = graphData;
+    history.execute({ label, scope: 'graph', redo: () => applyGraphData(next), undo: () => applyGraphData(previous) });
+  };
+
+  const commitThemeData = (label: string, next: ThemeConfig) => {
+    const previous = themeData;
+    history.execute({ label, scope: 'theme', redo: () => applyThemeData(next), undo: () => applyThemeData(previous) });
+  };
+
+  const commitEventData = (label: string, next: EventSequence) => {
+    const previous = eventData;
+    history.execute({ label, scope: 'script', redo: () => applyEventData(next), undo: () => applyEventData(previous) });
+  };
+
   // --- Handlers: Data & Save ---
-  const handleManualSave = () => {
-    setSaveStatus('saving');
-    const updatedProject: GraphProject = { 
+  const buildProject = (): GraphProject => {
+    // Director Mode previews node states on a scratch copy of the graph
+    const savedGraph = preDirectorGraphData ?? graphData;
+    return { 
       ...initialProject, 
       name: projectName, 
       graphData: {
-        ...graphData,
-        nodes: graphData.nodes.map(cleanNodeData),
-        links: graphData.links.map(cleanLinkData)
+        ...savedGraph,
+        nodes: savedGraph.nodes.map(cleanNodeData),
+        links: savedGraph.links.map(cleanLinkData)
       }, 
       themeData, 
       eventData, 
       updatedAt: Date.now() 
     };
-    onSave(updatedProject);
-    setTimeout(() => { setSaveStatus('saved'); setIsDirty(false); }, 500);
-    setTimeout(() => { setSaveStatus(prev => prev === 'saved' ? 'idle' : prev); }, 2500);
   };
 
-  const handleApply = (type: 'graph' | 'theme' | 'event', jsonText: string, setter: Function) => {
+  // Autosaves pass no snapshot and only add one if the last is old enough
+  const handleSave = async (snapshot?: RevisionRequest): Promise<boolean> => {
+    setSaveStatus('saving');
+    const revision = editRevision.current;
+    const request = snapshot ?? (shouldAutoSnapshot(revisions, Date.now()) ? { kind: 'auto' as const } : undefined);
+    let created: ProjectRevision | null;
+    try {
+      created = await onSave(buildProject(), request);
+    } catch (e) {
+      console.error("Failed to save project:", e);
+      setSaveError(classifyStorageError(e));
+      setSaveStatus('error');
+      return false;
+    }
+    if (created) {
+      setRevisions(prev => {
+        const next = [created!, ...prev];
+        const pruned = new Set(revisionsToPrune(next));
+        return next.filter(r => !pruned.has(r.id));
+      });
+    }
+    setSaveError(null);
+    setSaveStatus('saved');
+    if (editRevision.current === revision) setIsDirty(false);
+    setTimeout(() => { setSaveStatus(prev => prev === 'saved' ? 'idle' : prev); }, 2000);
+    return true;
+  };
+
+  // Autosave once editing pauses; every further edit restarts the countdown
+  useEffect(() => {
+    if (!isDirty) return;
+    const timer = setTimeout(() => handleSave(), AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [isDirty, graphData, themeData, eventData, projectName]);
+
+  useEffect(() => {
+    onLoadRevisions().then(setRevisions).catch(e => console.error("Failed to load revisions:", e));
+  }, []);
+
+  useEffect(() => {
+    if (!pendingSnapshot) return;
+    setPendingSnapshot(null);
+    handleSave(pendingSnapshot);
+  }, [pendingSnapshot]);
+
+  const handleBack = async () => {
+    if (isDirty && !(await handleSave())) return;
+    onBack();
+  };
+
+  // Restoring is an ordinary undoable edit, saved as a new revision on top
+  const handleRestoreRevision = (revision: ProjectRevision) => {
+    const apply = (name: string, graph: GraphData, theme: ThemeConfig, events: EventSequence) => {
+      setProjectName(name);
+      applyGraphData(graph);
+      // In Director Mode the saved graph is the pre-director copy, so it has to change too
+      setPreDirectorGraphData(current => current && graph);
+      applyThemeData(theme);
+      applyEventData(events);
+    };
+    const previous = { name: projectName, graph: preDirectorGraphData ?? graphData, theme: themeData, events: eventData };
+    const { name, graphData: graph, themeData: theme, eventData: events } = JSON.parse(JSON.stringify(revision.project)) as GraphProject;
+    history.execute({
+      label: 'history.revision_restore',
+      scope: 'graph',
+      redo: () => apply(name, graph, theme, events),
+      undo: () => apply(previous.name, previous.graph, previous.theme, previous.events),
+    });
+    setPendingSnapshot({ kind: 'restore', restoredFrom: revision.id });
+  };
+
+  // --- Live editing ---
+  const collabState = useMemo<CollabState>(() => {
+    const { name, graphData: graph, themeData: theme, eventData: events } = buildProject();
+    return { name, graphData: graph, themeData: theme, eventData: events };
+  }, [projectName, graphData, preDirectorGraphData, themeData, eventData]);
+
+  // Peers' edits replace local state directly and stay out of our undo stack
+  const handleRemoteState = (remote: CollabState) => {
+    const differs = (a: unknown, b: unknown) => JSON.stringify(a) !== JSON.stringify(b);
+    if (remote.name !== collabState.name) setProjectName(remote.name);
+    if (differs(remote.graphData, collabState.graphData)) {
+      if (preDirectorGraphData) setPreDirectorGraphData(remote.graphData);
+      else applyGraphData(remote.graphData);
+    }
+    if (differs(remote.themeData, collabState.themeData)) applyThemeData(remote.themeData);
+    if (differs(remote.eventData, collabState.eventData)) applyEventData(remote.eventData);
+  };
+
+  const collab = useCollaboration({
+    enabled: isCollabEnabled,
+    serverUrl: collabServerUrl,
+    projectId: initialProject.id,
+    state: collabState,
+    onRemoteState: handleRemoteState,
+  });
+
+  const handleCompareRevisions = (beforeId: string, afterId: string) => {
+    const current = { ...createRevision(buildProject(), { kind: 'manual' }), id: CURRENT_REVISION_ID };
+    const find = (id: string) => id === CURRENT_REVISION_ID ? current : revisions.find(r => r.id === id);
+    const before = find(beforeId);
+    const after = find(afterId);
+    if (!before || !after) return;
+    setComparedRevisions(before.createdAt <= after.createdAt ? [before, after] : [after, before]);
+  };
+
+  const handleApply = (type: 'graph' | 'theme' | 'event', jsonText: string) => {
     try {
       const parsed = JSON.parse(jsonText);
       if (type === 'graph') {
@@ -163,13 +364,12 @@ const Editor: React.FC<EditorProps> = ({ initialProject, onSave, onBack }) => {
           links: parsed.links.map(cleanLinkData),
           environments: parsed.environments 
         };
-        setter(cleaned);
-        setGraphJson(JSON.stringify(cleaned, null, 2));
+        commitGraphData('history.graph_apply', cleaned);
       } else if (type === 'event') {
         if (!Array.isArray(parsed.steps)) throw new Error("Missing steps array");
-        setter(parsed);
+        commitEventData('history.script_apply', parsed);
       } else {
-        setter(parsed);
+        commitThemeData('history.theme_apply', parsed);
       }
       setErrors(prev => ({ ...prev, [type]: '' }));
     } catch (e: any) { setErrors(prev => ({ ...prev, [type]: e.message })); }
@@ -180,54 +380,83 @@ const Editor: React.FC<EditorProps> = ({ initialProject, onSave, onBack }) => {
     const resetNodes = mountGraphData.nodes.map(cleanNodeData);
     const resetLinks = mountGraphData.links.map(cleanLinkData);
     const resetData = { nodes: resetNodes, links: resetLinks, environments: mountGraphData.environments };
-    setGraphData(resetData);
-    setGraphJson(JSON.stringify(resetData, null, 2));
+    commitGraphData('history.graph_reset', resetData);
     setCanvasKey(prev => prev + 1);
   };
 
-  const handleUpdate = (nodes: GraphNode[], links: GraphLink[]) => {
+  const handleUpdate = (nodes: GraphNode[], links: GraphLink[], label: string) => {
     const newData = { ...graphData, nodes: nodes.map(cleanNodeData), links: links.map(cleanLinkData) };
-    setGraphData(newData);
-    setGraphJson(JSON.stringify(newData, null, 2));
+    commitGraphData(label, newData);
+  };
+
+  // The states an animation leaves behind are playback output, not an edit,
+  // so they are applied without an undo entry
+  const handleSimulationEnd = (nodes: GraphNode[], links: GraphLink[]) => {
+    applyGraphData({ ...graphData, nodes: nodes.map(cleanNodeData), links: links.map(cleanLinkData) });
   };
 
-  const handleNodeDelete = (nodeId: string) => {
-    const filteredNodes = graphData.nodes.filter(n => n.id !== nodeId);
+  const handleNodesDelete = (nodeIds: string[], label = 'history.nodes_delete') => {
+    const removed = new Set(nodeIds);
+    const filteredNodes = graphData.nodes.filter(n => !removed.has(n.id));
     const filteredLinks = graphData.links.filter(l => {
       const sourceId = (l.source as any).id || l.source;
       const targetId = (l.target as any).id || l.target;
-      return sourceId !== nodeId && targetId !== nodeId;
+      return !removed.has(sourceId) && !removed.has(targetId);
     });
     const newData = { ...graphData, nodes: filteredNodes.map(cleanNodeData), links: filteredLinks.map(cleanLinkData) };
-    setGraphData(newData);
-    setGraphJson(JSON.stringify(newData, null, 2));
+    commitGraphData(label, newData);
   };
 
-  const handleLinkDelete = (sourceId: string, targetId: string) => {
-    const filteredLinks = graphData.links.filter(l => {
-      const s = (l.source as any).id || l.source;
-      const t = (l.target as any).id || l.target;
-      return !((s === sourceId && t === targetId) || (s === targetId && t === sourceId));
-    });
+  const handleNodeDelete = (nodeId: string) => handleNodesDelete([nodeId], 'history.node_delete');
+
+  const handleLinkDelete = (linkId: string) => {
+    const filteredLinks = graphData.links.filter(l => getLinkId(l) !== linkId);
     const newData = { ...graphData, links: filteredLinks.map(cleanLinkData) };
-    setGraphData(newData);
-    setGraphJson(JSON.stringify(newData, null, 2));
+    commitGraphData('history.link_delete', newData);
+  };
+
+  const handleLinkUpdate = (link: GraphLink) => {
+    const newLinks = graphData.links.map(l => getLinkId(l) === getLinkId(link) ? link : l);
+    commitGraphData('history.link_edit', { ...graphData, links: newLinks.map(cleanLinkData) });
   };
 
-  const handleNodeUpdateSingle = (updatedNode: GraphNode) => {
-    const cleanUpdate = cleanNodeData(updatedNode);
-    const newNodes = graphData.nodes.map(n => n.id === cleanUpdate.id ? cleanUpdate : n);
+  const handleNodesUpdate = (updatedNodes: GraphNode[], label = 'history.nodes_edit') => {
+    const updates = new Map(updatedNodes.map(n => [n.id, cleanNodeData(n)]));
+    const newNodes = graphData.nodes.map(n => updates.get(n.id) || n);
     const newData = { ...graphData, nodes: newNodes };
-    setGraphData(newData);
-    setGraphJson(JSON.stringify(newData, null, 2));
+    commitGraphData(label, newData);
   };
 
+  const handleNodeUpdateSingle = (updatedNode: GraphNode) => handleNodesUpdate([updatedNode], 'history.node_edit');
+
   const handleNodeAdd = (x?: number, y?: number) => {
     const newId = (Math.max(0, ...graphData.nodes.map(n => parseInt(n.id) || 0)) + 1).toString();
     const newNode: GraphNode = { id: newId, label: `Node ${newId}`, group: 0, x: x ?? 400, y: y ?? 300, activeStates: [], meta_data: {} };
     const newData = { ...graphData, nodes: [...graphData.nodes, newNode].map(cleanNodeData) };
-    setGraphData(newData);
-    setGraphJson(JSON.stringify(newData, null, 2));
+    commitGraphData('history.node_add', newData);
+  };
+
+  const handleSubgraphPaste = (subgraph: SubgraphClipboard, offset: { x: number; y: number }, mode: 'paste' | 'duplicate') => {
+    const { data, nodeIds } = pasteSubgraph(graphData, subgraph, offset);
+    const newData = { ...data, nodes: data.nodes.map(cleanNodeData), links: data.links.map(cleanLinkData) };
+    commitGraphData(mode === 'paste' ? 'history.paste' : 'history.duplicate', newData);
+    return nodeIds;
+  };
+
+  const handleExportAnimation = async (format: AnimationExportFormat, onProgress: ExportProgressCallback) => {
+    const blob = await canvasRef.current?.exportAnimation(eventData, format, projectName, onProgress);
+    if (blob) downloadBlob(blob, toFileName(projectName, format));
+  };
+
+  const handleExportDiagram = (format: DiagramExportFormat) => {
+    const { extension, mimeType } = DIAGRAM_EXPORT_FILES[format];
+    const text = exportDiagram(graphData, themeData, format, projectName);
+    downloadBlob(new Blob([text], { type: mimeType }), toFileName(projectName, extension));
+  };
+
+  const handleExportImage = async (options: ImageExportOptions) => {
+    const blob = await canvasRef.current?.exportImage(options, projectName);
+    if (blob) downloadBlob(blob, toFileName(projectName, options.format));
   };
 
   const handleImportFromAI = (imported: GraphData) => {
@@ -236,24 +465,27 @@ const Editor: React.FC<EditorProps> = ({ initialProject, onSave, onBack }) => {
       links: imported.links.map(cleanLinkData),
       environments: imported.environments,
     };
-    setGraphData(cleaned);
-    setGraphJson(JSON.stringify(cleaned, null, 2));
+    commitGraphData('history.ai_import', cleaned);
     setCanvasKey(prev => prev + 1);
     setShowImportModal(false);
   };
 
+  const handleImportDiagram = (imported: GraphData) => {
+    const cleaned = {
+      nodes: imported.nodes.map(cleanNodeData),
+      links: imported.links.map(cleanLinkData),
+      environments: imported.environments,
+    };
+    commitGraphData('history.diagram_import', cleaned);
+    setCanvasKey(prev => prev + 1);
+    setShowDiagramImportModal(false);
+  };
+
+  // Pairs may hold several links (e.g. a request and its reply) and a node may link to itself
   const handleLinkAdd = (sourceId: string, targetId: string) => {
-    const exists = graphData.links.some(l => {
-      const s = (l.source as any).id || l.source;
-      const t = (l.target as any).id || l.target;
-      return (s === sourceId && t === targetId) || (s === targetId && t === sourceId);
-    });
-    if (!exists) {
-      const newLinks = [...graphData.links, { source: sourceId, target: targetId, activeStates: [] }];
-      const newData = { ...graphData, links: newLinks.map(cleanLinkData) };
-      setGraphData(newData);
-      setGraphJson(JSON.stringify(newData, null, 2));
-    }
+    const newLink: GraphLink = { id: createLinkId(graphData.links, sourceId, targetId), source: sourceId, target: targetId, activeStates: [] };
+    const newData = { ...graphData, links: [...graphData.links, newLink].map(cleanLinkData) };
+    commitGraphData('history.link_add', newData);
   };
 
   // Environment Handlers
@@ -267,8 +499,7 @@ const Editor: React.FC<EditorProps> = ({ initialProject, onSave, onBack }) => {
         labels: graphData.environments?.labels || []
       } 
     };
-    setGraphData(newData);
-    setGraphJson(JSON.stringify(newData, null, 2));
+    commitGraphData('history.zone_add', newData);
   };
 
   const handleZoneUpdate = (updatedZone: EnvironmentZone) => {
@@ -356,8 +587,7 @@ const Editor: React.FC<EditorProps> = ({ initialProject, onSave, onBack }) => {
           labels: currentLabels
         } 
       };
-      setGraphData(newData);
-      setGraphJson(JSON.stringify(newData, null, 2));
+      commitGraphData('history.zone_edit', newData);
 
     } else {
       const newZones = currentZones.map(z => z.id === updatedZone.id ? { 
@@ -373,8 +603,7 @@ const Editor: React.FC<EditorProps> = ({ initialProject, onSave, onBack }) => {
           labels: currentLabels
         } 
       };
-      setGraphData(newData);
-      setGraphJson(JSON.stringify(newData, null, 2));
+      commitGraphData('history.zone_edit', newData);
     }
   };
 
@@ -389,8 +618,7 @@ const Editor: React.FC<EditorProps> = ({ initialProject, onSave, onBack }) => {
         labels: graphData.environments?.labels || []
       }
     };
-    setGraphData(newData);
-    setGraphJson(JSON.stringify(newData, null, 2));
+    commitGraphData('history.zone_delete', newData);
   };
 
   const handleZoneOrder = (id: string, direction: 'front' | 'back') => {
@@ -415,8 +643,7 @@ const Editor: React.FC<EditorProps> = ({ initialProject, onSave, onBack }) => {
         labels: graphData.environments?.labels || []
       }
     };
-    setGraphData(newData);
-    setGraphJson(JSON.stringify(newData, null, 2));
+    commitGraphData('history.zone_order', newData);
   };
 
   const handleLabelAdd = (label: EnvironmentLabel) => {
@@ -429,8 +656,7 @@ const Editor: React.FC<EditorProps> = ({ initialProject, onSave, onBack }) => {
         zones: graphData.environments?.zones || []
       } 
     };
-    setGraphData(newData);
-    setGraphJson(JSON.stringify(newData, null, 2));
+    commitGraphData('history.label_add', newData);
   };
 
   const handleLabelUpdate = (updatedLabel: EnvironmentLabel) => {
@@ -444,8 +670,7 @@ const Editor: React.FC<EditorProps> = ({ initialProject, onSave, onBack }) => {
         zones: graphData.environments?.zones || []
       } 
     };
-    setGraphData(newData);
-    setGraphJson(JSON.stringify(newData, null, 2));
+    commitGraphData('history.label_edit', newData);
   };
 
   const handleLabelDelete = (id: string) => {
@@ -459,15 +684,14 @@ const Editor: React.FC<EditorProps> = ({ initialProject, onSave, onBack }) => {
         zones: graphData.environments?.zones || []
       }
     };
-    setGraphData(newData);
-    setGraphJson(JSON.stringify(newData, null, 2));
+    commitGraphData('history.label_delete', newData);
   };
 
   // --- Handlers: Director Mode ---
-  const startAtomicPick = (continuous: boolean = false, groupIndex?: number) => {
+  const startAtomicPick = (continuous: boolean = false, groupIndex?: number, outcomeIndex?: number) => {
     setDirectorPicking('source');
     setIsContinuousPick(continuous);
-    setCurrentPickInfo({ groupIndex });
+    setCurrentPickInfo({ groupIndex, outcomeIndex });
   };
 
   const handleDirectorNodePick = (nodeId: string) => {
@@ -489,9 +713,12 @@ const Editor: React.FC<EditorProps> = ({ initialProject, onSave, onBack }) => {
           durationFinal: directorDefaults.durationFinal || undefined
         };
         const updatedDraft = { ...draftEventData };
-        if (currentPickInfo?.groupIndex !== undefined) {
-          const group = updatedDraft.steps[currentPickInfo.groupIndex] as ParallelStep;
-          group.steps.push(newStep);
+        const groupStep = currentPickInfo?.groupIndex !== undefined ? updatedDraft.steps[currentPickInfo.groupIndex] : undefined;
+        if (groupStep?.type === 'branch') {
+          const outcome = (groupStep as BranchStep).outcomes[currentPickInfo?.outcomeIndex ?? 0];
+          outcome?.steps.push(newStep);
+        } else if (groupStep) {
+          (groupStep as ParallelStep | RepeatStep).steps.push(newStep);
         } else {
           updatedDraft.steps.push(newStep);
         }
@@ -516,8 +743,7 @@ const Editor: React.FC<EditorProps> = ({ initialProject, onSave, onBack }) => {
   };
 
   const commitDraftToScript = () => {
-    setEventData(JSON.parse(JSON.stringify(draftEventData)));
-    setEventJson(JSON.stringify(draftEventData, null, 2));
+    commitEventData('history.script_commit', JSON.parse(JSON.stringify(draftEventData)));
   };
 
   const isDraftDifferent = JSON.stringify(draftEventData) !== JSON.stringify(eventData);
@@ -531,18 +757,32 @@ const Editor: React.FC<EditorProps> = ({ initialProject, onSave, onBack }) => {
         <EditorToolbar 
           projectName={projectName}
           setProjectName={setProjectName}
-          onBack={onBack}
+          onBack={handleBack}
           onAddNode={() => handleNodeAdd()}
           onImportFromAI={() => setShowImportModal(true)}
+          onImportDiagram={() => setShowDiagramImportModal(true)}
+          onLayout={(algorithm) => canvasRef.current?.applyLayout(algorithm)}
+          onExportDiagram={handleExportDiagram}
+          onExportImage={handleExportImage}
           isLinkMode={isLinkMode}
           setIsLinkMode={setIsLinkMode}
           isDirectorMode={isDirectorMode}
           onToggleDirectorMode={() => { setIsDirectorMode(!isDirectorMode); if (!isDirectorMode) setDevMode(false); }}
           devMode={devMode}
           setDevMode={(val) => { setDevMode(val); if (val) setIsDirectorMode(false); }}
-          onSave={handleManualSave}
+          onSave={() => handleSave({ kind: 'manual' })}
+          revisions={revisions}
+          onCreateSnapshot={(label) => handleSave({ kind: 'manual', label })}
+          onRestoreRevision={handleRestoreRevision}
+          onCompareRevisions={handleCompareRevisions}
           saveStatus={saveStatus}
+          saveError={saveError}
           isDirty={isDirty}
+          history={history}
+          collab={collab}
+          isCollabAvailable={collabServerUrl !== null}
+          isCollabEnabled={isCollabEnabled}
+          onToggleCollab={() => setIsCollabEnabled(!isCollabEnabled)}
         />
 
         <GraphCanvas 
@@ -554,13 +794,19 @@ const Editor: React.FC<EditorProps> = ({ initialProject, onSave, onBack }) => {
           isDirectorMode={isDirectorMode}
           directorPicking={directorPicking}
           onDirectorPick={handleDirectorNodePick}
-          onNodeDragEnd={(nodes) => handleUpdate(nodes, graphData.links)}
+          onNodeDragEnd={(nodes) => handleUpdate(nodes, graphData.links, 'history.node_move')}
           onNodeDelete={handleNodeDelete}
           onNodeUpdate={handleNodeUpdateSingle}
+          onNodesDelete={handleNodesDelete}
+          onNodesUpdate={handleNodesUpdate}
+          onNodesArrange={(nodes) => handleUpdate(nodes, graphData.links, 'history.nodes_arrange')}
+          onLayoutApply={(nodes) => handleUpdate(nodes, graphData.links, 'history.layout_apply')}
+          onSubgraphPaste={handleSubgraphPaste}
           onNodeAdd={handleNodeAdd}
           onLinkAdd={handleLinkAdd}
           onLinkDelete={handleLinkDelete}
-          onSimulationEnd={handleUpdate}
+          onLinkUpdate={handleLinkUpdate}
+          onSimulationEnd={handleSimulationEnd}
           onZoneAdd={handleZoneAdd}
           onZoneUpdate={handleZoneUpdate}
           onZoneDelete={handleZoneDelete}
@@ -577,6 +823,8 @@ const Editor: React.FC<EditorProps> = ({ initialProject, onSave, onBack }) => {
               isDirectorMode={isDirectorMode}
             />
           )}
+          remotePeers={collab.status === 'live' ? collab.peers : undefined}
+          onPresenceChange={collab.updatePresence}
         />
       </div>
 
@@ -590,11 +838,12 @@ const Editor: React.FC<EditorProps> = ({ initialProject, onSave, onBack }) => {
           themeJson={themeJson} setThemeJson={setThemeJson}
           eventJson={eventJson} setEventJson={setEventJson}
           errors={errors}
-          onApplyGraph={() => handleApply('graph', graphJson, setGraphData)}
+          onApplyGraph={() => handleApply('graph', graphJson)}
           onResetGraph={handleResetData}
-          onApplyTheme={() => handleApply('theme', themeJson, setThemeData)}
-          onApplyEvent={() => handleApply('event', eventJson, setEventData)}
+          onApplyTheme={() => handleApply('theme', themeJson)}
+          onApplyEvent={() => handleApply('event', eventJson)}
           onRunAnimation={() => canvasRef.current?.runAnimation(eventData)}
+          onExportAnimation={handleExportAnimation}
         />
 
         <DirectorSidebar 
@@ -625,6 +874,22 @@ const Editor: React.FC<EditorProps> = ({ initialProject, onSave, onBack }) => {
           onClose={() => setShowImportModal(false)}
         />
       )}
+
+      {showDiagramImportModal && (
+        <ImportDiagramModal
+          onApply={handleImportDiagram}
+          onClose={() => setShowDiagramImportModal(false)}
+        />
+      )}
+
+      {comparedRevisions && (
+        <RevisionDiffModal
+          before={comparedRevisions[0]}
+          after={comparedRevisions[1]}
+          revisions={revisions}
+          onClose={() => setComparedRevisions(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,79 @@
+import React, { useEffect, useState } from 'react';
+import { AlertCircle, Loader2 } from 'lucide-react';
+import { GraphProject } from '../types';
+import { parseBundle } from '../utils/projectBundle';
+import { Presenter } from './Presenter';
+import { useTranslation } from '../i18n';
+
+// Messages exchanged with the page hosting the iframe
+export const EMBED_READY_MESSAGE = 'mijin:ready';
+export const EMBED_BUNDLE_MESSAGE = 'mijin:bundle';
+
+// Picks ?project=<id> from the bundle, or its first project
+function pickProject(projects: GraphProject[], projectId: string | null): GraphProject {
+  if (!projectId) return projects[0];
+  const project = projects.find((p) => p.id === projectId);
+  if (!project) throw new Error(`Project ${projectId} is not in the bundle`);
+  return project;
+}
+
+/**
+ * Presentation of one project from a .mijin bundle, for embedding in an
+ * iframe. The bundle is fetched from ?src=<url>, or posted by the parent page
+ * as { type: 'mijin:bundle', bundle } once the player reports 'mijin:ready';
+ * `bundle` may be the file text or its parsed JSON.
+ */
+export const EmbedPlayer: React.FC = () => {
+  const { t } = useTranslation();
+  const [project, setProject] = useState<GraphProject | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const projectId = params.get('project');
+    const load = (text: string) => {
+      try {
+        setProject(pickProject(parseBundle(text), projectId));
+        setError('');
+      } catch (err: any) {
+        setError(err.message);
+      }
+    };
+
+    const src = params.get('src');
+    if (src) {
+      fetch(src)
+        .then((response) => {
+          if (!response.ok) throw new Error(`Could not fetch the bundle (HTTP ${response.status})`);
+          return response.text();
+        })
+        .then(load)
+        .catch((err) => setError(err.message));
+      return;
+    }
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type !== EMBED_BUNDLE_MESSAGE) return;
+      const { bundle } = event.data;
+      load(typeof bundle === 'string' ? bundle : JSON.stringify(bundle));
+    };
+    window.addEventListener('message', handleMessage);
+    window.parent.postMessage({ type: EMBED_READY_MESSAGE }, '*');
+    return () => window.removeEventListener('message', handleMessage);
+  }, []);
+
+  if (project) return <Presenter project={project} />;
+
+  return (
+    <div className="h-screen w-full flex items-center justify-center bg-slate-50 p-6">
+      {error ? (
+        <div className="flex items-start gap-2 bg-red-50 border border-red-200 rounded-lg px-3 py-2.5 text-sm text-red-700 max-w-md">
+          <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <span>{t('presenter.load_failed').replace('{error}', error)}</span>
+        </div>
+      ) : (
+        <Loader2 className="w-6 h-6 text-slate-400 animate-spin" />
+      )}
+    </div>
+  );
+};
@@ -1,4 +1,4 @@
-import React, { useEffect, forwardRef, useImperativeHandle, useMemo, useState } from 'react';
+import React, { useCallback, useEffect, forwardRef, useImperativeHandle, useMemo, useRef, useState } from 'react';
 import {
   GraphData,
   GraphNode,
@@ -11,17 +11,36 @@ import {
 } from '../types';
 import { GraphControls } from './graph/GraphControls';
 import { DirectorOverlay } from './graph/DirectorOverlay';
+import { BranchPrompt } from './graph/BranchPrompt';
 import { LinkControls } from './graph/LinkControls';
 import { GraphContextMenu } from './graph/GraphContextMenu';
 import { EnvironmentContextMenu } from './graph/EnvironmentContextMenu';
 import { MinimapNode, MinimapZone, WorldBounds, ViewportBounds } from './graph/Minimap';
+import { PresenceOverlay } from './graph/PresenceOverlay';
+import { CaptionOverlay } from './graph/CaptionOverlay';
 import { Plus, Square, Type } from 'lucide-react';
-import { useGraphSimulation } from '../hooks/useGraphSimulation';
+import { useGraphSimulation, PlaybackControls } from '../hooks/useGraphSimulation';
+import { CollabPeer, CollabPresence } from '../hooks/useCollaboration';
+import { AnimationExportFormat, ExportProgressCallback } from '../utils/animationExport';
+import { ImageExportOptions } from '../utils/imageExport';
+import { ArrangeCommand, arrangeNodes } from '../utils/selectionLayout';
+import { LayoutAlgorithm, LayoutPoint, computeLayout } from '../utils/graphLayouts';
+import { getLinkId } from '../utils/linkGeometry';
+import { findLinkPath } from '../utils/graphStyling';
+import {
+  SubgraphClipboard,
+  extractSubgraph,
+  getSubgraphCenter,
+  parseSubgraph,
+  serializeSubgraph,
+} from '../utils/subgraphClipboard';
 
 interface GraphCanvasProps {
   data: GraphData;
   theme: ThemeConfig;
   readonly?: boolean;
+  // Presentation: full editor rendering and playback, no editing
+  presenting?: boolean;
   isLinkMode?: boolean;
   isDirectorMode?: boolean;
   directorPicking?: 'source' | 'target' | null;
@@ -29,9 +48,16 @@ interface GraphCanvasProps {
   onNodeDragEnd?: (nodes: GraphNode[]) => void;
   onNodeDelete?: (nodeId: string) => void;
   onNodeUpdate?: (node: GraphNode) => void;
+  onNodesDelete?: (nodeIds: string[]) => void;
+  onNodesUpdate?: (nodes: GraphNode[]) => void;
+  onNodesArrange?: (nodes: GraphNode[]) => void;
+  onLayoutApply?: (nodes: GraphNode[]) => void;
+  // Inserts a copied subgraph shifted by `offset` and returns the new node ids
+  onSubgraphPaste?: (subgraph: SubgraphClipboard, offset: { x: number; y: number }, mode: 'paste' | 'duplicate') => string[];
   onNodeAdd?: (x: number, y: number) => void;
   onLinkAdd?: (sourceId: string, targetId: string) => void;
-  onLinkDelete?: (sourceId: string, targetId: string) => void;
+  onLinkDelete?: (linkId: string) => void;
+  onLinkUpdate?: (link: GraphLink) => void;
   onSimulationEnd?: (nodes: GraphNode[], links: GraphLink[]) => void;
   onZoneAdd?: (zone: EnvironmentZone) => void;
   onZoneUpdate?: (zone: EnvironmentZone) => void;
@@ -41,17 +67,35 @@ interface GraphCanvasProps {
   onLabelUpdate?: (label: EnvironmentLabel) => void;
   onLabelDelete?: (id: string) => void;
   renderMinimap?: (snapshot: MinimapSnapshot) => React.ReactNode;
+  // Live editing: other people's cursors and selections, and ours to share
+  remotePeers?: CollabPeer[];
+  onPresenceChange?: (presence: Partial<Pick<CollabPresence, 'cursor' | 'nodeIds' | 'zoneId'>>) => void;
 }
 
 export interface GraphCanvasHandle {
   runAnimation: (sequence: EventSequence) => void;
   runSingleStep: (step: SimulationAction) => void;
+  exportAnimation: (
+    sequence: EventSequence,
+    format: AnimationExportFormat,
+    title: string,
+    onProgress?: ExportProgressCallback,
+  ) => Promise<Blob | null>;
+  exportImage: (options: ImageExportOptions, title: string) => Promise<Blob | null>;
+  applyLayout: (algorithm: LayoutAlgorithm) => void;
+  playback: PlaybackControls;
 }
 
+const DUPLICATE_OFFSET = 40;
+// Room around the fitted content for node radii, labels and badges
+const IMAGE_FIT_PADDING = 60;
+
 export interface MinimapSnapshot {
   nodes: MinimapNode[];
   zones: MinimapZone[];
   world: WorldBounds;
+  // Bounds of the nodes, zones and labels alone, without the viewport
+  content: WorldBounds | null;
   viewport: ViewportBounds;
 }
 
@@ -59,6 +103,7 @@ const GraphCanvas = forwardRef<GraphCanvasHandle, GraphCanvasProps>(({
   data,
   theme,
   readonly = false,
+  presenting = false,
   isLinkMode = false,
   isDirectorMode = false,
   directorPicking = null,
@@ -66,9 +111,15 @@ const GraphCanvas = forwardRef<GraphCanvasHandle, GraphCanvasProps>(({
   onNodeDragEnd,
   onNodeDelete,
   onNodeUpdate,
+  onNodesDelete,
+  onNodesUpdate,
+  onNodesArrange,
+  onLayoutApply,
+  onSubgraphPaste,
   onNodeAdd,
   onLinkAdd,
   onLinkDelete,
+  onLinkUpdate,
   onSimulationEnd,
   onZoneAdd,
   onZoneUpdate,
@@ -78,8 +129,13 @@ const GraphCanvas = forwardRef<GraphCanvasHandle, GraphCanvasProps>(({
   onLabelUpdate,
   onLabelDelete,
   renderMinimap,
+  remotePeers,
+  onPresenceChange,
 }, ref) => {
-  const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
+  // Node selection is a set; the single-node id is derived for the existing single-selection UI
+  const [selectedNodeIds, setSelectedNodeIds] = useState<string[]>([]);
+  const selectedNodeId = selectedNodeIds.length === 1 ? selectedNodeIds[0] : null;
+  const setSelectedNodeId = useCallback((id: string | null) => setSelectedNodeIds(id ? [id] : []), []);
   const [selectedLinkId, setSelectedLinkId] = useState<string | null>(null);
   const [selectedZoneId, setSelectedZoneId] = useState<string | null>(null);
   const [selectedLabelId, setSelectedLabelId] = useState<string | null>(null);
@@ -88,6 +144,7 @@ const GraphCanvas = forwardRef<GraphCanvasHandle, GraphCanvasProps>(({
   const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
   const [bgContextMenu, setBgContextMenu] = useState<{ x: number; y: number; worldX: number; worldY: number } | null>(null);
   const [minimapSnapshot, setMinimapSnapshot] = useState<MinimapSnapshot | null>(null);
+  const lastPasteRef = useRef<{ text: string; count: number }>({ text: '', count: 0 });
 
   const zones = useMemo(() => data.environments?.zones || [], [data.environments]);
   const labels = useMemo(() => data.environments?.labels || [], [data.environments]);
@@ -101,11 +158,15 @@ const GraphCanvas = forwardRef<GraphCanvasHandle, GraphCanvasProps>(({
     dimensions,
     runAnimation,
     runSingleStep,
+    exportAnimation,
+    exportImage,
     subscribe,
+    playback,
   } = useGraphSimulation({
     data,
     theme,
     readonly,
+    presenting,
     isLinkMode,
     isDirectorMode,
     directorPicking,
@@ -115,6 +176,8 @@ const GraphCanvas = forwardRef<GraphCanvasHandle, GraphCanvasProps>(({
     setMousePos,
     selectedNodeId,
     setSelectedNodeId,
+    selectedNodeIds,
+    setSelectedNodeIds,
     selectedLinkId,
     setSelectedLinkId,
     selectedZoneId,
@@ -133,19 +196,37 @@ const GraphCanvas = forwardRef<GraphCanvasHandle, GraphCanvasProps>(({
     labels,
   });
 
+  useEffect(() => {
+    onPresenceChange?.({ nodeIds: selectedNodeIds, zoneId: selectedZoneId });
+  }, [selectedNodeIds, selectedZoneId, onPresenceChange]);
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    if (!onPresenceChange || !wrapperRef.current) return;
+    const rect = wrapperRef.current.getBoundingClientRect();
+    const transform = lastTransformRef.current;
+    onPresenceChange({
+      cursor: {
+        x: (event.clientX - rect.left - transform.x) / transform.k,
+        y: (event.clientY - rect.top - transform.y) / transform.k,
+      },
+    });
+  };
+
   useEffect(() => {
     let frame: number | null = null;
 
     const computeSnapshot = () => {
       const transform = lastTransformRef.current;
       const scale = transform.k || 1;
+      const selectedIds = new Set(selectedNodeIds);
       const nodeData: MinimapNode[] = nodesRef.current
         .filter((node) => typeof node.x === 'number' && typeof node.y === 'number')
         .map((node) => ({
           id: node.id,
           x: node.x as number,
           y: node.y as number,
-          color: node.apparence?.fill,
+          color: node.appearance?.fill,
+          selected: selectedIds.has(node.id),
         }));
 
       const zoneData: MinimapZone[] = zones.map((zone) => ({
@@ -183,6 +264,15 @@ const GraphCanvas = forwardRef<GraphCanvasHandle, GraphCanvasProps>(({
         maxY = Math.max(maxY, zone.y + zone.height);
       });
 
+      labels.forEach((label) => {
+        minX = Math.min(minX, label.x);
+        minY = Math.min(minY, label.y);
+        maxX = Math.max(maxX, label.x);
+        maxY = Math.max(maxY, label.y);
+      });
+
+      const content: WorldBounds | null = Number.isFinite(minX) ? { minX, minY, maxX, maxY } : null;
+
       minX = Math.min(minX, viewport.x);
       minY = Math.min(minY, viewport.y);
       maxX = Math.max(maxX, viewport.x + viewport.width);
@@ -198,7 +288,7 @@ const GraphCanvas = forwardRef<GraphCanvasHandle, GraphCanvasProps>(({
 
       const world: WorldBounds = { minX, minY, maxX, maxY };
 
-      setMinimapSnapshot({ nodes: nodeData, zones: zoneData, world, viewport });
+      setMinimapSnapshot({ nodes: nodeData, zones: zoneData, world, content, viewport });
     };
 
     const scheduleSnapshot = () => {
@@ -216,25 +306,27 @@ const GraphCanvas = forwardRef<GraphCanvasHandle, GraphCanvasProps>(({
       if (frame !== null) cancelAnimationFrame(frame);
       unsubscribe();
     };
-  }, [dimensions, lastTransformRef, nodesRef, subscribe, zones]);
+  }, [dimensions, labels, lastTransformRef, nodesRef, selectedNodeIds, subscribe, zones]);
 
-  const selectedNode = useMemo(
-    () => data.nodes.find((node) => node.id === selectedNodeId) || null,
-    [data.nodes, selectedNodeId],
+  const selectedNodes = useMemo(
+    () => selectedNodeIds.map((id) => data.nodes.find((node) => node.id === id)).filter((node): node is GraphNode => !!node),
+    [data.nodes, selectedNodeIds],
   );
 
+  // The most recently selected node anchors the context menu
+  const selectedNode = selectedNodes[selectedNodes.length - 1] || null;
+
   const selectedLink = useMemo(() => {
     if (!selectedLinkId) return null;
-    const [sourceId, targetId] = selectedLinkId.split('-');
-    return (
-      linksRef.current.find((link) => {
-        const s = (link.source as any).id || link.source;
-        const t = (link.target as any).id || link.target;
-        return (s === sourceId && t === targetId) || (s === targetId && t === sourceId);
-      }) || null
-    );
+    return linksRef.current.find((link) => getLinkId(link) === selectedLinkId) || null;
   }, [linksRef, selectedLinkId]);
 
+  // The simulated copy above trails `data` by a render, so edits start from `data`
+  const selectedLinkData = useMemo(
+    () => (selectedLinkId ? data.links.find((link) => getLinkId(link) === selectedLinkId) || null : null),
+    [data.links, selectedLinkId],
+  );
+
   const selectedZone = useMemo(
     () => zones.find((zone) => zone.id === selectedZoneId) || null,
     [zones, selectedZoneId],
@@ -253,7 +345,7 @@ const GraphCanvas = forwardRef<GraphCanvasHandle, GraphCanvasProps>(({
   }, [directorPicking, isLinkMode]);
 
   useEffect(() => {
-    if (readonly) return;
+    if (readonly || presenting) return;
 
     const handleKeyDown = (event: KeyboardEvent) => {
       if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) return;
@@ -262,13 +354,14 @@ const GraphCanvas = forwardRef<GraphCanvasHandle, GraphCanvasProps>(({
       const isEnter = event.key === 'Enter';
       const isEsc = event.key === 'Escape';
 
-      if (selectedNodeId) {
+      if (selectedNodeIds.length > 0) {
         if (isDelete) {
           event.preventDefault();
           setIsConfirmingDelete(true);
         } else if (isEnter && isConfirmingDelete) {
           event.preventDefault();
-          onNodeDelete?.(selectedNodeId);
+          if (selectedNodeIds.length > 1) onNodesDelete?.(selectedNodeIds);
+          else onNodeDelete?.(selectedNodeIds[0]);
           setSelectedNodeId(null);
           setIsConfirmingDelete(false);
         } else if (isEsc) {
@@ -279,8 +372,7 @@ const GraphCanvas = forwardRef<GraphCanvasHandle, GraphCanvasProps>(({
       } else if (selectedLinkId) {
         if (isDelete) {
           event.preventDefault();
-          const [s, t] = selectedLinkId.split('-');
-          onLinkDelete?.(s, t);
+          onLinkDelete?.(selectedLinkId);
           setSelectedLinkId(null);
         } else if (isEsc) {
           setSelectedLinkId(null);
@@ -323,38 +415,132 @@ const GraphCanvas = forwardRef<GraphCanvasHandle, GraphCanvasProps>(({
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [
-    selectedNodeId,
+    selectedNodeIds,
     selectedLinkId,
     selectedZoneId,
     selectedLabelId,
     isConfirmingDelete,
     onNodeDelete,
+    onNodesDelete,
     onLinkDelete,
     onZoneDelete,
     onLabelDelete,
     readonly,
+    presenting,
   ]);
 
+  // Copy uses live simulation positions, which can differ from the committed data
+  const getSelectionSubgraph = () => {
+    const simNodes = new Map<string, GraphNode>(nodesRef.current.map((node) => [node.id, node]));
+    const nodes = data.nodes.map((node) => {
+      const simNode = simNodes.get(node.id);
+      return simNode ? { ...node, x: simNode.x, y: simNode.y } : node;
+    });
+    return extractSubgraph({ ...data, nodes }, selectedNodeIds, selectedZoneId ? [selectedZoneId] : []);
+  };
+
+  const insertSubgraph = (subgraph: SubgraphClipboard, offset: { x: number; y: number }, mode: 'paste' | 'duplicate') => {
+    const newIds = onSubgraphPaste?.(subgraph, offset, mode);
+    if (!newIds) return;
+    setSelectedNodeIds(newIds);
+    setSelectedLinkId(null);
+    setSelectedZoneId(null);
+    setSelectedLabelId(null);
+    setIsConfirmingDelete(false);
+  };
+
+  const handleCopy = () => {
+    const subgraph = getSelectionSubgraph();
+    if (!subgraph) return;
+    navigator.clipboard?.writeText(serializeSubgraph(subgraph)).catch((error) => console.error('Copy failed', error));
+  };
+
+  const handleDuplicate = () => {
+    const subgraph = getSelectionSubgraph();
+    if (subgraph) insertSubgraph(subgraph, { x: DUPLICATE_OFFSET, y: DUPLICATE_OFFSET }, 'duplicate');
+  };
+
+  useEffect(() => {
+    if (readonly || presenting || !onSubgraphPaste) return;
+
+    const isEditableTarget = (target: EventTarget | null) => {
+      const element = target as HTMLElement | null;
+      return !!element && (element.tagName === 'INPUT' || element.tagName === 'TEXTAREA' || element.isContentEditable);
+    };
+
+    const handleCopyEvent = (event: ClipboardEvent) => {
+      if (isEditableTarget(event.target) || directorPicking) return;
+      if (window.getSelection()?.toString()) return;
+      const subgraph = getSelectionSubgraph();
+      if (!subgraph || !event.clipboardData) return;
+      event.preventDefault();
+      event.clipboardData.setData('text/plain', serializeSubgraph(subgraph));
+    };
+
+    // Pastes land in the middle of the viewport; repeated pastes of the same payload fan out
+    const handlePasteEvent = (event: ClipboardEvent) => {
+      if (isEditableTarget(event.target) || directorPicking) return;
+      const text = event.clipboardData?.getData('text/plain') || '';
+      const subgraph = parseSubgraph(text);
+      if (!subgraph) return;
+      event.preventDefault();
+      const last = lastPasteRef.current;
+      lastPasteRef.current = { text, count: last.text === text ? last.count + 1 : 0 };
+      const stagger = lastPasteRef.current.count * DUPLICATE_OFFSET;
+      const [viewX, viewY] = lastTransformRef.current.invert([dimensions.width / 2, dimensions.height / 2]);
+      const center = getSubgraphCenter(subgraph);
+      insertSubgraph(subgraph, { x: viewX - center.x + stagger, y: viewY - center.y + stagger }, 'paste');
+    };
+
+    const handleDuplicateKey = (event: KeyboardEvent) => {
+      if (isEditableTarget(event.target) || directorPicking) return;
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'd') {
+        event.preventDefault();
+        handleDuplicate();
+      }
+    };
+
+    window.addEventListener('copy', handleCopyEvent);
+    window.addEventListener('paste', handlePasteEvent);
+    window.addEventListener('keydown', handleDuplicateKey);
+    return () => {
+      window.removeEventListener('copy', handleCopyEvent);
+      window.removeEventListener('paste', handlePasteEvent);
+      window.removeEventListener('keydown', handleDuplicateKey);
+    };
+  }, [data, dimensions, directorPicking, onSubgraphPaste, readonly, presenting, selectedNodeIds, selectedZoneId]);
+
+  // Anchored above the selection: its top-centre for a group, the node itself otherwise
   const getMenuPosition = () => {
-    if (!selectedNodeId) return null;
-    const simNode = nodesRef.current.find((node) => node.id === selectedNodeId);
-    if (!simNode) return null;
+    const simNodes = nodesRef.current.filter((node) => selectedNodeIds.includes(node.id));
+    if (simNodes.length === 0) return null;
+    const xs = simNodes.map((node) => node.x || 0);
+    const ys = simNodes.map((node) => node.y || 0);
     const transform = lastTransformRef.current;
     return {
-      x: (simNode.x || 0) * transform.k + transform.x,
-      y: (simNode.y || 0) * transform.k + transform.y,
+      x: ((Math.min(...xs) + Math.max(...xs)) / 2) * transform.k + transform.x,
+      y: Math.min(...ys) * transform.k + transform.y,
     };
   };
 
+  const handleArrange = (command: ArrangeCommand) => {
+    const simNodes = nodesRef.current.filter((node) => selectedNodeIds.includes(node.id));
+    const positions = arrangeNodes(simNodes, command);
+    if (positions.size === 0) return;
+    onNodesArrange?.(nodesRef.current.map((node) => {
+      const position = positions.get(node.id);
+      return position ? { ...node, ...position } : node;
+    }));
+  };
+
   const getLinkMidPosition = () => {
     if (!selectedLink) return null;
-    const sourceNode = selectedLink.source as GraphNode | undefined;
-    const targetNode = selectedLink.target as GraphNode | undefined;
-    if (!sourceNode || !targetNode || typeof sourceNode.x === 'undefined' || typeof targetNode.x === 'undefined') return null;
+    // Halfway along the route as drawn, whatever its routing
+    const path = findLinkPath(svgRef.current, selectedLink);
+    if (!path) return null;
+    const middle = path.getPointAtLength(path.getTotalLength() / 2);
     const transform = lastTransformRef.current;
-    const midX = ((sourceNode.x || 0) + (targetNode.x || 0)) / 2;
-    const midY = ((sourceNode.y || 0) + (targetNode.y || 0)) / 2;
-    return { x: midX * transform.k + transform.x, y: midY * transform.k + transform.y };
+    return { x: middle.x * transform.k + transform.x, y: middle.y * transform.k + transform.y };
   };
 
   const getEnvMenuPosition = () => {
@@ -380,6 +566,27 @@ const GraphCanvas = forwardRef<GraphCanvasHandle, GraphCanvasProps>(({
     runSingleStep: (step: SimulationAction) => {
       runSingleStep(step);
     },
+    exportAnimation,
+    exportImage: (options: ImageExportOptions, title: string) => {
+      const { viewport, content } = minimapSnapshot || {};
+      const frame =
+        options.region === 'fit' && content
+          ? {
+              x: content.minX - IMAGE_FIT_PADDING,
+              y: content.minY - IMAGE_FIT_PADDING,
+              width: content.maxX - content.minX + IMAGE_FIT_PADDING * 2,
+              height: content.maxY - content.minY + IMAGE_FIT_PADDING * 2,
+            }
+          : viewport;
+      if (!frame) return Promise.resolve(null);
+      return exportImage(frame, options, title);
+    },
+    applyLayout: (algorithm: LayoutAlgorithm) => {
+      const current = new Map<string, LayoutPoint>(nodesRef.current.map((node) => [node.id, { x: node.x ?? 0, y: node.y ?? 0 }]));
+      const positions = computeLayout({ ...data, nodes: nodesRef.current }, current, algorithm);
+      onLayoutApply?.(nodesRef.current.map((node) => ({ ...node, ...positions.get(node.id) })));
+    },
+    playback,
   }));
 
   const handleStartLinking = () => {
@@ -422,6 +629,8 @@ const GraphCanvas = forwardRef<GraphCanvasHandle, GraphCanvasProps>(({
     <div
       ref={wrapperRef}
       className={`w-full h-full relative transition-colors duration-500 overflow-hidden ${isDirectorMode ? 'bg-slate-900' : 'bg-slate-50'}`}
+      onPointerMove={handlePointerMove}
+      onPointerLeave={() => onPresenceChange?.({ cursor: null })}
     >
       <style>{`
         @keyframes deletePulse { 0% { filter: drop-shadow(0 0 2px #ef4444); stroke-width: 4; } 50% { filter: drop-shadow(0 0 10px #ef4444); stroke-width: 6; } 100% { filter: drop-shadow(0 0 2px #ef4444); stroke-width: 4; } }
@@ -433,6 +642,16 @@ const GraphCanvas = forwardRef<GraphCanvasHandle, GraphCanvasProps>(({
 
       <svg ref={svgRef} className="w-full h-full block cursor-grab active:cursor-grabbing" />
 
+      {remotePeers && remotePeers.length > 0 && (
+        <PresenceOverlay
+          peers={remotePeers}
+          nodesRef={nodesRef}
+          zones={zones}
+          transformRef={lastTransformRef}
+          subscribe={subscribe}
+        />
+      )}
+
       {bgContextMenu && (
         <div
           className="fixed z-[100] bg-white rounded-xl shadow-2xl border border-slate-200 p-1.5 min-w-[160px] animate-in zoom-in-95 duration-150"
@@ -469,15 +688,27 @@ const GraphCanvas = forwardRef<GraphCanvasHandle, GraphCanvasProps>(({
         }}
       />
 
-      {selectedLink && !readonly && !isLinkMode && !directorPicking && !selectedNodeId && (
+      {/* The presenter shows its own caption card */}
+      {!readonly && !presenting && (
+        <CaptionOverlay
+          playback={playback}
+          nodesRef={nodesRef}
+          transformRef={lastTransformRef}
+          subscribe={subscribe}
+          isDirectorMode={isDirectorMode}
+        />
+      )}
+
+      {!readonly && !directorPicking && <BranchPrompt playback={playback} isDirectorMode={isDirectorMode} />}
+
+      {selectedLink && selectedLinkData && !readonly && !isLinkMode && !directorPicking && selectedNodeIds.length === 0 && (
         <LinkControls
-          link={selectedLink}
+          link={selectedLinkData}
           position={linkPosition}
           isDirectorMode={isDirectorMode}
+          onUpdate={(link) => onLinkUpdate?.(link)}
           onDelete={() => {
-            const sourceId = (selectedLink.source as any).id || selectedLink.source;
-            const targetId = (selectedLink.target as any).id || selectedLink.target;
-            onLinkDelete?.(sourceId, targetId);
+            onLinkDelete?.(getLinkId(selectedLink));
             setSelectedLinkId(null);
           }}
         />
@@ -497,6 +728,15 @@ const GraphCanvas = forwardRef<GraphCanvasHandle, GraphCanvasProps>(({
           }}
           onStartLinking={handleStartLinking}
           onClose={() => setSelectedNodeId(null)}
+          selection={selectedNodes}
+          onUpdateSelection={onNodesUpdate}
+          onDeleteSelection={(ids) => {
+            onNodesDelete?.(ids);
+            setSelectedNodeId(null);
+          }}
+          onArrange={handleArrange}
+          onCopy={handleCopy}
+          onDuplicate={onSubgraphPaste ? handleDuplicate : undefined}
         />
       )}
 
@@ -517,7 +757,7 @@ const GraphCanvas = forwardRef<GraphCanvasHandle, GraphCanvasProps>(({
         />
       )}
 
-      {!readonly && !directorPicking && <GraphControls isDirectorMode={isDirectorMode} />}
+      {!readonly && !presenting && !directorPicking && <GraphControls isDirectorMode={isDirectorMode} />}
 
       {minimapSnapshot && renderMinimap && (
         <div className="absolute bottom-4 right-4 z-30 pointer-events-none">
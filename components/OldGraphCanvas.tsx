@@ -263,9 +263,9 @@ const GraphCanvas = forwardRef<GraphCanvasHandle, GraphCanvasProps>(({
     const groupColors = ["#1a1a1a", "#ef4444", "#22c55e", "#3b82f6", "#f59e0b", "#8b5cf6"];
     visuals.fill = groupColors[(node.group || 0) % groupColors.length];
     
-    if (node.apparence) {
-      if (node.apparence.fill) visuals.fill = node.apparence.fill;
-      if (node.apparence.stroke && !isSelected) visuals.stroke = node.apparence.stroke;
+    if (node.appearance) {
+      if (node.appearance.fill) visuals.fill = node.appearance.fill;
+      if (node.appearance.stroke && !isSelected) visuals.stroke = node.appearance.stroke;
     }
 
     if (node.activeStates && theme.nodeStyles) {
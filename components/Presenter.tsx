@@ -0,0 +1,194 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ArrowLeft, ChevronLeft, ChevronRight, Maximize, Minimize, Code2 } from 'lucide-react';
+import GraphCanvas, { GraphCanvasHandle } from './GraphCanvas';
+import { GraphProject } from '../types';
+import { PlaybackState } from '../utils/graphAnimations';
+import { describeStep } from '../utils/revisionDiff';
+import { EmbedModal } from './presenter/EmbedModal';
+import { useTranslation } from '../i18n';
+
+interface PresenterProps {
+  project: GraphProject;
+  // Both are left out in the embed, which has no app around it
+  onExit?: () => void;
+  onExportBundle?: () => void;
+}
+
+// Seeks within this of a step boundary count as being on it
+const STEP_EPSILON = 0.05;
+
+// Time at which step `index` has finished; -1 is the state before the first step
+const endOfStep = (index: number, state: PlaybackState) =>
+  index < 0 ? 0 : state.stepTimes[index + 1] ?? state.duration;
+
+export const Presenter: React.FC<PresenterProps> = ({ project, onExit, onExportBundle }) => {
+  const { t } = useTranslation();
+  const canvasRef = useRef<GraphCanvasHandle>(null);
+  const [stepIndex, setStepIndex] = useState(-1);
+  const [isFullscreen, setIsFullscreen] = useState(!!document.fullscreenElement);
+  const [showEmbed, setShowEmbed] = useState(false);
+  // Where the step being played should stop
+  const stopAtRef = useRef<number | null>(null);
+
+  const steps = project.eventData.steps;
+  const nodeLabel = (id: string) => project.graphData.nodes.find((node) => node.id === id)?.label ?? id;
+
+  useEffect(() => {
+    const playback = canvasRef.current?.playback;
+    if (!playback) return;
+    return playback.subscribe(() => {
+      const state = playback.getState();
+      const stopAt = stopAtRef.current;
+      if (!state || stopAt === null || !state.isPlaying || state.time < stopAt - STEP_EPSILON) return;
+      stopAtRef.current = null;
+      playback.pause();
+      playback.seek(stopAt);
+    });
+  }, []);
+
+  useEffect(() => {
+    const handleChange = () => setIsFullscreen(!!document.fullscreenElement);
+    document.addEventListener('fullscreenchange', handleChange);
+    return () => document.removeEventListener('fullscreenchange', handleChange);
+  }, []);
+
+  // Stepping forward plays the next step; any other jump lands on its end state
+  const goTo = (index: number) => {
+    const canvas = canvasRef.current;
+    if (!canvas || index < -1 || index >= steps.length) return;
+    let state = canvas.playback.getState();
+    if (!state) {
+      canvas.runAnimation(project.eventData);
+      canvas.playback.pause();
+      canvas.playback.seek(0);
+      state = canvas.playback.getState();
+      if (!state) return;
+    }
+    if (index === stepIndex + 1) {
+      canvas.playback.seek(endOfStep(stepIndex, state));
+      stopAtRef.current = endOfStep(index, state);
+      canvas.playback.play();
+    } else {
+      stopAtRef.current = null;
+      canvas.playback.pause();
+      canvas.playback.seek(endOfStep(index, state));
+    }
+    setStepIndex(index);
+  };
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) document.exitFullscreen();
+    else document.documentElement.requestFullscreen().catch((e) => console.error('Fullscreen was refused:', e));
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (showEmbed || e.metaKey || e.ctrlKey || e.altKey) return;
+      switch (e.key) {
+        case 'ArrowRight':
+        case 'PageDown':
+        case ' ':
+        case 'Enter':
+          goTo(stepIndex + 1);
+          break;
+        case 'ArrowLeft':
+        case 'PageUp':
+        case 'Backspace':
+          goTo(stepIndex - 1);
+          break;
+        case 'Home':
+          goTo(-1);
+          break;
+        case 'End':
+          goTo(steps.length - 1);
+          break;
+        case 'f':
+          toggleFullscreen();
+          break;
+        case 'Escape':
+          onExit?.();
+          break;
+        default:
+          return;
+      }
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [stepIndex, steps.length, showEmbed, onExit]);
+
+  const step = stepIndex >= 0 ? steps[stepIndex] : null;
+  const caption = step ? step.label || describeStep(step, nodeLabel) : project.eventData.name || project.name;
+
+  const chromeClass = 'bg-white/90 backdrop-blur shadow-xl border border-slate-200 rounded-2xl pointer-events-auto';
+  const iconBtnClass = 'p-2 rounded-xl text-slate-500 hover:bg-slate-100 transition-colors disabled:opacity-30 disabled:cursor-not-allowed';
+
+  return (
+    <div className="relative h-screen w-full overflow-hidden bg-slate-50">
+      <GraphCanvas ref={canvasRef} data={project.graphData} theme={project.themeData} presenting />
+
+      {/* Title */}
+      <div className="absolute top-0 left-0 right-0 p-4 flex justify-between items-start pointer-events-none">
+        <div className={`${chromeClass} flex items-center gap-2 p-2 pr-4`}>
+          {onExit && (
+            <button onClick={onExit} title={t('presenter.exit')} className={iconBtnClass}>
+              <ArrowLeft className="w-5 h-5" />
+            </button>
+          )}
+          <span className={`font-bold text-sm text-slate-800 ${onExit ? '' : 'pl-2'}`}>{project.name}</span>
+        </div>
+        <div className={`${chromeClass} flex items-center gap-1 p-1.5`}>
+          {onExportBundle && (
+            <button onClick={() => setShowEmbed(true)} title={t('presenter.embed')} className={iconBtnClass}>
+              <Code2 className="w-4 h-4" />
+            </button>
+          )}
+          <button onClick={toggleFullscreen} title={t('presenter.fullscreen')} className={iconBtnClass}>
+            {isFullscreen ? <Minimize className="w-4 h-4" /> : <Maximize className="w-4 h-4" />}
+          </button>
+        </div>
+      </div>
+
+      {/* Caption and step navigation */}
+      <div className="absolute bottom-6 left-1/2 -translate-x-1/2 w-[min(640px,90vw)] pointer-events-none">
+        <div className={`${chromeClass} flex items-center gap-3 p-2`}>
+          <button onClick={() => goTo(stepIndex - 1)} disabled={stepIndex < 0} title={t('presenter.previous')} className={iconBtnClass}>
+            <ChevronLeft className="w-5 h-5" />
+          </button>
+          <div className="flex-1 min-w-0 text-center py-1">
+            <div className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+              {steps.length === 0
+                ? t('presenter.no_steps')
+                : stepIndex < 0
+                  ? t('presenter.start_hint')
+                  : t('presenter.step_of').replace('{current}', String(stepIndex + 1)).replace('{total}', String(steps.length))}
+            </div>
+            <div className="text-sm font-semibold text-slate-800 truncate" title={caption}>{caption}</div>
+            {step?.description && (
+              <p className="text-xs text-slate-500 leading-relaxed mt-0.5 whitespace-pre-line">{step.description}</p>
+            )}
+          </div>
+          <button onClick={() => goTo(stepIndex + 1)} disabled={stepIndex >= steps.length - 1} title={t('presenter.next')} className={iconBtnClass}>
+            <ChevronRight className="w-5 h-5" />
+          </button>
+        </div>
+        {steps.length > 0 && (
+          <div className="flex justify-center gap-1 mt-2">
+            {steps.map((_, i) => (
+              <button
+                key={i}
+                onClick={() => goTo(i)}
+                title={t('presenter.step_of').replace('{current}', String(i + 1)).replace('{total}', String(steps.length))}
+                className={`h-1.5 rounded-full pointer-events-auto transition-all ${i === stepIndex ? 'w-6 bg-indigo-500' : i < stepIndex ? 'w-1.5 bg-indigo-300' : 'w-1.5 bg-slate-300 hover:bg-slate-400'}`}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+
+      {showEmbed && onExportBundle && (
+        <EmbedModal onExportBundle={onExportBundle} onClose={() => setShowEmbed(false)} />
+      )}
+    </div>
+  );
+};
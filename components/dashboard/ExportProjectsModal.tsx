@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { X, Download, PackageOpen } from 'lucide-react';
+import { GraphProject } from '../../types';
+import { useTranslation } from '../../i18n';
+
+interface ExportProjectsModalProps {
+  projects: GraphProject[];
+  onExport: (projects: GraphProject[]) => void;
+  onClose: () => void;
+}
+
+export const ExportProjectsModal: React.FC<ExportProjectsModalProps> = ({ projects, onExport, onClose }) => {
+  const { t } = useTranslation();
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set(projects.map(p => p.id)));
+
+  const toggle = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const allSelected = selectedIds.size === projects.length;
+  const selected = projects.filter(p => selectedIds.has(p.id));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-2xl border border-slate-200 w-[480px] max-h-[90vh] flex flex-col"
+        onClick={e => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-5 py-4 border-b border-slate-100">
+          <div className="flex items-center gap-2">
+            <PackageOpen className="w-4 h-4 text-indigo-500" />
+            <span className="font-bold text-sm text-slate-800">{t('bundle.export_title')}</span>
+          </div>
+          <button onClick={onClose} className="p-1 rounded-lg hover:bg-slate-100 text-slate-400">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto flex-1 p-5 flex flex-col gap-2">
+          <label className="flex items-center gap-2 text-xs font-semibold text-slate-600 pb-2 border-b border-slate-100 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={allSelected}
+              onChange={() => setSelectedIds(allSelected ? new Set() : new Set(projects.map(p => p.id)))}
+              className="accent-indigo-600"
+            />
+            {t('bundle.select_all')}
+          </label>
+          {projects.map(project => (
+            <label key={project.id} className="flex items-center gap-2 px-2 py-1.5 rounded-lg hover:bg-slate-50 cursor-pointer">
+              <input type="checkbox" checked={selectedIds.has(project.id)} onChange={() => toggle(project.id)} className="accent-indigo-600" />
+              <span className="text-sm text-slate-700 truncate flex-1">{project.name}</span>
+              <span className="text-[11px] text-slate-400">
+                {project.graphData.nodes.length} {t('import.nodes')}
+              </span>
+            </label>
+          ))}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end gap-2 px-5 py-3 border-t border-slate-100">
+          <button onClick={onClose} className="px-4 py-1.5 text-sm text-slate-600 hover:bg-slate-100 rounded-lg transition-colors">
+            {t('import.cancel')}
+          </button>
+          <button
+            onClick={() => onExport(selected)}
+            disabled={selected.length === 0}
+            className={`flex items-center gap-1.5 px-4 py-1.5 text-sm font-semibold rounded-lg transition-colors ${
+              selected.length > 0
+                ? 'bg-indigo-600 text-white hover:bg-indigo-700'
+                : 'bg-slate-100 text-slate-400 cursor-not-allowed'
+            }`}
+          >
+            <Download className="w-3.5 h-3.5" />
+            {t('bundle.export_count').replace('{count}', String(selected.length))}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
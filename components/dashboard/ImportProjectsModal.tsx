@@ -0,0 +1,161 @@
+import React, { useState, useRef } from 'react';
+import { X, Upload, PackageOpen, AlertCircle, CheckCircle } from 'lucide-react';
+import { GraphProject } from '../../types';
+import { ImportConflictStrategy, findConflicts, parseBundle } from '../../utils/projectBundle';
+import { useTranslation } from '../../i18n';
+
+interface ImportProjectsModalProps {
+  existingProjects: GraphProject[];
+  onImport: (projects: GraphProject[], strategy: ImportConflictStrategy) => void;
+  onClose: () => void;
+}
+
+export const ImportProjectsModal: React.FC<ImportProjectsModalProps> = ({ existingProjects, onImport, onClose }) => {
+  const { t } = useTranslation();
+  const [fileName, setFileName] = useState('');
+  const [incoming, setIncoming] = useState<GraphProject[] | null>(null);
+  const [strategy, setStrategy] = useState<ImportConflictStrategy>('keep-both');
+  const [isDragging, setIsDragging] = useState(false);
+  const [error, setError] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const conflicts = incoming ? findConflicts(existingProjects, incoming) : new Set<string>();
+
+  const handleFile = async (f: File) => {
+    setFileName(f.name);
+    setIncoming(null);
+    setError('');
+    try {
+      setIncoming(parseBundle(await f.text()));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const f = e.dataTransfer.files[0];
+    if (f) handleFile(f);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-2xl border border-slate-200 w-[480px] max-h-[90vh] flex flex-col"
+        onClick={e => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-5 py-4 border-b border-slate-100">
+          <div className="flex items-center gap-2">
+            <PackageOpen className="w-4 h-4 text-indigo-500" />
+            <span className="font-bold text-sm text-slate-800">{t('bundle.import_title')}</span>
+          </div>
+          <button onClick={onClose} className="p-1 rounded-lg hover:bg-slate-100 text-slate-400">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto flex-1 p-5 flex flex-col gap-4">
+          {/* File Upload */}
+          <div
+            className={`border-2 border-dashed rounded-xl p-6 text-center cursor-pointer transition-colors ${
+              isDragging
+                ? 'border-indigo-400 bg-indigo-50'
+                : incoming
+                ? 'border-green-300 bg-green-50'
+                : 'border-slate-200 hover:border-slate-300 hover:bg-slate-50'
+            }`}
+            onDragOver={e => { e.preventDefault(); setIsDragging(true); }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={handleDrop}
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".mijin,.json"
+              className="hidden"
+              onChange={e => { const f = e.target.files?.[0]; if (f) handleFile(f); }}
+            />
+            {incoming ? (
+              <div className="flex items-center justify-center gap-2 text-green-700">
+                <CheckCircle className="w-4 h-4" />
+                <span className="text-sm font-medium">{fileName}</span>
+              </div>
+            ) : (
+              <>
+                <Upload className="w-6 h-6 text-slate-400 mx-auto mb-2" />
+                <p className="text-sm text-slate-500">{t('import.upload_hint')}</p>
+                <p className="text-xs text-slate-400 mt-1">{t('bundle.supported_formats')}</p>
+              </>
+            )}
+          </div>
+
+          {/* Error */}
+          {error && (
+            <div className="flex items-start gap-2 bg-red-50 border border-red-200 rounded-lg px-3 py-2.5 text-sm text-red-700">
+              <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {/* Preview */}
+          {incoming && (
+            <div className="flex flex-col gap-1">
+              <label className="text-xs font-semibold text-slate-600 mb-1 block">
+                {t('bundle.projects_in_file').replace('{count}', String(incoming.length))}
+              </label>
+              {incoming.map(project => (
+                <div key={project.id} className="flex items-center gap-2 px-2 py-1.5 rounded-lg bg-slate-50">
+                  <span className="text-sm text-slate-700 truncate flex-1">{project.name}</span>
+                  {conflicts.has(project.id) && (
+                    <span className="text-[10px] font-bold uppercase px-1.5 py-0.5 rounded bg-amber-100 text-amber-700">
+                      {t('bundle.conflict')}
+                    </span>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Conflict Strategy */}
+          {conflicts.size > 0 && (
+            <div>
+              <label className="text-xs font-semibold text-slate-600 mb-1 block">
+                {t('bundle.conflict_prompt').replace('{count}', String(conflicts.size))}
+              </label>
+              <select
+                value={strategy}
+                onChange={e => setStrategy(e.target.value as ImportConflictStrategy)}
+                className="w-full text-sm border border-slate-200 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-300"
+              >
+                <option value="keep-both">{t('bundle.keep_both')}</option>
+                <option value="replace">{t('bundle.replace')}</option>
+              </select>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end gap-2 px-5 py-3 border-t border-slate-100">
+          <button onClick={onClose} className="px-4 py-1.5 text-sm text-slate-600 hover:bg-slate-100 rounded-lg transition-colors">
+            {t('import.cancel')}
+          </button>
+          <button
+            onClick={() => incoming && onImport(incoming, strategy)}
+            disabled={!incoming}
+            className={`flex items-center gap-1.5 px-4 py-1.5 text-sm font-semibold rounded-lg transition-colors ${
+              incoming
+                ? 'bg-green-600 text-white hover:bg-green-700'
+                : 'bg-slate-100 text-slate-400 cursor-not-allowed'
+            }`}
+          >
+            <CheckCircle className="w-3.5 h-3.5" />
+            {t('bundle.import')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { Clock, Pin, Trash2 } from 'lucide-react';
+import { Clock, Pin, Trash2, Download, Presentation } from 'lucide-react';
 import { GraphProject } from '../../types';
 import GraphCanvas from '../GraphCanvas';
 import { useTranslation } from '../../i18n';
@@ -9,9 +9,11 @@ interface ProjectCardProps {
   onClick: () => void;
   onDelete: (e: React.MouseEvent) => void;
   onPin: (e: React.MouseEvent) => void;
+  onExport: (e: React.MouseEvent) => void;
+  onPresent: (e: React.MouseEvent) => void;
 }
 
-export const ProjectCard: React.FC<ProjectCardProps> = ({ project, onClick, onDelete, onPin }) => {
+export const ProjectCard: React.FC<ProjectCardProps> = ({ project, onClick, onDelete, onPin, onExport, onPresent }) => {
   const { t } = useTranslation();
   const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
 
@@ -58,6 +60,22 @@ export const ProjectCard: React.FC<ProjectCardProps> = ({ project, onClick, onDe
           >
             {project.isPinned ? <Pin className="w-4 h-4 fill-current" /> : <Pin className="w-4 h-4" />}
           </button>
+
+          <button 
+            onClick={onPresent}
+            className="p-1.5 rounded-md hover:bg-slate-100 text-slate-400 hover:text-indigo-600 transition-colors"
+            title={t('project.present')}
+          >
+            <Presentation className="w-4 h-4" />
+          </button>
+
+          <button 
+            onClick={onExport}
+            className="p-1.5 rounded-md hover:bg-slate-100 text-slate-400 hover:text-indigo-600 transition-colors"
+            title={t('project.export')}
+          >
+            <Download className="w-4 h-4" />
+          </button>
           
           <button 
             onClick={(e) => {
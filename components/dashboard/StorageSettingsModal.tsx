@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { X, HardDrive, Cloud, AlertCircle, CheckCircle, Loader2 } from 'lucide-react';
+import { StorageMode, StorageSettings, checkServer } from '../../utils/projectStorage';
+import { useTranslation } from '../../i18n';
+
+interface StorageSettingsModalProps {
+  settings: StorageSettings;
+  projectCount: number;
+  onApply: (settings: StorageSettings, copyProjects: boolean) => Promise<void>;
+  onClose: () => void;
+}
+
+export const StorageSettingsModal: React.FC<StorageSettingsModalProps> = ({ settings, projectCount, onApply, onClose }) => {
+  const { t } = useTranslation();
+  const [mode, setMode] = useState<StorageMode>(settings.mode);
+  const [serverUrl, setServerUrl] = useState(settings.serverUrl);
+  const [copyProjects, setCopyProjects] = useState(false);
+  const [status, setStatus] = useState<'idle' | 'checking' | 'ok'>('idle');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const isChanged = mode !== settings.mode || (mode === 'server' && serverUrl.trim() !== settings.serverUrl);
+
+  const handleCheck = async () => {
+    setStatus('checking');
+    setError('');
+    try {
+      await checkServer(serverUrl);
+      setStatus('ok');
+    } catch (err: any) {
+      setStatus('idle');
+      setError(t('storage_settings.unreachable').replace('{error}', err.message));
+    }
+  };
+
+  const handleApply = async () => {
+    setLoading(true);
+    setError('');
+    try {
+      await onApply({ mode, serverUrl: serverUrl.trim() }, copyProjects);
+      onClose();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const modeButton = (value: StorageMode, icon: React.ReactNode, label: string, hint: string) => (
+    <button
+      onClick={() => { setMode(value); setError(''); }}
+      className={`flex-1 flex flex-col items-start gap-1 p-3 rounded-xl border text-left transition-colors ${
+        mode === value ? 'border-indigo-300 bg-indigo-50' : 'border-slate-200 hover:bg-slate-50'
+      }`}
+    >
+      <span className={`flex items-center gap-1.5 text-sm font-semibold ${mode === value ? 'text-indigo-700' : 'text-slate-700'}`}>
+        {icon} {label}
+      </span>
+      <span className="text-xs text-slate-500">{hint}</span>
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-2xl border border-slate-200 w-[480px] max-h-[90vh] flex flex-col"
+        onClick={e => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-5 py-4 border-b border-slate-100">
+          <div className="flex items-center gap-2">
+            <Cloud className="w-4 h-4 text-indigo-500" />
+            <span className="font-bold text-sm text-slate-800">{t('storage_settings.title')}</span>
+          </div>
+          <button onClick={onClose} className="p-1 rounded-lg hover:bg-slate-100 text-slate-400">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto flex-1 p-5 flex flex-col gap-4">
+          {/* Mode */}
+          <div className="flex gap-2">
+            {modeButton('local', <HardDrive className="w-4 h-4" />, t('storage_settings.local'), t('storage_settings.local_hint'))}
+            {modeButton('server', <Cloud className="w-4 h-4" />, t('storage_settings.server'), t('storage_settings.server_hint'))}
+          </div>
+
+          {/* Server */}
+          {mode === 'server' && (
+            <div>
+              <label className="text-xs font-semibold text-slate-600 mb-1 block">{t('storage_settings.server_url')}</label>
+              <div className="flex gap-2">
+                <input
+                  value={serverUrl}
+                  onChange={e => { setServerUrl(e.target.value); setStatus('idle'); }}
+                  placeholder="http://localhost:8000"
+                  className="flex-1 text-sm border border-slate-200 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-300 font-mono"
+                />
+                <button
+                  onClick={handleCheck}
+                  disabled={!serverUrl.trim() || status === 'checking'}
+                  className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-bold rounded-lg border border-slate-200 text-slate-600 hover:bg-slate-50 transition-colors disabled:opacity-40"
+                >
+                  {status === 'checking' ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : status === 'ok' ? <CheckCircle className="w-3.5 h-3.5 text-green-600" /> : null}
+                  {t('storage_settings.check')}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* Copy across */}
+          {isChanged && projectCount > 0 && (
+            <label className="flex items-start gap-2 text-sm text-slate-600 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={copyProjects}
+                onChange={e => setCopyProjects(e.target.checked)}
+                className="mt-0.5 accent-indigo-600"
+              />
+              <span>
+                {t(mode === 'server' ? 'storage_settings.copy_to_server' : 'storage_settings.copy_to_local').replace('{count}', String(projectCount))}
+              </span>
+            </label>
+          )}
+
+          {/* Error */}
+          {error && (
+            <div className="flex items-start gap-2 bg-red-50 border border-red-200 rounded-lg px-3 py-2.5 text-sm text-red-700">
+              <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end gap-2 px-5 py-3 border-t border-slate-100">
+          <button onClick={onClose} className="px-4 py-1.5 text-sm text-slate-600 hover:bg-slate-100 rounded-lg transition-colors">
+            {t('import.cancel')}
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={!isChanged || loading || (mode === 'server' && !serverUrl.trim())}
+            className={`flex items-center gap-1.5 px-4 py-1.5 text-sm font-semibold rounded-lg transition-colors ${
+              isChanged && !loading
+                ? 'bg-indigo-600 text-white hover:bg-indigo-700'
+                : 'bg-slate-100 text-slate-400 cursor-not-allowed'
+            }`}
+          >
+            {loading && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+            {t('storage_settings.apply')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { Download, Loader2 } from 'lucide-react';
+import { AnimationExportFormat, ExportProgressCallback } from '../../utils/animationExport';
+import { useTranslation } from '../../i18n';
+
+interface AnimationExportPanelProps {
+  disabled?: boolean;
+  onExport: (format: AnimationExportFormat, onProgress: ExportProgressCallback) => Promise<void>;
+}
+
+const FORMATS: AnimationExportFormat[] = ['webm', 'gif', 'svg', 'html'];
+
+export const AnimationExportPanel: React.FC<AnimationExportPanelProps> = ({ disabled, onExport }) => {
+  const { t } = useTranslation();
+  const [activeFormat, setActiveFormat] = useState<AnimationExportFormat | null>(null);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async (format: AnimationExportFormat) => {
+    setActiveFormat(format);
+    setProgress(0);
+    setError(null);
+    try {
+      await onExport(format, setProgress);
+    } catch (e: any) {
+      console.error('Animation export failed', e);
+      setError(e?.message || t('devtools.export.failed'));
+    } finally {
+      setActiveFormat(null);
+    }
+  };
+
+  const busy = activeFormat !== null;
+
+  return (
+    <div className="mt-3 pt-3 border-t border-slate-200 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] font-bold uppercase tracking-wider text-slate-500 flex items-center">
+          <Download className="w-3 h-3 mr-1" /> {t('devtools.export.title')}
+        </span>
+        {busy && (
+          <span className="text-[10px] font-mono font-bold text-indigo-600 flex items-center">
+            <Loader2 className="w-3 h-3 mr-1 animate-spin" /> {Math.round(progress * 100)}%
+          </span>
+        )}
+      </div>
+      <div className="grid grid-cols-4 gap-1.5">
+        {FORMATS.map((format) => (
+          <button
+            key={format}
+            onClick={() => handleExport(format)}
+            disabled={disabled || busy}
+            className={`px-2 py-1.5 text-[10px] font-semibold rounded border transition-colors active:scale-95 disabled:cursor-not-allowed ${
+              activeFormat === format
+                ? 'bg-indigo-600 text-white border-indigo-600'
+                : 'bg-white hover:bg-slate-50 text-slate-700 border-slate-200 disabled:bg-slate-100 disabled:text-slate-300'
+            }`}
+          >
+            {t(`devtools.export.${format}`)}
+          </button>
+        ))}
+      </div>
+      {busy && (
+        <div className="h-1 rounded-full bg-slate-200 overflow-hidden">
+          <div className="h-full bg-indigo-500 transition-[width]" style={{ width: `${progress * 100}%` }} />
+        </div>
+      )}
+      {busy && activeFormat === 'webm' && (
+        <p className="text-[10px] text-slate-400">{t('devtools.export.realtime_hint')}</p>
+      )}
+      {error && <p className="text-[10px] text-red-500 font-medium">{error}</p>}
+    </div>
+  );
+};
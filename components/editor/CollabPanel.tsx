@@ -0,0 +1,83 @@
+import React from 'react';
+import { Users, X, Radio, Square } from 'lucide-react';
+import { Collaboration, CollabStatus } from '../../hooks/useCollaboration';
+import { useTranslation } from '../../i18n';
+
+interface CollabPanelProps {
+  collab: Collaboration;
+  // False unless the project library is on a server
+  isAvailable: boolean;
+  isEnabled: boolean;
+  isDirectorMode: boolean;
+  onToggle: () => void;
+  onClose: () => void;
+}
+
+const STATUS_DOTS: Record<CollabStatus, string> = {
+  off: 'bg-slate-400',
+  connecting: 'bg-amber-400 animate-pulse',
+  live: 'bg-green-500',
+  error: 'bg-red-500',
+};
+
+export const CollabPanel: React.FC<CollabPanelProps> = ({ collab, isAvailable, isEnabled, isDirectorMode, onToggle, onClose }) => {
+  const { t } = useTranslation();
+
+  return (
+    <div className={`absolute top-full right-0 mt-3 w-72 rounded-2xl shadow-2xl border p-3 z-50 animate-in fade-in zoom-in-95 duration-200 pointer-events-auto ${isDirectorMode ? 'bg-slate-900 border-white/10' : 'bg-white border-slate-200'}`}>
+      <div className={`flex items-center justify-between mb-2 pb-2 border-b ${isDirectorMode ? 'border-white/5' : 'border-slate-100'}`}>
+        <span className="text-[11px] font-black uppercase tracking-widest text-slate-400 flex items-center gap-2">
+          <Users className="w-3.5 h-3.5" /> {t('collab.title')}
+        </span>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition-colors">
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      {!isAvailable ? (
+        <p className="px-1 py-2 text-[11px] text-slate-400">{t('collab.needs_server')}</p>
+      ) : (
+        <div className="flex flex-col gap-2">
+          <label className="text-[10px] font-bold uppercase tracking-wide text-slate-400">{t('collab.your_name')}</label>
+          <div className="flex items-center gap-2">
+            <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: collab.color }} />
+            <input
+              value={collab.name}
+              onChange={(e) => collab.setName(e.target.value)}
+              className={`flex-1 min-w-0 text-[11px] px-2.5 py-1.5 rounded-lg border focus:outline-none focus:ring-2 ${isDirectorMode ? 'bg-slate-800 border-white/10 text-slate-200 focus:ring-purple-500/40' : 'bg-white border-slate-200 text-slate-700 focus:ring-indigo-300'}`}
+            />
+          </div>
+
+          <div className="flex items-center gap-2 text-[11px] font-semibold text-slate-500">
+            <span className={`w-2 h-2 rounded-full ${STATUS_DOTS[collab.status]}`} />
+            {t(`collab.status_${collab.status}`)}
+          </div>
+
+          {collab.status === 'live' && (
+            <div className="max-h-40 overflow-y-auto custom-scrollbar space-y-0.5">
+              {collab.peers.map((peer) => (
+                <div key={peer.client} className={`flex items-center gap-2 px-2.5 py-1.5 rounded-lg text-[11px] font-semibold ${isDirectorMode ? 'text-slate-300' : 'text-slate-700'}`}>
+                  <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: peer.color }} />
+                  <span className="truncate">{peer.name}</span>
+                </div>
+              ))}
+              {collab.peers.length === 0 && <p className="px-2.5 py-2 text-[11px] text-slate-400 text-center">{t('collab.alone')}</p>}
+            </div>
+          )}
+
+          <button
+            onClick={onToggle}
+            className={`w-full flex items-center justify-center gap-1.5 px-3 py-1.5 rounded-lg text-[11px] font-bold transition-colors ${
+              isEnabled
+                ? isDirectorMode ? 'bg-slate-800 text-slate-200 hover:bg-slate-700' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+                : isDirectorMode ? 'bg-purple-600 text-white hover:bg-purple-500' : 'bg-indigo-600 text-white hover:bg-indigo-700'
+            }`}
+          >
+            {isEnabled ? <Square className="w-3 h-3" /> : <Radio className="w-3 h-3" />}
+            {isEnabled ? t('collab.stop') : t('collab.start')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
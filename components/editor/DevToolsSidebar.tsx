@@ -2,6 +2,8 @@ import React from 'react';
 import { Settings, X, Code2, RotateCcw, Palette, Pipette, Activity, Play } from 'lucide-react';
 import { CollapsibleSection } from '../common/CollapsibleSection';
 import { JsonTreeEditor } from '../common/JsonTreeEditor';
+import { AnimationExportPanel } from './AnimationExportPanel';
+import { AnimationExportFormat, ExportProgressCallback } from '../../utils/animationExport';
 import { useTranslation } from '../../i18n';
 
 interface DevToolsSidebarProps {
@@ -19,6 +21,7 @@ interface DevToolsSidebarProps {
   onApplyTheme: () => void;
   onApplyEvent: () => void;
   onRunAnimation: () => void;
+  onExportAnimation: (format: AnimationExportFormat, onProgress: ExportProgressCallback) => Promise<void>;
 }
 
 export const DevToolsSidebar: React.FC<DevToolsSidebarProps> = ({
@@ -32,7 +35,8 @@ export const DevToolsSidebar: React.FC<DevToolsSidebarProps> = ({
   onResetGraph,
   onApplyTheme,
   onApplyEvent,
-  onRunAnimation
+  onRunAnimation,
+  onExportAnimation
 }) => {
   const { t } = useTranslation();
   if (!isOpen) return null;
@@ -115,6 +119,7 @@ export const DevToolsSidebar: React.FC<DevToolsSidebarProps> = ({
           >
             <Play className="w-3.5 h-3.5 mr-2 fill-current" /> {t('devtools.run_simulation')}
           </button>
+          <AnimationExportPanel disabled={!!errors.event} onExport={onExportAnimation} />
         </CollapsibleSection>
       </div>
     </>
@@ -0,0 +1,144 @@
+import React from 'react';
+import { GitFork, Plus, Trash2, X, AlignLeft } from 'lucide-react';
+import { AtomicStep, BranchStep, GraphData, ThemeConfig } from '../../types';
+import { DirectorStepCard } from './DirectorStepCard';
+import { useTranslation } from '../../i18n';
+
+interface DirectorBranchCardProps {
+  step: BranchStep;
+  index: number;
+  graphData: GraphData;
+  themeData: ThemeConfig;
+  onRunStep: (step: AtomicStep) => void;
+  onDelete: (index: number) => void;
+  onChange: (index: number, mutate: (branch: BranchStep) => void) => void;
+  onStartPick: (index: number, outcomeIndex: number) => void;
+}
+
+const LANE_COLORS = ['border-emerald-500/40', 'border-red-500/40', 'border-sky-500/40', 'border-amber-500/40'];
+
+export const DirectorBranchCard: React.FC<DirectorBranchCardProps> = ({
+  step,
+  index,
+  graphData,
+  themeData,
+  onRunStep,
+  onDelete,
+  onChange,
+  onStartPick
+}) => {
+  const { t } = useTranslation();
+
+  const addOutcome = () => {
+    onChange(index, (branch) => {
+      branch.outcomes.push({ name: `${t('branch.outcome')} ${branch.outcomes.length + 1}`, steps: [] });
+    });
+  };
+
+  const renameOutcome = (outcomeIdx: number, name: string) => {
+    onChange(index, (branch) => {
+      const outcome = branch.outcomes[outcomeIdx];
+      if (branch.defaultOutcome === outcome.name) branch.defaultOutcome = name;
+      outcome.name = name;
+    });
+  };
+
+  const removeOutcome = (outcomeIdx: number) => {
+    onChange(index, (branch) => {
+      const [removed] = branch.outcomes.splice(outcomeIdx, 1);
+      if (branch.defaultOutcome === removed.name) branch.defaultOutcome = undefined;
+    });
+  };
+
+  return (
+    <div className="bg-amber-900/10 border-2 border-dashed border-amber-500/20 rounded-2xl p-4 space-y-4 shadow-inner ring-1 ring-white/5">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3 min-w-0">
+          <span className="text-[9px] font-black text-amber-300 bg-amber-500/20 px-2.5 py-1 rounded-full border border-amber-500/30 uppercase tracking-[0.1em] flex items-center gap-1.5 flex-shrink-0">
+            <GitFork className="w-3 h-3" /> {t('branch.decision')}
+          </span>
+          <input
+            className="text-[11px] font-black text-slate-400 bg-transparent border-none focus:ring-0 p-0 placeholder-slate-600 min-w-0"
+            value={step.label || ""}
+            placeholder={t('branch.label_placeholder')}
+            onChange={(e) => onChange(index, (branch) => { branch.label = e.target.value; })}
+          />
+        </div>
+        <button onClick={() => onDelete(index)} className="p-1.5 text-slate-500 hover:text-red-400 rounded-lg transition-colors">
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex items-start gap-2 bg-slate-900/50 border border-slate-700 rounded px-2 py-1.5">
+        <AlignLeft className="w-3.5 h-3.5 text-slate-500 mt-0.5 flex-shrink-0" />
+        <textarea
+          rows={2}
+          className="text-[11px] bg-transparent border-none focus:ring-0 flex-1 p-0 resize-none text-slate-300 placeholder-slate-600"
+          value={step.description || ""}
+          placeholder={t('director.step.description_placeholder')}
+          onChange={(e) => onChange(index, (branch) => { branch.description = e.target.value; })}
+        />
+      </div>
+
+      <div className="flex items-center gap-2 bg-slate-900/50 border border-slate-700 rounded px-2 py-1.5">
+        <label className="text-[9px] text-slate-500 font-bold uppercase tracking-widest flex-shrink-0">{t('branch.default')}</label>
+        <select
+          className="text-[10px] bg-transparent border-none focus:ring-0 flex-1 p-0 appearance-none outline-none text-slate-300"
+          value={step.defaultOutcome || ""}
+          onChange={(e) => onChange(index, (branch) => { branch.defaultOutcome = e.target.value || undefined; })}
+        >
+          <option value="" className="bg-slate-800">{t('branch.ask')}</option>
+          {step.outcomes.map((outcome) => (
+            <option key={outcome.name} value={outcome.name} className="bg-slate-800">{outcome.name}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="space-y-4">
+        {step.outcomes.map((outcome, outcomeIdx) => (
+          <div key={outcomeIdx} className={`ml-2 pl-4 border-l-2 rounded-bl-xl space-y-3 ${LANE_COLORS[outcomeIdx % LANE_COLORS.length]}`}>
+            <div className="flex items-center gap-2">
+              <input
+                className="text-[11px] font-black text-slate-300 bg-slate-800/60 border border-white/5 rounded-lg px-2 py-1 focus:ring-0 outline-none flex-1 min-w-0"
+                value={outcome.name}
+                onChange={(e) => renameOutcome(outcomeIdx, e.target.value)}
+              />
+              <button onClick={() => onStartPick(index, outcomeIdx)} className="p-1.5 text-amber-400 hover:bg-white/5 rounded-lg transition-all" title={t('branch.add_step')}>
+                <Plus className="w-4 h-4" />
+              </button>
+              <button onClick={() => removeOutcome(outcomeIdx)} className="p-1.5 text-slate-500 hover:text-red-400 transition-colors">
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </div>
+            {outcome.steps.map((subStep, subIdx) => (
+              <DirectorStepCard
+                key={subIdx}
+                step={subStep as AtomicStep}
+                index={index}
+                subIndex={subIdx}
+                isDirectorMode={true}
+                graphData={graphData}
+                themeData={themeData}
+                onRunStep={onRunStep}
+                onDelete={(_, sub) => onChange(index, (branch) => { branch.outcomes[outcomeIdx].steps.splice(sub!, 1); })}
+                onUpdate={(_, prop, value, sub) => onChange(index, (branch) => { (branch.outcomes[outcomeIdx].steps[sub!] as any)[prop] = value; })}
+              />
+            ))}
+            {outcome.steps.length === 0 && (
+              <div className="text-[10px] text-slate-600 font-bold text-center py-4 border border-dashed border-white/5 rounded-2xl bg-black/20 italic">
+                {t('branch.empty_outcome')}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <button
+        onClick={addOutcome}
+        className="w-full text-[10px] font-black uppercase tracking-wider text-amber-400/80 hover:text-amber-300 py-2 rounded-xl border border-dashed border-amber-500/20 hover:bg-amber-500/5 transition-all flex items-center justify-center gap-1.5"
+      >
+        <Plus className="w-3 h-3" /> {t('branch.add_outcome')}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, Plus, Repeat, Timer, Trash2, TrendingUp, AlignLeft } from 'lucide-react';
+import { AtomicStep, GraphData, RepeatStep, ThemeConfig } from '../../types';
+import { DirectorStepCard } from './DirectorStepCard';
+import { useTranslation } from '../../i18n';
+
+interface DirectorRepeatCardProps {
+  step: RepeatStep;
+  index: number;
+  graphData: GraphData;
+  themeData: ThemeConfig;
+  onRunStep: (step: AtomicStep) => void;
+  onDelete: (index: number, subIndex?: number) => void;
+  onUpdate: (index: number, prop: string, value: any, subIndex?: number) => void;
+  onStartPick: (index: number) => void;
+}
+
+export const DirectorRepeatCard: React.FC<DirectorRepeatCardProps> = ({
+  step,
+  index,
+  graphData,
+  themeData,
+  onRunStep,
+  onDelete,
+  onUpdate,
+  onStartPick
+}) => {
+  const { t } = useTranslation();
+  const [collapsed, setCollapsed] = useState(false);
+
+  const fieldClass = "flex items-center gap-1.5 rounded border px-2 py-1.5 overflow-hidden bg-slate-900/50 border-slate-700";
+  const inputClass = "text-[10px] bg-transparent border-none focus:ring-0 flex-1 p-0 min-w-0 text-slate-300 placeholder-slate-600";
+
+  return (
+    <div className="bg-sky-900/10 border-2 border-dashed border-sky-500/20 rounded-2xl p-4 space-y-4 shadow-inner ring-1 ring-white/5">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 min-w-0">
+          <button onClick={() => setCollapsed(!collapsed)} className="p-0.5 text-sky-400 hover:text-sky-300 transition-colors">
+            {collapsed ? <ChevronRight className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+          </button>
+          <span className="text-[9px] font-black text-sky-300 bg-sky-500/20 px-2.5 py-1 rounded-full border border-sky-500/30 uppercase tracking-[0.1em] flex items-center gap-1.5 flex-shrink-0">
+            <Repeat className="w-3 h-3" /> {t('repeat.title')} ×{step.count}
+          </span>
+          <input
+            className="text-[11px] font-black text-slate-400 bg-transparent border-none focus:ring-0 p-0 placeholder-slate-600 min-w-0"
+            value={step.label || ""}
+            placeholder={t('director.group_label')}
+            onChange={(e) => onUpdate(index, 'label', e.target.value)}
+          />
+        </div>
+        <div className="flex items-center gap-1.5">
+          <button onClick={() => onStartPick(index)} className="p-1.5 text-sky-400 hover:bg-white/5 rounded-lg transition-all border border-transparent hover:border-white/5" title={t('director.add_step_group')}>
+            <Plus className="w-4 h-4" />
+          </button>
+          <button onClick={() => onDelete(index)} className="p-1.5 text-slate-500 hover:text-red-400 rounded-lg transition-colors">
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {!collapsed && (
+        <>
+          <div className="flex items-start gap-1.5 rounded border px-2 py-1.5 overflow-hidden bg-slate-900/50 border-slate-700">
+            <AlignLeft className="w-3 h-3 text-slate-500 mt-0.5 flex-shrink-0" />
+            <textarea
+              rows={2}
+              className={`${inputClass} resize-none`}
+              value={step.description || ""}
+              placeholder={t('director.step.description_placeholder')}
+              onChange={(e) => onUpdate(index, 'description', e.target.value)}
+            />
+          </div>
+          <div className="grid grid-cols-3 gap-1.5">
+            <div className={fieldClass} title={t('repeat.count')}>
+              <Repeat className="w-3 h-3 text-sky-400 flex-shrink-0" />
+              <input
+                type="number" min={1} step={1}
+                className={inputClass}
+                value={step.count}
+                onChange={(e) => onUpdate(index, 'count', Math.max(1, parseInt(e.target.value) || 1))}
+              />
+            </div>
+            <div className={fieldClass} title={t('repeat.interval')}>
+              <Timer className="w-3 h-3 text-slate-500 flex-shrink-0" />
+              <input
+                type="number" min={0} step={0.1} placeholder={t('repeat.interval')}
+                className={inputClass}
+                value={step.interval ?? ""}
+                onChange={(e) => onUpdate(index, 'interval', e.target.value === "" ? undefined : parseFloat(e.target.value))}
+              />
+            </div>
+            <div className={fieldClass} title={t('repeat.backoff')}>
+              <TrendingUp className="w-3 h-3 text-amber-500 flex-shrink-0" />
+              <input
+                type="number" min={1} step={0.1} placeholder={t('repeat.backoff')}
+                className={inputClass}
+                value={step.backoff ?? ""}
+                onChange={(e) => onUpdate(index, 'backoff', e.target.value === "" ? undefined : parseFloat(e.target.value))}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            {step.steps.map((subStep, subIdx) => (
+              <DirectorStepCard
+                key={subIdx}
+                step={subStep as AtomicStep}
+                index={index}
+                subIndex={subIdx}
+                isDirectorMode={true}
+                graphData={graphData}
+                themeData={themeData}
+                onRunStep={onRunStep}
+                onDelete={onDelete}
+                onUpdate={onUpdate}
+              />
+            ))}
+            {step.steps.length === 0 && (
+              <div className="text-[10px] text-slate-600 font-bold text-center py-6 border border-dashed border-white/5 rounded-2xl bg-black/20 italic">
+                {t('director.empty_group')}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
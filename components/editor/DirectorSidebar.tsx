@@ -1,7 +1,10 @@
 import React from 'react';
-import { Clapperboard, Settings2, X, Sparkles, Link as LinkIcon, Box, Activity, Flag, History, Plus, Layers, FastForward, Trash2, MousePointer2, Infinity as InfinityIcon, Play, Check } from 'lucide-react';
-import { EventSequence, GraphData, ThemeConfig, ParallelStep, AtomicStep, InitialNodeState } from '../../types';
+import { Clapperboard, Settings2, X, Sparkles, Link as LinkIcon, Box, Activity, Flag, History, Plus, Layers, FastForward, Trash2, MousePointer2, Infinity as InfinityIcon, Play, Check, GitFork, Repeat, Captions, AlignLeft } from 'lucide-react';
+import { CaptionMode, EventSequence, GraphData, ThemeConfig, ParallelStep, AtomicStep, BranchStep, RepeatStep, InitialNodeState } from '../../types';
 import { DirectorStepCard } from './DirectorStepCard';
+import { DirectorBranchCard } from './DirectorBranchCard';
+import { DirectorRepeatCard } from './DirectorRepeatCard';
+import { PlaybackScrubber } from './PlaybackScrubber';
 import { GraphCanvasHandle } from '../GraphCanvas';
 import { useTranslation } from '../../i18n';
 
@@ -14,7 +17,7 @@ interface DirectorSidebarProps {
   setDraftEventData: (data: EventSequence) => void;
   directorPicking: 'source' | 'target' | null;
   isContinuousPick: boolean;
-  onStartPick: (continuous?: boolean, groupIndex?: number) => void;
+  onStartPick: (continuous?: boolean, groupIndex?: number, outcomeIndex?: number) => void;
   isDirectorConfigOpen: boolean;
   setIsDirectorConfigOpen: (val: boolean) => void;
   directorDefaults: any;
@@ -54,10 +57,37 @@ export const DirectorSidebar: React.FC<DirectorSidebarProps> = ({
     setDraftEventData(updatedDraft);
   };
 
+  const addRepeatGroup = () => {
+    const newGroup: RepeatStep = { type: 'repeat', label: t('repeat.title'), count: 3, interval: 0.5, steps: [] };
+    const updatedDraft = { ...draftEventData, steps: [...draftEventData.steps, newGroup] };
+    setDraftEventData(updatedDraft);
+  };
+
+  const addBranch = () => {
+    const newBranch: BranchStep = {
+      type: 'branch',
+      id: `branch-${Date.now()}`,
+      label: t('branch.decision'),
+      outcomes: [
+        { name: 'success', steps: [] },
+        { name: 'failure', steps: [] },
+      ],
+      defaultOutcome: 'success',
+    };
+    const updatedDraft = { ...draftEventData, steps: [...draftEventData.steps, newBranch] };
+    setDraftEventData(updatedDraft);
+  };
+
+  const updateBranch = (index: number, mutate: (branch: BranchStep) => void) => {
+    const updatedDraft = { ...draftEventData };
+    mutate(updatedDraft.steps[index] as BranchStep);
+    setDraftEventData(updatedDraft);
+  };
+
   const deleteStep = (index: number, subIndex?: number) => {
     const updatedDraft = { ...draftEventData };
     if (subIndex !== undefined) {
-      const group = updatedDraft.steps[index] as ParallelStep;
+      const group = updatedDraft.steps[index] as ParallelStep | RepeatStep;
       group.steps.splice(subIndex, 1);
     } else {
       updatedDraft.steps.splice(index, 1);
@@ -68,7 +98,7 @@ export const DirectorSidebar: React.FC<DirectorSidebarProps> = ({
   const updateStepProp = (index: number, prop: string, value: any, subIndex?: number) => {
     const updatedDraft = { ...draftEventData };
     const step: any = subIndex !== undefined 
-      ? (updatedDraft.steps[index] as ParallelStep).steps[subIndex]
+      ? (updatedDraft.steps[index] as ParallelStep | RepeatStep).steps[subIndex]
       : updatedDraft.steps[index];
     step[prop] = value;
     setDraftEventData(updatedDraft);
@@ -223,13 +253,25 @@ export const DirectorSidebar: React.FC<DirectorSidebarProps> = ({
             <h3 className="text-xs font-black text-slate-500 uppercase tracking-[0.2em] flex items-center gap-2">
               <Layers className="w-3.5 h-3.5" /> {t('director.timeline')}
             </h3>
+            <label className="flex items-center gap-1.5 text-slate-500" title={t('captions.title')}>
+              <Captions className="w-3.5 h-3.5" />
+              <select
+                className="text-[10px] font-black uppercase tracking-wider bg-slate-800 border border-white/5 rounded-lg px-2 py-1 outline-none focus:ring-1 focus:ring-purple-500 text-slate-300"
+                value={draftEventData.captions ?? 'subtitle'}
+                onChange={(e) => setDraftEventData({ ...draftEventData, captions: e.target.value as CaptionMode })}
+              >
+                <option value="subtitle" className="bg-slate-900">{t('captions.subtitle')}</option>
+                <option value="link" className="bg-slate-900">{t('captions.link')}</option>
+                <option value="off" className="bg-slate-900">{t('captions.off')}</option>
+              </select>
+            </label>
           </div>
 
           <div className="space-y-5">
             {draftEventData.steps.map((step, idx) => (
               <div key={idx} className="relative pl-7">
                 <div className="absolute left-3 top-0 bottom-0 w-0.5 bg-gradient-to-b from-slate-800 to-slate-800/0 -z-10"></div>
-                <div className={`absolute left-0 top-4 w-6 h-6 rounded-full bg-slate-900 border-2 flex items-center justify-center text-[10px] font-black shadow-lg ${step.type === 'parallel' ? 'border-purple-500/50 text-purple-400' : 'border-slate-700 text-slate-500'}`}>
+                <div className={`absolute left-0 top-4 w-6 h-6 rounded-full bg-slate-900 border-2 flex items-center justify-center text-[10px] font-black shadow-lg ${step.type === 'parallel' ? 'border-purple-500/50 text-purple-400' : step.type === 'branch' ? 'border-amber-500/50 text-amber-400' : step.type === 'repeat' ? 'border-sky-500/50 text-sky-400' : 'border-slate-700 text-slate-500'}`}>
                   {idx + 1}
                 </div>
 
@@ -256,6 +298,17 @@ export const DirectorSidebar: React.FC<DirectorSidebarProps> = ({
                         </button>
                       </div>
                     </div>
+
+                    <div className="flex items-start gap-2 bg-slate-900/50 border border-slate-700 rounded px-2 py-1.5">
+                      <AlignLeft className="w-3.5 h-3.5 text-slate-500 mt-0.5 flex-shrink-0" />
+                      <textarea
+                        rows={2}
+                        className="text-[11px] bg-transparent border-none focus:ring-0 flex-1 p-0 resize-none text-slate-300 placeholder-slate-600"
+                        value={step.description || ""}
+                        placeholder={t('director.step.description_placeholder')}
+                        onChange={(e) => updateStepProp(idx, 'description', e.target.value)}
+                      />
+                    </div>
                     
                     <div className="space-y-3">
                       {(step as ParallelStep).steps.map((subStep, subIdx) => (
@@ -279,6 +332,28 @@ export const DirectorSidebar: React.FC<DirectorSidebarProps> = ({
                       )}
                     </div>
                   </div>
+                ) : step.type === 'repeat' ? (
+                  <DirectorRepeatCard
+                    step={step}
+                    index={idx}
+                    graphData={graphData}
+                    themeData={themeData}
+                    onRunStep={(s) => canvasRef.current?.runSingleStep(s)}
+                    onDelete={deleteStep}
+                    onUpdate={updateStepProp}
+                    onStartPick={(groupIdx) => onStartPick(false, groupIdx)}
+                  />
+                ) : step.type === 'branch' ? (
+                  <DirectorBranchCard
+                    step={step}
+                    index={idx}
+                    graphData={graphData}
+                    themeData={themeData}
+                    onRunStep={(s) => canvasRef.current?.runSingleStep(s)}
+                    onDelete={deleteStep}
+                    onChange={updateBranch}
+                    onStartPick={(branchIdx, outcomeIdx) => onStartPick(false, branchIdx, outcomeIdx)}
+                  />
                 ) : (
                   <DirectorStepCard 
                     step={step as AtomicStep} 
@@ -295,10 +370,10 @@ export const DirectorSidebar: React.FC<DirectorSidebarProps> = ({
             ))}
           </div>
 
-          <div className="grid grid-cols-3 gap-3 pt-6">
+          <div className="grid grid-cols-5 gap-2 pt-6">
             <button 
               onClick={() => onStartPick(false)} 
-              className={`flex flex-col items-center justify-center p-4 rounded-2xl border-2 border-dashed transition-all group ${directorPicking === 'source' && !isContinuousPick ? 'border-purple-500 bg-purple-500/20 text-purple-300' : 'border-slate-800 bg-slate-900/50 hover:bg-slate-800 hover:border-slate-600 text-slate-500'}`}
+              className={`flex flex-col items-center justify-center p-3 rounded-2xl border-2 border-dashed transition-all group ${directorPicking === 'source' && !isContinuousPick ? 'border-purple-500 bg-purple-500/20 text-purple-300' : 'border-slate-800 bg-slate-900/50 hover:bg-slate-800 hover:border-slate-600 text-slate-500'}`}
             >
               <MousePointer2 className="w-6 h-6 mb-2 transition-transform group-hover:scale-110" />
               <span className="text-[9px] font-black uppercase tracking-wider text-center leading-tight">{t('director.add_step')}</span>
@@ -306,7 +381,7 @@ export const DirectorSidebar: React.FC<DirectorSidebarProps> = ({
 
             <button 
               onClick={() => onStartPick(true)} 
-              className={`flex flex-col items-center justify-center p-4 rounded-2xl border-2 border-dashed transition-all group ${isContinuousPick ? 'border-emerald-500 bg-emerald-500/20 text-emerald-300' : 'border-slate-800 bg-slate-900/50 hover:bg-slate-800 hover:border-slate-600 text-slate-500'}`}
+              className={`flex flex-col items-center justify-center p-3 rounded-2xl border-2 border-dashed transition-all group ${isContinuousPick ? 'border-emerald-500 bg-emerald-500/20 text-emerald-300' : 'border-slate-800 bg-slate-900/50 hover:bg-slate-800 hover:border-slate-600 text-slate-500'}`}
             >
               <div className="relative mb-2">
                 <MousePointer2 className="w-6 h-6 transition-transform group-hover:scale-110" />
@@ -319,16 +394,33 @@ export const DirectorSidebar: React.FC<DirectorSidebarProps> = ({
 
             <button 
               onClick={addParallelGroup} 
-              className="flex flex-col items-center justify-center p-4 rounded-2xl border-2 border-dashed border-slate-800 bg-slate-900/50 hover:bg-slate-800 hover:border-slate-600 transition-all text-slate-500 group"
+              className="flex flex-col items-center justify-center p-3 rounded-2xl border-2 border-dashed border-slate-800 bg-slate-900/50 hover:bg-slate-800 hover:border-slate-600 transition-all text-slate-500 group"
             >
               <FastForward className="w-6 h-6 mb-2 transition-transform group-hover:scale-110" />
               <span className="text-[9px] font-black uppercase tracking-wider text-center leading-tight">{t('director.add_parallel')}</span>
             </button>
+
+            <button 
+              onClick={addRepeatGroup} 
+              className="flex flex-col items-center justify-center p-3 rounded-2xl border-2 border-dashed border-slate-800 bg-slate-900/50 hover:bg-slate-800 hover:border-slate-600 transition-all text-slate-500 group"
+            >
+              <Repeat className="w-6 h-6 mb-2 transition-transform group-hover:scale-110" />
+              <span className="text-[9px] font-black uppercase tracking-wider text-center leading-tight">{t('director.add_repeat')}</span>
+            </button>
+
+            <button 
+              onClick={addBranch} 
+              className="flex flex-col items-center justify-center p-3 rounded-2xl border-2 border-dashed border-slate-800 bg-slate-900/50 hover:bg-slate-800 hover:border-slate-600 transition-all text-slate-500 group"
+            >
+              <GitFork className="w-6 h-6 mb-2 transition-transform group-hover:scale-110" />
+              <span className="text-[9px] font-black uppercase tracking-wider text-center leading-tight">{t('director.add_branch')}</span>
+            </button>
           </div>
         </div>
       </div>
 
       <div className="p-5 bg-slate-900 border-t border-white/10 space-y-4 shadow-[0_-10px_40px_rgba(0,0,0,0.3)]">
+        <PlaybackScrubber canvasRef={canvasRef} />
         <div className="grid grid-cols-2 gap-4">
           <button 
             onClick={onRunFullAnimation} 
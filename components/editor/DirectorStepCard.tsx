@@ -1,7 +1,8 @@
 import React from 'react';
-import { Play, Trash2, Type, Link as LinkIcon, Timer, Box, Activity, Flag } from 'lucide-react';
-import { AtomicStep, ThemeConfig, GraphData } from '../../types';
+import { Play, Trash2, Type, Link as LinkIcon, Timer, Box, Activity, Flag, Eraser, AlignLeft, Route, Waypoints, X } from 'lucide-react';
+import { AtomicStep, ThemeConfig, GraphData, GraphNode } from '../../types';
 import { useTranslation } from '../../i18n';
+import { getLinkId } from '../../utils/linkGeometry';
 
 interface DirectorStepCardProps {
   step: AtomicStep;
@@ -15,6 +16,21 @@ interface DirectorStepCardProps {
   onUpdate: (index: number, prop: string, value: any, subIndex?: number) => void;
 }
 
+type StateEditMode = '' | 'set' | 'toggle' | 'remove' | 'clear';
+
+const STATE_EDIT_PROPS = ['setNodeState', 'toggleNodeState', 'removeNodeState', 'clearNodeStates'] as const;
+
+const getStateEdit = (step: AtomicStep): { mode: StateEditMode; state: string } => {
+  if (step.clearNodeStates) return { mode: 'clear', state: '' };
+  if (step.setNodeState) return { mode: 'set', state: step.setNodeState };
+  if (step.toggleNodeState) return { mode: 'toggle', state: step.toggleNodeState };
+  if (step.removeNodeState) {
+    const removed = Array.isArray(step.removeNodeState) ? step.removeNodeState[0] : step.removeNodeState;
+    return { mode: 'remove', state: removed || '' };
+  }
+  return { mode: '', state: '' };
+};
+
 export const DirectorStepCard: React.FC<DirectorStepCardProps> = ({
   step,
   index,
@@ -27,6 +43,26 @@ export const DirectorStepCard: React.FC<DirectorStepCardProps> = ({
   onUpdate
 }) => {
   const { t } = useTranslation();
+  const stateEdit = getStateEdit(step);
+  const endpoint = (end: string | GraphNode) => (typeof end === 'string' ? end : end.id);
+  // Links the step can travel along, in either direction
+  const pairLinks = graphData.links.filter((link) => {
+    const source = endpoint(link.source);
+    const target = endpoint(link.target);
+    return (source === step.from && target === step.to) || (source === step.to && target === step.from);
+  });
+  const via = step.via || [];
+  const nodeLabel = (id: string) => graphData.nodes.find(n => n.id === id)?.label || id;
+  const updateVia = (next: string[]) => onUpdate(index, 'via', next.length > 0 ? next : undefined, subIndex);
+
+  const updateStateEdit = (mode: StateEditMode, state: string) => {
+    STATE_EDIT_PROPS.forEach((prop) => onUpdate(index, prop, undefined, subIndex));
+    const fallback = state || Object.keys(themeData.nodeStyles)[0];
+    if (mode === 'set') onUpdate(index, 'setNodeState', fallback, subIndex);
+    if (mode === 'toggle') onUpdate(index, 'toggleNodeState', fallback, subIndex);
+    if (mode === 'remove') onUpdate(index, 'removeNodeState', fallback, subIndex);
+    if (mode === 'clear') onUpdate(index, 'clearNodeStates', true, subIndex);
+  };
 
   return (
     <div className={`border rounded-xl p-3 shadow-sm transition-all group/card relative ${isDirectorMode ? 'bg-slate-800/40 border-slate-700 hover:border-purple-500/50' : 'bg-white border-slate-200 hover:border-indigo-200'}`}>
@@ -50,15 +86,52 @@ export const DirectorStepCard: React.FC<DirectorStepCardProps> = ({
       <div className="grid grid-cols-2 gap-2 mb-3">
         <div className={`p-1.5 rounded border ${isDirectorMode ? 'bg-slate-900/50 border-slate-700' : 'bg-slate-50 border-slate-100'}`}>
           <label className="text-[9px] text-slate-500 block mb-0.5 font-bold uppercase tracking-widest">{t('director.step.from')}</label>
-          <span className={`text-[11px] font-bold truncate block ${isDirectorMode ? 'text-slate-300' : 'text-slate-700'}`}>{graphData.nodes.find(n => n.id === step.from)?.label || step.from}</span>
+          <span className={`text-[11px] font-bold truncate block ${isDirectorMode ? 'text-slate-300' : 'text-slate-700'}`}>{nodeLabel(step.from)}</span>
         </div>
         <div className={`p-1.5 rounded border ${isDirectorMode ? 'bg-slate-900/50 border-slate-700' : 'bg-slate-50 border-slate-100'}`}>
           <label className="text-[9px] text-slate-500 block mb-0.5 font-bold uppercase tracking-widest">{t('director.step.to')}</label>
-          <span className={`text-[11px] font-bold truncate block ${isDirectorMode ? 'text-slate-300' : 'text-slate-700'}`}>{graphData.nodes.find(n => n.id === step.to)?.label || step.to}</span>
+          <span className={`text-[11px] font-bold truncate block ${isDirectorMode ? 'text-slate-300' : 'text-slate-700'}`}>{nodeLabel(step.to)}</span>
         </div>
       </div>
 
       <div className="space-y-3">
+        <div className={`flex items-center flex-wrap gap-1.5 rounded border px-2 py-1.5 ${isDirectorMode ? 'bg-slate-900/50 border-slate-700' : 'bg-slate-50 border-slate-100'}`}>
+          <Waypoints className="w-3.5 h-3.5 text-slate-500" />
+          {via.map((id, i) => (
+            <span key={`${id}-${i}`} className={`flex items-center gap-0.5 text-[10px] font-bold rounded px-1.5 py-0.5 ${isDirectorMode ? 'bg-slate-700 text-slate-200' : 'bg-white border border-slate-200 text-slate-700'}`}>
+              {nodeLabel(id)}
+              <button onClick={() => updateVia(via.filter((_, j) => j !== i))} className="text-slate-400 hover:text-red-500">
+                <X className="w-2.5 h-2.5" />
+              </button>
+            </span>
+          ))}
+          <select
+            className={`text-[10px] bg-transparent border-none focus:ring-0 flex-1 min-w-[80px] p-0 appearance-none outline-none ${isDirectorMode ? 'text-slate-400' : 'text-slate-500'}`}
+            value=""
+            onChange={(e) => e.target.value && updateVia([...via, e.target.value])}
+          >
+            <option value="">{t('director.step.add_via')}</option>
+            {graphData.nodes.map(n => <option key={n.id} value={n.id} className={isDirectorMode ? 'bg-slate-800' : ''}>{n.label || n.id}</option>)}
+          </select>
+        </div>
+
+        {via.length === 0 && pairLinks.length > 1 && (
+          <div className={`flex items-center gap-2 rounded border px-2 py-1.5 ${isDirectorMode ? 'bg-slate-900/50 border-slate-700' : 'bg-slate-50 border-slate-100'}`}>
+            <Route className="w-3.5 h-3.5 text-slate-500" />
+            <select
+              className={`text-[11px] bg-transparent border-none focus:ring-0 flex-1 p-0 appearance-none outline-none ${isDirectorMode ? 'text-slate-300' : 'text-slate-700'}`}
+              value={step.linkId || ""}
+              onChange={(e) => onUpdate(index, 'linkId', e.target.value || undefined, subIndex)}
+            >
+              <option value="">{t('director.step.any_link')}</option>
+              {pairLinks.map(link => {
+                const id = getLinkId(link);
+                return <option key={id} value={id} className={isDirectorMode ? 'bg-slate-800' : ''}>{link.meta_data?.label || id}</option>;
+              })}
+            </select>
+          </div>
+        )}
+
         <div className={`flex items-center gap-2 rounded border px-2 py-1.5 ${isDirectorMode ? 'bg-slate-900/50 border-slate-700' : 'bg-slate-50 border-slate-100'}`}>
           <Type className="w-3.5 h-3.5 text-slate-500" />
           <input 
@@ -68,6 +141,20 @@ export const DirectorStepCard: React.FC<DirectorStepCardProps> = ({
             onChange={(e) => onUpdate(index, 'label', e.target.value, subIndex)}
           />
         </div>
+
+        {/* Captions follow top-level steps, so nested steps have no description */}
+        {subIndex === undefined && (
+          <div className={`flex items-start gap-2 rounded border px-2 py-1.5 ${isDirectorMode ? 'bg-slate-900/50 border-slate-700' : 'bg-slate-50 border-slate-100'}`}>
+            <AlignLeft className="w-3.5 h-3.5 text-slate-500 mt-0.5" />
+            <textarea
+              rows={2}
+              className={`text-[11px] bg-transparent border-none focus:ring-0 flex-1 p-0 resize-none ${isDirectorMode ? 'text-slate-300 placeholder-slate-600' : 'text-slate-700 placeholder-slate-400'}`}
+              value={step.description || ""}
+              placeholder={t('director.step.description_placeholder')}
+              onChange={(e) => onUpdate(index, 'description', e.target.value, subIndex)}
+            />
+          </div>
+        )}
         
         <div className="space-y-1.5">
           <div className="flex items-center gap-2">
@@ -107,6 +194,33 @@ export const DirectorStepCard: React.FC<DirectorStepCardProps> = ({
              </div>
           </div>
 
+          <div className="grid grid-cols-2 gap-1.5">
+             <div className={`flex items-center gap-1.5 rounded border px-2 py-1.5 overflow-hidden ${isDirectorMode ? 'bg-slate-900/50 border-slate-700' : 'bg-slate-50 border-slate-100'}`}>
+               <Eraser className="w-3 h-3 text-rose-400 flex-shrink-0" />
+               <select 
+                 className={`text-[10px] bg-transparent border-none focus:ring-0 flex-1 p-0 appearance-none outline-none ${isDirectorMode ? 'text-slate-300' : 'text-slate-700'}`} 
+                 value={stateEdit.mode} 
+                 onChange={(e) => updateStateEdit(e.target.value as StateEditMode, stateEdit.state)}
+               >
+                 <option value="">{t('director.step.state_edit_none')}</option>
+                 <option value="set" className={isDirectorMode ? 'bg-slate-800' : ''}>{t('director.step.state_edit_set')}</option>
+                 <option value="toggle" className={isDirectorMode ? 'bg-slate-800' : ''}>{t('director.step.state_edit_toggle')}</option>
+                 <option value="remove" className={isDirectorMode ? 'bg-slate-800' : ''}>{t('director.step.state_edit_remove')}</option>
+                 <option value="clear" className={isDirectorMode ? 'bg-slate-800' : ''}>{t('director.step.state_edit_clear')}</option>
+               </select>
+             </div>
+             <div className={`flex items-center gap-1.5 rounded border px-2 py-1.5 overflow-hidden ${isDirectorMode ? 'bg-slate-900/50 border-slate-700' : 'bg-slate-50 border-slate-100'} ${stateEdit.mode === '' || stateEdit.mode === 'clear' ? 'opacity-40' : ''}`}>
+               <select 
+                 className={`text-[10px] bg-transparent border-none focus:ring-0 flex-1 p-0 appearance-none outline-none ${isDirectorMode ? 'text-slate-300' : 'text-slate-700'}`} 
+                 value={stateEdit.state} 
+                 disabled={stateEdit.mode === '' || stateEdit.mode === 'clear'}
+                 onChange={(e) => updateStateEdit(stateEdit.mode, e.target.value)}
+               >
+                 {Object.keys(themeData.nodeStyles).map(k => <option key={k} value={k} className={isDirectorMode ? 'bg-slate-800' : ''}>{k}</option>)}
+               </select>
+             </div>
+          </div>
+
           <div className="grid grid-cols-2 gap-1.5">
              <div className={`flex items-center gap-1.5 rounded border px-2 py-1.5 overflow-hidden ${isDirectorMode ? 'bg-slate-900/50 border-slate-700' : 'bg-slate-50 border-slate-100'}`}>
                <Activity className="w-3 h-3 text-amber-500 flex-shrink-0" />
@@ -1,6 +1,18 @@
 import React, { useState, useEffect } from 'react';
-import { ArrowLeft, Plus, Save, Hammer, Clapperboard, ChevronRight, Sparkles } from 'lucide-react';
+import { ArrowLeft, Plus, Save, Hammer, Clapperboard, ChevronRight, Sparkles, Undo2, Redo2, History, LayoutDashboard, FileInput, Download, AlertTriangle, ArchiveRestore, Users } from 'lucide-react';
 import { Toggle } from '../Toggle';
+import { HistoryPanel } from './HistoryPanel';
+import { LayoutPanel } from './LayoutPanel';
+import { ExportPanel } from './ExportPanel';
+import { RevisionsPanel } from './RevisionsPanel';
+import { CollabPanel } from './CollabPanel';
+import { LayoutAlgorithm } from '../../utils/graphLayouts';
+import { DiagramExportFormat } from '../../utils/diagramExport';
+import { ImageExportOptions } from '../../utils/imageExport';
+import { EditorHistory } from '../../hooks/useEditorHistory';
+import { Collaboration } from '../../hooks/useCollaboration';
+import { ProjectRevision } from '../../types';
+import { StorageErrorKind } from '../../utils/projectStorage';
 import { useTranslation } from '../../i18n';
 
 interface EditorToolbarProps {
@@ -9,6 +21,10 @@ interface EditorToolbarProps {
   onBack: () => void;
   onAddNode: () => void;
   onImportFromAI: () => void;
+  onImportDiagram: () => void;
+  onLayout: (algorithm: LayoutAlgorithm) => void;
+  onExportDiagram: (format: DiagramExportFormat) => void;
+  onExportImage: (options: ImageExportOptions) => Promise<void>;
   isLinkMode: boolean;
   setIsLinkMode: (val: boolean) => void;
   isDirectorMode: boolean;
@@ -16,8 +32,18 @@ interface EditorToolbarProps {
   devMode: boolean;
   setDevMode: (val: boolean) => void;
   onSave: () => void;
-  saveStatus: 'idle' | 'saving' | 'saved';
+  revisions: ProjectRevision[];
+  onCreateSnapshot: (label: string) => void;
+  onRestoreRevision: (revision: ProjectRevision) => void;
+  onCompareRevisions: (beforeId: string, afterId: string) => void;
+  saveStatus: 'idle' | 'saving' | 'saved' | 'error';
+  saveError: StorageErrorKind | null;
   isDirty: boolean;
+  history: EditorHistory;
+  collab: Collaboration;
+  isCollabAvailable: boolean;
+  isCollabEnabled: boolean;
+  onToggleCollab: () => void;
 }
 
 export const EditorToolbar: React.FC<EditorToolbarProps> = ({
@@ -26,6 +52,10 @@ export const EditorToolbar: React.FC<EditorToolbarProps> = ({
   onBack,
   onAddNode,
   onImportFromAI,
+  onImportDiagram,
+  onLayout,
+  onExportDiagram,
+  onExportImage,
   isLinkMode,
   setIsLinkMode,
   isDirectorMode,
@@ -33,11 +63,26 @@ export const EditorToolbar: React.FC<EditorToolbarProps> = ({
   devMode,
   setDevMode,
   onSave,
+  revisions,
+  onCreateSnapshot,
+  onRestoreRevision,
+  onCompareRevisions,
   saveStatus,
-  isDirty
+  saveError,
+  isDirty,
+  history,
+  collab,
+  isCollabAvailable,
+  isCollabEnabled,
+  onToggleCollab
 }) => {
   const { t } = useTranslation();
   const [activeModeGroup, setActiveModeGroup] = useState<'build' | 'animate' | null>(null);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isLayoutOpen, setIsLayoutOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isRevisionsOpen, setIsRevisionsOpen] = useState(false);
+  const [isCollabOpen, setIsCollabOpen] = useState(false);
 
   // Auto-open the relevant group when a tool inside it becomes active externally
   useEffect(() => { if (isLinkMode) setActiveModeGroup('build'); }, [isLinkMode]);
@@ -91,43 +136,72 @@ export const EditorToolbar: React.FC<EditorToolbarProps> = ({
           <ChevronRight className={`w-3 h-3 transition-transform duration-200 ${isBuildOpen ? 'rotate-90' : ''}`} />
         </button>
 
-        {/* 构建 sub-tools */}
-        <div className={`flex items-center gap-2 overflow-hidden transition-all duration-300 ${isBuildOpen ? 'max-w-xs opacity-100' : 'max-w-0 opacity-0'}`}>
-          <button
-            onClick={onAddNode}
-            className={`flex items-center gap-1.5 px-3 py-1.5 rounded-xl text-xs font-bold transition-all border whitespace-nowrap ${
-              isDirectorMode
-                ? 'bg-indigo-950/50 text-indigo-300 border-indigo-500/30 hover:bg-indigo-900/50'
-                : 'bg-indigo-50 text-indigo-600 border-indigo-200 hover:bg-indigo-100'
-            }`}
-          >
-            <Plus className="w-3.5 h-3.5" />
-            {t('editor.node')}
-          </button>
+        {/* 构建 sub-tools (the layout panel sits outside the clipped strip) */}
+        <div className="relative">
+          <div className={`flex items-center gap-2 overflow-hidden transition-all duration-300 ${isBuildOpen ? 'max-w-xl opacity-100' : 'max-w-0 opacity-0'}`}>
+            <button
+              onClick={onAddNode}
+              className={`flex items-center gap-1.5 px-3 py-1.5 rounded-xl text-xs font-bold transition-all border whitespace-nowrap ${
+                isDirectorMode
+                  ? 'bg-indigo-950/50 text-indigo-300 border-indigo-500/30 hover:bg-indigo-900/50'
+                  : 'bg-indigo-50 text-indigo-600 border-indigo-200 hover:bg-indigo-100'
+              }`}
+            >
+              <Plus className="w-3.5 h-3.5" />
+              {t('editor.node')}
+            </button>
 
-          <div className={`h-6 w-px flex-shrink-0 ${isDirectorMode ? 'bg-slate-700' : 'bg-slate-200'}`} />
+            <div className={`h-6 w-px flex-shrink-0 ${isDirectorMode ? 'bg-slate-700' : 'bg-slate-200'}`} />
 
-          <div className="whitespace-nowrap">
-            <Toggle
-              checked={isLinkMode}
-              onChange={setIsLinkMode}
-              label={isLinkMode ? t('editor.link_activated') : t('editor.link_mode')}
-            />
-          </div>
+            <div className="whitespace-nowrap">
+              <Toggle
+                checked={isLinkMode}
+                onChange={setIsLinkMode}
+                label={isLinkMode ? t('editor.link_activated') : t('editor.link_mode')}
+              />
+            </div>
 
-          <div className={`h-6 w-px flex-shrink-0 ${isDirectorMode ? 'bg-slate-700' : 'bg-slate-200'}`} />
+            <div className={`h-6 w-px flex-shrink-0 ${isDirectorMode ? 'bg-slate-700' : 'bg-slate-200'}`} />
 
-          <button
-            onClick={onImportFromAI}
-            className={`flex items-center gap-1.5 px-3 py-1.5 rounded-xl text-xs font-bold transition-all border whitespace-nowrap ${
-              isDirectorMode
-                ? 'bg-indigo-950/50 text-indigo-300 border-indigo-500/30 hover:bg-indigo-900/50'
-                : 'bg-indigo-50 text-indigo-600 border-indigo-200 hover:bg-indigo-100'
-            }`}
-          >
-            <Sparkles className="w-3.5 h-3.5" />
-            {t('build.import_ai')}
-          </button>
+            <button
+              onClick={onImportFromAI}
+              className={`flex items-center gap-1.5 px-3 py-1.5 rounded-xl text-xs font-bold transition-all border whitespace-nowrap ${
+                isDirectorMode
+                  ? 'bg-indigo-950/50 text-indigo-300 border-indigo-500/30 hover:bg-indigo-900/50'
+                  : 'bg-indigo-50 text-indigo-600 border-indigo-200 hover:bg-indigo-100'
+              }`}
+            >
+              <Sparkles className="w-3.5 h-3.5" />
+              {t('build.import_ai')}
+            </button>
+
+            <button
+              onClick={onImportDiagram}
+              className={`flex items-center gap-1.5 px-3 py-1.5 rounded-xl text-xs font-bold transition-all border whitespace-nowrap ${
+                isDirectorMode
+                  ? 'bg-indigo-950/50 text-indigo-300 border-indigo-500/30 hover:bg-indigo-900/50'
+                  : 'bg-indigo-50 text-indigo-600 border-indigo-200 hover:bg-indigo-100'
+              }`}
+            >
+              <FileInput className="w-3.5 h-3.5" />
+              {t('build.import_diagram')}
+            </button>
+
+            <button
+              onClick={() => setIsLayoutOpen(!isLayoutOpen)}
+              className={`flex items-center gap-1.5 px-3 py-1.5 rounded-xl text-xs font-bold transition-all border whitespace-nowrap ${
+                isDirectorMode
+                  ? 'bg-indigo-950/50 text-indigo-300 border-indigo-500/30 hover:bg-indigo-900/50'
+                  : 'bg-indigo-50 text-indigo-600 border-indigo-200 hover:bg-indigo-100'
+              }`}
+            >
+              <LayoutDashboard className="w-3.5 h-3.5" />
+              {t('layout.title')}
+            </button>
+          </div>
+          {isBuildOpen && isLayoutOpen && (
+            <LayoutPanel isDirectorMode={isDirectorMode} onApply={onLayout} onClose={() => setIsLayoutOpen(false)} />
+          )}
         </div>
 
         {divider}
@@ -163,14 +237,116 @@ export const EditorToolbar: React.FC<EditorToolbarProps> = ({
 
         {divider}
 
+        {/* History */}
+        <div className="relative flex items-center gap-1">
+          <button onClick={history.undo} disabled={!history.canUndo} title={t('history.undo')} className={`p-1.5 rounded-lg transition-colors disabled:opacity-30 disabled:cursor-not-allowed ${isDirectorMode ? 'hover:bg-slate-800 text-slate-400' : 'hover:bg-slate-100 text-slate-500'}`}>
+            <Undo2 className="w-4 h-4" />
+          </button>
+          <button onClick={history.redo} disabled={!history.canRedo} title={t('history.redo')} className={`p-1.5 rounded-lg transition-colors disabled:opacity-30 disabled:cursor-not-allowed ${isDirectorMode ? 'hover:bg-slate-800 text-slate-400' : 'hover:bg-slate-100 text-slate-500'}`}>
+            <Redo2 className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => setIsHistoryOpen(!isHistoryOpen)}
+            title={t('history.title')}
+            className={`p-1.5 rounded-lg transition-colors ${isHistoryOpen ? (isDirectorMode ? 'bg-slate-800 text-purple-300' : 'bg-slate-100 text-indigo-600') : isDirectorMode ? 'hover:bg-slate-800 text-slate-400' : 'hover:bg-slate-100 text-slate-500'}`}
+          >
+            <History className="w-4 h-4" />
+          </button>
+          {isHistoryOpen && <HistoryPanel history={history} isDirectorMode={isDirectorMode} onClose={() => setIsHistoryOpen(false)} />}
+        </div>
+
+        {divider}
+
+        {/* Export */}
+        <div className="relative">
+          <button
+            onClick={() => setIsExportOpen(!isExportOpen)}
+            title={t('export.title')}
+            className={`p-1.5 rounded-lg transition-colors ${isExportOpen ? (isDirectorMode ? 'bg-slate-800 text-purple-300' : 'bg-slate-100 text-indigo-600') : isDirectorMode ? 'hover:bg-slate-800 text-slate-400' : 'hover:bg-slate-100 text-slate-500'}`}
+          >
+            <Download className="w-4 h-4" />
+          </button>
+          {isExportOpen && (
+            <ExportPanel
+              isDirectorMode={isDirectorMode}
+              onExportDiagram={onExportDiagram}
+              onExportImage={onExportImage}
+              onClose={() => setIsExportOpen(false)}
+            />
+          )}
+        </div>
+
+        {divider}
+
+        {/* Revisions */}
+        <div className="relative">
+          <button
+            onClick={() => setIsRevisionsOpen(!isRevisionsOpen)}
+            title={t('revisions.title')}
+            className={`p-1.5 rounded-lg transition-colors ${isRevisionsOpen ? (isDirectorMode ? 'bg-slate-800 text-purple-300' : 'bg-slate-100 text-indigo-600') : isDirectorMode ? 'hover:bg-slate-800 text-slate-400' : 'hover:bg-slate-100 text-slate-500'}`}
+          >
+            <ArchiveRestore className="w-4 h-4" />
+          </button>
+          {isRevisionsOpen && (
+            <RevisionsPanel
+              revisions={revisions}
+              isDirectorMode={isDirectorMode}
+              onCreateSnapshot={onCreateSnapshot}
+              onRestore={onRestoreRevision}
+              onCompare={(beforeId, afterId) => { onCompareRevisions(beforeId, afterId); setIsRevisionsOpen(false); }}
+              onClose={() => setIsRevisionsOpen(false)}
+            />
+          )}
+        </div>
+
+        {/* Live editing */}
+        <div className="relative flex items-center">
+          <button
+            onClick={() => setIsCollabOpen(!isCollabOpen)}
+            title={t('collab.title')}
+            className={`relative p-1.5 rounded-lg transition-colors ${isCollabOpen ? (isDirectorMode ? 'bg-slate-800 text-purple-300' : 'bg-slate-100 text-indigo-600') : isDirectorMode ? 'hover:bg-slate-800 text-slate-400' : 'hover:bg-slate-100 text-slate-500'}`}
+          >
+            <Users className="w-4 h-4" />
+            {collab.status === 'live' && <span className="absolute top-1 right-1 w-1.5 h-1.5 rounded-full bg-green-500" />}
+          </button>
+          {collab.status === 'live' && collab.peers.length > 0 && (
+            <div className="flex -space-x-1.5 ml-1">
+              {collab.peers.slice(0, 4).map((peer) => (
+                <span
+                  key={peer.client}
+                  title={peer.name}
+                  className={`w-5 h-5 rounded-full border-2 flex items-center justify-center text-[9px] font-bold text-white ${isDirectorMode ? 'border-slate-900' : 'border-white'}`}
+                  style={{ backgroundColor: peer.color }}
+                >
+                  {peer.name.trim().charAt(0).toUpperCase()}
+                </span>
+              ))}
+            </div>
+          )}
+          {isCollabOpen && (
+            <CollabPanel
+              collab={collab}
+              isAvailable={isCollabAvailable}
+              isEnabled={isCollabEnabled}
+              isDirectorMode={isDirectorMode}
+              onToggle={onToggleCollab}
+              onClose={() => setIsCollabOpen(false)}
+            />
+          )}
+        </div>
+
         {/* Save */}
         <button
           onClick={onSave}
-          disabled={!isDirty || saveStatus === 'saving'}
-          className={`flex items-center gap-1.5 px-4 py-1.5 rounded-xl text-xs font-bold transition-all ${isDirty ? 'bg-indigo-600 text-white hover:bg-indigo-700 shadow-sm' : 'bg-slate-100 text-slate-400 cursor-default'}`}
+          disabled={(!isDirty && saveStatus !== 'error') || saveStatus === 'saving'}
+          title={saveError ? t(`storage.${saveError}`) : t('editor.autosave_hint')}
+          className={`flex items-center gap-1.5 px-4 py-1.5 rounded-xl text-xs font-bold transition-all ${saveStatus === 'error' ? 'bg-red-600 text-white hover:bg-red-700 shadow-sm' : isDirty ? 'bg-indigo-600 text-white hover:bg-indigo-700 shadow-sm' : 'bg-slate-100 text-slate-400 cursor-default'}`}
         >
-          <Save className="w-3.5 h-3.5" />
-          {saveStatus === 'saving' ? t('editor.saving') : saveStatus === 'saved' ? t('editor.saved') : t('editor.save')}
+          {saveStatus === 'error' ? <AlertTriangle className="w-3.5 h-3.5" /> : <Save className="w-3.5 h-3.5" />}
+          {saveStatus === 'saving' ? t('editor.saving')
+            : saveStatus === 'saved' ? t('editor.saved')
+            : saveStatus === 'error' ? t(saveError === 'full' ? 'editor.storage_full' : 'editor.save_failed')
+            : t('editor.save')}
         </button>
 
         <div className="h-6 w-px flex-shrink-0 bg-slate-300" />
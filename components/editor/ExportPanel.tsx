@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { Download, X, FileCode2, Image as ImageIcon } from 'lucide-react';
+import { DiagramExportFormat, DIAGRAM_EXPORT_FILES } from '../../utils/diagramExport';
+import { ImageExportFormat, ImageExportOptions, ImageExportRegion } from '../../utils/imageExport';
+import { useTranslation } from '../../i18n';
+
+interface ExportPanelProps {
+  isDirectorMode: boolean;
+  onExportDiagram: (format: DiagramExportFormat) => void;
+  onExportImage: (options: ImageExportOptions) => Promise<void>;
+  onClose: () => void;
+}
+
+const DIAGRAM_FORMATS: { format: DiagramExportFormat; label: string; hint: string }[] = [
+  { format: 'mermaid', label: 'Mermaid', hint: 'export_diagram.mermaid_hint' },
+  { format: 'dot', label: 'Graphviz DOT', hint: 'export_diagram.dot_hint' },
+  { format: 'plantuml', label: 'PlantUML', hint: 'export_diagram.plantuml_hint' },
+  { format: 'drawio', label: 'draw.io', hint: 'export_diagram.drawio_hint' },
+];
+
+const IMAGE_FORMATS: ImageExportFormat[] = ['svg', 'png', 'pdf'];
+const REGIONS: { region: ImageExportRegion; label: string }[] = [
+  { region: 'viewport', label: 'export_image.viewport' },
+  { region: 'fit', label: 'export_image.fit' },
+];
+const DPI_OPTIONS = [96, 150, 300];
+
+export const ExportPanel: React.FC<ExportPanelProps> = ({ isDirectorMode, onExportDiagram, onExportImage, onClose }) => {
+  const { t } = useTranslation();
+  const [region, setRegion] = useState<ImageExportRegion>('fit');
+  const [dpi, setDpi] = useState(150);
+  const [includeGrid, setIncludeGrid] = useState(true);
+  const [busyFormat, setBusyFormat] = useState<ImageExportFormat | null>(null);
+  const [error, setError] = useState('');
+
+  const sectionTitle = `text-[10px] font-black uppercase tracking-widest text-slate-400 mb-1 px-1`;
+  const chip = (active: boolean) =>
+    `flex-1 px-2 py-1 rounded-lg text-[10px] font-bold transition-colors border ${
+      active
+        ? isDirectorMode ? 'bg-purple-900/50 text-purple-300 border-purple-500/50' : 'bg-indigo-100 text-indigo-700 border-indigo-300'
+        : isDirectorMode ? 'border-slate-700 text-slate-400 hover:bg-slate-800' : 'border-slate-200 text-slate-500 hover:bg-slate-100'
+    }`;
+
+  const handleImage = async (format: ImageExportFormat) => {
+    setBusyFormat(format);
+    setError('');
+    try {
+      await onExportImage({ format, region, dpi, includeGrid });
+      onClose();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setBusyFormat(null);
+    }
+  };
+
+  return (
+    <div className={`absolute top-full left-0 mt-3 w-72 rounded-2xl shadow-2xl border p-3 z-50 animate-in fade-in zoom-in-95 duration-200 pointer-events-auto ${isDirectorMode ? 'bg-slate-900 border-white/10' : 'bg-white border-slate-200'}`}>
+      <div className={`flex items-center justify-between mb-2 pb-2 border-b ${isDirectorMode ? 'border-white/5' : 'border-slate-100'}`}>
+        <span className="text-[11px] font-black uppercase tracking-widest text-slate-400 flex items-center gap-2">
+          <Download className="w-3.5 h-3.5" /> {t('export.title')}
+        </span>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition-colors">
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      {/* Image */}
+      <div className={sectionTitle}>{t('export_image.title')}</div>
+      <div className="space-y-1.5 px-1">
+        <div className="flex gap-1">
+          {REGIONS.map(({ region: value, label }) => (
+            <button key={value} onClick={() => setRegion(value)} className={chip(region === value)}>{t(label)}</button>
+          ))}
+        </div>
+        <div className="flex items-center gap-1">
+          <span className="text-[10px] text-slate-400 w-10">DPI</span>
+          {DPI_OPTIONS.map((value) => (
+            <button key={value} onClick={() => setDpi(value)} className={chip(dpi === value)}>{value}</button>
+          ))}
+        </div>
+        <label className={`flex items-center gap-2 text-[10px] cursor-pointer ${isDirectorMode ? 'text-slate-400' : 'text-slate-500'}`}>
+          <input type="checkbox" checked={includeGrid} onChange={(e) => setIncludeGrid(e.target.checked)} className="accent-indigo-500" />
+          {t('export_image.include_grid')}
+        </label>
+        <div className="flex gap-1">
+          {IMAGE_FORMATS.map((format) => (
+            <button
+              key={format}
+              onClick={() => handleImage(format)}
+              disabled={busyFormat !== null}
+              className={`flex-1 flex items-center justify-center gap-1 px-2 py-1.5 rounded-lg text-[11px] font-bold uppercase transition-colors disabled:opacity-50 ${isDirectorMode ? 'bg-slate-800 text-slate-200 hover:bg-slate-700' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'}`}
+            >
+              <ImageIcon className="w-3 h-3" />
+              {busyFormat === format ? '…' : format}
+            </button>
+          ))}
+        </div>
+        {error && <p className="text-[10px] text-red-500">{error}</p>}
+      </div>
+
+      {/* Diagram */}
+      <div className={`${sectionTitle} mt-3 pt-2 border-t ${isDirectorMode ? 'border-white/5' : 'border-slate-100'}`}>{t('export_diagram.title')}</div>
+      <div className="space-y-0.5">
+        {DIAGRAM_FORMATS.map(({ format, label, hint }) => (
+          <button
+            key={format}
+            onClick={() => { onExportDiagram(format); onClose(); }}
+            className={`w-full flex items-start gap-2.5 px-2.5 py-2 rounded-lg text-left transition-colors ${isDirectorMode ? 'hover:bg-slate-800 text-slate-300' : 'hover:bg-slate-100 text-slate-700'}`}
+          >
+            <FileCode2 className="w-4 h-4 mt-0.5 text-indigo-500 flex-shrink-0" />
+            <span className="flex flex-col">
+              <span className="text-[11px] font-bold">
+                {label} <span className="font-mono font-normal text-slate-400">.{DIAGRAM_EXPORT_FILES[format].extension}</span>
+              </span>
+              <span className="text-[10px] text-slate-400">{t(hint)}</span>
+            </span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,63 @@
+import React from 'react';
+import { History, X, Share2, Palette, Activity, CircleDot } from 'lucide-react';
+import { EditorHistory, HistoryEntry, HistoryScope } from '../../hooks/useEditorHistory';
+import { useTranslation } from '../../i18n';
+
+interface HistoryPanelProps {
+  history: EditorHistory;
+  isDirectorMode: boolean;
+  onClose: () => void;
+}
+
+const SCOPE_ICONS: Record<HistoryScope, React.ReactNode> = {
+  graph: <Share2 className="w-3 h-3 text-sky-500" />,
+  theme: <Palette className="w-3 h-3 text-pink-500" />,
+  script: <Activity className="w-3 h-3 text-emerald-500" />,
+};
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, isDirectorMode, onClose }) => {
+  const { t } = useTranslation();
+  const current = history.past[history.past.length - 1];
+
+  // Newest at the top: redoable entries first (dimmed), then the applied ones
+  const rows: { entry: HistoryEntry; applied: boolean }[] = [
+    ...[...history.future].reverse().map((entry) => ({ entry, applied: false })),
+    ...[...history.past].reverse().map((entry) => ({ entry, applied: true })),
+  ];
+
+  const rowClass = (active: boolean, applied: boolean) =>
+    `w-full flex items-center gap-2 px-2.5 py-1.5 rounded-lg text-left text-[11px] font-semibold transition-colors ${
+      active
+        ? isDirectorMode ? 'bg-purple-900/50 text-purple-200' : 'bg-indigo-50 text-indigo-700'
+        : isDirectorMode ? 'hover:bg-slate-800 text-slate-300' : 'hover:bg-slate-100 text-slate-700'
+    } ${applied ? '' : 'opacity-40'}`;
+
+  return (
+    <div className={`absolute top-full left-0 mt-3 w-72 rounded-2xl shadow-2xl border p-3 z-50 animate-in fade-in zoom-in-95 duration-200 pointer-events-auto ${isDirectorMode ? 'bg-slate-900 border-white/10' : 'bg-white border-slate-200'}`}>
+      <div className={`flex items-center justify-between mb-2 pb-2 border-b ${isDirectorMode ? 'border-white/5' : 'border-slate-100'}`}>
+        <span className="text-[11px] font-black uppercase tracking-widest text-slate-400 flex items-center gap-2">
+          <History className="w-3.5 h-3.5" /> {t('history.title')}
+        </span>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition-colors">
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+      <div className="max-h-80 overflow-y-auto custom-scrollbar space-y-0.5">
+        {rows.map(({ entry, applied }) => (
+          <button key={entry.id} onClick={() => history.travelTo(entry.id)} className={rowClass(entry === current, applied)}>
+            {SCOPE_ICONS[entry.scope]}
+            <span className="flex-1 truncate">{t(entry.label)}</span>
+            <span className="text-[9px] font-mono text-slate-400">{formatTime(entry.timestamp)}</span>
+          </button>
+        ))}
+        <button onClick={() => history.travelTo(null)} className={rowClass(!current, true)}>
+          <CircleDot className="w-3 h-3 text-slate-400" />
+          <span className="flex-1 truncate">{t('history.initial')}</span>
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,200 @@
+import React, { useState, useRef } from 'react';
+import { X, Upload, FileInput, AlertCircle, CheckCircle } from 'lucide-react';
+import { GraphData } from '../../types';
+import { DiagramFormat, detectDiagramFormat, importDiagram } from '../../utils/diagramImport';
+import { useTranslation } from '../../i18n';
+
+interface ImportDiagramModalProps {
+  onApply: (data: GraphData) => void;
+  onClose: () => void;
+}
+
+const FORMATS: { value: DiagramFormat; label: string }[] = [
+  { value: 'mermaid', label: 'Mermaid' },
+  { value: 'dot', label: 'Graphviz DOT' },
+  { value: 'drawio', label: 'draw.io' },
+];
+
+export const ImportDiagramModal: React.FC<ImportDiagramModalProps> = ({ onApply, onClose }) => {
+  const { t } = useTranslation();
+  const [source, setSource] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [format, setFormat] = useState<DiagramFormat | 'auto'>('auto');
+  const [isDragging, setIsDragging] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [result, setResult] = useState<GraphData | null>(null);
+  const [error, setError] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const detected = source.trim() ? detectDiagramFormat(fileName, source) : null;
+  const effectiveFormat = format === 'auto' ? detected : format;
+
+  const handleSource = (text: string, name = '') => {
+    setSource(text);
+    setFileName(name);
+    setResult(null);
+    setError('');
+  };
+
+  const handleFile = async (f: File) => handleSource(await f.text(), f.name);
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const f = e.dataTransfer.files[0];
+    if (f) handleFile(f);
+  };
+
+  const handleConvert = async () => {
+    if (!effectiveFormat) return;
+    setLoading(true);
+    setError('');
+    try {
+      setResult(await importDiagram(source, effectiveFormat));
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const canConvert = !!source.trim() && !!effectiveFormat && !loading;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-2xl border border-slate-200 w-[560px] max-h-[90vh] flex flex-col"
+        onClick={e => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-5 py-4 border-b border-slate-100">
+          <div className="flex items-center gap-2">
+            <FileInput className="w-4 h-4 text-indigo-500" />
+            <span className="font-bold text-sm text-slate-800">{t('import_diagram.title')}</span>
+          </div>
+          <button onClick={onClose} className="p-1 rounded-lg hover:bg-slate-100 text-slate-400">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto flex-1 p-5 flex flex-col gap-4">
+          {/* File Upload */}
+          <div
+            className={`border-2 border-dashed rounded-xl p-5 text-center cursor-pointer transition-colors ${
+              isDragging
+                ? 'border-indigo-400 bg-indigo-50'
+                : fileName
+                ? 'border-green-300 bg-green-50'
+                : 'border-slate-200 hover:border-slate-300 hover:bg-slate-50'
+            }`}
+            onDragOver={e => { e.preventDefault(); setIsDragging(true); }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={handleDrop}
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".mmd,.mermaid,.md,.dot,.gv,.drawio,.xml,.txt"
+              className="hidden"
+              onChange={e => { const f = e.target.files?.[0]; if (f) handleFile(f); }}
+            />
+            {fileName ? (
+              <div className="flex items-center justify-center gap-2 text-green-700">
+                <CheckCircle className="w-4 h-4" />
+                <span className="text-sm font-medium">{fileName}</span>
+              </div>
+            ) : (
+              <>
+                <Upload className="w-6 h-6 text-slate-400 mx-auto mb-2" />
+                <p className="text-sm text-slate-500">{t('import.upload_hint')}</p>
+                <p className="text-xs text-slate-400 mt-1">{t('import_diagram.supported_formats')}</p>
+              </>
+            )}
+          </div>
+
+          {/* Pasted Source */}
+          <div>
+            <label className="text-xs font-semibold text-slate-600 mb-1 block">{t('import_diagram.paste_prompt')}</label>
+            <textarea
+              value={source}
+              onChange={e => handleSource(e.target.value)}
+              placeholder={'flowchart TD\n  A[Client] --> B[Server]'}
+              rows={6}
+              className="w-full text-xs border border-slate-200 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-300 font-mono resize-none"
+            />
+          </div>
+
+          {/* Format */}
+          <div>
+            <label className="text-xs font-semibold text-slate-600 mb-1 block">{t('import_diagram.format')}</label>
+            <select
+              value={format}
+              onChange={e => { setFormat(e.target.value as DiagramFormat | 'auto'); setResult(null); }}
+              className="w-full text-sm border border-slate-200 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-300"
+            >
+              <option value="auto">
+                {t('import_diagram.auto_detect')}
+                {detected ? ` (${FORMATS.find(f => f.value === detected)!.label})` : ''}
+              </option>
+              {FORMATS.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+            </select>
+          </div>
+
+          {/* Error */}
+          {error && (
+            <div className="flex items-start gap-2 bg-red-50 border border-red-200 rounded-lg px-3 py-2.5 text-sm text-red-700">
+              <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+          {!error && source.trim() && !effectiveFormat && (
+            <div className="flex items-start gap-2 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2.5 text-sm text-amber-700">
+              <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <span>{t('import_diagram.unknown_format')}</span>
+            </div>
+          )}
+
+          {/* Result Preview */}
+          {result && (
+            <div className="flex items-center gap-2 bg-green-50 border border-green-200 rounded-lg px-3 py-2.5 text-sm text-green-700">
+              <CheckCircle className="w-4 h-4 flex-shrink-0" />
+              <span>
+                {result.nodes.length} {t('import.nodes')}, {result.links.length} {t('import.links')}, {result.environments?.zones?.length || 0} {t('import_diagram.zones')}
+              </span>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end gap-2 px-5 py-3 border-t border-slate-100">
+          <button onClick={onClose} className="px-4 py-1.5 text-sm text-slate-600 hover:bg-slate-100 rounded-lg transition-colors">
+            {t('import.cancel')}
+          </button>
+          {!result ? (
+            <button
+              onClick={handleConvert}
+              disabled={!canConvert}
+              className={`flex items-center gap-1.5 px-4 py-1.5 text-sm font-semibold rounded-lg transition-colors ${
+                canConvert
+                  ? 'bg-indigo-600 text-white hover:bg-indigo-700'
+                  : 'bg-slate-100 text-slate-400 cursor-not-allowed'
+              }`}
+            >
+              <FileInput className="w-3.5 h-3.5" />
+              {loading ? t('import_diagram.converting') : t('import_diagram.convert')}
+            </button>
+          ) : (
+            <button
+              onClick={() => onApply(result)}
+              className="flex items-center gap-1.5 px-4 py-1.5 text-sm font-semibold rounded-lg bg-green-600 text-white hover:bg-green-700 transition-colors"
+            >
+              <CheckCircle className="w-3.5 h-3.5" />
+              {t('import.apply')}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,52 @@
+import React from 'react';
+import { LayoutDashboard, X, Rows3, Columns3, LayoutGrid, Orbit } from 'lucide-react';
+import { LayoutAlgorithm } from '../../utils/graphLayouts';
+import { useTranslation } from '../../i18n';
+
+interface LayoutPanelProps {
+  isDirectorMode: boolean;
+  onApply: (algorithm: LayoutAlgorithm) => void;
+  onClose: () => void;
+}
+
+const LAYOUTS: { algorithm: LayoutAlgorithm; icon: React.ElementType; label: string; hint: string }[] = [
+  { algorithm: 'layered', icon: Rows3, label: 'layout.layered', hint: 'layout.layered_hint' },
+  { algorithm: 'layered-horizontal', icon: Columns3, label: 'layout.layered_horizontal', hint: 'layout.layered_hint' },
+  { algorithm: 'grid', icon: LayoutGrid, label: 'layout.grid', hint: 'layout.grid_hint' },
+  { algorithm: 'radial', icon: Orbit, label: 'layout.radial', hint: 'layout.radial_hint' },
+];
+
+export const LayoutPanel: React.FC<LayoutPanelProps> = ({ isDirectorMode, onApply, onClose }) => {
+  const { t } = useTranslation();
+
+  return (
+    <div className={`absolute top-full left-0 mt-3 w-64 rounded-2xl shadow-2xl border p-3 z-50 animate-in fade-in zoom-in-95 duration-200 pointer-events-auto ${isDirectorMode ? 'bg-slate-900 border-white/10' : 'bg-white border-slate-200'}`}>
+      <div className={`flex items-center justify-between mb-2 pb-2 border-b ${isDirectorMode ? 'border-white/5' : 'border-slate-100'}`}>
+        <span className="text-[11px] font-black uppercase tracking-widest text-slate-400 flex items-center gap-2">
+          <LayoutDashboard className="w-3.5 h-3.5" /> {t('layout.title')}
+        </span>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition-colors">
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+      <div className="space-y-0.5">
+        {LAYOUTS.map(({ algorithm, icon: Icon, label, hint }) => (
+          <button
+            key={algorithm}
+            onClick={() => { onApply(algorithm); onClose(); }}
+            className={`w-full flex items-start gap-2.5 px-2.5 py-2 rounded-lg text-left transition-colors ${isDirectorMode ? 'hover:bg-slate-800 text-slate-300' : 'hover:bg-slate-100 text-slate-700'}`}
+          >
+            <Icon className="w-4 h-4 mt-0.5 text-indigo-500 flex-shrink-0" />
+            <span className="flex flex-col">
+              <span className="text-[11px] font-bold">{t(label)}</span>
+              <span className="text-[10px] text-slate-400">{t(hint)}</span>
+            </span>
+          </button>
+        ))}
+      </div>
+      <p className={`mt-2 pt-2 border-t text-[10px] text-slate-400 ${isDirectorMode ? 'border-white/5' : 'border-slate-100'}`}>
+        {t('layout.zone_hint')}
+      </p>
+    </div>
+  );
+};
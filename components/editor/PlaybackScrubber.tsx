@@ -0,0 +1,104 @@
+import React, { useEffect, useState } from 'react';
+import { Play, Pause, SkipBack, SkipForward } from 'lucide-react';
+import { GraphCanvasHandle } from '../GraphCanvas';
+import { PlaybackState } from '../../utils/graphAnimations';
+import { useTranslation } from '../../i18n';
+
+interface PlaybackScrubberProps {
+  canvasRef: React.RefObject<GraphCanvasHandle>;
+}
+
+const SPEED_OPTIONS = [0.25, 0.5, 1, 1.5, 2];
+const STEP_EPSILON = 0.05;
+
+const formatTime = (seconds: number) => `${seconds.toFixed(1)}s`;
+
+export const PlaybackScrubber: React.FC<PlaybackScrubberProps> = ({ canvasRef }) => {
+  const { t } = useTranslation();
+  const [state, setState] = useState<PlaybackState | null>(null);
+
+  useEffect(() => {
+    const playback = canvasRef.current?.playback;
+    if (!playback) return;
+    let frame: number | null = null;
+    const sync = () => {
+      if (frame !== null) return;
+      frame = requestAnimationFrame(() => {
+        frame = null;
+        setState(playback.getState());
+      });
+    };
+    const unsubscribe = playback.subscribe(sync);
+    sync();
+    return () => {
+      if (frame !== null) cancelAnimationFrame(frame);
+      unsubscribe();
+    };
+  }, [canvasRef]);
+
+  const playback = canvasRef.current?.playback;
+  const disabled = !state || state.duration <= 0;
+
+  const handleStepBack = () => {
+    if (!state || !playback) return;
+    const previous = [...state.stepTimes].reverse().find((time) => time < state.time - STEP_EPSILON);
+    playback.pause();
+    playback.seek(previous ?? 0);
+  };
+
+  const handleStepForward = () => {
+    if (!state || !playback) return;
+    const next = state.stepTimes.find((time) => time > state.time + STEP_EPSILON);
+    playback.pause();
+    playback.seek(next ?? state.duration);
+  };
+
+  const iconBtnClass = "p-2 rounded-xl bg-slate-800 hover:bg-slate-700 text-slate-300 border border-white/5 transition-all active:scale-95 disabled:opacity-40 disabled:cursor-not-allowed";
+
+  return (
+    <div className={`space-y-2 ${disabled ? 'opacity-60' : ''}`}>
+      <div className="flex items-center gap-2">
+        <button onClick={handleStepBack} disabled={disabled} className={iconBtnClass} title={t('director.playback.step_back')}>
+          <SkipBack className="w-3.5 h-3.5" />
+        </button>
+        <button
+          onClick={() => (state?.isPlaying ? playback?.pause() : playback?.play())}
+          disabled={disabled || (!state?.isPlaying && !!state?.pendingBranch)}
+          className={iconBtnClass}
+          title={state?.isPlaying ? t('director.playback.pause') : t('director.playback.play')}
+        >
+          {state?.isPlaying ? <Pause className="w-3.5 h-3.5 fill-current" /> : <Play className="w-3.5 h-3.5 fill-current" />}
+        </button>
+        <button onClick={handleStepForward} disabled={disabled} className={iconBtnClass} title={t('director.playback.step_forward')}>
+          <SkipForward className="w-3.5 h-3.5" />
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={state?.duration || 0}
+          step={0.01}
+          value={state?.time || 0}
+          disabled={disabled}
+          onChange={(e) => playback?.seek(parseFloat(e.target.value))}
+          className="flex-1 accent-purple-500 cursor-pointer disabled:cursor-not-allowed"
+        />
+        <select
+          value={state?.speed ?? 1}
+          disabled={disabled}
+          onChange={(e) => playback?.setSpeed(parseFloat(e.target.value))}
+          className="text-[10px] font-black bg-slate-800 border border-white/5 rounded-lg px-1.5 py-1 outline-none text-slate-300"
+          title={t('director.playback.speed')}
+        >
+          {SPEED_OPTIONS.map((speed) => (
+            <option key={speed} value={speed} className="bg-slate-900">{speed}x</option>
+          ))}
+        </select>
+      </div>
+      <div className="flex items-center justify-between text-[10px] font-mono font-bold text-slate-500 px-1">
+        <span>{formatTime(state?.time || 0)}</span>
+        {disabled && <span className="uppercase tracking-wider">{t('director.playback.idle')}</span>}
+        <span>{formatTime(state?.duration || 0)}</span>
+      </div>
+    </div>
+  );
+};
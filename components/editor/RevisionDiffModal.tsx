@@ -0,0 +1,110 @@
+import React, { useMemo, useState } from 'react';
+import { X, GitCompare, Palette } from 'lucide-react';
+import { ProjectRevision } from '../../types';
+import { DiffRow, DiffStatus, diffSnapshots } from '../../utils/revisionDiff';
+import { formatRevisionTime, revisionTitle } from './RevisionsPanel';
+import { useTranslation } from '../../i18n';
+
+interface RevisionDiffModalProps {
+  before: ProjectRevision;
+  after: ProjectRevision;
+  // Used to name restore revisions
+  revisions: ProjectRevision[];
+  onClose: () => void;
+}
+
+type DiffSection = 'nodes' | 'links' | 'steps';
+
+const SECTIONS: DiffSection[] = ['nodes', 'links', 'steps'];
+
+const CELL_CLASSES: Record<DiffStatus, { before: string; after: string }> = {
+  unchanged: { before: 'text-slate-500', after: 'text-slate-500' },
+  added: { before: 'bg-slate-50', after: 'bg-green-50 text-green-800' },
+  removed: { before: 'bg-red-50 text-red-800 line-through decoration-red-300', after: 'bg-slate-50' },
+  changed: { before: 'bg-amber-50 text-amber-900', after: 'bg-amber-50 text-amber-900' },
+};
+
+export const RevisionDiffModal: React.FC<RevisionDiffModalProps> = ({ before, after, revisions, onClose }) => {
+  const { t } = useTranslation();
+  const [section, setSection] = useState<DiffSection>('nodes');
+  const [changesOnly, setChangesOnly] = useState(true);
+
+  const diff = useMemo(() => diffSnapshots(before.project, after.project), [before, after]);
+  const changeCount = (rows: DiffRow[]) => rows.filter((row) => row.status !== 'unchanged').length;
+  const rows = changesOnly ? diff[section].filter((row) => row.status !== 'unchanged') : diff[section];
+
+  const header = (revision: ProjectRevision) => (
+    <div className="px-3 py-2 min-w-0">
+      <div className="text-xs font-bold text-slate-700 truncate">{revisionTitle(revision, revisions, t)}</div>
+      <div className="text-[10px] font-mono text-slate-400">{formatRevisionTime(revision.createdAt)}</div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-2xl border border-slate-200 w-[860px] max-w-[95vw] max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-5 py-4 border-b border-slate-100">
+          <div className="flex items-center gap-2">
+            <GitCompare className="w-4 h-4 text-indigo-500" />
+            <span className="font-bold text-sm text-slate-800">{t('revisions.compare_title')}</span>
+          </div>
+          <button onClick={onClose} className="p-1 rounded-lg hover:bg-slate-100 text-slate-400">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        {/* Section tabs */}
+        <div className="flex items-center gap-2 px-5 pt-4">
+          {SECTIONS.map((key) => (
+            <button
+              key={key}
+              onClick={() => setSection(key)}
+              className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-colors ${section === key ? 'bg-indigo-50 text-indigo-700' : 'text-slate-500 hover:bg-slate-100'}`}
+            >
+              {t(`revisions.section_${key}`)}
+              <span className="ml-1.5 text-[10px] font-mono opacity-70">{changeCount(diff[key])}</span>
+            </button>
+          ))}
+          <label className="ml-auto flex items-center gap-1.5 text-xs text-slate-500 cursor-pointer">
+            <input type="checkbox" checked={changesOnly} onChange={(e) => setChangesOnly(e.target.checked)} className="accent-indigo-600" />
+            {t('revisions.changes_only')}
+          </label>
+        </div>
+
+        {diff.themeChanged && (
+          <div className="mx-5 mt-3 flex items-center gap-2 bg-pink-50 border border-pink-200 rounded-lg px-3 py-2 text-xs text-pink-700">
+            <Palette className="w-3.5 h-3.5" /> {t('revisions.theme_changed')}
+          </div>
+        )}
+
+        {/* Side-by-side rows */}
+        <div className="m-5 border border-slate-200 rounded-xl overflow-hidden flex flex-col min-h-0">
+          <div className="grid grid-cols-2 divide-x divide-slate-200 bg-slate-50 border-b border-slate-200">
+            {header(before)}
+            {header(after)}
+          </div>
+          <div className="overflow-y-auto custom-scrollbar">
+            {rows.map((row) => (
+              <div key={row.key} className="grid grid-cols-2 divide-x divide-slate-100 border-b border-slate-100 last:border-b-0 text-xs">
+                <div className={`px-3 py-1.5 truncate ${CELL_CLASSES[row.status].before}`}>{row.before ?? ''}</div>
+                <div className={`px-3 py-1.5 flex items-center gap-1.5 min-w-0 ${CELL_CLASSES[row.status].after}`}>
+                  <span className="truncate">{row.after ?? ''}</span>
+                  {row.changedFields.map((field) => (
+                    <span key={field} className="px-1.5 py-0.5 rounded bg-amber-100 text-[9px] font-bold uppercase tracking-wide text-amber-700">
+                      {field}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            ))}
+            {rows.length === 0 && <p className="px-3 py-6 text-center text-xs text-slate-400">{t('revisions.no_changes')}</p>}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
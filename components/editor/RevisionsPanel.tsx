@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { ArchiveRestore, X, Camera, Clock, RotateCcw, GitCompare, PenLine } from 'lucide-react';
+import { ProjectRevision, RevisionKind } from '../../types';
+import { CURRENT_REVISION_ID } from '../../utils/projectRevisions';
+import { useTranslation } from '../../i18n';
+
+interface RevisionsPanelProps {
+  revisions: ProjectRevision[];
+  isDirectorMode: boolean;
+  onCreateSnapshot: (label: string) => void;
+  onRestore: (revision: ProjectRevision) => void;
+  onCompare: (beforeId: string, afterId: string) => void;
+  onClose: () => void;
+}
+
+const KIND_ICONS: Record<RevisionKind, React.ReactNode> = {
+  auto: <Clock className="w-3 h-3 text-slate-400" />,
+  manual: <Camera className="w-3 h-3 text-indigo-500" />,
+  restore: <RotateCcw className="w-3 h-3 text-amber-500" />,
+};
+
+export const formatRevisionTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+export function revisionTitle(revision: ProjectRevision, revisions: ProjectRevision[], t: (key: string) => string): string {
+  if (revision.id === CURRENT_REVISION_ID) return t('revisions.current');
+  if (revision.label) return revision.label;
+  if (revision.kind === 'restore') {
+    const source = revisions.find((r) => r.id === revision.restoredFrom);
+    return source
+      ? t('revisions.restored_from').replace('{name}', revisionTitle(source, revisions, t))
+      : t('revisions.kind_restore');
+  }
+  return t(`revisions.kind_${revision.kind}`);
+}
+
+export const RevisionsPanel: React.FC<RevisionsPanelProps> = ({ revisions, isDirectorMode, onCreateSnapshot, onRestore, onCompare, onClose }) => {
+  const { t } = useTranslation();
+  const [label, setLabel] = useState('');
+  // At most two ids; picking a third drops the earliest pick
+  const [selected, setSelected] = useState<string[]>([]);
+
+  const toggleSelected = (id: string) => {
+    setSelected((prev) => (prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id].slice(-2)));
+  };
+
+  const handleSnapshot = () => {
+    onCreateSnapshot(label);
+    setLabel('');
+  };
+
+  const rowClass = (active: boolean) =>
+    `w-full flex items-center gap-2 px-2.5 py-1.5 rounded-lg text-[11px] font-semibold transition-colors ${
+      active
+        ? isDirectorMode ? 'bg-purple-900/50 text-purple-200' : 'bg-indigo-50 text-indigo-700'
+        : isDirectorMode ? 'hover:bg-slate-800 text-slate-300' : 'hover:bg-slate-100 text-slate-700'
+    }`;
+
+  const checkbox = (id: string) => (
+    <input
+      type="checkbox"
+      checked={selected.includes(id)}
+      onChange={() => toggleSelected(id)}
+      title={t('revisions.select_compare')}
+      className="accent-indigo-600 cursor-pointer"
+    />
+  );
+
+  return (
+    <div className={`absolute top-full right-0 mt-3 w-80 rounded-2xl shadow-2xl border p-3 z-50 animate-in fade-in zoom-in-95 duration-200 pointer-events-auto ${isDirectorMode ? 'bg-slate-900 border-white/10' : 'bg-white border-slate-200'}`}>
+      <div className={`flex items-center justify-between mb-2 pb-2 border-b ${isDirectorMode ? 'border-white/5' : 'border-slate-100'}`}>
+        <span className="text-[11px] font-black uppercase tracking-widest text-slate-400 flex items-center gap-2">
+          <ArchiveRestore className="w-3.5 h-3.5" /> {t('revisions.title')}
+        </span>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition-colors">
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      {/* Named snapshot */}
+      <div className="flex items-center gap-1.5 mb-2">
+        <input
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') handleSnapshot(); }}
+          placeholder={t('revisions.name_placeholder')}
+          className={`flex-1 min-w-0 text-[11px] px-2.5 py-1.5 rounded-lg border focus:outline-none focus:ring-2 ${isDirectorMode ? 'bg-slate-800 border-white/10 text-slate-200 focus:ring-purple-500/40' : 'bg-white border-slate-200 text-slate-700 focus:ring-indigo-300'}`}
+        />
+        <button
+          onClick={handleSnapshot}
+          className={`flex items-center gap-1 px-2.5 py-1.5 rounded-lg text-[11px] font-bold whitespace-nowrap transition-colors ${isDirectorMode ? 'bg-purple-600 text-white hover:bg-purple-500' : 'bg-indigo-600 text-white hover:bg-indigo-700'}`}
+        >
+          <Camera className="w-3 h-3" /> {t('revisions.snapshot')}
+        </button>
+      </div>
+
+      <div className="max-h-80 overflow-y-auto custom-scrollbar space-y-0.5">
+        <label className={rowClass(false)}>
+          {checkbox(CURRENT_REVISION_ID)}
+          <PenLine className="w-3 h-3 text-emerald-500" />
+          <span className="flex-1 truncate">{t('revisions.current')}</span>
+        </label>
+        {revisions.map((revision) => (
+          <div key={revision.id} className={rowClass(selected.includes(revision.id))}>
+            {checkbox(revision.id)}
+            {KIND_ICONS[revision.kind]}
+            <span className="flex-1 truncate" title={revisionTitle(revision, revisions, t)}>{revisionTitle(revision, revisions, t)}</span>
+            <span className="text-[9px] font-mono text-slate-400 whitespace-nowrap">{formatRevisionTime(revision.createdAt)}</span>
+            <button
+              onClick={() => onRestore(revision)}
+              disabled={isDirectorMode}
+              title={t('revisions.restore')}
+              className="p-1 rounded text-slate-400 hover:text-amber-600 transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+            >
+              <RotateCcw className="w-3 h-3" />
+            </button>
+          </div>
+        ))}
+        {revisions.length === 0 && (
+          <p className="px-2.5 py-3 text-[11px] text-slate-400 text-center">{t('revisions.empty')}</p>
+        )}
+      </div>
+
+      <button
+        onClick={() => onCompare(selected[0], selected[1])}
+        disabled={selected.length !== 2}
+        className={`mt-2 w-full flex items-center justify-center gap-1.5 px-3 py-1.5 rounded-lg text-[11px] font-bold transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${isDirectorMode ? 'bg-slate-800 text-slate-200 hover:bg-slate-700' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'}`}
+      >
+        <GitCompare className="w-3 h-3" /> {t('revisions.compare')}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,47 @@
+import React, { useEffect, useState } from 'react';
+import { GitFork } from 'lucide-react';
+import { BranchStep } from '../../types';
+import { PlaybackControls } from '../../hooks/useGraphSimulation';
+import { useTranslation } from '../../i18n';
+
+interface BranchPromptProps {
+  playback: PlaybackControls;
+  isDirectorMode: boolean;
+}
+
+export const BranchPrompt: React.FC<BranchPromptProps> = ({ playback, isDirectorMode }) => {
+  const { t } = useTranslation();
+  const [branch, setBranch] = useState<BranchStep | null>(null);
+
+  useEffect(() => {
+    const sync = () => setBranch(playback.getState()?.pendingBranch ?? null);
+    const unsubscribe = playback.subscribe(sync);
+    sync();
+    return unsubscribe;
+  }, [playback]);
+
+  if (!branch) return null;
+
+  return (
+    <div
+      className={`absolute top-20 left-1/2 -translate-x-1/2 z-50 px-5 py-3 rounded-2xl shadow-xl border-2 backdrop-blur-md pointer-events-auto animate-in slide-in-from-top-4 duration-300 ${
+        isDirectorMode ? 'bg-slate-900/90 border-amber-500/40 text-slate-200' : 'bg-white/95 border-amber-300 text-slate-700'
+      }`}
+    >
+      <div className="flex items-center gap-2 text-xs font-black uppercase tracking-wider text-amber-500 mb-2">
+        <GitFork className="w-4 h-4" /> {branch.label || t('branch.decision')}
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {branch.outcomes.map((outcome) => (
+          <button
+            key={outcome.name}
+            onClick={() => playback.chooseBranch(branch.id, outcome.name)}
+            className="px-3 py-1.5 rounded-xl text-xs font-bold bg-amber-500 hover:bg-amber-400 text-white transition-all active:scale-95 shadow-sm"
+          >
+            {outcome.name}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,143 @@
+import React, { useEffect, useState } from 'react';
+import { GraphNode, SimulationAction } from '../../types';
+import { PlaybackControls } from '../../hooks/useGraphSimulation';
+import { PlaybackState } from '../../utils/graphAnimations';
+import { describeStep } from '../../utils/revisionDiff';
+import { stepRoute } from '../../utils/linkGeometry';
+import { useTranslation } from '../../i18n';
+
+interface CaptionOverlayProps {
+  playback: PlaybackControls;
+  nodesRef: React.MutableRefObject<GraphNode[]>;
+  transformRef: React.MutableRefObject<{ x: number; y: number; k: number }>;
+  subscribe: (listener: () => void) => () => void;
+  isDirectorMode: boolean;
+}
+
+const STEP_EPSILON = 0.05;
+// Gap between the link midpoint and the bottom of a link caption
+const LINK_CAPTION_OFFSET = 28;
+
+// Index of the top-level step under the playhead
+const currentStepIndex = (state: PlaybackState) => {
+  let index = 0;
+  state.stepTimes.forEach((time, i) => {
+    if (time <= state.time + STEP_EPSILON) index = i;
+  });
+  return index;
+};
+
+// Node pairs a step's packets hop between. Branches are left out because the
+// outcome being played is only known to the timeline.
+const collectLinks = (step: SimulationAction): [string, string][] => {
+  switch (step.type) {
+    case 'parallel':
+    case 'repeat':
+      return step.steps.flatMap(collectLinks);
+    case 'branch':
+      return [];
+    default: {
+      const route = stepRoute(step);
+      return route.slice(1).map((to, i): [string, string] => [route[i], to]);
+    }
+  }
+};
+
+// Caption for the step being played, as a subtitle bar or next to its links
+export const CaptionOverlay: React.FC<CaptionOverlayProps> = ({ playback, nodesRef, transformRef, subscribe, isDirectorMode }) => {
+  const { t } = useTranslation();
+  const [state, setState] = useState<PlaybackState | null>(null);
+
+  // Follow the playhead as well as zoom, pan and ticks, at most once per frame
+  useEffect(() => {
+    let frame: number | null = null;
+    const schedule = () => {
+      if (frame !== null) return;
+      frame = requestAnimationFrame(() => {
+        frame = null;
+        setState(playback.getState());
+      });
+    };
+    const unsubscribePlayback = playback.subscribe(schedule);
+    const unsubscribeView = subscribe(schedule);
+    schedule();
+    return () => {
+      unsubscribePlayback();
+      unsubscribeView();
+      if (frame !== null) cancelAnimationFrame(frame);
+    };
+  }, [playback, subscribe]);
+
+  if (!state || state.duration <= 0) return null;
+  const { sequence } = state;
+  const mode = sequence.captions ?? 'subtitle';
+  const finished = !state.isPlaying && state.time >= state.duration - STEP_EPSILON;
+  if (mode === 'off' || finished || sequence.steps.length === 0) return null;
+
+  const index = currentStepIndex(state);
+  const step = sequence.steps[index];
+  if (!step) return null;
+
+  const nodesById = new Map<string, GraphNode>(nodesRef.current.map((node) => [node.id, node]));
+  const nodeLabel = (id: string) => nodesById.get(id)?.label ?? id;
+  const title = step.label || describeStep(step, nodeLabel);
+
+  const start = state.stepTimes[index] ?? 0;
+  const end = state.stepTimes[index + 1] ?? state.duration;
+  const progress = end > start ? Math.min(1, Math.max(0, (state.time - start) / (end - start))) : 1;
+
+  // Average midpoint of the step's links, in screen space
+  let anchor: { x: number; y: number } | null = null;
+  if (mode === 'link') {
+    const { x: tx, y: ty, k } = transformRef.current;
+    const midpoints = collectLinks(step).flatMap(([from, to]) => {
+      const source = nodesById.get(from);
+      const target = nodesById.get(to);
+      if (typeof source?.x !== 'number' || typeof source?.y !== 'number' || typeof target?.x !== 'number' || typeof target?.y !== 'number') return [];
+      return [{ x: ((source.x + target.x) / 2) * k + tx, y: ((source.y + target.y) / 2) * k + ty }];
+    });
+    if (midpoints.length > 0) {
+      anchor = {
+        x: midpoints.reduce((sum, p) => sum + p.x, 0) / midpoints.length,
+        y: midpoints.reduce((sum, p) => sum + p.y, 0) / midpoints.length,
+      };
+    }
+  }
+
+  const card = (
+    <div
+      className={`rounded-2xl shadow-xl border backdrop-blur-md px-4 py-2.5 ${
+        isDirectorMode ? 'bg-slate-900/85 border-white/10 text-slate-100' : 'bg-white/90 border-slate-200 text-slate-800'
+      }`}
+    >
+      <div className="flex items-center justify-between gap-3 text-[10px] font-black uppercase tracking-widest text-slate-400">
+        <span>{t('captions.step_of').replace('{current}', String(index + 1)).replace('{total}', String(sequence.steps.length))}</span>
+        {sequence.name && <span className="truncate normal-case tracking-normal font-semibold">{sequence.name}</span>}
+      </div>
+      <div className="text-sm font-bold leading-snug mt-0.5">{title}</div>
+      {step.description && (
+        <p className={`text-xs leading-relaxed mt-1 whitespace-pre-line ${isDirectorMode ? 'text-slate-300' : 'text-slate-600'}`}>{step.description}</p>
+      )}
+      <div className={`h-1 rounded-full mt-2 overflow-hidden ${isDirectorMode ? 'bg-slate-700' : 'bg-slate-200'}`}>
+        <div className={`h-full rounded-full ${isDirectorMode ? 'bg-purple-400' : 'bg-indigo-500'}`} style={{ width: `${progress * 100}%` }} />
+      </div>
+    </div>
+  );
+
+  if (anchor) {
+    return (
+      <div
+        className="absolute z-20 w-64 pointer-events-none"
+        style={{ left: anchor.x, top: anchor.y - LINK_CAPTION_OFFSET, transform: 'translate(-50%, -100%)' }}
+      >
+        {card}
+      </div>
+    );
+  }
+
+  return (
+    <div className="absolute bottom-8 left-1/2 -translate-x-1/2 z-20 w-[min(560px,70%)] pointer-events-none text-center">
+      {card}
+    </div>
+  );
+};
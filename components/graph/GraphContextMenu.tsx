@@ -1,6 +1,15 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Link as LinkIcon, Database, Trash2, Check, CornerDownLeft, X, Trash, Plus } from 'lucide-react';
-import { GraphNode } from '../../types';
+import {
+  Link as LinkIcon, Database, Trash2, Check, CornerDownLeft, X, Trash, Plus, BoxSelect, Copy, CopyPlus,
+  AlignStartVertical, AlignCenterVertical, AlignEndVertical,
+  AlignStartHorizontal, AlignCenterHorizontal, AlignEndHorizontal,
+  AlignHorizontalDistributeCenter, AlignVerticalDistributeCenter, Shapes, ImagePlus, Ban, Icon as LucideIcon,
+} from 'lucide-react';
+import { GraphNode, NodeShape } from '../../types';
+import { ArrangeCommand } from '../../utils/selectionLayout';
+import { NODE_SHAPES, nodeShapePath } from '../../utils/nodeShapes';
+import { NODE_ICONS } from '../../utils/nodeIcons';
+import { readNodeImage } from '../../utils/nodeImages';
 import { useTranslation } from '../../i18n';
 
 interface GraphContextMenuProps {
@@ -13,8 +22,26 @@ interface GraphContextMenuProps {
   onDelete: (id: string) => void;
   onStartLinking: () => void;
   onClose: () => void;
+  // Multi-selection: when it holds more than one node the menu edits the whole group
+  selection?: GraphNode[];
+  onUpdateSelection?: (nodes: GraphNode[]) => void;
+  onDeleteSelection?: (ids: string[]) => void;
+  onArrange?: (command: ArrangeCommand) => void;
+  onCopy?: () => void;
+  onDuplicate?: () => void;
 }
 
+const ARRANGE_ACTIONS: { command: ArrangeCommand; icon: React.ElementType; label: string }[] = [
+  { command: { type: 'align', edge: 'left' }, icon: AlignStartVertical, label: 'context.align_left' },
+  { command: { type: 'align', edge: 'center' }, icon: AlignCenterVertical, label: 'context.align_center' },
+  { command: { type: 'align', edge: 'right' }, icon: AlignEndVertical, label: 'context.align_right' },
+  { command: { type: 'align', edge: 'top' }, icon: AlignStartHorizontal, label: 'context.align_top' },
+  { command: { type: 'align', edge: 'middle' }, icon: AlignCenterHorizontal, label: 'context.align_middle' },
+  { command: { type: 'align', edge: 'bottom' }, icon: AlignEndHorizontal, label: 'context.align_bottom' },
+  { command: { type: 'distribute', axis: 'horizontal' }, icon: AlignHorizontalDistributeCenter, label: 'context.distribute_horizontal' },
+  { command: { type: 'distribute', axis: 'vertical' }, icon: AlignVerticalDistributeCenter, label: 'context.distribute_vertical' },
+];
+
 export const GraphContextMenu: React.FC<GraphContextMenuProps> = ({
   node,
   position,
@@ -24,14 +51,23 @@ export const GraphContextMenu: React.FC<GraphContextMenuProps> = ({
   onUpdate,
   onDelete,
   onStartLinking,
-  onClose
+  onClose,
+  selection = [],
+  onUpdateSelection,
+  onDeleteSelection,
+  onArrange,
+  onCopy,
+  onDuplicate
 }) => {
   const { t } = useTranslation();
   const [editingLabel, setEditingLabel] = useState(node.label);
   const [isMetaExpanded, setIsMetaExpanded] = useState(false);
   const [newMetaKey, setNewMetaKey] = useState("");
   const [newMetaValue, setNewMetaValue] = useState("");
+  const [isStyleExpanded, setIsStyleExpanded] = useState(false);
+  const [imageError, setImageError] = useState("");
   const colorInputRef = useRef<HTMLInputElement>(null);
+  const imageInputRef = useRef<HTMLInputElement>(null);
 
   // Sync label state if node changes externally
   useEffect(() => {
@@ -41,7 +77,33 @@ export const GraphContextMenu: React.FC<GraphContextMenuProps> = ({
   if (!position) return null;
 
   const groupColors = ["#1a1a1a", "#ef4444", "#22c55e", "#3b82f6", "#f59e0b", "#8b5cf6"];
-  const currentNodeColor = node.apparence?.fill || groupColors[(node.group || 0) % groupColors.length];
+  const currentNodeColor = node.appearance?.fill || groupColors[(node.group || 0) % groupColors.length];
+  const isGroup = selection.length > 1;
+
+  // Restyle edits apply to every selected node in group mode
+  const applyStyle = (patch: (target: GraphNode) => GraphNode) => {
+    if (isGroup) onUpdateSelection?.(selection.map(patch));
+    else onUpdate(patch(node));
+  };
+
+  const currentShape = node.appearance?.shape || 'circle';
+  const currentIcon = node.appearance?.icon;
+
+  // Sets one appearance field on every edited node, or clears it when `value` is undefined
+  const setAppearance = (key: 'shape' | 'icon' | 'image', value: string | undefined) =>
+    applyStyle((target) => {
+      const { [key]: _, ...rest } = target.appearance || {};
+      return { ...target, appearance: value === undefined ? rest : { ...rest, [key]: value } };
+    });
+
+  const handleImageFile = async (file: File) => {
+    try {
+      setAppearance('image', await readNodeImage(file));
+      setImageError("");
+    } catch (err: any) {
+      setImageError(err.message);
+    }
+  };
 
   const handleAddMeta = () => {
     if (!newMetaKey) return;
@@ -64,19 +126,25 @@ export const GraphContextMenu: React.FC<GraphContextMenuProps> = ({
     >
       <div className={`backdrop-blur-md shadow-[0_12px_40px_rgba(0,0,0,0.15)] border rounded-2xl p-0.5 pointer-events-auto flex flex-col items-stretch animate-in zoom-in-95 fade-in duration-200 w-auto min-w-[260px] transition-all ${isConfirmingDelete ? 'border-red-400 bg-red-50/95' : (isDirectorMode ? 'bg-slate-800/95 border-slate-700 ring-1 ring-white/10' : 'bg-white/95 border-slate-200')}`}>
         <div className="flex items-center gap-1 p-0.5">
-          {/* Label Editor */}
-          <input 
-            autoFocus 
-            className={`px-2 py-1 text-xs font-bold bg-transparent border-none focus:ring-0 w-20 outline-none ${isDirectorMode ? 'text-slate-100' : 'text-slate-800'} ${isConfirmingDelete ? 'opacity-50' : ''}`} 
-            value={editingLabel} 
-            disabled={isConfirmingDelete} 
-            onChange={(e) => { 
-              setEditingLabel(e.target.value); 
-              onUpdate({ ...node, label: e.target.value }); 
-            }} 
-            onKeyDown={(e) => { if(e.key === 'Enter') onClose(); }} 
-            onMouseDown={(e) => e.stopPropagation()} 
-          />
+          {/* Label Editor (group mode shows the selection size instead) */}
+          {isGroup ? (
+            <span className={`px-2 py-1 text-xs font-bold flex items-center gap-1.5 whitespace-nowrap ${isDirectorMode ? 'text-slate-100' : 'text-slate-800'} ${isConfirmingDelete ? 'opacity-50' : ''}`}>
+              <BoxSelect className="w-3.5 h-3.5 text-indigo-500" /> {t('context.selected_count').replace('{count}', String(selection.length))}
+            </span>
+          ) : (
+            <input 
+              autoFocus 
+              className={`px-2 py-1 text-xs font-bold bg-transparent border-none focus:ring-0 w-20 outline-none ${isDirectorMode ? 'text-slate-100' : 'text-slate-800'} ${isConfirmingDelete ? 'opacity-50' : ''}`} 
+              value={editingLabel} 
+              disabled={isConfirmingDelete} 
+              onChange={(e) => { 
+                setEditingLabel(e.target.value); 
+                onUpdate({ ...node, label: e.target.value }); 
+              }} 
+              onKeyDown={(e) => { if(e.key === 'Enter') onClose(); }} 
+              onMouseDown={(e) => e.stopPropagation()} 
+            />
+          )}
           
           <div className={`w-px h-5 mx-0.5 ${isDirectorMode ? 'bg-slate-700' : 'bg-slate-200'}`} />
           
@@ -86,7 +154,7 @@ export const GraphContextMenu: React.FC<GraphContextMenuProps> = ({
               <button 
                 key={idx} 
                 onMouseDown={(e) => e.stopPropagation()} 
-                onClick={() => onUpdate({ ...node, group: idx, apparence: { fill: color, stroke: "#b3b3b3" } })} 
+                onClick={() => applyStyle((target) => ({ ...target, group: idx, appearance: { ...target.appearance, fill: color, stroke: "#b3b3b3" } }))} 
                 className={`w-4 h-4 rounded-lg transition-all hover:scale-110 hover:shadow-lg ${currentNodeColor?.toLowerCase() === color.toLowerCase() ? (isDirectorMode ? 'ring-2 ring-indigo-400 ring-offset-2 ring-offset-slate-800 scale-105 shadow-indigo-900/20' : 'ring-2 ring-indigo-500 ring-offset-2 scale-105 shadow-indigo-100') : ''}`} 
                 style={{ backgroundColor: color }} 
               />
@@ -109,7 +177,7 @@ export const GraphContextMenu: React.FC<GraphContextMenuProps> = ({
                 value={currentNodeColor?.startsWith('#') ? currentNodeColor : "#000000"} 
                 onChange={(e) => { 
                   const color = e.target.value; 
-                  onUpdate({ ...node, apparence: { ...node.apparence, fill: color, stroke: color } }); 
+                  applyStyle((target) => ({ ...target, appearance: { ...target.appearance, fill: color, stroke: color } })); 
                 }} 
               />
             </div>
@@ -123,20 +191,52 @@ export const GraphContextMenu: React.FC<GraphContextMenuProps> = ({
               <>
                 <button 
                   onMouseDown={(e) => e.stopPropagation()} 
-                  onClick={(e) => { e.stopPropagation(); onStartLinking(); }} 
-                  className={`p-1.5 rounded-xl transition-all flex items-center justify-center ${isDirectorMode ? 'text-slate-400 hover:text-indigo-400 hover:bg-slate-700' : 'text-slate-400 hover:text-indigo-600 hover:bg-indigo-50'}`} 
-                  title={t('context.create_link')}
-                >
-                  <LinkIcon className="w-3.5 h-3.5" />
-                </button>
-                <button 
-                  onMouseDown={(e) => e.stopPropagation()} 
-                  onClick={(e) => { e.stopPropagation(); setIsMetaExpanded(!isMetaExpanded); }} 
-                  className={`p-1.5 rounded-xl transition-all flex items-center justify-center ${ isMetaExpanded ? (isDirectorMode ? 'text-emerald-400 bg-slate-700' : 'text-emerald-600 bg-emerald-50') : (isDirectorMode ? 'text-slate-400 hover:text-emerald-400 hover:bg-slate-700' : 'text-slate-400 hover:text-emerald-600 hover:bg-emerald-50') }`} 
-                  title={t('context.edit_meta')}
+                  onClick={(e) => { e.stopPropagation(); setIsStyleExpanded(!isStyleExpanded); }} 
+                  className={`p-1.5 rounded-xl transition-all flex items-center justify-center ${ isStyleExpanded ? (isDirectorMode ? 'text-indigo-300 bg-slate-700' : 'text-indigo-600 bg-indigo-50') : (isDirectorMode ? 'text-slate-400 hover:text-indigo-400 hover:bg-slate-700' : 'text-slate-400 hover:text-indigo-600 hover:bg-indigo-50') }`} 
+                  title={t('context.appearance')}
                 >
-                  <Database className="w-3.5 h-3.5" />
+                  <Shapes className="w-3.5 h-3.5" />
                 </button>
+                {!isGroup && (
+                  <>
+                    <button 
+                      onMouseDown={(e) => e.stopPropagation()} 
+                      onClick={(e) => { e.stopPropagation(); onStartLinking(); }} 
+                      className={`p-1.5 rounded-xl transition-all flex items-center justify-center ${isDirectorMode ? 'text-slate-400 hover:text-indigo-400 hover:bg-slate-700' : 'text-slate-400 hover:text-indigo-600 hover:bg-indigo-50'}`} 
+                      title={t('context.create_link')}
+                    >
+                      <LinkIcon className="w-3.5 h-3.5" />
+                    </button>
+                    <button 
+                      onMouseDown={(e) => e.stopPropagation()} 
+                      onClick={(e) => { e.stopPropagation(); setIsMetaExpanded(!isMetaExpanded); }} 
+                      className={`p-1.5 rounded-xl transition-all flex items-center justify-center ${ isMetaExpanded ? (isDirectorMode ? 'text-emerald-400 bg-slate-700' : 'text-emerald-600 bg-emerald-50') : (isDirectorMode ? 'text-slate-400 hover:text-emerald-400 hover:bg-slate-700' : 'text-slate-400 hover:text-emerald-600 hover:bg-emerald-50') }`} 
+                      title={t('context.edit_meta')}
+                    >
+                      <Database className="w-3.5 h-3.5" />
+                    </button>
+                  </>
+                )}
+                {onCopy && (
+                  <button 
+                    onMouseDown={(e) => e.stopPropagation()} 
+                    onClick={(e) => { e.stopPropagation(); onCopy(); }} 
+                    className={`p-1.5 rounded-xl transition-all flex items-center justify-center ${isDirectorMode ? 'text-slate-400 hover:text-indigo-400 hover:bg-slate-700' : 'text-slate-400 hover:text-indigo-600 hover:bg-indigo-50'}`} 
+                    title={t('context.copy')}
+                  >
+                    <Copy className="w-3.5 h-3.5" />
+                  </button>
+                )}
+                {onDuplicate && (
+                  <button 
+                    onMouseDown={(e) => e.stopPropagation()} 
+                    onClick={(e) => { e.stopPropagation(); onDuplicate(); }} 
+                    className={`p-1.5 rounded-xl transition-all flex items-center justify-center ${isDirectorMode ? 'text-slate-400 hover:text-indigo-400 hover:bg-slate-700' : 'text-slate-400 hover:text-indigo-600 hover:bg-indigo-50'}`} 
+                    title={t('context.duplicate')}
+                  >
+                    <CopyPlus className="w-3.5 h-3.5" />
+                  </button>
+                )}
                 <button 
                   onMouseDown={(e) => e.stopPropagation()} 
                   onClick={(e) => { e.stopPropagation(); setIsConfirmingDelete(true); }} 
@@ -150,7 +250,7 @@ export const GraphContextMenu: React.FC<GraphContextMenuProps> = ({
               <div className="flex items-center gap-1 animate-in slide-in-from-right-2 duration-200 pr-1">
                 <button 
                   onMouseDown={(e) => e.stopPropagation()} 
-                  onClick={(e) => { e.stopPropagation(); onDelete(node.id); onClose(); }} 
+                  onClick={(e) => { e.stopPropagation(); if (isGroup) onDeleteSelection?.(selection.map((n) => n.id)); else onDelete(node.id); onClose(); }} 
                   className="bg-red-500 hover:bg-red-600 text-white px-2 py-1 rounded-xl text-[10px] font-bold flex items-center gap-1.5 shadow-sm transition-all active:scale-95"
                 >
                   <Check className="w-3 h-3" /> {t('context.confirm')} <CornerDownLeft className="w-3 h-3 opacity-70" />
@@ -168,8 +268,104 @@ export const GraphContextMenu: React.FC<GraphContextMenuProps> = ({
           </div>
         </div>
         
+        {/* Align & Distribute */}
+        {isGroup && !isConfirmingDelete && onArrange && (
+          <div className={`border-t px-1.5 py-1 flex items-center justify-center gap-0.5 ${isDirectorMode ? 'border-slate-700' : 'border-slate-100'}`}>
+            {ARRANGE_ACTIONS.map(({ command, icon: Icon, label }, idx) => (
+              <React.Fragment key={label}>
+                {idx === 6 && <div className={`w-px h-4 mx-1 ${isDirectorMode ? 'bg-slate-700' : 'bg-slate-200'}`} />}
+                <button
+                  onMouseDown={(e) => e.stopPropagation()}
+                  onClick={(e) => { e.stopPropagation(); onArrange(command); }}
+                  disabled={command.type === 'distribute' && selection.length < 3}
+                  className={`p-1.5 rounded-lg transition-all disabled:opacity-30 disabled:pointer-events-none ${isDirectorMode ? 'text-slate-400 hover:text-indigo-400 hover:bg-slate-700' : 'text-slate-400 hover:text-indigo-600 hover:bg-indigo-50'}`}
+                  title={t(label)}
+                >
+                  <Icon className="w-3.5 h-3.5" />
+                </button>
+              </React.Fragment>
+            ))}
+          </div>
+        )}
+
+        {/* Shape, Icon & Image */}
+        {isStyleExpanded && !isConfirmingDelete && (
+          <div className={`border-t p-2 space-y-2 animate-in slide-in-from-bottom-2 duration-200 ${isDirectorMode ? 'border-slate-700' : 'border-slate-100'}`}>
+            <div className="text-[9px] font-bold text-slate-400 uppercase tracking-wider">{t('context.shape')}</div>
+            <div className="flex gap-1">
+              {NODE_SHAPES.map((shape: NodeShape) => (
+                <button
+                  key={shape}
+                  onMouseDown={(e) => e.stopPropagation()}
+                  onClick={() => setAppearance('shape', shape === 'circle' ? undefined : shape)}
+                  className={`p-1 rounded-lg transition-all ${currentShape === shape ? (isDirectorMode ? 'bg-slate-700 text-indigo-300' : 'bg-indigo-50 text-indigo-600') : (isDirectorMode ? 'text-slate-400 hover:bg-slate-700' : 'text-slate-400 hover:bg-slate-100')}`}
+                  title={t(`context.shape_${shape}`)}
+                >
+                  <svg viewBox="-12 -12 24 24" className="w-4 h-4">
+                    <path d={nodeShapePath(shape, 9)} fill="none" stroke="currentColor" strokeWidth={2} />
+                  </svg>
+                </button>
+              ))}
+            </div>
+
+            <div className="text-[9px] font-bold text-slate-400 uppercase tracking-wider">{t('context.icon')}</div>
+            <div className="grid grid-cols-9 gap-0.5 max-h-24 overflow-y-auto custom-scrollbar">
+              <button
+                onMouseDown={(e) => e.stopPropagation()}
+                onClick={() => setAppearance('icon', undefined)}
+                className={`p-1 rounded-lg transition-all flex items-center justify-center ${!currentIcon ? (isDirectorMode ? 'bg-slate-700 text-indigo-300' : 'bg-indigo-50 text-indigo-600') : (isDirectorMode ? 'text-slate-400 hover:bg-slate-700' : 'text-slate-400 hover:bg-slate-100')}`}
+                title={t('context.no_icon')}
+              >
+                <Ban className="w-3.5 h-3.5" />
+              </button>
+              {Object.entries(NODE_ICONS).map(([name, iconNode]) => (
+                <button
+                  key={name}
+                  onMouseDown={(e) => e.stopPropagation()}
+                  onClick={() => setAppearance('icon', name)}
+                  className={`p-1 rounded-lg transition-all flex items-center justify-center ${currentIcon === name ? (isDirectorMode ? 'bg-slate-700 text-indigo-300' : 'bg-indigo-50 text-indigo-600') : (isDirectorMode ? 'text-slate-400 hover:bg-slate-700' : 'text-slate-500 hover:bg-slate-100')}`}
+                  title={name}
+                >
+                  <LucideIcon iconNode={iconNode} className="w-3.5 h-3.5" />
+                </button>
+              ))}
+            </div>
+
+            <div className="text-[9px] font-bold text-slate-400 uppercase tracking-wider">{t('context.image')}</div>
+            <div className="flex items-center gap-1.5">
+              <button
+                onMouseDown={(e) => e.stopPropagation()}
+                onClick={() => imageInputRef.current?.click()}
+                className={`flex items-center gap-1 px-2 py-1 text-[10px] font-bold rounded-lg border transition-colors ${isDirectorMode ? 'border-slate-700 text-slate-300 hover:bg-slate-700' : 'border-slate-200 text-slate-600 hover:bg-slate-50'}`}
+              >
+                <ImagePlus className="w-3 h-3" /> {t('context.upload_image')}
+              </button>
+              {node.appearance?.image && (
+                <>
+                  <img src={node.appearance.image} alt="" className="w-6 h-6 object-contain rounded" />
+                  <button onMouseDown={(e) => e.stopPropagation()} onClick={() => setAppearance('image', undefined)} className="p-1 text-slate-400 hover:text-red-500 rounded transition-colors" title={t('context.remove_image')}>
+                    <Trash className="w-3 h-3" />
+                  </button>
+                </>
+              )}
+              <input
+                ref={imageInputRef}
+                type="file"
+                accept="image/*"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleImageFile(file);
+                  e.target.value = '';
+                }}
+              />
+            </div>
+            {imageError && <div className="text-[10px] text-red-500">{imageError}</div>}
+          </div>
+        )}
+
         {/* Metadata Editor */}
-        {isMetaExpanded && !isConfirmingDelete && (
+        {isMetaExpanded && !isGroup && !isConfirmingDelete && (
           <div className={`border-t p-2 space-y-2 animate-in slide-in-from-bottom-2 duration-200 max-h-48 overflow-y-auto custom-scrollbar ${isDirectorMode ? 'border-slate-700' : 'border-slate-100'}`}>
             <div className="text-[9px] font-bold text-slate-400 uppercase tracking-wider mb-1 flex items-center justify-between">
               <span>{t('context.meta_title')}</span>
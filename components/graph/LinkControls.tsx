@@ -1,36 +1,178 @@
-import React from 'react';
-import { Trash2 } from 'lucide-react';
-import { GraphLink } from '../../types';
+import React, { useEffect, useState } from 'react';
+import { Trash2, Trash, Plus, Database, ArrowRight, ArrowLeftRight, Minus, Slash, Spline, CornerDownRight } from 'lucide-react';
+import { GraphLink, LinkDirection, LinkRouting } from '../../types';
 import { useTranslation } from '../../i18n';
 
 interface LinkControlsProps {
   link: GraphLink;
   position: { x: number, y: number } | null;
   isDirectorMode: boolean;
+  onUpdate: (link: GraphLink) => void;
   onDelete: () => void;
 }
 
+const DIRECTIONS: { direction: LinkDirection; icon: React.ElementType; label: string }[] = [
+  { direction: 'forward', icon: ArrowRight, label: 'link.direction_forward' },
+  { direction: 'both', icon: ArrowLeftRight, label: 'link.direction_both' },
+  { direction: 'none', icon: Minus, label: 'link.direction_none' },
+];
+
+const ROUTINGS: { routing: LinkRouting; icon: React.ElementType; label: string }[] = [
+  { routing: 'straight', icon: Slash, label: 'link.routing_straight' },
+  { routing: 'curved', icon: Spline, label: 'link.routing_curved' },
+  { routing: 'orthogonal', icon: CornerDownRight, label: 'link.routing_orthogonal' },
+];
+
 export const LinkControls: React.FC<LinkControlsProps> = ({
   link,
   position,
   isDirectorMode,
+  onUpdate,
   onDelete
 }) => {
   const { t } = useTranslation();
+  const label = link.meta_data?.label ?? '';
+  const [editingLabel, setEditingLabel] = useState(String(label));
+  const [isMetaExpanded, setIsMetaExpanded] = useState(false);
+  const [newMetaKey, setNewMetaKey] = useState("");
+  const [newMetaValue, setNewMetaValue] = useState("");
+
+  // Sync label state if the link changes externally
+  useEffect(() => {
+    setEditingLabel(String(label));
+  }, [link.source, link.target, label]);
+
   if (!position) return null;
 
+  const direction = link.direction ?? 'forward';
+  // `label` is edited in the toolbar, so the metadata list leaves it out
+  const metaEntries = Object.entries(link.meta_data || {}).filter(([k]) => k !== 'label');
+
+  const updateMeta = (meta: Record<string, any>) => onUpdate({ ...link, meta_data: meta });
+
+  const handleLabelChange = (value: string) => {
+    setEditingLabel(value);
+    const { label: _, ...rest } = link.meta_data || {};
+    updateMeta(value ? { ...rest, label: value } : rest);
+  };
+
+  const handleAddMeta = () => {
+    if (!newMetaKey) return;
+    updateMeta({ ...link.meta_data, [newMetaKey]: newMetaValue });
+    setNewMetaKey("");
+    setNewMetaValue("");
+  };
+
+  const handleRemoveMeta = (key: string) => {
+    const currentMeta = { ...link.meta_data };
+    delete currentMeta[key];
+    updateMeta(currentMeta);
+  };
+
+  const iconBtnClass = (active: boolean) => `p-1.5 rounded-xl transition-all flex items-center justify-center ${
+    active
+      ? isDirectorMode ? 'text-indigo-300 bg-slate-700' : 'text-indigo-600 bg-indigo-50'
+      : isDirectorMode ? 'text-slate-400 hover:text-indigo-400 hover:bg-slate-700' : 'text-slate-400 hover:text-indigo-600 hover:bg-indigo-50'
+  }`;
+  const divider = <div className={`w-px h-5 mx-0.5 ${isDirectorMode ? 'bg-slate-700' : 'bg-slate-200'}`} />;
+
   return (
-    <div 
-      className="absolute z-50 pointer-events-auto flex items-center justify-center animate-in zoom-in-95 fade-in duration-200" 
-      style={{ left: position.x, top: position.y, transform: 'translate(-50%, -50%)' }}
+    <div
+      className="absolute z-50 pointer-events-none flex flex-col items-center"
+      style={{ left: position.x, top: position.y + 16, transform: 'translate(-50%, 0)' }}
     >
-      <button 
-        onClick={(e) => { e.stopPropagation(); onDelete(); }} 
-        className={`p-2 rounded-full shadow-xl border text-red-500 hover:scale-110 active:scale-95 transition-all group ${isDirectorMode ? 'bg-slate-800 border-slate-700 hover:bg-red-900/30' : 'bg-white border-slate-200 hover:bg-red-50'}`} 
-        title={t('context.delete')}
-      >
-        <Trash2 className="w-4 h-4" />
-      </button>
+      <div className={`backdrop-blur-md shadow-[0_12px_40px_rgba(0,0,0,0.15)] border rounded-2xl p-0.5 pointer-events-auto flex flex-col items-stretch animate-in zoom-in-95 fade-in duration-200 ${isDirectorMode ? 'bg-slate-800/95 border-slate-700 ring-1 ring-white/10' : 'bg-white/95 border-slate-200'}`}>
+        <div className="flex items-center gap-1 p-0.5">
+          <input
+            className={`px-2 py-1 text-xs font-bold bg-transparent border-none focus:ring-0 w-28 outline-none ${isDirectorMode ? 'text-slate-100 placeholder-slate-500' : 'text-slate-800 placeholder-slate-400'}`}
+            value={editingLabel}
+            placeholder={t('link.label_placeholder')}
+            onChange={(e) => handleLabelChange(e.target.value)}
+            onMouseDown={(e) => e.stopPropagation()}
+          />
+
+          {divider}
+
+          {DIRECTIONS.map(({ direction: value, icon: Icon, label: title }) => (
+            <button
+              key={value}
+              onMouseDown={(e) => e.stopPropagation()}
+              onClick={(e) => {
+                e.stopPropagation();
+                const { direction: _, ...rest } = link;
+                onUpdate(value === 'forward' ? rest : { ...rest, direction: value });
+              }}
+              className={iconBtnClass(direction === value)}
+              title={t(title)}
+            >
+              <Icon className="w-3.5 h-3.5" />
+            </button>
+          ))}
+
+          {divider}
+
+          {/* Clicking the active routing again hands it back to the link's styles */}
+          {ROUTINGS.map(({ routing: value, icon: Icon, label: title }) => (
+            <button
+              key={value}
+              onMouseDown={(e) => e.stopPropagation()}
+              onClick={(e) => {
+                e.stopPropagation();
+                const { routing: _, ...rest } = link;
+                onUpdate(link.routing === value ? rest : { ...rest, routing: value });
+              }}
+              className={iconBtnClass(link.routing === value)}
+              title={t(title)}
+            >
+              <Icon className="w-3.5 h-3.5" />
+            </button>
+          ))}
+
+          {divider}
+
+          <button
+            onMouseDown={(e) => e.stopPropagation()}
+            onClick={(e) => { e.stopPropagation(); setIsMetaExpanded(!isMetaExpanded); }}
+            className={iconBtnClass(isMetaExpanded)}
+            title={t('context.edit_meta')}
+          >
+            <Database className="w-3.5 h-3.5" />
+          </button>
+          <button
+            onMouseDown={(e) => e.stopPropagation()}
+            onClick={(e) => { e.stopPropagation(); onDelete(); }}
+            className={`p-1.5 rounded-xl transition-all flex items-center justify-center text-red-400 ${isDirectorMode ? 'hover:bg-red-900/30' : 'hover:bg-red-50'}`}
+            title={t('context.delete')}
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+        </div>
+
+        {/* Metadata Editor */}
+        {isMetaExpanded && (
+          <div className={`border-t p-2 space-y-2 animate-in slide-in-from-top-2 duration-200 max-h-48 overflow-y-auto custom-scrollbar ${isDirectorMode ? 'border-slate-700' : 'border-slate-100'}`}>
+            <div className="text-[9px] font-bold text-slate-400 uppercase tracking-wider mb-1">{t('context.meta_title')}</div>
+            <div className="space-y-1">
+              {metaEntries.map(([k, v]) => (
+                <div key={k} className={`flex items-center gap-1.5 p-1 rounded-md border group ${isDirectorMode ? 'bg-slate-900 border-slate-700' : 'bg-slate-50 border-slate-100'}`}>
+                  <span className="text-[10px] font-mono font-bold text-slate-500 w-14 truncate" title={k}>{k}:</span>
+                  <span className={`text-[10px] flex-1 truncate ${isDirectorMode ? 'text-slate-300' : 'text-slate-700'}`}>{String(v)}</span>
+                  <button onMouseDown={(e) => e.stopPropagation()} onClick={() => handleRemoveMeta(k)} className="opacity-0 group-hover:opacity-100 p-1 text-slate-300 hover:text-red-500 hover:bg-red-50 rounded transition-all">
+                    <Trash className="w-2.5 h-2.5" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <div className="pt-1.5 flex gap-1">
+              <input onMouseDown={(e) => e.stopPropagation()} className={`text-[9px] rounded px-1.5 py-0.5 flex-1 min-w-0 outline-none focus:ring-1 focus:ring-indigo-500 ${isDirectorMode ? 'bg-slate-900 border-slate-700 text-slate-300' : 'bg-white border-slate-200'}`} placeholder={t('context.key')} value={newMetaKey} onChange={(e) => setNewMetaKey(e.target.value)} />
+              <input onMouseDown={(e) => e.stopPropagation()} className={`text-[9px] rounded px-1.5 py-0.5 flex-1 min-w-0 outline-none focus:ring-1 focus:ring-indigo-500 ${isDirectorMode ? 'bg-slate-900 border-slate-700 text-slate-300' : 'bg-white border-slate-200'}`} placeholder={t('context.value')} value={newMetaValue} onChange={(e) => setNewMetaValue(e.target.value)} />
+              <button onMouseDown={(e) => e.stopPropagation()} onClick={handleAddMeta} className="bg-indigo-600 text-white rounded p-1 hover:bg-indigo-700 transition-colors">
+                <Plus className="w-2.5 h-2.5" />
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
     </div>
   );
 };
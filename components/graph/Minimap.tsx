@@ -5,6 +5,7 @@ export interface MinimapNode {
   x: number;
   y: number;
   color?: string;
+  selected?: boolean;
 }
 
 export interface MinimapZone {
@@ -113,11 +114,15 @@ export const Minimap: React.FC<MinimapProps> = ({ nodes, zones, world, viewport,
           return <rect key={zone.id} x={x} y={y} width={width} height={height} rx={4} fill={fill} stroke={stroke} strokeWidth={1} />;
         })}
 
-        {nodes.map((node) => {
+        {/* Selected nodes are drawn last so they stay visible */}
+        {[...nodes.filter((node) => !node.selected), ...nodes.filter((node) => node.selected)].map((node) => {
           const x = toScreenX(node.x);
           const y = toScreenY(node.y);
           const fill = node.color || (isDirectorMode ? '#38bdf8' : '#6366f1');
 
+          if (node.selected) {
+            return <circle key={node.id} cx={x} cy={y} r={5.5} fill={fill} stroke={isDirectorMode ? '#e9d5ff' : '#4f46e5'} strokeWidth={2} />;
+          }
           return <circle key={node.id} cx={x} cy={y} r={4} fill={fill} stroke={isDirectorMode ? '#0f172a' : '#eef2ff'} strokeWidth={1.5} opacity={0.9} />;
         })}
 
@@ -0,0 +1,100 @@
+import React, { useEffect, useState } from 'react';
+import { EnvironmentZone, GraphNode } from '../../types';
+import { CollabPeer } from '../../hooks/useCollaboration';
+
+interface PresenceOverlayProps {
+  peers: CollabPeer[];
+  nodesRef: React.MutableRefObject<GraphNode[]>;
+  zones: EnvironmentZone[];
+  transformRef: React.MutableRefObject<{ x: number; y: number; k: number }>;
+  subscribe: (listener: () => void) => () => void;
+}
+
+// Slightly larger than a node circle so the ring sits outside the selection glow
+const NODE_RING_RADIUS = 27;
+
+// Remote cursors and selections, drawn in screen space above the graph
+export const PresenceOverlay: React.FC<PresenceOverlayProps> = ({ peers, nodesRef, zones, transformRef, subscribe }) => {
+  const [, setFrame] = useState(0);
+
+  // Follow zoom, pan and simulation ticks, at most once per animation frame
+  useEffect(() => {
+    let frame: number | null = null;
+    const schedule = () => {
+      if (frame !== null) return;
+      frame = requestAnimationFrame(() => {
+        frame = null;
+        setFrame((f) => f + 1);
+      });
+    };
+    const unsubscribe = subscribe(schedule);
+    return () => {
+      unsubscribe();
+      if (frame !== null) cancelAnimationFrame(frame);
+    };
+  }, [subscribe]);
+
+  const { x: tx, y: ty, k } = transformRef.current;
+  const nodesById = new Map<string, GraphNode>(nodesRef.current.map((node) => [node.id, node]));
+
+  return (
+    <div className="absolute inset-0 pointer-events-none z-20 overflow-hidden">
+      <svg className="absolute inset-0 w-full h-full">
+        {peers.map((peer) => {
+          const zone = peer.zoneId ? zones.find((z) => z.id === peer.zoneId) : undefined;
+          return (
+            <g key={peer.client}>
+              {peer.nodeIds.map((id) => {
+                const node = nodesById.get(id);
+                if (typeof node?.x !== 'number' || typeof node?.y !== 'number') return null;
+                return (
+                  <circle
+                    key={id}
+                    cx={node.x * k + tx}
+                    cy={node.y * k + ty}
+                    r={NODE_RING_RADIUS * k}
+                    fill="none"
+                    stroke={peer.color}
+                    strokeWidth={2.5}
+                    strokeDasharray="6 4"
+                  />
+                );
+              })}
+              {zone && (
+                <rect
+                  x={zone.x * k + tx - 4}
+                  y={zone.y * k + ty - 4}
+                  width={zone.width * k + 8}
+                  height={zone.height * k + 8}
+                  rx={10}
+                  fill="none"
+                  stroke={peer.color}
+                  strokeWidth={2.5}
+                  strokeDasharray="6 4"
+                />
+              )}
+            </g>
+          );
+        })}
+      </svg>
+
+      {peers.map((peer) => peer.cursor && (
+        <div
+          key={peer.client}
+          className="absolute transition-transform duration-75 ease-linear"
+          style={{ transform: `translate(${peer.cursor.x * k + tx}px, ${peer.cursor.y * k + ty}px)` }}
+        >
+          <svg width="16" height="20" viewBox="0 0 16 20" className="drop-shadow">
+            <path d="M1 1 L1 16 L5 12 L8 19 L11 18 L8 11 L14 11 Z" fill={peer.color} stroke="#fff" strokeWidth="1.5" strokeLinejoin="round" />
+          </svg>
+          <span
+            className="absolute left-3.5 top-4 px-1.5 py-0.5 rounded-md text-[10px] font-bold text-white whitespace-nowrap shadow"
+            style={{ backgroundColor: peer.color }}
+          >
+            {peer.name}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { X, Code2, Copy, Check, Download } from 'lucide-react';
+import { useTranslation } from '../../i18n';
+
+interface EmbedModalProps {
+  onExportBundle: () => void;
+  onClose: () => void;
+}
+
+// embed.html sits next to index.html in the build
+const embedUrl = (bundleUrl: string) =>
+  `${new URL('embed.html', window.location.href.split('#')[0]).href}?src=${encodeURIComponent(bundleUrl)}`;
+
+const embedSnippet = (bundleUrl: string) =>
+  `<iframe src="${embedUrl(bundleUrl)}" width="960" height="540" style="border:0" allow="fullscreen" allowfullscreen></iframe>`;
+
+export const EmbedModal: React.FC<EmbedModalProps> = ({ onExportBundle, onClose }) => {
+  const { t } = useTranslation();
+  const [bundleUrl, setBundleUrl] = useState('');
+  const [copied, setCopied] = useState(false);
+
+  const snippet = embedSnippet(bundleUrl.trim() || 'https://example.com/project.mijin');
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(snippet);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-2xl border border-slate-200 w-[520px] max-h-[90vh] flex flex-col"
+        onClick={e => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-5 py-4 border-b border-slate-100">
+          <div className="flex items-center gap-2">
+            <Code2 className="w-4 h-4 text-indigo-500" />
+            <span className="font-bold text-sm text-slate-800">{t('presenter.embed_title')}</span>
+          </div>
+          <button onClick={onClose} className="p-1 rounded-lg hover:bg-slate-100 text-slate-400">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto flex-1 p-5 flex flex-col gap-4">
+          {/* Step 1: bundle */}
+          <div className="flex items-start justify-between gap-3">
+            <p className="text-sm text-slate-600">{t('presenter.embed_step_bundle')}</p>
+            <button
+              onClick={onExportBundle}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-bold rounded-lg border border-slate-200 text-slate-600 hover:bg-slate-50 transition-colors whitespace-nowrap"
+            >
+              <Download className="w-3.5 h-3.5" /> {t('presenter.download_bundle')}
+            </button>
+          </div>
+
+          {/* Step 2: where it is hosted */}
+          <div>
+            <label className="text-xs font-semibold text-slate-600 mb-1 block">{t('presenter.bundle_url')}</label>
+            <input
+              value={bundleUrl}
+              onChange={e => setBundleUrl(e.target.value)}
+              placeholder="https://example.com/project.mijin"
+              className="w-full text-sm border border-slate-200 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-300 font-mono"
+            />
+          </div>
+
+          {/* Step 3: snippet */}
+          <div>
+            <label className="text-xs font-semibold text-slate-600 mb-1 block">{t('presenter.embed_code')}</label>
+            <pre className="text-[11px] bg-slate-50 border border-slate-200 rounded-lg p-3 whitespace-pre-wrap break-all font-mono text-slate-700">{snippet}</pre>
+            <p className="text-xs text-slate-400 mt-1.5">{t('presenter.embed_cors_hint')}</p>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end gap-2 px-5 py-3 border-t border-slate-100">
+          <button onClick={onClose} className="px-4 py-1.5 text-sm text-slate-600 hover:bg-slate-100 rounded-lg transition-colors">
+            {t('import.cancel')}
+          </button>
+          <button
+            onClick={handleCopy}
+            disabled={!bundleUrl.trim()}
+            className={`flex items-center gap-1.5 px-4 py-1.5 text-sm font-semibold rounded-lg transition-colors ${
+              bundleUrl.trim()
+                ? 'bg-indigo-600 text-white hover:bg-indigo-700'
+                : 'bg-slate-100 text-slate-400 cursor-not-allowed'
+            }`}
+          >
+            {copied ? <Check className="w-3.5 h-3.5" /> : <Copy className="w-3.5 h-3.5" />}
+            {copied ? t('presenter.copied') : t('presenter.copy_code')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,18 @@
+import React from 'react';
+import ReactDOM from 'react-dom/client';
+import { EmbedPlayer } from './components/EmbedPlayer';
+import { I18nProvider } from './i18n';
+
+const rootElement = document.getElementById('root');
+if (!rootElement) {
+  throw new Error("Could not find root element to mount to");
+}
+
+const root = ReactDOM.createRoot(rootElement);
+root.render(
+  <React.StrictMode>
+    <I18nProvider>
+      <EmbedPlayer />
+    </I18nProvider>
+  </React.StrictMode>
+);
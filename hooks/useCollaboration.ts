@@ -0,0 +1,182 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  CollabDoc,
+  CollabOp,
+  CollabState,
+  applyRemote,
+  compareStamps,
+  createDoc,
+  localChange,
+  materialize,
+  snapshotOps,
+} from '../utils/collabDoc';
+
+export type CollabStatus = 'off' | 'connecting' | 'live' | 'error';
+
+export interface CollabPresence {
+  name: string;
+  color: string;
+  // Graph coordinates, so peers see it over the same spot whatever their zoom
+  cursor: { x: number; y: number } | null;
+  nodeIds: string[];
+  zoneId: string | null;
+}
+
+export interface CollabPeer extends CollabPresence {
+  client: string;
+}
+
+export interface Collaboration {
+  status: CollabStatus;
+  peers: CollabPeer[];
+  name: string;
+  color: string;
+  setName: (name: string) => void;
+  updatePresence: (presence: Partial<Pick<CollabPresence, 'cursor' | 'nodeIds' | 'zoneId'>>) => void;
+}
+
+interface CollaborationOptions {
+  enabled: boolean;
+  // Backend base URL; live editing needs the shared project library
+  serverUrl: string | null;
+  projectId: string;
+  state: CollabState;
+  // Called with the merged project whenever a peer's edit changes it
+  onRemoteState: (state: CollabState) => void;
+}
+
+const NAME_KEY = 'mijin_collab_name';
+const RECONNECT_DELAY_MS = 3000;
+// Cursor moves are coalesced into one presence message per interval
+const PRESENCE_INTERVAL_MS = 50;
+const PEER_COLORS = ['#ef4444', '#f59e0b', '#10b981', '#0ea5e9', '#8b5cf6', '#ec4899', '#14b8a6', '#f97316'];
+
+const colorFor = (client: string) => {
+  let hash = 0;
+  for (const char of client) hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  return PEER_COLORS[Math.abs(hash) % PEER_COLORS.length];
+};
+
+export const toWebSocketUrl = (serverUrl: string, projectId: string) =>
+  `${serverUrl.trim().replace(/\/+$/, '').replace(/^http/, 'ws')}/collab/${encodeURIComponent(projectId)}`;
+
+export function useCollaboration({ enabled, serverUrl, projectId, state, onRemoteState }: CollaborationOptions): Collaboration {
+  const client = useMemo(() => crypto.randomUUID(), []);
+  const color = useMemo(() => colorFor(client), [client]);
+  const [name, setNameState] = useState(() => localStorage.getItem(NAME_KEY) || `Guest ${client.slice(0, 4)}`);
+  const [status, setStatus] = useState<CollabStatus>('off');
+  const [peers, setPeers] = useState<CollabPeer[]>([]);
+
+  const socketRef = useRef<WebSocket | null>(null);
+  const docRef = useRef<CollabDoc | null>(null);
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const onRemoteStateRef = useRef(onRemoteState);
+  onRemoteStateRef.current = onRemoteState;
+  const presenceRef = useRef<CollabPresence>({ name, color, cursor: null, nodeIds: [], zoneId: null });
+  const presenceTimerRef = useRef<number | null>(null);
+
+  const send = (message: object) => {
+    const socket = socketRef.current;
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  };
+
+  useEffect(() => {
+    if (!enabled || !serverUrl) {
+      setStatus('off');
+      setPeers([]);
+      return;
+    }
+    let closed = false;
+    let retryTimer: number | undefined;
+    // Kept across reconnects within this session so offline edits are not lost
+    docRef.current = null;
+
+    const connect = () => {
+      setStatus('connecting');
+      const socket = new WebSocket(toWebSocketUrl(serverUrl, projectId));
+      socketRef.current = socket;
+
+      socket.onopen = () => {
+        const seed = docRef.current ?? createDoc(client, stateRef.current);
+        socket.send(JSON.stringify({ type: 'join', client, seed: snapshotOps(seed), presence: presenceRef.current }));
+      };
+
+      socket.onmessage = (event) => {
+        const message = JSON.parse(event.data);
+        if (message.type === 'snapshot') {
+          const ops = message.ops as CollabOp[];
+          const doc = docRef.current;
+          if (doc) {
+            // Rejoining: record offline edits, take what changed meanwhile, then push ours
+            localChange(doc, stateRef.current);
+            applyRemote(doc, ops);
+            const server = new Map(ops.map((op) => [op.key, op.stamp]));
+            const newer = snapshotOps(doc).filter((op) => !server.has(op.key) || compareStamps(op.stamp, server.get(op.key)!) > 0);
+            if (newer.length) send({ type: 'ops', ops: newer });
+          } else {
+            // Joining: the room's document wins over the copy we opened
+            const fresh: CollabDoc = { client, clock: 0, registers: new Map() };
+            applyRemote(fresh, ops);
+            docRef.current = fresh;
+          }
+          onRemoteStateRef.current(materialize(docRef.current!));
+          setPeers(message.peers);
+          setStatus('live');
+        } else if (message.type === 'ops' && docRef.current) {
+          if (applyRemote(docRef.current, message.ops)) onRemoteStateRef.current(materialize(docRef.current));
+        } else if (message.type === 'presence') {
+          const peer: CollabPeer = { ...message.presence, client: message.client };
+          setPeers((prev) => [...prev.filter((p) => p.client !== peer.client), peer]);
+        } else if (message.type === 'leave') {
+          setPeers((prev) => prev.filter((p) => p.client !== message.client));
+        }
+      };
+
+      socket.onclose = () => {
+        socketRef.current = null;
+        if (closed) return;
+        setStatus('error');
+        setPeers([]);
+        retryTimer = window.setTimeout(connect, RECONNECT_DELAY_MS);
+      };
+    };
+
+    connect();
+    return () => {
+      closed = true;
+      window.clearTimeout(retryTimer);
+      socketRef.current?.close();
+      socketRef.current = null;
+      docRef.current = null;
+    };
+  }, [enabled, serverUrl, projectId, client]);
+
+  // Local edits: diff against the shared document and send what changed
+  useEffect(() => {
+    if (status !== 'live' || !docRef.current) return;
+    const ops = localChange(docRef.current, state);
+    if (ops.length) send({ type: 'ops', ops });
+  }, [state, status]);
+
+  const schedulePresence = (presence: Partial<CollabPresence>) => {
+    presenceRef.current = { ...presenceRef.current, ...presence };
+    if (presenceTimerRef.current !== null) return;
+    presenceTimerRef.current = window.setTimeout(() => {
+      presenceTimerRef.current = null;
+      send({ type: 'presence', presence: presenceRef.current });
+    }, PRESENCE_INTERVAL_MS);
+  };
+
+  const updatePresence = useCallback<Collaboration['updatePresence']>((presence) => schedulePresence(presence), []);
+
+  const setName = useCallback((next: string) => {
+    setNameState(next);
+    localStorage.setItem(NAME_KEY, next);
+    schedulePresence({ name: next });
+  }, []);
+
+  useEffect(() => () => window.clearTimeout(presenceTimerRef.current ?? undefined), []);
+
+  return { status, peers, name, color, setName, updatePresence };
+}
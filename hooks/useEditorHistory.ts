@@ -0,0 +1,106 @@
+import { useCallback, useMemo, useRef, useState } from 'react';
+
+export type HistoryScope = 'graph' | 'theme' | 'script';
+
+export interface HistoryCommand {
+  label: string; // i18n key describing the edit
+  scope: HistoryScope;
+  undo: () => void;
+  redo: () => void;
+}
+
+export interface HistoryEntry extends HistoryCommand {
+  id: number;
+  timestamp: number;
+}
+
+export interface EditorHistory {
+  past: HistoryEntry[];   // Oldest first; the last entry is the most recent edit
+  future: HistoryEntry[]; // Next redo first
+  canUndo: boolean;
+  canRedo: boolean;
+  execute: (command: HistoryCommand) => void;
+  undo: () => void;
+  redo: () => void;
+  // Undo or redo until `entryId` is the latest applied entry; null rewinds everything
+  travelTo: (entryId: number | null) => void;
+  clear: () => void;
+}
+
+const HISTORY_LIMIT = 100;
+
+export function useEditorHistory(): EditorHistory {
+  // Stacks live in refs so commands run exactly once per action; the version
+  // counter only exists to re-render consumers.
+  const pastRef = useRef<HistoryEntry[]>([]);
+  const futureRef = useRef<HistoryEntry[]>([]);
+  const nextIdRef = useRef(1);
+  const [version, setVersion] = useState(0);
+
+  const bump = useCallback(() => setVersion((v) => v + 1), []);
+
+  const execute = useCallback(
+    (command: HistoryCommand) => {
+      command.redo();
+      const entry: HistoryEntry = { ...command, id: nextIdRef.current++, timestamp: Date.now() };
+      pastRef.current = [...pastRef.current, entry].slice(-HISTORY_LIMIT);
+      futureRef.current = [];
+      bump();
+    },
+    [bump],
+  );
+
+  const undo = useCallback(() => {
+    const entry = pastRef.current[pastRef.current.length - 1];
+    if (!entry) return;
+    entry.undo();
+    pastRef.current = pastRef.current.slice(0, -1);
+    futureRef.current = [entry, ...futureRef.current];
+    bump();
+  }, [bump]);
+
+  const redo = useCallback(() => {
+    const entry = futureRef.current[0];
+    if (!entry) return;
+    entry.redo();
+    futureRef.current = futureRef.current.slice(1);
+    pastRef.current = [...pastRef.current, entry];
+    bump();
+  }, [bump]);
+
+  const travelTo = useCallback(
+    (entryId: number | null) => {
+      if (entryId === null) {
+        while (pastRef.current.length > 0) undo();
+        return;
+      }
+      if (pastRef.current.some((entry) => entry.id === entryId)) {
+        while (pastRef.current[pastRef.current.length - 1]?.id !== entryId) undo();
+      } else if (futureRef.current.some((entry) => entry.id === entryId)) {
+        while (pastRef.current[pastRef.current.length - 1]?.id !== entryId) redo();
+      }
+    },
+    [redo, undo],
+  );
+
+  const clear = useCallback(() => {
+    pastRef.current = [];
+    futureRef.current = [];
+    bump();
+  }, [bump]);
+
+  return useMemo(
+    () => ({
+      past: pastRef.current,
+      future: futureRef.current,
+      canUndo: pastRef.current.length > 0,
+      canRedo: futureRef.current.length > 0,
+      execute,
+      undo,
+      redo,
+      travelTo,
+      clear,
+    }),
+    [version, execute, undo, redo, travelTo, clear],
+  );
+}
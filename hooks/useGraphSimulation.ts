@@ -10,8 +10,17 @@ import {
   EnvironmentZone,
   EnvironmentLabel,
 } from '../types';
-import { updateStyles } from '../utils/graphStyling';
-import { AnimationContext, runAnimationSequence, runSingleAnimationStep } from '../utils/graphAnimations';
+import { getLinkLabel, updateStyles } from '../utils/graphStyling';
+import { getLinkId } from '../utils/linkGeometry';
+import {
+  AnimationContext,
+  AnimationPlayback,
+  PlaybackState,
+  runAnimationSequence,
+  runSingleAnimationStep,
+} from '../utils/graphAnimations';
+import { AnimationExportFormat, ExportProgressCallback, exportAnimation as exportAnimationFrames } from '../utils/animationExport';
+import { ImageExportFrame, ImageExportOptions, exportImage as exportImageFile } from '../utils/imageExport';
 
 function sanitizeNodesForCallback(nodes: GraphNode[]): GraphNode[] {
   return nodes.map((node) => {
@@ -29,6 +38,29 @@ function sanitizeNodesForCallback(nodes: GraphNode[]): GraphNode[] {
   });
 }
 
+// Transform that centres the nodes in a width x height view, never zooming in past maxScale
+function fitNodes(nodes: GraphNode[], width: number, height: number, maxScale: number): d3.ZoomTransform | null {
+  let minX = Infinity;
+  let maxX = -Infinity;
+  let minY = Infinity;
+  let maxY = -Infinity;
+  nodes.forEach((node) => {
+    if (node.x === undefined || node.y === undefined) return;
+    minX = Math.min(minX, node.x - 50);
+    maxX = Math.max(maxX, node.x + 50);
+    minY = Math.min(minY, node.y - 50);
+    maxY = Math.max(maxY, node.y + 50);
+  });
+  if (minX === Infinity || width <= 0 || height <= 0) return null;
+  const fitWidth = Math.max(maxX - minX, 100);
+  const fitHeight = Math.max(maxY - minY, 100);
+  const scale = Math.min(width / fitWidth, height / fitHeight, maxScale);
+  return d3.zoomIdentity
+    .translate(width / 2, height / 2)
+    .scale(scale)
+    .translate(-(minX + maxX) / 2, -(minY + maxY) / 2);
+}
+
 interface Dimensions {
   width: number;
   height: number;
@@ -43,6 +75,8 @@ export interface UseGraphSimulationArgs {
   data: GraphData;
   theme: ThemeConfig;
   readonly: boolean;
+  // Full-size and animated like the editor, but nothing can be selected or moved
+  presenting: boolean;
   isLinkMode: boolean;
   isDirectorMode: boolean;
   directorPicking: 'source' | 'target' | null;
@@ -52,6 +86,8 @@ export interface UseGraphSimulationArgs {
   setMousePos: (pos: MousePosition | null) => void;
   selectedNodeId: string | null;
   setSelectedNodeId: (id: string | null) => void;
+  selectedNodeIds: string[];
+  setSelectedNodeIds: (ids: string[]) => void;
   selectedLinkId: string | null;
   setSelectedLinkId: (id: string | null) => void;
   selectedZoneId: string | null;
@@ -81,6 +117,24 @@ export interface UseGraphSimulationResult {
   dimensions: Dimensions;
   runAnimation: (sequence: EventSequence, onSimulationEnd?: (nodes: GraphNode[], links: GraphLink[]) => void) => void;
   runSingleStep: (step: SimulationAction) => void;
+  exportAnimation: (
+    sequence: EventSequence,
+    format: AnimationExportFormat,
+    title: string,
+    onProgress?: ExportProgressCallback,
+  ) => Promise<Blob | null>;
+  exportImage: (frame: ImageExportFrame, options: ImageExportOptions, title: string) => Promise<Blob | null>;
+  subscribe: (listener: () => void) => () => void;
+  playback: PlaybackControls;
+}
+
+export interface PlaybackControls {
+  play: () => void;
+  pause: () => void;
+  seek: (time: number) => void;
+  setSpeed: (speed: number) => void;
+  getState: () => PlaybackState | null;
+  chooseBranch: (branchId: string, outcome: string) => void;
   subscribe: (listener: () => void) => () => void;
 }
 
@@ -89,6 +143,7 @@ export function useGraphSimulation(args: UseGraphSimulationArgs): UseGraphSimula
     data,
     theme,
     readonly,
+    presenting,
     isLinkMode,
     isDirectorMode,
     directorPicking,
@@ -98,6 +153,8 @@ export function useGraphSimulation(args: UseGraphSimulationArgs): UseGraphSimula
     setMousePos,
     selectedNodeId,
     setSelectedNodeId,
+    selectedNodeIds,
+    setSelectedNodeIds,
     selectedLinkId,
     setSelectedLinkId,
     selectedZoneId,
@@ -115,6 +172,8 @@ export function useGraphSimulation(args: UseGraphSimulationArgs): UseGraphSimula
     zones,
     labels,
   } = args;
+  // Thumbnails (readonly) and presentations both ignore editing gestures
+  const isLocked = readonly || presenting;
 
   const svgRef = useRef<SVGSVGElement>(null);
   const wrapperRef = useRef<HTMLDivElement>(null);
@@ -122,10 +181,14 @@ export function useGraphSimulation(args: UseGraphSimulationArgs): UseGraphSimula
   const linkSelectionRef = useRef<d3.Selection<any, GraphLink, any, any> | null>(null);
   const simulationRef = useRef<d3.Simulation<GraphNode, GraphLink> | null>(null);
   const lastTransformRef = useRef<d3.ZoomTransform>(d3.zoomIdentity);
+  const hasFittedRef = useRef(false);
   const subscribersRef = useRef(new Set<() => void>());
+  const playbackRef = useRef<AnimationPlayback | null>(null);
+  const playbackSubscribersRef = useRef(new Set<() => void>());
 
   const nodesRef = useRef<GraphNode[]>([]);
   const linksRef = useRef<GraphLink[]>([]);
+  const zonesRef = useRef<EnvironmentZone[]>([]);
 
   const [dimensions, setDimensions] = useState<Dimensions>({ width: 0, height: 0 });
 
@@ -146,6 +209,16 @@ export function useGraphSimulation(args: UseGraphSimulationArgs): UseGraphSimula
     };
   }, []);
 
+  const notifyPlaybackSubscribers = useCallback(() => {
+    playbackSubscribersRef.current.forEach((callback) => {
+      try {
+        callback();
+      } catch (error) {
+        console.error('Playback subscriber error', error);
+      }
+    });
+  }, []);
+
   const emitNodePositions = useCallback(() => {
     if (!onNodeDragEnd) return;
     const cloned = sanitizeNodesForCallback(nodesRef.current);
@@ -156,9 +229,10 @@ export function useGraphSimulation(args: UseGraphSimulationArgs): UseGraphSimula
     updateStyles({
       linkSelection: linkSelectionRef.current,
       nodeSelection: nodeSelectionRef.current,
+      zones: zonesRef.current,
       nodeContext: {
         linkingSourceId,
-        selectedNodeId,
+        selectedNodeIds,
         theme,
         readonly,
         isConfirmingDelete,
@@ -172,11 +246,11 @@ export function useGraphSimulation(args: UseGraphSimulationArgs): UseGraphSimula
         isDirectorMode,
       },
       readonly,
-      selectedNodeId,
+      selectedNodeIds,
       isConfirmingDelete,
       isDirectorMode,
     });
-  }, [linkingSourceId, selectedNodeId, theme, readonly, isConfirmingDelete, directorPicking, isDirectorMode, selectedLinkId]);
+  }, [linkingSourceId, selectedNodeIds, theme, readonly, isConfirmingDelete, directorPicking, isDirectorMode, selectedLinkId]);
 
   useEffect(() => {
     if (!wrapperRef.current) return;
@@ -208,10 +282,10 @@ export function useGraphSimulation(args: UseGraphSimulationArgs): UseGraphSimula
       .attr('fill', 'transparent')
       .attr('class', 'canvas-bg')
       .on('click', (event) => {
-        if (readonly) return;
+        if (isLocked) return;
         setBgContextMenu(null);
         if ((event.target as Element).classList.contains('canvas-bg')) {
-          if (directorPicking) return;
+          if (directorPicking || event.shiftKey) return;
           setSelectedNodeId(null);
           setSelectedLinkId(null);
           setSelectedZoneId(null);
@@ -221,9 +295,15 @@ export function useGraphSimulation(args: UseGraphSimulationArgs): UseGraphSimula
           setIsConfirmingDelete(false);
         }
       })
+      .on('mousedown', (event: MouseEvent) => {
+        if (isLocked || !event.shiftKey || event.button !== 0) return;
+        if (directorPicking || isLinkMode || linkingSourceId) return;
+        event.preventDefault();
+        startMarquee(event);
+      })
       .on('contextmenu', (event) => {
         event.preventDefault();
-        if (readonly || directorPicking || isLinkMode) return;
+        if (isLocked || directorPicking || isLinkMode) return;
         const [mouseX, mouseY] = d3.pointer(event, wrapperRef.current);
         const transform = lastTransformRef.current;
         const [worldX, worldY] = transform.invert([mouseX, mouseY]);
@@ -272,6 +352,8 @@ export function useGraphSimulation(args: UseGraphSimulationArgs): UseGraphSimula
     const zoom = d3
       .zoom<SVGSVGElement, unknown>()
       .scaleExtent([0.1, 4])
+      // Shift-drag is reserved for marquee selection
+      .filter((event) => (!event.ctrlKey || event.type === 'wheel') && !event.button && !(event.shiftKey && event.type === 'mousedown'))
       .on('zoom', (event) => {
         svg.select('.zoom-layer').attr('transform', event.transform.toString());
         lastTransformRef.current = event.transform;
@@ -287,6 +369,57 @@ export function useGraphSimulation(args: UseGraphSimulationArgs): UseGraphSimula
       zoomLayer.attr('transform', lastTransformRef.current.toString());
     }
 
+    const marquee = svg
+      .selectAll('.marquee-rect')
+      .data([1])
+      .join('rect')
+      .attr('class', 'marquee-rect')
+      .attr('fill', isDirectorMode ? 'rgba(168, 85, 247, 0.08)' : 'rgba(99, 102, 241, 0.08)')
+      .attr('stroke', isDirectorMode ? '#a855f7' : '#6366f1')
+      .attr('stroke-width', 1)
+      .attr('stroke-dasharray', '4,3')
+      .style('pointer-events', 'none')
+      .style('display', 'none');
+
+    // Marquee works in screen space and is converted to world space on release;
+    // nodes inside the box are added to the current selection.
+    const startMarquee = (event: MouseEvent) => {
+      const [startX, startY] = d3.pointer(event, svgRef.current);
+      const win = d3.select(window);
+      const boxFrom = (moveEvent: MouseEvent) => {
+        const [x, y] = d3.pointer(moveEvent, svgRef.current);
+        return { x: Math.min(startX, x), y: Math.min(startY, y), width: Math.abs(x - startX), height: Math.abs(y - startY) };
+      };
+
+      marquee.attr('x', startX).attr('y', startY).attr('width', 0).attr('height', 0).style('display', null);
+
+      win
+        .on('mousemove.marquee', (moveEvent: MouseEvent) => {
+          const box = boxFrom(moveEvent);
+          marquee.attr('x', box.x).attr('y', box.y).attr('width', box.width).attr('height', box.height);
+        })
+        .on('mouseup.marquee', (upEvent: MouseEvent) => {
+          win.on('mousemove.marquee', null).on('mouseup.marquee', null);
+          marquee.style('display', 'none');
+          const box = boxFrom(upEvent);
+          if (box.width < 3 && box.height < 3) return;
+
+          const transform = lastTransformRef.current;
+          const [minX, minY] = transform.invert([box.x, box.y]);
+          const [maxX, maxY] = transform.invert([box.x + box.width, box.y + box.height]);
+          const hits = nodesRef.current
+            .filter((node) => (node.x ?? NaN) >= minX && (node.x ?? NaN) <= maxX && (node.y ?? NaN) >= minY && (node.y ?? NaN) <= maxY)
+            .map((node) => node.id);
+
+          setSelectedNodeIds(Array.from(new Set([...selectedNodeIds, ...hits])));
+          setSelectedLinkId(null);
+          setSelectedZoneId(null);
+          setSelectedLabelId(null);
+          setIsConfirmingDelete(false);
+        });
+    };
+
+    zonesRef.current = zones;
     const zonesLayer = zoomLayer.selectAll('.zones-layer').data([1]).join('g').attr('class', 'zones-layer');
     const linksLayer = zoomLayer.selectAll('.links-layer').data([1]).join('g').attr('class', 'links-layer');
     const nodesLayer = zoomLayer.selectAll('.nodes-layer').data([1]).join('g').attr('class', 'nodes-layer');
@@ -307,14 +440,6 @@ export function useGraphSimulation(args: UseGraphSimulationArgs): UseGraphSimula
         node.fx = node.x;
         node.fy = node.y;
         nodesLayer.select(`#node-group-${id}`).attr('transform', `translate(${node.x},${node.y})`);
-        linksLayer
-          .selectAll('.link-group')
-          .filter((d: any) => d.source.id === id || d.target.id === id)
-          .selectAll('line')
-          .attr('x1', (d: any) => d.source.x)
-          .attr('y1', (d: any) => d.source.y)
-          .attr('x2', (d: any) => d.target.x)
-          .attr('y2', (d: any) => d.target.y);
       });
 
       attachedIds.labels.forEach((id) => {
@@ -352,7 +477,7 @@ export function useGraphSimulation(args: UseGraphSimulationArgs): UseGraphSimula
       .attr('class', 'zone-group')
       .attr('transform', (d) => `translate(${d.x},${d.y})`)
       .on('click', (event, d) => {
-        if (readonly) return;
+        if (isLocked) return;
         event.stopPropagation();
         if (selectedZoneId !== d.id) {
           setSelectedZoneId(d.id);
@@ -476,7 +601,7 @@ export function useGraphSimulation(args: UseGraphSimulationArgs): UseGraphSimula
         .attr('stroke-linecap', 'round')
         .attr('pointer-events', 'none');
 
-      if (!readonly && !zoneData.isLocked) {
+      if (!isLocked && !zoneData.isLocked) {
         resizeHandle.call(
           d3
             .drag<SVGRectElement, EnvironmentZone>()
@@ -497,6 +622,7 @@ export function useGraphSimulation(args: UseGraphSimulationArgs): UseGraphSimula
                 .select('.resize-indicator')
                 .attr('d', `M${newW - 4} ${newH - 12} L${newW - 12} ${newH - 4} M${newW - 4} ${newH - 8} L${newW - 8} ${newH - 4}`);
               parent.select('.lock-btn').attr('transform', `translate(${newW - lockIconSize - 10}, ${lockY})`);
+              refreshStyles();
               notifySubscribers();
             })
             .on('end', (_, d) => {
@@ -507,7 +633,7 @@ export function useGraphSimulation(args: UseGraphSimulationArgs): UseGraphSimula
       }
     });
 
-    if (!readonly) {
+    if (!isLocked) {
       zoneGroups.call(
         d3
           .drag<SVGGElement, EnvironmentZone>()
@@ -533,6 +659,7 @@ export function useGraphSimulation(args: UseGraphSimulationArgs): UseGraphSimula
             d3.select(this).attr('transform', `translate(${d.x},${d.y})`);
             if (d.isLocked && d.attachedElementIds) {
               recursiveMove(d.attachedElementIds, dx, dy, new Set([d.id]));
+              refreshStyles();
             }
             notifySubscribers();
           })
@@ -563,7 +690,7 @@ export function useGraphSimulation(args: UseGraphSimulationArgs): UseGraphSimula
       .attr('class', 'label-group')
       .attr('transform', (d) => `translate(${d.x},${d.y})`)
       .on('click', (event, d) => {
-        if (readonly) return;
+        if (isLocked) return;
         event.stopPropagation();
         if (selectedLabelId !== d.id) {
           setSelectedLabelId(d.id);
@@ -603,7 +730,7 @@ export function useGraphSimulation(args: UseGraphSimulationArgs): UseGraphSimula
         .style('user-select', 'none');
     });
 
-    if (!readonly) {
+    if (!isLocked) {
       labelGroups.call(
         d3
           .drag<SVGGElement, EnvironmentLabel>()
@@ -688,34 +815,41 @@ export function useGraphSimulation(args: UseGraphSimulationArgs): UseGraphSimula
 
     const linkGroup = linksLayer
       .selectAll('g.link-group')
-      .data(links, (d: any) => {
-        const s = (d.source as any).id || d.source;
-        const t = (d.target as any).id || d.target;
-        return `${s}-${t}`;
-      })
+      .data(links, (d: any) => getLinkId(d))
       .join('g')
       .attr('class', 'link-group')
-      .attr('id', (d: any) => {
-        const s = (d.source as any).id || d.source;
-        const t = (d.target as any).id || d.target;
-        return `link-group-${s}-${t}`;
-      })
-      .style('cursor', readonly ? 'default' : 'pointer')
+      .attr('id', (d: any) => `link-group-${getLinkId(d)}`)
+      .style('cursor', isLocked ? 'default' : 'pointer')
       .on('click', (event, d) => {
-        if (readonly || directorPicking) return;
+        if (isLocked || directorPicking) return;
         event.stopPropagation();
-        const sId = (d.source as any).id || d.source;
-        const tId = (d.target as any).id || d.target;
-        setSelectedLinkId(`${sId}-${tId}`);
+        setSelectedLinkId(getLinkId(d));
         setSelectedNodeId(null);
         setSelectedZoneId(null);
         setSelectedLabelId(null);
         setIsConfirmingDelete(false);
       });
 
-    linkGroup.selectAll('.link-hitbox').data((d) => [d]).join('line').attr('class', 'link-hitbox').attr('stroke', 'transparent').attr('stroke-width', 20);
-    linkGroup.selectAll('.link-outline').data((d) => [d]).join('line').attr('class', 'link-outline').attr('stroke-linecap', 'round');
-    linkGroup.selectAll('.link-core').data((d) => [d]).join('line').attr('class', 'link-core');
+    linkGroup.selectAll('.link-hitbox').data((d) => [d]).join('path').attr('class', 'link-hitbox').attr('fill', 'none').attr('stroke', 'transparent').attr('stroke-width', 20);
+    linkGroup.selectAll('.link-outline').data((d) => [d]).join('path').attr('class', 'link-outline').attr('fill', 'none').attr('stroke-linecap', 'round');
+    linkGroup.selectAll('.link-core').data((d) => [d]).join('path').attr('class', 'link-core').attr('fill', 'none');
+    linkGroup.selectAll('.link-arrow-start').data((d) => [d]).join('path').attr('class', 'link-arrow link-arrow-start');
+    linkGroup.selectAll('.link-arrow-end').data((d) => [d]).join('path').attr('class', 'link-arrow link-arrow-end');
+    // Thumbnails are too small to read edge labels
+    linkGroup
+      .selectAll('.link-label')
+      .data((d) => (readonly || !getLinkLabel(d) ? [] : [d]))
+      .join('text')
+      .attr('class', 'link-label')
+      .attr('text-anchor', 'middle')
+      .attr('dy', -6)
+      .attr('font-size', '11px')
+      .attr('font-weight', '600')
+      .attr('stroke-width', 4)
+      .attr('stroke-linejoin', 'round')
+      .attr('paint-order', 'stroke')
+      .style('pointer-events', 'none')
+      .text((d) => getLinkLabel(d)!);
     linkSelectionRef.current = linkGroup;
 
     const nodeGroup = nodesLayer
@@ -723,9 +857,9 @@ export function useGraphSimulation(args: UseGraphSimulationArgs): UseGraphSimula
       .data(nodes, (d: GraphNode) => d.id)
       .join('g')
       .attr('class', 'node-group')
-      .style('cursor', readonly ? 'default' : isLinkMode || linkingSourceId || directorPicking ? 'crosshair' : 'pointer')
+      .style('cursor', isLocked ? 'default' : isLinkMode || linkingSourceId || directorPicking ? 'crosshair' : 'pointer')
       .on('click', (event, d) => {
-        if (readonly) return;
+        if (isLocked) return;
         event.stopPropagation();
         if (directorPicking) {
           onDirectorPick?.(d.id);
@@ -737,11 +871,18 @@ export function useGraphSimulation(args: UseGraphSimulationArgs): UseGraphSimula
           if (!linkingSourceId) {
             setLinkingSourceId(d.id);
           } else {
-            if (linkingSourceId !== d.id) {
-              onLinkAdd?.(linkingSourceId, d.id);
-            }
+            // Picking the source again makes a self-loop
+            onLinkAdd?.(linkingSourceId, d.id);
             setLinkingSourceId(null);
           }
+        } else if (event.shiftKey) {
+          setSelectedNodeIds(
+            selectedNodeIds.includes(d.id) ? selectedNodeIds.filter((id) => id !== d.id) : [...selectedNodeIds, d.id],
+          );
+          setSelectedLinkId(null);
+          setSelectedZoneId(null);
+          setSelectedLabelId(null);
+          setIsConfirmingDelete(false);
         } else {
           if (selectedNodeId !== d.id) {
             setSelectedNodeId(d.id);
@@ -753,26 +894,40 @@ export function useGraphSimulation(args: UseGraphSimulationArgs): UseGraphSimula
         }
       });
 
-    if (!readonly && !isLinkMode && !linkingSourceId && !directorPicking) {
+    if (!isLocked && !isLinkMode && !linkingSourceId && !directorPicking) {
+      // Other selected nodes that follow the dragged one
+      let dragFollowers: GraphNode[] = [];
+
       nodeGroup.call(
         d3
           .drag<SVGGElement, GraphNode>()
           .on('start', (event) => {
             if (!event.active) simulation.alphaTarget(0.3).restart();
-            setSelectedNodeId(event.subject.id);
-            setSelectedLinkId(null);
-            setSelectedZoneId(null);
-            setSelectedLabelId(null);
+            const inSelection = selectedNodeIds.length > 1 && selectedNodeIds.includes(event.subject.id);
+            // Shift-press leaves the selection to the click handler so it can toggle
+            if (!inSelection && !event.sourceEvent?.shiftKey) {
+              setSelectedNodeId(event.subject.id);
+              setSelectedLinkId(null);
+              setSelectedZoneId(null);
+              setSelectedLabelId(null);
+            }
             nodesRef.current.forEach((n) => {
               n.fx = n.x;
               n.fy = n.y;
             });
             event.subject.fx = event.subject.x;
             event.subject.fy = event.subject.y;
+            dragFollowers = inSelection
+              ? nodesRef.current.filter((n) => n.id !== event.subject.id && selectedNodeIds.includes(n.id))
+              : [];
           })
           .on('drag', (event) => {
             event.subject.fx = event.x;
             event.subject.fy = event.y;
+            dragFollowers.forEach((n) => {
+              n.fx = (n.fx ?? n.x ?? 0) + event.dx;
+              n.fy = (n.fy ?? n.y ?? 0) + event.dy;
+            });
           })
           .on('end', (event) => {
             if (!event.active) simulation.alphaTarget(0);
@@ -784,7 +939,11 @@ export function useGraphSimulation(args: UseGraphSimulationArgs): UseGraphSimula
     }
 
     nodeGroup.attr('id', (d) => `node-group-${d.id}`);
-    nodeGroup.selectAll('.node-circle').data((d) => [d]).join('circle').attr('class', 'node-circle').attr('id', (d: any) => `node-${d.id}`);
+    // The body holds everything that scales with the node, so animations pulse it as a whole
+    const nodeBody = nodeGroup.selectAll('g.node-body').data((d) => [d]).join('g').attr('class', 'node-body').attr('id', (d: any) => `node-${d.id}`);
+    nodeBody.selectAll('.node-shape').data((d) => [d]).join('path').attr('class', 'node-shape');
+    nodeBody.selectAll('.node-image').data((d) => [d]).join('image').attr('class', 'node-image').attr('preserveAspectRatio', 'xMidYMid meet').style('pointer-events', 'none');
+    nodeBody.selectAll('.node-icon').data((d) => [d]).join('g').attr('class', 'node-icon').style('pointer-events', 'none');
 
     const nodeLabels = nodeGroup
       .selectAll('text.node-text-label')
@@ -835,14 +994,8 @@ export function useGraphSimulation(args: UseGraphSimulationArgs): UseGraphSimula
 
     nodeSelectionRef.current = nodeGroup;
 
+    // Links are laid out by refreshStyles, which also knows the node radii
     const ticked = () => {
-      linkGroup
-        .selectAll('line')
-        .attr('x1', (d: any) => d.source?.x || 0)
-        .attr('y1', (d: any) => d.source?.y || 0)
-        .attr('x2', (d: any) => d.target?.x || 0)
-        .attr('y2', (d: any) => d.target?.y || 0);
-
       nodeGroup.attr('transform', (d: any) => `translate(${d.x || 0},${d.y || 0})`);
 
       if ((linkingSourceId || directorPicking === 'target') && mousePos) {
@@ -871,28 +1024,19 @@ export function useGraphSimulation(args: UseGraphSimulationArgs): UseGraphSimula
       simulation.tick(200);
       ticked();
       simulation.stop();
-      let minX = Infinity;
-      let maxX = -Infinity;
-      let minY = Infinity;
-      let maxY = -Infinity;
-      nodes.forEach((node) => {
-        if (node.x === undefined || node.y === undefined) return;
-        minX = Math.min(minX, node.x - 50);
-        maxX = Math.max(maxX, node.x + 50);
-        minY = Math.min(minY, node.y - 50);
-        maxY = Math.max(maxY, node.y + 50);
-      });
-      if (nodes.length > 0) {
-        const fitWidth = Math.max(maxX - minX, 100);
-        const fitHeight = Math.max(maxY - minY, 100);
-        const scale = Math.min(width / fitWidth, height / fitHeight, 1.0);
-        const centerX = (minX + maxX) / 2;
-        const centerY = (minY + maxY) / 2;
-        zoomLayer.attr('transform', `translate(${width / 2}, ${height / 2}) scale(${scale}) translate(${-centerX}, ${-centerY})`);
-      }
+      const fitted = fitNodes(nodes, width, height, 1.0);
+      if (fitted) zoomLayer.attr('transform', fitted.toString());
       notifySubscribers();
     } else {
       ticked();
+      // A presentation opens fitted to its content; later renders keep the viewer's zoom
+      if (presenting && !hasFittedRef.current) {
+        const fitted = fitNodes(nodes, width, height, 1.5);
+        if (fitted) {
+          hasFittedRef.current = true;
+          svg.call(zoom.transform, fitted);
+        }
+      }
     }
 
     return () => {
@@ -912,9 +1056,11 @@ export function useGraphSimulation(args: UseGraphSimulationArgs): UseGraphSimula
     onLinkAdd,
     onZoneUpdate,
     readonly,
+    presenting,
     selectedLabelId,
     selectedLinkId,
     selectedNodeId,
+    selectedNodeIds,
     selectedZoneId,
     setBgContextMenu,
     setIsConfirmingDelete,
@@ -923,6 +1069,7 @@ export function useGraphSimulation(args: UseGraphSimulationArgs): UseGraphSimula
     setSelectedLabelId,
     setSelectedLinkId,
     setSelectedNodeId,
+    setSelectedNodeIds,
     setSelectedZoneId,
     theme,
     zones,
@@ -942,10 +1089,126 @@ export function useGraphSimulation(args: UseGraphSimulationArgs): UseGraphSimula
         isDirectorMode,
         updateStyles: refreshStyles,
         onSimulationEnd,
+        onPlaybackUpdate: notifyPlaybackSubscribers,
+        interactiveBranches: true,
       };
-      runAnimationSequence(sequence, context);
+      playbackRef.current?.kill();
+      playbackRef.current = runAnimationSequence(sequence, context);
+      notifyPlaybackSubscribers();
     },
-    [isDirectorMode, refreshStyles, readonly, theme],
+    [isDirectorMode, notifyPlaybackSubscribers, refreshStyles, readonly, theme],
+  );
+
+  const exportAnimation = useCallback(
+    async (sequence: EventSequence, format: AnimationExportFormat, title: string, onProgress?: ExportProgressCallback) => {
+      const svg = svgRef.current;
+      if (readonly || !svg) return null;
+      const savedNodeStates = nodesRef.current.map((node) => node.activeStates);
+      const savedLinkStates = linksRef.current.map((link) => link.activeStates);
+
+      playbackRef.current?.kill();
+      playbackRef.current = null;
+      const recording = runAnimationSequence(sequence, {
+        svgRef,
+        nodesRef,
+        linksRef,
+        theme,
+        isDirectorMode,
+        updateStyles: refreshStyles,
+      });
+      if (!recording) return null;
+      recording.pause();
+
+      try {
+        return await exportAnimationFrames(
+          {
+            svg,
+            playback: recording,
+            width: dimensions.width,
+            height: dimensions.height,
+            background: isDirectorMode ? '#0f172a' : '#f8fafc',
+            title,
+          },
+          format,
+          onProgress,
+        );
+      } finally {
+        recording.kill();
+        nodesRef.current.forEach((node, i) => {
+          node.activeStates = savedNodeStates[i];
+        });
+        linksRef.current.forEach((link, i) => {
+          link.activeStates = savedLinkStates[i];
+        });
+        refreshStyles();
+        notifyPlaybackSubscribers();
+      }
+    },
+    [dimensions, isDirectorMode, notifyPlaybackSubscribers, readonly, refreshStyles, theme],
+  );
+
+  const exportImage = useCallback(
+    async (frame: ImageExportFrame, options: ImageExportOptions, title: string) => {
+      const svg = svgRef.current;
+      if (!svg) return null;
+
+      // Selection and linking highlights are editor chrome, so the snapshot is taken without them
+      const neutralNodeContext = {
+        linkingSourceId: null,
+        selectedNodeIds: [],
+        theme,
+        readonly,
+        isConfirmingDelete: false,
+        directorPicking: null,
+        isDirectorMode,
+      };
+      updateStyles({
+        linkSelection: linkSelectionRef.current,
+        nodeSelection: nodeSelectionRef.current,
+        zones: zonesRef.current,
+        nodeContext: neutralNodeContext,
+        linkContext: { selectedLinkId: null, theme, readonly, isDirectorMode },
+        readonly,
+        selectedNodeIds: [],
+        isConfirmingDelete: false,
+        isDirectorMode,
+      });
+
+      try {
+        return await exportImageFile(
+          { svg, frame, background: isDirectorMode ? '#0f172a' : '#f8fafc', title },
+          options,
+        );
+      } finally {
+        refreshStyles();
+      }
+    },
+    [isDirectorMode, readonly, refreshStyles, theme],
+  );
+
+  useEffect(() => {
+    return () => {
+      playbackRef.current?.kill();
+      playbackRef.current = null;
+    };
+  }, []);
+
+  const playback = useMemo<PlaybackControls>(
+    () => ({
+      play: () => playbackRef.current?.play(),
+      pause: () => playbackRef.current?.pause(),
+      seek: (time: number) => playbackRef.current?.seek(time),
+      setSpeed: (speed: number) => playbackRef.current?.setSpeed(speed),
+      getState: () => playbackRef.current?.getState() ?? null,
+      chooseBranch: (branchId: string, outcome: string) => playbackRef.current?.chooseBranch(branchId, outcome),
+      subscribe: (listener: () => void) => {
+        playbackSubscribersRef.current.add(listener);
+        return () => {
+          playbackSubscribersRef.current.delete(listener);
+        };
+      },
+    }),
+    [],
   );
 
   const runSingleStep = useCallback(
@@ -976,9 +1239,11 @@ export function useGraphSimulation(args: UseGraphSimulationArgs): UseGraphSimula
       dimensions,
       runAnimation,
       runSingleStep,
-      runSingleStep,
+      exportAnimation,
+      exportImage,
       subscribe,
+      playback,
     }),
-    [dimensions, runAnimation, runSingleStep, subscribe],
+    [dimensions, runAnimation, runSingleStep, exportAnimation, exportImage, subscribe, playback],
   );
 }
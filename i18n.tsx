@@ -16,6 +16,72 @@ const translations = {
     "project.confirm_delete": "Confirm",
     "project.click_to_confirm": "Click again to confirm delete",
     "project.new_name": "New Project",
+    "project.export": "Export project",
+    "project.present": "Present",
+    "presenter.exit": "Back to dashboard",
+    "presenter.embed": "Embed",
+    "presenter.fullscreen": "Full screen (F)",
+    "presenter.previous": "Previous step (←)",
+    "presenter.next": "Next step (→)",
+    "presenter.start_hint": "Press → or Space to start",
+    "presenter.no_steps": "No animation steps",
+    "presenter.step_of": "Step {current} of {total}",
+    "presenter.embed_title": "Embed this presentation",
+    "presenter.embed_step_bundle": "Download the project as a .mijin bundle and host it anywhere the page can fetch it.",
+    "presenter.download_bundle": "Download bundle",
+    "presenter.bundle_url": "Bundle URL",
+    "presenter.embed_code": "Embed code",
+    "presenter.embed_cors_hint": "The bundle's server must allow cross-origin requests. Pages can also post the bundle to the iframe instead of hosting it.",
+    "presenter.copy_code": "Copy code",
+    "presenter.copied": "Copied",
+    "presenter.load_failed": "Could not load the presentation: {error}",
+    "bundle.import": "Import",
+    "bundle.export": "Export",
+    "bundle.import_title": "Import Projects",
+    "bundle.export_title": "Export Projects",
+    "bundle.supported_formats": "Supports: .mijin bundles and exported project JSON",
+    "bundle.select_all": "Select all",
+    "bundle.export_count": "Export {count}",
+    "bundle.projects_in_file": "{count} project(s) in file",
+    "bundle.conflict": "Exists",
+    "bundle.conflict_prompt": "{count} project(s) already exist. On conflict:",
+    "bundle.keep_both": "Keep both (import as copy)",
+    "bundle.replace": "Replace existing",
+    "bundle.copy_suffix": "(imported)",
+    "recovery.title": "Some saved projects could not be loaded",
+    "recovery.kept_aside": "They were left untouched under the storage key \"{key}\". Download a backup to inspect or repair them.",
+    "recovery.not_kept": "They could not be copied aside, so saving is paused until you download a backup and dismiss this message.",
+    "recovery.download": "Download backup",
+    "recovery.dismiss": "Dismiss",
+    "storage.full": "Browser storage is full, so recent changes were not saved. Export or delete projects to free up space, then try again.",
+    "storage.failed": "Changes could not be saved. Check the storage settings or the server connection.",
+    "storage.unavailable": "Projects could not be loaded. Check the storage settings or the server connection.",
+    "storage_settings.title": "Project storage",
+    "storage_settings.local": "This browser",
+    "storage_settings.local_hint": "Projects stay on this device.",
+    "storage_settings.server": "Sync to server",
+    "storage_settings.server_hint": "Share one project library through the backend.",
+    "storage_settings.server_url": "Backend URL",
+    "storage_settings.check": "Test",
+    "storage_settings.unreachable": "Server is not reachable: {error}",
+    "storage_settings.copy_to_server": "Copy the {count} projects from this browser to the server",
+    "storage_settings.copy_to_local": "Copy the {count} server projects into this browser",
+    "storage_settings.apply": "Switch storage",
+    "collab.title": "Live editing",
+    "collab.needs_server": "Switch project storage to a server on the Dashboard to edit this project together with others.",
+    "collab.your_name": "Your name",
+    "collab.status_off": "Not connected",
+    "collab.status_connecting": "Connecting…",
+    "collab.status_live": "Live",
+    "collab.status_error": "Connection lost, retrying…",
+    "collab.alone": "Nobody else is here yet",
+    "captions.title": "Captions during playback",
+    "captions.subtitle": "Subtitles",
+    "captions.link": "At link",
+    "captions.off": "No captions",
+    "captions.step_of": "Step {current} / {total}",
+    "collab.start": "Go live",
+    "collab.stop": "Leave session",
     "editor.back": "Back",
     "editor.project_name_placeholder": "Project Name",
     "editor.node": "Node",
@@ -25,9 +91,72 @@ const translations = {
     "editor.save": "Save",
     "editor.saving": "Saving...",
     "editor.saved": "Saved",
+    "editor.save_failed": "Save failed",
+    "editor.storage_full": "Storage full",
+    "editor.autosave_hint": "Changes are saved automatically",
     "editor.build": "构建",
     "editor.animate": "动画/模拟",
     "editor.dev_mode": "Dev Mode",
+    "history.title": "History",
+    "history.undo": "Undo (Ctrl+Z)",
+    "history.redo": "Redo (Ctrl+Shift+Z)",
+    "history.initial": "Opened project",
+    "history.node_add": "Add node",
+    "history.node_delete": "Delete node",
+    "history.node_edit": "Edit node",
+    "history.node_move": "Move nodes",
+    "history.nodes_delete": "Delete selection",
+    "history.nodes_edit": "Restyle selection",
+    "history.nodes_arrange": "Align selection",
+    "history.paste": "Paste",
+    "history.duplicate": "Duplicate selection",
+    "history.layout_apply": "Auto layout",
+    "layout.title": "Layout",
+    "layout.layered": "Layered (top → bottom)",
+    "layout.layered_horizontal": "Layered (left → right)",
+    "layout.layered_hint": "Hierarchy by link direction, fewer crossings",
+    "layout.grid": "Grid",
+    "layout.grid_hint": "Evenly spaced, linked nodes kept together",
+    "layout.radial": "Radial",
+    "layout.radial_hint": "Rings around the most connected node",
+    "layout.zone_hint": "Nodes attached to a locked zone are arranged inside it.",
+    "history.link_add": "Add link",
+    "history.link_delete": "Delete link",
+    "history.link_edit": "Edit link",
+    "history.zone_add": "Add zone",
+    "history.zone_edit": "Edit zone",
+    "history.zone_delete": "Delete zone",
+    "history.zone_order": "Reorder zone",
+    "history.label_add": "Add label",
+    "history.label_edit": "Edit label",
+    "history.label_delete": "Delete label",
+    "history.ai_import": "AI import",
+    "history.diagram_import": "Diagram import",
+    "revisions.title": "Revisions",
+    "revisions.snapshot": "Snapshot",
+    "revisions.name_placeholder": "Snapshot name (optional)",
+    "revisions.current": "Current (unsaved)",
+    "revisions.kind_auto": "Autosave",
+    "revisions.kind_manual": "Saved",
+    "revisions.kind_restore": "Restored",
+    "revisions.restored_from": "Restored from \"{name}\"",
+    "revisions.restore": "Restore this revision",
+    "revisions.select_compare": "Select to compare",
+    "revisions.compare": "Compare selected",
+    "revisions.compare_title": "Compare revisions",
+    "revisions.empty": "No revisions yet. Saving creates one.",
+    "revisions.section_nodes": "Nodes",
+    "revisions.section_links": "Links",
+    "revisions.section_steps": "Steps",
+    "revisions.changes_only": "Only changes",
+    "revisions.no_changes": "No differences",
+    "revisions.theme_changed": "The theme also differs between these revisions.",
+    "history.revision_restore": "Restore revision",
+    "history.graph_apply": "Apply graph JSON",
+    "history.graph_reset": "Reset graph",
+    "history.theme_apply": "Apply theme",
+    "history.script_apply": "Update script",
+    "history.script_commit": "Commit director script",
     "devtools.title": "Developer Tools",
     "devtools.topology": "Graph Topology",
     "devtools.reset": "Reset",
@@ -39,6 +168,13 @@ const translations = {
     "devtools.update": "Update",
     "devtools.run": "Run",
     "devtools.run_simulation": "Run Simulation",
+    "devtools.export.title": "Export Animation",
+    "devtools.export.webm": "WebM",
+    "devtools.export.gif": "GIF",
+    "devtools.export.svg": "SVG",
+    "devtools.export.html": "HTML",
+    "devtools.export.realtime_hint": "Video is recorded in real time, keep this tab visible.",
+    "devtools.export.failed": "Export failed",
     "director.title": "Director Studio",
     "director.subtitle": "DIRECTOR STUDIO v2.4",
     "director.config_title": "Default Action Config",
@@ -58,21 +194,49 @@ const translations = {
     "director.add_step": "Add Step",
     "director.add_step_continuous": "Add Continuous",
     "director.add_parallel": "Add Parallel",
+    "director.add_branch": "Add Branch",
+    "director.add_repeat": "Add Repeat",
+    "repeat.title": "Repeat",
+    "repeat.count": "Iterations",
+    "repeat.interval": "Interval",
+    "repeat.backoff": "Back-off",
+    "branch.decision": "Decision",
+    "branch.label_placeholder": "e.g. Auth valid?",
+    "branch.outcome": "Outcome",
+    "branch.default": "Default",
+    "branch.ask": "Ask during playback",
+    "branch.add_step": "Add Step to Outcome",
+    "branch.add_outcome": "Add Outcome",
+    "branch.empty_outcome": "No steps on this path",
     "director.full_rehearsal": "Full Rehearsal",
     "director.commit": "Commit Publish",
     "director.production_ready": "PRODUCTION READY",
     "director.draft_unsynced": "Draft Unsynced",
     "director.locked": "Locked",
+    "director.playback.play": "Play",
+    "director.playback.pause": "Pause",
+    "director.playback.step_back": "Previous Step",
+    "director.playback.step_forward": "Next Step",
+    "director.playback.speed": "Playback Speed",
+    "director.playback.idle": "Run a rehearsal to scrub",
     "director.step.atomic": "Atomic Step",
     "director.step.preview": "Preview Step",
     "director.step.from": "FROM",
     "director.step.to": "TO",
     "director.step.label_placeholder": "Action Label (e.g. 'Processing Data')",
+    "director.step.description_placeholder": "Narration shown under the caption (optional)",
     "director.step.default_link": "Default Link",
+    "director.step.any_link": "First matching link",
+    "director.step.add_via": "+ Pass through node…",
     "director.step.impact_none": "Impact: None",
     "director.step.processing_none": "Processing: None",
     "director.step.final_none": "Final: None",
     "director.step.dur": "Dur",
+    "director.step.state_edit_none": "States: Keep",
+    "director.step.state_edit_set": "Replace with",
+    "director.step.state_edit_toggle": "Toggle",
+    "director.step.state_edit_remove": "Remove",
+    "director.step.state_edit_clear": "Clear all",
     "controls.del": "Delete Node/Link",
     "controls.enter": "Confirm Action",
     "controls.esc": "Cancel Selection",
@@ -87,9 +251,40 @@ const translations = {
     "context.delete": "Delete (Del)",
     "context.confirm": "Confirm",
     "context.cancel": "Cancel (Esc)",
+    "context.appearance": "Shape, icon & image",
+    "context.shape": "Shape",
+    "context.shape_circle": "Circle",
+    "context.shape_rect": "Rectangle",
+    "context.shape_rounded": "Rounded rectangle",
+    "context.shape_hexagon": "Hexagon",
+    "context.shape_cylinder": "Cylinder",
+    "context.shape_diamond": "Diamond",
+    "context.icon": "Icon",
+    "context.no_icon": "No icon",
+    "context.image": "Image",
+    "context.upload_image": "Upload",
+    "context.remove_image": "Remove image",
     "context.meta_title": "Meta Data (meta_data)",
+    "link.label_placeholder": "Edge label",
+    "link.direction_forward": "Arrow to target",
+    "link.direction_both": "Arrows both ways",
+    "link.direction_none": "No arrows",
+    "link.routing_straight": "Straight",
+    "link.routing_curved": "Curved",
+    "link.routing_orthogonal": "Orthogonal",
     "context.key": "key",
     "context.value": "value",
+    "context.selected_count": "{count} selected",
+    "context.copy": "Copy (Ctrl+C)",
+    "context.duplicate": "Duplicate (Ctrl+D)",
+    "context.align_left": "Align Left",
+    "context.align_center": "Align Center",
+    "context.align_right": "Align Right",
+    "context.align_top": "Align Top",
+    "context.align_middle": "Align Middle",
+    "context.align_bottom": "Align Bottom",
+    "context.distribute_horizontal": "Distribute Horizontally",
+    "context.distribute_vertical": "Distribute Vertically",
     "import.title": "Import from AI",
     "import.api_key": "Anthropic API Key",
     "import.api_key_placeholder": "sk-ant-...",
@@ -111,7 +306,27 @@ const translations = {
     "import.presets": "Presets",
     "import.format_anthropic": "Using Anthropic Messages API",
     "import.format_openai": "Using OpenAI Chat Completions API",
-    "build.import_ai": "AI Import"
+    "build.import_ai": "AI Import",
+    "build.import_diagram": "Import File",
+    "import_diagram.title": "Import Mermaid / DOT / draw.io",
+    "import_diagram.supported_formats": "Supports: .mmd, .md, .dot, .gv, .drawio, .xml",
+    "import_diagram.paste_prompt": "Or paste diagram source",
+    "import_diagram.format": "Format",
+    "import_diagram.auto_detect": "Auto-detect",
+    "import_diagram.unknown_format": "Could not detect the format; pick one above",
+    "import_diagram.convert": "Convert",
+    "import_diagram.converting": "Converting...",
+    "import_diagram.zones": "zones",
+    "export.title": "Export",
+    "export_diagram.title": "Diagram",
+    "export_diagram.mermaid_hint": "Flowchart for Markdown docs",
+    "export_diagram.dot_hint": "Graphviz; keeps positions for neato -n",
+    "export_diagram.plantuml_hint": "Use-case style diagram",
+    "export_diagram.drawio_hint": "Editable in diagrams.net with positions",
+    "export_image.title": "Image",
+    "export_image.viewport": "Viewport",
+    "export_image.fit": "Fit all",
+    "export_image.include_grid": "Include background grid"
   },
   "zh": {
     "app.title": "GraphFlow",
@@ -126,6 +341,72 @@ const translations = {
     "project.confirm_delete": "确认",
     "project.click_to_confirm": "再次点击以确认删除",
     "project.new_name": "新项目",
+    "project.export": "导出项目",
+    "project.present": "演示",
+    "presenter.exit": "返回仪表盘",
+    "presenter.embed": "嵌入",
+    "presenter.fullscreen": "全屏 (F)",
+    "presenter.previous": "上一步 (←)",
+    "presenter.next": "下一步 (→)",
+    "presenter.start_hint": "按 → 或空格键开始",
+    "presenter.no_steps": "没有动画步骤",
+    "presenter.step_of": "第 {current} / {total} 步",
+    "presenter.embed_title": "嵌入此演示",
+    "presenter.embed_step_bundle": "将项目下载为 .mijin 包，并托管在页面可以访问的位置。",
+    "presenter.download_bundle": "下载项目包",
+    "presenter.bundle_url": "项目包地址",
+    "presenter.embed_code": "嵌入代码",
+    "presenter.embed_cors_hint": "项目包所在服务器需要允许跨域请求。也可以由页面直接把项目包发送给 iframe，无需托管。",
+    "presenter.copy_code": "复制代码",
+    "presenter.copied": "已复制",
+    "presenter.load_failed": "无法加载演示：{error}",
+    "bundle.import": "导入",
+    "bundle.export": "导出",
+    "bundle.import_title": "导入项目",
+    "bundle.export_title": "导出项目",
+    "bundle.supported_formats": "支持: .mijin 项目包和导出的项目 JSON",
+    "bundle.select_all": "全选",
+    "bundle.export_count": "导出 {count} 个",
+    "bundle.projects_in_file": "文件中包含 {count} 个项目",
+    "bundle.conflict": "已存在",
+    "bundle.conflict_prompt": "{count} 个项目已存在，冲突时：",
+    "bundle.keep_both": "保留两者（作为副本导入）",
+    "bundle.replace": "替换现有项目",
+    "bundle.copy_suffix": "(导入)",
+    "recovery.title": "部分已保存的项目无法加载",
+    "recovery.kept_aside": "这些数据已原样保留在存储键 \"{key}\" 下。可下载备份进行检查或修复。",
+    "recovery.not_kept": "这些数据无法另行保存，在您下载备份并关闭此提示前将暂停保存。",
+    "recovery.download": "下载备份",
+    "recovery.dismiss": "关闭",
+    "storage.full": "浏览器存储空间已满，最近的更改未能保存。请导出或删除项目以释放空间后重试。",
+    "storage.failed": "更改未能保存，请检查存储设置或服务器连接。",
+    "storage.unavailable": "无法加载项目，请检查存储设置或服务器连接。",
+    "storage_settings.title": "项目存储",
+    "storage_settings.local": "本浏览器",
+    "storage_settings.local_hint": "项目仅保存在此设备上。",
+    "storage_settings.server": "同步到服务器",
+    "storage_settings.server_hint": "通过后端共享同一个项目库。",
+    "storage_settings.server_url": "后端地址",
+    "storage_settings.check": "测试",
+    "storage_settings.unreachable": "无法连接服务器：{error}",
+    "storage_settings.copy_to_server": "将本浏览器中的 {count} 个项目复制到服务器",
+    "storage_settings.copy_to_local": "将服务器上的 {count} 个项目复制到本浏览器",
+    "storage_settings.apply": "切换存储",
+    "collab.title": "实时协作",
+    "collab.needs_server": "在仪表盘中将项目存储切换到服务器后，即可与他人一起编辑此项目。",
+    "collab.your_name": "你的名字",
+    "collab.status_off": "未连接",
+    "collab.status_connecting": "连接中…",
+    "collab.status_live": "已连接",
+    "collab.status_error": "连接中断，正在重试…",
+    "collab.alone": "暂时没有其他人",
+    "captions.title": "播放时的字幕",
+    "captions.subtitle": "底部字幕",
+    "captions.link": "跟随连线",
+    "captions.off": "关闭字幕",
+    "captions.step_of": "第 {current} / {total} 步",
+    "collab.start": "开始协作",
+    "collab.stop": "退出协作",
     "editor.back": "返回",
     "editor.project_name_placeholder": "项目名称",
     "editor.node": "节点",
@@ -135,9 +416,72 @@ const translations = {
     "editor.save": "保存",
     "editor.saving": "保存中...",
     "editor.saved": "已保存",
+    "editor.save_failed": "保存失败",
+    "editor.storage_full": "存储已满",
+    "editor.autosave_hint": "更改会自动保存",
     "editor.build": "构建",
     "editor.animate": "动画/模拟",
     "editor.dev_mode": "开发者模式",
+    "history.title": "历史记录",
+    "history.undo": "撤销 (Ctrl+Z)",
+    "history.redo": "重做 (Ctrl+Shift+Z)",
+    "history.initial": "打开项目",
+    "history.node_add": "添加节点",
+    "history.node_delete": "删除节点",
+    "history.node_edit": "编辑节点",
+    "history.node_move": "移动节点",
+    "history.nodes_delete": "删除所选",
+    "history.nodes_edit": "修改所选样式",
+    "history.nodes_arrange": "对齐所选",
+    "history.paste": "粘贴",
+    "history.duplicate": "创建副本",
+    "history.layout_apply": "自动布局",
+    "layout.title": "布局",
+    "layout.layered": "分层（自上而下）",
+    "layout.layered_horizontal": "分层（自左向右）",
+    "layout.layered_hint": "按连线方向分层，减少交叉",
+    "layout.grid": "网格",
+    "layout.grid_hint": "等距排列，相连节点靠在一起",
+    "layout.radial": "径向",
+    "layout.radial_hint": "围绕连接最多的节点成环排列",
+    "layout.zone_hint": "附着在锁定区域内的节点会在区域内排布。",
+    "history.link_add": "添加连线",
+    "history.link_delete": "删除连线",
+    "history.link_edit": "编辑连线",
+    "history.zone_add": "添加区域",
+    "history.zone_edit": "编辑区域",
+    "history.zone_delete": "删除区域",
+    "history.zone_order": "调整区域层级",
+    "history.label_add": "添加标签",
+    "history.label_edit": "编辑标签",
+    "history.label_delete": "删除标签",
+    "history.ai_import": "AI 导入",
+    "history.diagram_import": "导入图表文件",
+    "revisions.title": "版本记录",
+    "revisions.snapshot": "快照",
+    "revisions.name_placeholder": "快照名称（可选）",
+    "revisions.current": "当前（未保存）",
+    "revisions.kind_auto": "自动保存",
+    "revisions.kind_manual": "已保存",
+    "revisions.kind_restore": "已恢复",
+    "revisions.restored_from": "从“{name}”恢复",
+    "revisions.restore": "恢复此版本",
+    "revisions.select_compare": "选择以比较",
+    "revisions.compare": "比较所选版本",
+    "revisions.compare_title": "比较版本",
+    "revisions.empty": "暂无版本记录，保存后会自动创建。",
+    "revisions.section_nodes": "节点",
+    "revisions.section_links": "连线",
+    "revisions.section_steps": "步骤",
+    "revisions.changes_only": "仅显示差异",
+    "revisions.no_changes": "没有差异",
+    "revisions.theme_changed": "这两个版本的主题也不同。",
+    "history.revision_restore": "恢复版本",
+    "history.graph_apply": "应用图结构 JSON",
+    "history.graph_reset": "重置图结构",
+    "history.theme_apply": "应用主题",
+    "history.script_apply": "更新脚本",
+    "history.script_commit": "提交导演脚本",
     "devtools.title": "开发者工具",
     "devtools.topology": "图结构 (Topology)",
     "devtools.reset": "重置",
@@ -149,6 +493,13 @@ const translations = {
     "devtools.update": "更新",
     "devtools.run": "运行",
     "devtools.run_simulation": "运行模拟",
+    "devtools.export.title": "导出动画",
+    "devtools.export.webm": "WebM",
+    "devtools.export.gif": "GIF",
+    "devtools.export.svg": "SVG",
+    "devtools.export.html": "HTML",
+    "devtools.export.realtime_hint": "视频按实时录制，请保持此标签页可见。",
+    "devtools.export.failed": "导出失败",
     "director.title": "导演工作台",
     "director.subtitle": "DIRECTOR STUDIO v2.4",
     "director.config_title": "默认动作配置",
@@ -168,21 +519,49 @@ const translations = {
     "director.add_step": "新增单步",
     "director.add_step_continuous": "连续新增",
     "director.add_parallel": "新增并行",
+    "director.add_branch": "新增分支",
+    "director.add_repeat": "新增循环",
+    "repeat.title": "循环",
+    "repeat.count": "次数",
+    "repeat.interval": "间隔",
+    "repeat.backoff": "退避倍数",
+    "branch.decision": "决策",
+    "branch.label_placeholder": "例如：认证通过？",
+    "branch.outcome": "结果",
+    "branch.default": "默认",
+    "branch.ask": "播放时询问",
+    "branch.add_step": "向此结果添加步骤",
+    "branch.add_outcome": "新增结果",
+    "branch.empty_outcome": "此路径暂无步骤",
     "director.full_rehearsal": "全剧试演",
     "director.commit": "提交发布",
     "director.production_ready": "PRODUCTION READY",
     "director.draft_unsynced": "草稿未同步",
     "director.locked": "已锁定",
+    "director.playback.play": "播放",
+    "director.playback.pause": "暂停",
+    "director.playback.step_back": "上一步",
+    "director.playback.step_forward": "下一步",
+    "director.playback.speed": "播放速度",
+    "director.playback.idle": "试演后可拖动时间轴",
     "director.step.atomic": "单步动作",
     "director.step.preview": "预览动作",
     "director.step.from": "起点",
     "director.step.to": "终点",
     "director.step.label_placeholder": "动作标签 (如 '数据处理中')",
+    "director.step.description_placeholder": "显示在字幕下方的旁白（可选）",
     "director.step.default_link": "默认连线",
+    "director.step.any_link": "第一条匹配的连线",
+    "director.step.add_via": "+ 途经节点…",
     "director.step.impact_none": "Impact: 无",
     "director.step.processing_none": "Processing: 无",
     "director.step.final_none": "Final: 无",
     "director.step.dur": "时长",
+    "director.step.state_edit_none": "状态：保留",
+    "director.step.state_edit_set": "替换为",
+    "director.step.state_edit_toggle": "切换",
+    "director.step.state_edit_remove": "移除",
+    "director.step.state_edit_clear": "全部清除",
     "controls.del": "删除 节点/连线",
     "controls.enter": "确认操作",
     "controls.esc": "取消选择",
@@ -197,9 +576,40 @@ const translations = {
     "context.delete": "删除 (Del)",
     "context.confirm": "确认",
     "context.cancel": "取消 (Esc)",
+    "context.appearance": "形状、图标与图片",
+    "context.shape": "形状",
+    "context.shape_circle": "圆形",
+    "context.shape_rect": "矩形",
+    "context.shape_rounded": "圆角矩形",
+    "context.shape_hexagon": "六边形",
+    "context.shape_cylinder": "圆柱",
+    "context.shape_diamond": "菱形",
+    "context.icon": "图标",
+    "context.no_icon": "无图标",
+    "context.image": "图片",
+    "context.upload_image": "上传",
+    "context.remove_image": "移除图片",
     "context.meta_title": "元数据 (meta_data)",
+    "link.label_placeholder": "连线标签",
+    "link.direction_forward": "指向目标",
+    "link.direction_both": "双向箭头",
+    "link.direction_none": "无箭头",
+    "link.routing_straight": "直线",
+    "link.routing_curved": "曲线",
+    "link.routing_orthogonal": "直角折线",
     "context.key": "键",
     "context.value": "值",
+    "context.selected_count": "已选 {count} 个",
+    "context.copy": "复制 (Ctrl+C)",
+    "context.duplicate": "创建副本 (Ctrl+D)",
+    "context.align_left": "左对齐",
+    "context.align_center": "水平居中",
+    "context.align_right": "右对齐",
+    "context.align_top": "顶部对齐",
+    "context.align_middle": "垂直居中",
+    "context.align_bottom": "底部对齐",
+    "context.distribute_horizontal": "水平等距分布",
+    "context.distribute_vertical": "垂直等距分布",
     "import.title": "AI 识别生成图结构",
     "import.api_key": "Anthropic API Key",
     "import.api_key_placeholder": "sk-ant-...",
@@ -221,7 +631,27 @@ const translations = {
     "import.presets": "预设",
     "import.format_anthropic": "使用 Anthropic Messages API",
     "import.format_openai": "使用 OpenAI Chat Completions API",
-    "build.import_ai": "AI 识别"
+    "build.import_ai": "AI 识别",
+    "build.import_diagram": "导入文件",
+    "import_diagram.title": "导入 Mermaid / DOT / draw.io",
+    "import_diagram.supported_formats": "支持: .mmd, .md, .dot, .gv, .drawio, .xml",
+    "import_diagram.paste_prompt": "或粘贴图表源码",
+    "import_diagram.format": "格式",
+    "import_diagram.auto_detect": "自动识别",
+    "import_diagram.unknown_format": "无法识别格式，请在上方选择",
+    "import_diagram.convert": "转换",
+    "import_diagram.converting": "转换中...",
+    "import_diagram.zones": "区域",
+    "export.title": "导出",
+    "export_diagram.title": "图表格式",
+    "export_diagram.mermaid_hint": "适用于 Markdown 文档的流程图",
+    "export_diagram.dot_hint": "Graphviz，可配合 neato -n 保留位置",
+    "export_diagram.plantuml_hint": "用例图风格",
+    "export_diagram.drawio_hint": "保留位置，可在 diagrams.net 中编辑",
+    "export_image.title": "图片",
+    "export_image.viewport": "当前视图",
+    "export_image.fit": "适配全部",
+    "export_image.include_grid": "包含背景网格"
   }
 };
 
@@ -11,9 +11,12 @@ export interface GraphNode {
   vy?: number;
   index?: number;
   // Persistent appearance overrides
-  apparence?: {
+  appearance?: {
     fill?: string;
     stroke?: string;
+    shape?: NodeShape;
+    icon?: string;
+    image?: string;
   };
   // State properties: Array of style names applied to this node
   activeStates?: string[];
@@ -21,12 +24,25 @@ export interface GraphNode {
   meta_data?: Record<string, any>;
 }
 
+// Which ends of a link carry an arrowhead; links without one point forward
+export type LinkDirection = 'forward' | 'both' | 'none';
+
+// How a link is drawn between its nodes; curved and orthogonal links avoid nodes and zones
+export type LinkRouting = 'straight' | 'curved' | 'orthogonal';
+
 export interface GraphLink {
+  // Unique per graph; several links may join the same pair of nodes
+  id?: string;
   source: string | GraphNode;
   target: string | GraphNode;
   value?: number;
+  direction?: LinkDirection;
+  // Overrides the routing of the link's styles
+  routing?: LinkRouting;
   // State properties: Array of style names applied to this link
   activeStates?: string[];
+  // Flexible metadata; `label` is drawn at the middle of the link
+  meta_data?: Record<string, any>;
 }
 
 export interface GraphData {
@@ -66,6 +82,8 @@ export interface EnvironmentLabel {
 // --- Project Management ---
 
 export interface GraphProject {
+  // Bumped whenever the stored shape changes; see utils/projectMigrations.ts
+  schemaVersion: number;
   id: string;
   name: string;
   updatedAt: number;
@@ -75,13 +93,35 @@ export interface GraphProject {
   eventData: EventSequence;
 }
 
+// A saved copy of a project; restoring one adds a new revision on top
+export type RevisionKind = 'auto' | 'manual' | 'restore';
+
+export interface ProjectRevision {
+  id: string;
+  projectId: string;
+  createdAt: number;
+  kind: RevisionKind;
+  label?: string;        // Name given to a manual snapshot
+  restoredFrom?: string; // Revision id a 'restore' revision was copied from
+  project: GraphProject;
+}
+
 // --- Theme / Style Configuration ---
 
+// Outline of a node; every shape fits in the square of side 2 * radius
+export type NodeShape = 'circle' | 'rect' | 'rounded' | 'hexagon' | 'cylinder' | 'diamond';
+
 export interface NodeStyleVisuals {
   fill?: string;
   stroke?: string;
   strokeWidth?: number;
   radius?: number;
+  shape?: NodeShape;
+  // Name of a built-in icon (see NODE_ICONS) drawn inside the node
+  icon?: string;
+  iconColor?: string;
+  // Image URL (or data URL) drawn inside the node in place of the icon
+  image?: string;
   badge?: {
     text?: string;
     color?: string;
@@ -95,6 +135,7 @@ export interface LinkStyleVisuals {
   opacity?: number;
   outlineColor?: string;
   outlineWidth?: number;
+  routing?: LinkRouting;
 }
 
 export interface AnimationProps {
@@ -116,6 +157,8 @@ export interface StyleDefinition<PersistentType> {
 export interface ThemeConfig {
   nodeStyles: Record<string, StyleDefinition<NodeStyleVisuals>>;
   linkStyles: Record<string, StyleDefinition<LinkStyleVisuals>>;
+  // States within a group replace each other, e.g. ["loading", "success", "error"]
+  exclusiveStateGroups?: string[][];
 }
 
 // --- Event Sequence ---
@@ -130,6 +173,9 @@ export interface AtomicStep {
   from: string;
   to: string;
   label?: string;
+  description?: string;          // Longer narration shown under the caption
+  linkId?: string;               // Link to travel along when several join from/to; defaults to the first
+  via?: string[];                // Nodes the packet passes through between from and to, in order
   
   // Reference a key in themeConfig.linkStyles
   linkStyle?: string; 
@@ -138,6 +184,12 @@ export interface AtomicStep {
   targetNodeState?: string;      // 1. Initial Impact State
   processingNodeState?: string;  // 2. Processing State
   finalNodeState?: string;       // 3. Final Result State
+
+  // State edits on the target node, applied on impact before targetNodeState
+  clearNodeStates?: boolean;           // Drop every active state
+  removeNodeState?: string | string[];
+  setNodeState?: string;               // Replace all active states with this one
+  toggleNodeState?: string;
   
   // Optional override for timing
   duration?: number;             // Travel duration
@@ -151,13 +203,46 @@ export interface ParallelStep {
   steps: SimulationAction[];
   delay?: number;
   label?: string;
+  description?: string;
+}
+
+export interface BranchOutcome {
+  name: string;
+  steps: SimulationAction[];
+}
+
+export interface BranchStep {
+  type: 'branch';
+  id: string;
+  label?: string;            // The decision, e.g. "Auth valid?"
+  description?: string;
+  outcomes: BranchOutcome[];
+  // Outcome taken automatically; without one the player pauses and asks
+  defaultOutcome?: string;
+  delay?: number;
+}
+
+export interface RepeatStep {
+  type: 'repeat';
+  steps: SimulationAction[];   // Played in order on every iteration
+  count: number;
+  interval?: number;           // Pause between iterations
+  backoff?: number;            // Multiplier applied to the interval after each iteration
+  delay?: number;
+  label?: string;
+  description?: string;
 }
 
-export type SimulationAction = AtomicStep | ParallelStep;
+export type SimulationAction = AtomicStep | ParallelStep | BranchStep | RepeatStep;
+
+// 'link' places the caption next to the link being animated
+export type CaptionMode = 'off' | 'subtitle' | 'link';
 
 export interface EventSequence {
   name: string;
   // NEW: Initial state of the graph before steps run
   initNodes?: InitialNodeState[];
   steps: SimulationAction[];
+  // Where step captions appear during playback; defaults to 'subtitle'
+  captions?: CaptionMode;
 }
@@ -0,0 +1,310 @@
+import { AnimationPlayback } from './graphAnimations';
+import { buildPalette, GifEncoder } from './gifEncoder';
+
+export type AnimationExportFormat = 'webm' | 'gif' | 'svg' | 'html';
+
+export interface AnimationExportTarget {
+  svg: SVGSVGElement;
+  playback: AnimationPlayback;
+  width: number;
+  height: number;
+  background: string;
+  title: string;
+}
+
+export type ExportProgressCallback = (progress: number) => void;
+
+const FRAME_RATES: Record<AnimationExportFormat, number> = {
+  webm: 30,
+  gif: 15,
+  svg: 30,
+  html: 30,
+};
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+function getFrameTimes(duration: number, fps: number): number[] {
+  const count = Math.max(1, Math.ceil(duration * fps));
+  const times: number[] = [];
+  for (let i = 0; i <= count; i++) times.push(Math.min(i / fps, duration));
+  return times;
+}
+
+function serializeSvg(svg: SVGSVGElement, width: number, height: number): string {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute('xmlns', SVG_NS);
+  clone.setAttribute('width', String(width));
+  clone.setAttribute('height', String(height));
+  clone.removeAttribute('class');
+  return new XMLSerializer().serializeToString(clone);
+}
+
+async function drawSvgFrame(target: AnimationExportTarget, ctx: CanvasRenderingContext2D): Promise<void> {
+  const { svg, width, height, background } = target;
+  const source = serializeSvg(svg, width, height);
+  const url = URL.createObjectURL(new Blob([source], { type: 'image/svg+xml;charset=utf-8' }));
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, width, height);
+    ctx.drawImage(image, 0, 0, width, height);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+function createCanvas(width: number, height: number) {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width);
+  canvas.height = Math.round(height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context is not available');
+  return { canvas, ctx };
+}
+
+// Frames the GIF palette is built from, spread evenly over the animation
+const GIF_PALETTE_SAMPLES = 8;
+
+// Frames are encoded as soon as they are drawn, so only one RGBA frame is
+// held at a time
+async function exportGif(target: AnimationExportTarget, onProgress?: ExportProgressCallback): Promise<Blob> {
+  const { ctx, canvas } = createCanvas(target.width, target.height);
+  const fps = FRAME_RATES.gif;
+  const times = getFrameTimes(target.playback.getState().duration, fps);
+  const sampleCount = Math.min(GIF_PALETTE_SAMPLES, times.length);
+  const steps = sampleCount + times.length;
+  const capture = async (time: number) => {
+    target.playback.seek(time);
+    await drawSvgFrame(target, ctx);
+    return ctx.getImageData(0, 0, canvas.width, canvas.height).data;
+  };
+
+  const samples: Uint8ClampedArray[] = [];
+  for (let i = 0; i < sampleCount; i++) {
+    samples.push(await capture(times[Math.floor((i * (times.length - 1)) / Math.max(1, sampleCount - 1))]));
+    onProgress?.((i + 1) / (steps + 1));
+  }
+  const encoder = new GifEncoder(canvas.width, canvas.height, buildPalette(samples));
+  samples.length = 0;
+
+  for (let i = 0; i < times.length; i++) {
+    encoder.addFrame(await capture(times[i]), 1000 / fps);
+    onProgress?.((sampleCount + i + 1) / (steps + 1));
+  }
+
+  const parts = encoder.finish();
+  onProgress?.(1);
+  return new Blob(parts, { type: 'image/gif' });
+}
+
+async function exportWebm(target: AnimationExportTarget, onProgress?: ExportProgressCallback): Promise<Blob> {
+  if (typeof MediaRecorder === 'undefined') {
+    throw new Error('WebM recording is not supported in this browser');
+  }
+  const mimeType = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'].find((type) =>
+    MediaRecorder.isTypeSupported(type),
+  );
+  if (!mimeType) throw new Error('WebM recording is not supported in this browser');
+
+  const { ctx, canvas } = createCanvas(target.width, target.height);
+  const fps = FRAME_RATES.webm;
+  const times = getFrameTimes(target.playback.getState().duration, fps);
+
+  // MediaRecorder timestamps frames by wall clock, so frames are pushed in
+  // real time: the export takes as long as the animation itself.
+  const stream = canvas.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 5_000_000 });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  const stopped = new Promise<void>((resolve) => {
+    recorder.onstop = () => resolve();
+  });
+
+  recorder.start();
+  const startedAt = performance.now();
+  for (let i = 0; i < times.length; i++) {
+    target.playback.seek(times[i]);
+    await drawSvgFrame(target, ctx);
+    track.requestFrame();
+    onProgress?.((i + 1) / times.length);
+    const wait = startedAt + ((i + 1) * 1000) / fps - performance.now();
+    if (wait > 0) await new Promise((resolve) => setTimeout(resolve, wait));
+  }
+  recorder.stop();
+  await stopped;
+  stream.getTracks().forEach((t) => t.stop());
+
+  return new Blob(chunks, { type: 'video/webm' });
+}
+
+// --- Animated SVG ---
+// The live SVG is sampled at a fixed rate by seeking the playback, and every
+// attribute that changes is baked into a discrete SMIL <animate>, so the
+// result replays without GSAP or the editor.
+
+interface AttributeTrack {
+  values: string[];
+  changed: boolean;
+}
+
+const DISPLAY_TRACK = '@display';
+const SKIPPED_ATTRIBUTES = new Set(['id', 'class', 'style']);
+const TRANSLATE_PATTERN = /^translate\(\s*(-?[\d.e+-]+)[\s,]+(-?[\d.e+-]+)\s*\)$/;
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
+
+function readAttributes(element: Element): Map<string, string> {
+  const values = new Map<string, string>();
+  Array.from(element.attributes).forEach((attr) => {
+    if (!SKIPPED_ATTRIBUTES.has(attr.name)) values.set(attr.name, attr.value);
+  });
+  const style = (element as SVGElement).style;
+  // GSAP tweens opacity through inline style, which wins over the attribute
+  if (style?.opacity) values.set('opacity', style.opacity);
+  values.set(DISPLAY_TRACK, style?.display === 'none' ? 'none' : 'inline');
+  return values;
+}
+
+function compressTrack(values: string[], times: number[], duration: number) {
+  const keyTimes: string[] = [];
+  const keyValues: string[] = [];
+  values.forEach((value, i) => {
+    if (i > 0 && value === values[i - 1]) return;
+    keyTimes.push(duration > 0 ? (times[i] / duration).toFixed(4) : '0');
+    keyValues.push(value);
+  });
+  return { keyTimes, keyValues };
+}
+
+function createAnimateElement(name: string, track: AttributeTrack, times: number[], duration: number): Element | null {
+  const { keyTimes, keyValues } = compressTrack(track.values, times, duration);
+  const isDisplay = name === DISPLAY_TRACK;
+  let element: Element;
+
+  if (name === 'transform') {
+    const translations = keyValues.map((value) => value.match(TRANSLATE_PATTERN));
+    if (translations.some((match) => !match)) return null;
+    element = document.createElementNS(SVG_NS, 'animateTransform');
+    element.setAttribute('type', 'translate');
+    element.setAttribute('values', translations.map((match) => `${match![1]},${match![2]}`).join(';'));
+  } else {
+    element = document.createElementNS(SVG_NS, 'animate');
+    element.setAttribute('values', keyValues.join(';'));
+  }
+
+  element.setAttribute('attributeName', isDisplay ? 'display' : name);
+  element.setAttribute('keyTimes', keyTimes.join(';'));
+  element.setAttribute('calcMode', 'discrete');
+  element.setAttribute('dur', `${Math.max(duration, 0.001)}s`);
+  element.setAttribute('fill', 'freeze');
+  return element;
+}
+
+async function buildAnimatedSvg(target: AnimationExportTarget, onProgress?: ExportProgressCallback): Promise<string> {
+  const { svg, playback, width, height } = target;
+  const duration = playback.getState().duration;
+  const times = getFrameTimes(duration, FRAME_RATES.svg);
+
+  playback.seek(0);
+  const liveElements = Array.from(svg.querySelectorAll('*'));
+  const tracks = liveElements.map(() => new Map<string, AttributeTrack>());
+
+  for (let i = 0; i < times.length; i++) {
+    playback.seek(times[i]);
+    liveElements.forEach((element, index) => {
+      readAttributes(element).forEach((value, name) => {
+        let track = tracks[index].get(name);
+        if (!track) {
+          // Attributes that appear mid-way hold their first value backwards
+          track = { values: new Array(i).fill(value), changed: i > 0 };
+          tracks[index].set(name, track);
+        }
+        if (track.values.length > 0 && track.values[track.values.length - 1] !== value) track.changed = true;
+        track.values.push(value);
+      });
+    });
+    onProgress?.((i + 1) / (times.length + 1));
+    if (i % 10 === 0) await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+
+  playback.seek(0);
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute('xmlns', SVG_NS);
+  clone.setAttribute('width', String(width));
+  clone.setAttribute('height', String(height));
+  clone.setAttribute('viewBox', `0 0 ${width} ${height}`);
+  clone.removeAttribute('class');
+
+  // Clone and live tree share document order, so indices line up
+  const clonedElements = Array.from(clone.querySelectorAll('*'));
+  clonedElements.forEach((element, index) => {
+    tracks[index]?.forEach((track, name) => {
+      if (!track.changed) return;
+      const animate = createAnimateElement(name, track, times, duration);
+      if (!animate) return;
+      if (name === 'opacity') (element as SVGElement).style.removeProperty('opacity');
+      element.appendChild(animate);
+    });
+  });
+  clone.querySelectorAll('.ghost-line').forEach((el) => el.remove());
+
+  const background = document.createElementNS(SVG_NS, 'rect');
+  background.setAttribute('width', '100%');
+  background.setAttribute('height', '100%');
+  background.setAttribute('fill', target.background);
+  clone.insertBefore(background, clone.firstChild);
+
+  onProgress?.(1);
+  return new XMLSerializer().serializeToString(clone);
+}
+
+function wrapAnimatedSvgInHtml(svgSource: string, target: AnimationExportTarget): string {
+  const title = escapeAttribute(target.title);
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<title>${title}</title>
+<style>
+  body { margin: 0; min-height: 100vh; display: flex; flex-direction: column; align-items: center; justify-content: center; gap: 16px; background: ${target.background}; font-family: sans-serif; }
+  svg { max-width: 100vw; height: auto; }
+  button { padding: 8px 20px; border-radius: 12px; border: 1px solid #cbd5e1; background: #fff; font-weight: 700; cursor: pointer; }
+</style>
+</head>
+<body>
+${svgSource}
+<button id="replay">Replay</button>
+<script>
+  document.getElementById('replay').addEventListener('click', function () {
+    var svg = document.querySelector('svg');
+    svg.pauseAnimations();
+    svg.setCurrentTime(0);
+    svg.unpauseAnimations();
+  });
+</script>
+</body>
+</html>
+`;
+}
+
+export async function exportAnimation(
+  target: AnimationExportTarget,
+  format: AnimationExportFormat,
+  onProgress?: ExportProgressCallback,
+): Promise<Blob> {
+  if (format === 'gif') return exportGif(target, onProgress);
+  if (format === 'webm') return exportWebm(target, onProgress);
+
+  const svgSource = await buildAnimatedSvg(target, onProgress);
+  if (format === 'svg') {
+    return new Blob([`<?xml version="1.0" encoding="UTF-8"?>\n${svgSource}`], { type: 'image/svg+xml' });
+  }
+  return new Blob([wrapAnimatedSvgInHtml(svgSource, target)], { type: 'text/html' });
+}
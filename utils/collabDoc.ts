@@ -0,0 +1,202 @@
+import { EnvironmentLabel, EnvironmentZone, EventSequence, GraphData, ThemeConfig } from '../types';
+import { assignLinkIds, endpointId, getLinkId } from './linkGeometry';
+
+// The parts of a project that live editing keeps in sync
+export interface CollabState {
+  name: string;
+  graphData: GraphData;
+  themeData: ThemeConfig;
+  eventData: EventSequence;
+}
+
+// Lamport clock plus client id: every peer orders two stamps the same way
+export interface Stamp {
+  clock: number;
+  client: string;
+}
+
+export interface CollabOp {
+  key: string;
+  value: unknown;
+  stamp: Stamp;
+}
+
+interface Register {
+  value: unknown;
+  stamp: Stamp;
+}
+
+// A map of last-writer-wins registers, one per entity field. Concurrent edits
+// to different fields of the same node or zone both survive; edits to the
+// same field resolve to the higher stamp on every peer. A drag writes x and y
+// under one stamp, so the winning drag wins both coordinates.
+export interface CollabDoc {
+  client: string;
+  clock: number;
+  registers: Map<string, Register>;
+}
+
+type Collection = 'node' | 'link' | 'zone' | 'label';
+
+const COLLECTIONS: Collection[] = ['node', 'link', 'zone', 'label'];
+
+// Set while the entity exists; false is a tombstone so a late field write
+// cannot bring a deleted node back
+const ALIVE = '$alive';
+
+// Keys are JSON arrays so ids may contain any character
+const keyOf = (...parts: string[]) => JSON.stringify(parts);
+
+export function compareStamps(a: Stamp, b: Stamp): number {
+  if (a.clock !== b.clock) return a.clock - b.clock;
+  return a.client < b.client ? -1 : a.client > b.client ? 1 : 0;
+}
+
+// Links missing an id get the one every peer would derive from the same list
+function linkIds(graph: GraphData): string[] {
+  return assignLinkIds(graph.links).map(getLinkId);
+}
+
+function entitiesOf(state: CollabState): Record<Collection, [string, Record<string, unknown>][]> {
+  const graph = state.graphData;
+  const ids = linkIds(graph);
+  return {
+    node: graph.nodes.map((node) => [node.id, node as unknown as Record<string, unknown>]),
+    link: graph.links.map((link, i) => [
+      ids[i],
+      { ...link, source: endpointId(link.source), target: endpointId(link.target) },
+    ]),
+    zone: (graph.environments?.zones ?? []).map((zone) => [zone.id, zone as unknown as Record<string, unknown>]),
+    label: (graph.environments?.labels ?? []).map((label) => [label.id, label as unknown as Record<string, unknown>]),
+  };
+}
+
+// Every register value the state implies; undefined fields are left out
+function flatten(state: CollabState): Map<string, unknown> {
+  const flat = new Map<string, unknown>();
+  flat.set(keyOf('name'), state.name);
+  flat.set(keyOf('events'), state.eventData);
+  flat.set(keyOf('theme', 'exclusiveStateGroups'), state.themeData.exclusiveStateGroups ?? null);
+  Object.entries(state.themeData.nodeStyles).forEach(([name, style]) => flat.set(keyOf('nodeStyle', name), style));
+  Object.entries(state.themeData.linkStyles).forEach(([name, style]) => flat.set(keyOf('linkStyle', name), style));
+
+  const entities = entitiesOf(state);
+  COLLECTIONS.forEach((collection) => {
+    flat.set(keyOf('order', collection), entities[collection].map(([id]) => id));
+    entities[collection].forEach(([id, fields]) => {
+      flat.set(keyOf(collection, id, ALIVE), true);
+      Object.entries(fields).forEach(([field, value]) => {
+        if (value !== undefined) flat.set(keyOf(collection, id, field), value);
+      });
+    });
+  });
+  return flat;
+}
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+export function createDoc(client: string, state: CollabState): CollabDoc {
+  const stamp = { clock: 0, client };
+  const registers = new Map<string, Register>();
+  flatten(state).forEach((value, key) => registers.set(key, { value, stamp }));
+  return { client, clock: 0, registers };
+}
+
+export function snapshotOps(doc: CollabDoc): CollabOp[] {
+  return Array.from(doc.registers, ([key, { value, stamp }]) => ({ key, value, stamp }));
+}
+
+// Records the difference between the document and a locally edited state.
+// Returns the ops to broadcast; an unchanged state yields none.
+export function localChange(doc: CollabDoc, state: CollabState): CollabOp[] {
+  const next = flatten(state);
+  const alive = (collection: string, id: string) => next.get(keyOf(collection, id, ALIVE)) === true;
+  const changes: [string, unknown][] = [];
+
+  next.forEach((value, key) => {
+    const current = doc.registers.get(key);
+    if (!current || !sameValue(current.value, value)) changes.push([key, value]);
+  });
+  doc.registers.forEach(({ value }, key) => {
+    if (next.has(key) || value === null) return;
+    const [kind, id, field] = JSON.parse(key) as string[];
+    if (field === ALIVE) {
+      if (value !== false) changes.push([key, false]);
+    } else if (field === undefined || alive(kind, id)) {
+      // A removed style, theme setting or entity field
+      changes.push([key, null]);
+    }
+  });
+  if (changes.length === 0) return [];
+
+  doc.clock += 1;
+  const stamp = { clock: doc.clock, client: doc.client };
+  return changes.map(([key, value]) => {
+    doc.registers.set(key, { value, stamp });
+    return { key, value, stamp };
+  });
+}
+
+// Merges ops from another peer. Returns true if any register changed.
+export function applyRemote(doc: CollabDoc, ops: CollabOp[]): boolean {
+  let changed = false;
+  ops.forEach((op) => {
+    doc.clock = Math.max(doc.clock, op.stamp.clock);
+    const current = doc.registers.get(op.key);
+    if (current && compareStamps(op.stamp, current.stamp) <= 0) return;
+    doc.registers.set(op.key, { value: op.value, stamp: op.stamp });
+    changed = true;
+  });
+  return changed;
+}
+
+// Rebuilds the project state the registers describe
+export function materialize(doc: CollabDoc): CollabState {
+  const value = (...parts: string[]) => doc.registers.get(keyOf(...parts))?.value;
+  const fields = new Map<string, Record<string, unknown>>();
+  const created = new Map<string, Stamp>();
+  const nodeStyles: ThemeConfig['nodeStyles'] = {};
+  const linkStyles: ThemeConfig['linkStyles'] = {};
+
+  doc.registers.forEach((register, key) => {
+    const [kind, id, field] = JSON.parse(key) as string[];
+    if (register.value === null) return;
+    if (kind === 'nodeStyle') nodeStyles[id] = register.value as ThemeConfig['nodeStyles'][string];
+    else if (kind === 'linkStyle') linkStyles[id] = register.value as ThemeConfig['linkStyles'][string];
+    else if (field === ALIVE) created.set(keyOf(kind, id), register.stamp);
+    else if (field !== undefined) {
+      const entity = keyOf(kind, id);
+      if (!fields.has(entity)) fields.set(entity, {});
+      fields.get(entity)![field] = register.value;
+    }
+  });
+
+  // Entities follow the last written order; ones it does not mention (added
+  // concurrently by another peer) go after it in creation order
+  const collect = (collection: Collection) => {
+    const isAlive = (id: string) => value(collection, id, ALIVE) === true;
+    const ordered = ((value('order', collection) as string[] | undefined) ?? []).filter(isAlive);
+    const listed = new Set(ordered);
+    const rest = Array.from(created.keys())
+      .map((entity) => JSON.parse(entity) as string[])
+      .filter(([kind, id]) => kind === collection && !listed.has(id) && isAlive(id))
+      .sort((a, b) => compareStamps(created.get(keyOf(...a))!, created.get(keyOf(...b))!))
+      .map(([, id]) => id);
+    return [...ordered, ...rest].map((id) => ({ ...fields.get(keyOf(collection, id)) }));
+  };
+
+  const exclusiveStateGroups = value('theme', 'exclusiveStateGroups') as string[][] | null | undefined;
+  return {
+    name: value('name') as string,
+    graphData: {
+      nodes: collect('node') as unknown as GraphData['nodes'],
+      links: collect('link') as unknown as GraphData['links'],
+      environments: {
+        zones: collect('zone') as unknown as EnvironmentZone[],
+        labels: collect('label') as unknown as EnvironmentLabel[],
+      },
+    },
+    themeData: { nodeStyles, linkStyles, ...(exclusiveStateGroups ? { exclusiveStateGroups } : {}) },
+    eventData: value('events') as EventSequence,
+  };
+}
@@ -0,0 +1,405 @@
+import * as d3 from 'd3';
+import { EnvironmentZone, GraphData, GraphLink, GraphNode, LinkDirection, NodeShape, ThemeConfig } from '../types';
+import { getLinkLabel, getLinkVisuals, getNodeVisuals, LinkVisualResult, NodeVisualResult } from './graphStyling';
+import { endpointId } from './linkGeometry';
+
+export type DiagramExportFormat = 'mermaid' | 'dot' | 'plantuml' | 'drawio';
+
+export const DIAGRAM_EXPORT_FILES: Record<DiagramExportFormat, { extension: string; mimeType: string }> = {
+  mermaid: { extension: 'mmd', mimeType: 'text/plain' },
+  dot: { extension: 'dot', mimeType: 'text/vnd.graphviz' },
+  plantuml: { extension: 'puml', mimeType: 'text/plain' },
+  drawio: { extension: 'drawio', mimeType: 'application/xml' },
+};
+
+const DEFAULT_ZONE_COLOR = '#3b82f6';
+const DEFAULT_LABEL_COLOR = '#475569';
+
+interface ZoneNode {
+  zone: EnvironmentZone;
+  parent: ZoneNode | null;
+  zones: ZoneNode[];
+  nodes: GraphNode[];
+}
+
+// Everything an exporter needs, with styles resolved the way the canvas draws them
+interface ExportModel {
+  name: string;
+  nodes: GraphNode[];
+  links: GraphLink[];
+  nodeVisuals: Map<string, NodeVisualResult>;
+  linkVisuals: LinkVisualResult[];
+  roots: ZoneNode[];
+  freeNodes: GraphNode[];
+  data: GraphData;
+}
+
+// Formats without alpha support get solid hex colours
+const toHex = (color: string | undefined): string | undefined => {
+  const parsed = color ? d3.color(color) : null;
+  return parsed && parsed.opacity > 0 ? parsed.formatHex() : undefined;
+};
+
+const zoneStroke = (zone: EnvironmentZone) => toHex(zone.color) || DEFAULT_ZONE_COLOR;
+// Mirrors the 10% tint zones get on the canvas
+const zoneFill = (zone: EnvironmentZone) => d3.color(d3.interpolateRgb('#ffffff', zoneStroke(zone))(0.1))!.formatHex();
+
+const area = (zone: EnvironmentZone) => zone.width * zone.height;
+
+const encloses = (outer: EnvironmentZone, inner: EnvironmentZone) =>
+  outer.id !== inner.id &&
+  inner.x >= outer.x && inner.x + inner.width <= outer.x + outer.width &&
+  inner.y >= outer.y && inner.y + inner.height <= outer.y + outer.height &&
+  area(inner) < area(outer);
+
+const containsPoint = (zone: EnvironmentZone, x?: number, y?: number) =>
+  x !== undefined && y !== undefined &&
+  x >= zone.x && x <= zone.x + zone.width &&
+  y >= zone.y && y <= zone.y + zone.height;
+
+/**
+ * Builds the cluster tree: a zone nests in the smallest zone that attaches or
+ * encloses it, and a node belongs to the innermost zone it is attached to or
+ * lies in.
+ */
+function buildModel(data: GraphData, theme: ThemeConfig, name: string): ExportModel {
+  const zones = data.environments?.zones || [];
+  const tree = new Map<string, ZoneNode>(zones.map((zone) => [zone.id, { zone, parent: null, zones: [], nodes: [] }]));
+  const smallest = (candidates: EnvironmentZone[]) =>
+    candidates.reduce<EnvironmentZone | null>((best, zone) => (!best || area(zone) < area(best) ? zone : best), null);
+
+  zones.forEach((zone) => {
+    const parent = smallest(zones.filter((other) => other.attachedElementIds?.zones.includes(zone.id) || encloses(other, zone)));
+    if (!parent) return;
+    const entry = tree.get(zone.id)!;
+    entry.parent = tree.get(parent.id)!;
+    entry.parent.zones.push(entry);
+  });
+
+  const freeNodes: GraphNode[] = [];
+  data.nodes.forEach((node) => {
+    const attached = zones.filter((zone) => zone.attachedElementIds?.nodes.includes(node.id));
+    const owner = smallest(attached.length > 0 ? attached : zones.filter((zone) => containsPoint(zone, node.x, node.y)));
+    if (!owner) {
+      freeNodes.push(node);
+      return;
+    }
+    tree.get(owner.id)!.nodes.push(node);
+  });
+
+  const nodeContext = {
+    linkingSourceId: null,
+    selectedNodeIds: [],
+    theme,
+    readonly: false,
+    isConfirmingDelete: false,
+    directorPicking: null,
+    isDirectorMode: false,
+  };
+  const linkContext = { selectedLinkId: null, theme, readonly: false, isDirectorMode: false };
+
+  return {
+    name,
+    nodes: data.nodes,
+    links: data.links,
+    nodeVisuals: new Map(data.nodes.map((node) => [node.id, getNodeVisuals(node, nodeContext)])),
+    linkVisuals: data.links.map((link) => getLinkVisuals(link, linkContext)),
+    roots: Array.from(tree.values()).filter((entry) => !entry.parent),
+    freeNodes,
+    data,
+  };
+}
+
+// Text formats need identifier-safe aliases; distinct ids never share one
+function aliasFactory(prefix: string) {
+  const aliases = new Map<string, string>();
+  const used = new Set<string>();
+  return (id: string) => {
+    if (!aliases.has(id)) {
+      const base = `${prefix}${id.replace(/[^A-Za-z0-9_]/g, '_')}`;
+      let alias = base;
+      for (let n = 2; used.has(alias); n++) alias = `${base}_${n}`;
+      used.add(alias);
+      aliases.set(id, alias);
+    }
+    return aliases.get(id)!;
+  };
+}
+
+// --- Mermaid ------------------------------------------------------------------
+
+const mermaidText = (text: string) => text.replace(/"/g, '#quot;');
+
+// Opening and closing brackets of each node shape
+const MERMAID_SHAPES: Record<NodeShape, [string, string]> = {
+  circle: ['((', '))'],
+  rect: ['[', ']'],
+  rounded: ['(', ')'],
+  hexagon: ['{{', '}}'],
+  cylinder: ['[(', ')]'],
+  diamond: ['{', '}'],
+};
+
+const MERMAID_STROKES: Record<LinkDirection, string> = { forward: '-->', both: '<-->', none: '---' };
+
+function toMermaid(model: ExportModel): string {
+  const nodeAlias = aliasFactory('n_');
+  const zoneAlias = aliasFactory('zone_');
+  const lines = ['flowchart TD'];
+
+  const writeNode = (node: GraphNode, indent: string) => {
+    const [open, close] = MERMAID_SHAPES[model.nodeVisuals.get(node.id)!.shape];
+    lines.push(`${indent}${nodeAlias(node.id)}${open}"${mermaidText(node.label)}"${close}`);
+  };
+  const writeZone = (entry: ZoneNode, indent: string) => {
+    lines.push(`${indent}subgraph ${zoneAlias(entry.zone.id)} ["${mermaidText(entry.zone.label)}"]`);
+    entry.nodes.forEach((node) => writeNode(node, `${indent}  `));
+    entry.zones.forEach((child) => writeZone(child, `${indent}  `));
+    lines.push(`${indent}end`);
+  };
+
+  model.freeNodes.forEach((node) => writeNode(node, '  '));
+  model.roots.forEach((entry) => writeZone(entry, '  '));
+
+  model.links.forEach((link) => {
+    const label = getLinkLabel(link);
+    const stroke = MERMAID_STROKES[link.direction ?? 'forward'];
+    const arrow = label ? `${stroke}|"${mermaidText(label)}"|` : stroke;
+    lines.push(`  ${nodeAlias(endpointId(link.source))} ${arrow} ${nodeAlias(endpointId(link.target))}`);
+  });
+
+  model.nodes.forEach((node) => {
+    const visuals = model.nodeVisuals.get(node.id)!;
+    const style = [`fill:${toHex(visuals.fill) || '#ffffff'}`, `stroke:${toHex(visuals.stroke) || '#ffffff'}`, `stroke-width:${visuals.strokeWidth}px`];
+    lines.push(`  style ${nodeAlias(node.id)} ${style.join(',')}`);
+  });
+  (model.data.environments?.zones || []).forEach((zone) => {
+    lines.push(`  style ${zoneAlias(zone.id)} fill:${zoneFill(zone)},stroke:${zoneStroke(zone)}`);
+  });
+  model.linkVisuals.forEach((visuals, index) => {
+    lines.push(`  linkStyle ${index} stroke:${toHex(visuals.mainColor) || '#94a3b8'},stroke-width:${visuals.width}px`);
+  });
+
+  return `${lines.join('\n')}\n`;
+}
+
+// --- Graphviz DOT ---------------------------------------------------------------
+
+const dotString = (text: string) => `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+
+const DOT_SHAPES: Record<NodeShape, string> = {
+  circle: 'shape=circle',
+  rect: 'shape=box',
+  rounded: 'shape=box, style="rounded,filled"',
+  hexagon: 'shape=hexagon',
+  cylinder: 'shape=cylinder',
+  diamond: 'shape=diamond',
+};
+
+function toDot(model: ExportModel): string {
+  const lines = [
+    `digraph ${dotString(model.name)} {`,
+    '  node [shape=circle, style=filled, fixedsize=false, fontname="Helvetica"];',
+    '  edge [fontname="Helvetica"];',
+  ];
+
+  // `pos` keeps the canvas layout for `neato -n`; dot itself ignores it
+  const writeNode = (node: GraphNode, indent: string) => {
+    const visuals = model.nodeVisuals.get(node.id)!;
+    const attrs = [
+      `label=${dotString(node.label)}`,
+      `fillcolor=${dotString(toHex(visuals.fill) || '#ffffff')}`,
+      `color=${dotString(toHex(visuals.stroke) || '#ffffff')}`,
+      `penwidth=${visuals.strokeWidth}`,
+    ];
+    if (visuals.shape !== 'circle') attrs.push(DOT_SHAPES[visuals.shape]);
+    if (node.x !== undefined && node.y !== undefined) attrs.push(`pos="${Math.round(node.x)},${Math.round(-node.y)}!"`);
+    lines.push(`${indent}${dotString(node.id)} [${attrs.join(', ')}];`);
+  };
+  const writeZone = (entry: ZoneNode, indent: string) => {
+    lines.push(`${indent}subgraph ${dotString(`cluster_${entry.zone.id}`)} {`);
+    lines.push(`${indent}  label=${dotString(entry.zone.label)};`);
+    lines.push(`${indent}  style="rounded,filled";`);
+    lines.push(`${indent}  fillcolor=${dotString(zoneFill(entry.zone))};`);
+    lines.push(`${indent}  color=${dotString(zoneStroke(entry.zone))};`);
+    entry.nodes.forEach((node) => writeNode(node, `${indent}  `));
+    entry.zones.forEach((child) => writeZone(child, `${indent}  `));
+    lines.push(`${indent}}`);
+  };
+
+  model.freeNodes.forEach((node) => writeNode(node, '  '));
+  model.roots.forEach((entry) => writeZone(entry, '  '));
+
+  model.links.forEach((link, index) => {
+    const visuals = model.linkVisuals[index];
+    const attrs = [`color=${dotString(toHex(visuals.mainColor) || '#94a3b8')}`, `penwidth=${visuals.width}`];
+    if (link.direction === 'both' || link.direction === 'none') attrs.push(`dir=${link.direction}`);
+    const label = getLinkLabel(link);
+    if (label) attrs.push(`label=${dotString(label)}`);
+    lines.push(`  ${dotString(endpointId(link.source))} -> ${dotString(endpointId(link.target))} [${attrs.join(', ')}];`);
+  });
+
+  lines.push('}');
+  return `${lines.join('\n')}\n`;
+}
+
+// --- PlantUML ---------------------------------------------------------------------
+
+const plantText = (text: string) => text.replace(/"/g, "'").replace(/\n/g, '\\n');
+
+// PlantUML has no diamond element, so diamonds fall back to a rectangle
+const PLANTUML_SHAPES: Record<NodeShape, string> = {
+  circle: 'usecase',
+  rect: 'rectangle',
+  rounded: 'card',
+  hexagon: 'hexagon',
+  cylinder: 'database',
+  diamond: 'rectangle',
+};
+
+function toPlantUml(model: ExportModel): string {
+  const nodeAlias = aliasFactory('n_');
+  const zoneAlias = aliasFactory('zone_');
+  const lines = ['@startuml', `title ${plantText(model.name)}`, 'skinparam shadowing false', ''];
+
+  const writeNode = (node: GraphNode, indent: string) => {
+    const visuals = model.nodeVisuals.get(node.id)!;
+    const fill = toHex(visuals.fill) || '#ffffff';
+    const stroke = toHex(visuals.stroke) || '#ffffff';
+    lines.push(`${indent}${PLANTUML_SHAPES[visuals.shape]} "${plantText(node.label)}" as ${nodeAlias(node.id)} ${fill};line:${stroke.slice(1)}`);
+  };
+  const writeZone = (entry: ZoneNode, indent: string) => {
+    lines.push(`${indent}rectangle "${plantText(entry.zone.label)}" as ${zoneAlias(entry.zone.id)} ${zoneFill(entry.zone)};line:${zoneStroke(entry.zone).slice(1)} {`);
+    entry.nodes.forEach((node) => writeNode(node, `${indent}  `));
+    entry.zones.forEach((child) => writeZone(child, `${indent}  `));
+    lines.push(`${indent}}`);
+  };
+
+  model.freeNodes.forEach((node) => writeNode(node, ''));
+  model.roots.forEach((entry) => writeZone(entry, ''));
+  lines.push('');
+
+  model.links.forEach((link, index) => {
+    const visuals = model.linkVisuals[index];
+    const color = toHex(visuals.mainColor) || '#94a3b8';
+    const label = getLinkLabel(link);
+    lines.push(
+      `${nodeAlias(endpointId(link.source))} ${link.direction === 'both' ? '<' : ''}-[${color},thickness=${visuals.width}]-${link.direction === 'none' ? '' : '>'} ${nodeAlias(endpointId(link.target))}${label ? ` : ${plantText(label)}` : ''}`,
+    );
+  });
+
+  lines.push('@enduml');
+  return `${lines.join('\n')}\n`;
+}
+
+// --- draw.io -----------------------------------------------------------------------
+
+const xmlAttr = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\n/g, '&#10;');
+
+const DRAWIO_SHAPES: Record<NodeShape, string> = {
+  circle: 'ellipse',
+  rect: 'rounded=0',
+  rounded: 'rounded=1',
+  hexagon: 'shape=hexagon;perimeter=hexagonPerimeter2',
+  cylinder: 'shape=cylinder3',
+  diamond: 'rhombus',
+};
+
+function toDrawio(model: ExportModel): string {
+  const cells: string[] = ['<mxCell id="0" />', '<mxCell id="1" parent="0" />'];
+  const nodeCellId = (id: string) => `node-${id}`;
+
+  // Containers hold their children in relative coordinates, as draw.io expects
+  const writeNode = (node: GraphNode, parent: ZoneNode | null) => {
+    const visuals = model.nodeVisuals.get(node.id)!;
+    const size = visuals.radius * 2;
+    const x = (node.x ?? 0) - visuals.radius - (parent?.zone.x ?? 0);
+    const y = (node.y ?? 0) - visuals.radius - (parent?.zone.y ?? 0);
+    const style = [
+      DRAWIO_SHAPES[visuals.shape], 'whiteSpace=wrap', 'html=1', 'aspect=fixed',
+      'verticalLabelPosition=bottom', 'verticalAlign=top',
+      `fillColor=${toHex(visuals.fill) || '#ffffff'}`,
+      `strokeColor=${toHex(visuals.stroke) || '#ffffff'}`,
+      `strokeWidth=${visuals.strokeWidth}`,
+    ].join(';');
+    cells.push(
+      `<mxCell id="${xmlAttr(nodeCellId(node.id))}" value="${xmlAttr(node.label)}" style="${style};" vertex="1" parent="${parent ? xmlAttr(`zone-${parent.zone.id}`) : '1'}">` +
+        `<mxGeometry x="${Math.round(x)}" y="${Math.round(y)}" width="${size}" height="${size}" as="geometry" /></mxCell>`,
+    );
+  };
+  const writeZone = (entry: ZoneNode) => {
+    const { zone } = entry;
+    const x = zone.x - (entry.parent?.zone.x ?? 0);
+    const y = zone.y - (entry.parent?.zone.y ?? 0);
+    const style = [
+      'rounded=1', 'arcSize=4', 'whiteSpace=wrap', 'html=1', 'container=1', 'collapsible=0',
+      'verticalAlign=top', 'align=left', 'spacingLeft=8', 'fontStyle=1',
+      `fillColor=${zoneFill(zone)}`, `strokeColor=${zoneStroke(zone)}`, `fontColor=${zoneStroke(zone)}`,
+      zone.isLocked ? 'dashed=0' : 'dashed=1',
+    ].join(';');
+    cells.push(
+      `<mxCell id="${xmlAttr(`zone-${zone.id}`)}" value="${xmlAttr(zone.label)}" style="${style};" vertex="1" parent="${entry.parent ? xmlAttr(`zone-${entry.parent.zone.id}`) : '1'}">` +
+        `<mxGeometry x="${Math.round(x)}" y="${Math.round(y)}" width="${Math.round(zone.width)}" height="${Math.round(zone.height)}" as="geometry" /></mxCell>`,
+    );
+    entry.zones.forEach(writeZone);
+    entry.nodes.forEach((node) => writeNode(node, entry));
+  };
+
+  model.roots.forEach(writeZone);
+  model.freeNodes.forEach((node) => writeNode(node, null));
+
+  (model.data.environments?.labels || []).forEach((label) => {
+    const style = ['text', 'html=1', 'align=left', 'verticalAlign=middle', `fontSize=${label.fontSize}`, `fontColor=${toHex(label.color) || DEFAULT_LABEL_COLOR}`].join(';');
+    const height = Math.round(label.fontSize * 1.5);
+    cells.push(
+      `<mxCell id="${xmlAttr(`label-${label.id}`)}" value="${xmlAttr(label.text)}" style="${style};" vertex="1" parent="1">` +
+        `<mxGeometry x="${Math.round(label.x)}" y="${Math.round(label.y - height / 2)}" width="${Math.max(40, label.text.length * label.fontSize * 0.6)}" height="${height}" as="geometry" /></mxCell>`,
+    );
+  });
+
+  model.links.forEach((link, index) => {
+    const visuals = model.linkVisuals[index];
+    const style = [
+      `endArrow=${link.direction === 'none' ? 'none' : 'classic'}`,
+      `startArrow=${link.direction === 'both' ? 'classic' : 'none'}`,
+      'html=1', 'rounded=0', `strokeColor=${toHex(visuals.mainColor) || '#94a3b8'}`, `strokeWidth=${visuals.width}`,
+      ...(visuals.routing === 'orthogonal' ? ['edgeStyle=orthogonalEdgeStyle'] : visuals.routing === 'curved' ? ['curved=1'] : []),
+    ].join(';');
+    cells.push(
+      `<mxCell id="link-${index}" value="${xmlAttr(getLinkLabel(link) || '')}" style="${style};" edge="1" parent="1" ` +
+        `source="${xmlAttr(nodeCellId(endpointId(link.source)))}" target="${xmlAttr(nodeCellId(endpointId(link.target)))}">` +
+        '<mxGeometry relative="1" as="geometry" /></mxCell>',
+    );
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<mxfile host="Mijin">',
+    `  <diagram id="mijin" name="${xmlAttr(model.name)}">`,
+    '    <mxGraphModel grid="1" gridSize="10" page="0">',
+    '      <root>',
+    ...cells.map((cell) => `        ${cell}`),
+    '      </root>',
+    '    </mxGraphModel>',
+    '  </diagram>',
+    '</mxfile>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Serialises a graph to a diagram format. Zones become clusters (nested the
+ * way they are on the canvas), nodes and links carry the colours the canvas
+ * resolves from group, `appearance` and the theme's persistent state styles,
+ * `direction` picks the arrowheads and `meta_data.label` becomes the edge label.
+ */
+export function exportDiagram(data: GraphData, theme: ThemeConfig, format: DiagramExportFormat, name = 'graph'): string {
+  const model = buildModel(data, theme, name);
+  switch (format) {
+    case 'mermaid': return toMermaid(model);
+    case 'dot': return toDot(model);
+    case 'plantuml': return toPlantUml(model);
+    case 'drawio': return toDrawio(model);
+  }
+}
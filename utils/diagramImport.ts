@@ -0,0 +1,669 @@
+import { EnvironmentLabel, EnvironmentZone, GraphData, GraphLink, GraphNode, LinkDirection, LinkRouting, NodeShape } from '../types';
+import { computeLayout } from './graphLayouts';
+import { assignLinkIds } from './linkGeometry';
+
+export type DiagramFormat = 'mermaid' | 'dot' | 'drawio';
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Format-neutral intermediate result shared by the three parsers
+interface ParsedNode {
+  label: string;
+  fill?: string;
+  shape?: NodeShape;
+  cluster: string | null;
+  x?: number;
+  y?: number;
+}
+
+interface ParsedCluster {
+  label: string;
+  parent: string | null;
+  rect?: Rect;
+}
+
+interface ParsedDiagram {
+  nodes: Map<string, ParsedNode>;
+  edges: { source: string; target: string; label?: string; direction?: LinkDirection; routing?: LinkRouting }[];
+  clusters: Map<string, ParsedCluster>;
+  labels: { text: string; x: number; y: number }[];
+  horizontal: boolean;
+}
+
+const CLUSTER_PADDING = 50;
+const CLUSTER_TITLE_SPACE = 30;
+const CANVAS_MARGIN = 120;
+
+const emptyDiagram = (): ParsedDiagram => ({ nodes: new Map(), edges: [], clusters: new Map(), labels: [], horizontal: false });
+
+const unquote = (value: string) => value.trim().replace(/^"(.*)"$/s, '$1').replace(/^'(.*)'$/s, '$1');
+
+function ensureNode(diagram: ParsedDiagram, id: string, cluster: string | null, label?: string): ParsedNode {
+  let node = diagram.nodes.get(id);
+  if (!node) {
+    node = { label: id, cluster };
+    diagram.nodes.set(id, node);
+  }
+  if (label !== undefined && label !== '') node.label = label;
+  return node;
+}
+
+// --- Mermaid ------------------------------------------------------------------
+
+const MERMAID_SHAPE = /(?<=\w)(\[\[|\[\(|\(\[|\(\(\(|\(\(|\[\/|\[\\|\[|\(|\{\{|\{|>)("[^"]*"|[^\]\)\}]*?)(\]\]|\)\]|\]\)|\)\)\)|\)\)|\/\]|\\\]|\]|\)|\}\}|\})/g;
+// Opening brackets of the shapes we draw; other Mermaid shapes import as circles
+const MERMAID_SHAPES: Record<string, NodeShape> = {
+  '((': 'circle',
+  '(((': 'circle',
+  '[': 'rect',
+  '(': 'rounded',
+  '([': 'rounded',
+  '{{': 'hexagon',
+  '[(': 'cylinder',
+  '{': 'diamond',
+};
+const MERMAID_INLINE_EDGE_TEXT = /(<?)(--|==|-\.)\s+([^|]+?)\s+(-{2,}>|={2,}>|\.-+>|-{3,}|={3,})/g;
+const MERMAID_EDGE = /\s*(<?[-=.~]{2,}[>xo]?(?:\|[^|]*\|)?)\s*/;
+const MERMAID_OPERAND = /^([\w.-]+)(?:⟦(\d+)⟧)?(?::::[\w-]+)?$/;
+
+function parseMermaid(text: string): ParsedDiagram {
+  const diagram = emptyDiagram();
+  const statements = text
+    .split(/\r?\n/)
+    .flatMap((line) => line.split(';'))
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith('%%'));
+
+  const header = statements.shift()?.match(/^(?:flowchart|graph)\b\s*(TD|TB|BT|RL|LR)?/i);
+  if (!header) throw new Error('Not a Mermaid flowchart (expected "flowchart" or "graph")');
+  diagram.horizontal = /LR|RL/i.test(header[1] || '');
+
+  const stack: string[] = [];
+  let anonymousClusters = 0;
+
+  statements.forEach((statement) => {
+    const cluster = stack[stack.length - 1] ?? null;
+
+    const subgraph = statement.match(/^subgraph\s+(.+)$/);
+    if (subgraph) {
+      const spec = subgraph[1].trim();
+      const titled = spec.match(/^([\w.-]+)\s*\[(.*)\]$/);
+      let id: string;
+      let label: string;
+      if (titled) {
+        id = titled[1];
+        label = unquote(titled[2]);
+      } else if (/^[\w.-]+$/.test(spec)) {
+        id = label = spec;
+      } else {
+        id = `cluster_${anonymousClusters++}`;
+        label = unquote(spec);
+      }
+      diagram.clusters.set(id, { label, parent: cluster });
+      stack.push(id);
+      return;
+    }
+    if (statement === 'end') {
+      stack.pop();
+      return;
+    }
+    if (/^(classDef|class|click|linkStyle|direction)\b/.test(statement)) return;
+
+    const style = statement.match(/^style\s+([\w.-]+)\s+(.*)$/);
+    if (style) {
+      const fill = style[2].match(/fill\s*:\s*(#[0-9a-fA-F]{3,8}|[a-zA-Z]+)/);
+      if (fill && !diagram.clusters.has(style[1])) ensureNode(diagram, style[1], cluster).fill = fill[1];
+      return;
+    }
+
+    // Shape texts may contain arrow-like characters, so they are masked before splitting
+    const shapeTexts: { text: string; shape?: NodeShape }[] = [];
+    const masked = statement
+      .replace(MERMAID_SHAPE, (_, open, content) => {
+        shapeTexts.push({ text: unquote(content), shape: MERMAID_SHAPES[open] });
+        return `⟦${shapeTexts.length - 1}⟧`;
+      })
+      .replace(MERMAID_INLINE_EDGE_TEXT, (_, arrowStart, _dash, label, arrow) => `${arrowStart}${arrow}|${label}|`);
+
+    const parts = masked.split(MERMAID_EDGE);
+    const operands = parts
+      .filter((_, i) => i % 2 === 0)
+      .map((part) =>
+        part
+          .split('&')
+          .map((segment) => segment.trim().match(MERMAID_OPERAND))
+          .filter((match): match is RegExpMatchArray => !!match)
+          .map((match) => {
+            const shaped = match[2] !== undefined ? shapeTexts[Number(match[2])] : undefined;
+            const node = ensureNode(diagram, match[1], cluster, shaped?.text);
+            if (shaped?.shape) node.shape = shaped.shape;
+            // Like Mermaid itself, the last subgraph mentioning a node claims it
+            if (cluster) node.cluster = cluster;
+            return match[1];
+          }),
+      );
+
+    parts
+      .filter((_, i) => i % 2 === 1)
+      .forEach((operator, i) => {
+        if (operator.startsWith('~')) return;
+        const label = operator.match(/\|([^|]*)\|/)?.[1];
+        // Open lines (---, ===) have no arrowhead; any end marker (>, x, o) counts as one
+        const stroke = operator.replace(/\|[^|]*\|/, '');
+        const direction: LinkDirection = stroke.startsWith('<') ? 'both' : /[>xo]$/.test(stroke) ? 'forward' : 'none';
+        operands[i].forEach((source) =>
+          operands[i + 1]?.forEach((target) =>
+            diagram.edges.push({ source, target, label: label ? unquote(label) : undefined, direction }),
+          ),
+        );
+      });
+  });
+
+  // Edges may point at subgraphs; those have no node to attach to
+  diagram.clusters.forEach((_, id) => diagram.nodes.delete(id));
+  diagram.edges = diagram.edges.filter((edge) => diagram.nodes.has(edge.source) && diagram.nodes.has(edge.target));
+  return diagram;
+}
+
+// --- Graphviz DOT ---------------------------------------------------------------
+
+interface DotToken {
+  type: 'id' | 'punct';
+  value: string;
+}
+
+function tokenizeDot(text: string): DotToken[] {
+  const tokens: DotToken[] = [];
+  let i = 0;
+  let lineStart = true;
+
+  while (i < text.length) {
+    const char = text[i];
+    if (char === '\n') { lineStart = true; i++; continue; }
+    if (/\s/.test(char)) { i++; continue; }
+    if (char === '#' && lineStart) {
+      while (i < text.length && text[i] !== '\n') i++;
+      continue;
+    }
+    lineStart = false;
+    if (text.startsWith('//', i)) {
+      while (i < text.length && text[i] !== '\n') i++;
+      continue;
+    }
+    if (text.startsWith('/*', i)) {
+      const end = text.indexOf('*/', i + 2);
+      i = end === -1 ? text.length : end + 2;
+      continue;
+    }
+    if (text.startsWith('->', i) || text.startsWith('--', i)) {
+      tokens.push({ type: 'punct', value: text.slice(i, i + 2) });
+      i += 2;
+      continue;
+    }
+    if ('{}[];,=:'.includes(char)) {
+      tokens.push({ type: 'punct', value: char });
+      i++;
+      continue;
+    }
+    if (char === '"') {
+      let value = '';
+      i++;
+      while (i < text.length && text[i] !== '"') {
+        if (text[i] === '\\' && i + 1 < text.length) {
+          const next = text[i + 1];
+          value += next === 'n' || next === 'l' || next === 'r' ? ' ' : next === '"' ? '"' : `\\${next}`;
+          i += 2;
+        } else {
+          value += text[i++];
+        }
+      }
+      i++;
+      // "a" + "b" concatenation
+      const last = tokens[tokens.length - 1];
+      if (last?.type === 'id' && tokens[tokens.length - 2]?.value === '+') {
+        tokens.pop();
+        tokens[tokens.length - 1] = { type: 'id', value: tokens[tokens.length - 1].value + value };
+      } else {
+        tokens.push({ type: 'id', value });
+      }
+      continue;
+    }
+    if (char === '<') {
+      let depth = 0;
+      const start = i;
+      do {
+        if (text[i] === '<') depth++;
+        else if (text[i] === '>') depth--;
+        i++;
+      } while (i < text.length && depth > 0);
+      tokens.push({ type: 'id', value: text.slice(start + 1, i - 1).replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim() });
+      continue;
+    }
+    if (char === '+') {
+      tokens.push({ type: 'punct', value: '+' });
+      i++;
+      continue;
+    }
+    // Bare ids and numerals; `-` only starts a numeral, so `a->b` splits at the operator
+    const match = text.slice(i).match(/^(?:[A-Za-z_\u0080-￿][\w\u0080-￿]*|-?(?:\.\d+|\d+(?:\.\d*)?))/);
+    if (!match) throw new Error(`Unexpected character "${char}" in DOT source`);
+    tokens.push({ type: 'id', value: match[0] });
+    i += match[0].length;
+  }
+  return tokens;
+}
+
+const DOT_SHAPES: Record<string, NodeShape> = {
+  circle: 'circle',
+  ellipse: 'circle',
+  oval: 'circle',
+  box: 'rect',
+  rect: 'rect',
+  rectangle: 'rect',
+  square: 'rect',
+  hexagon: 'hexagon',
+  cylinder: 'cylinder',
+  diamond: 'diamond',
+};
+
+function parseDot(text: string): ParsedDiagram {
+  const diagram = emptyDiagram();
+  const tokens = tokenizeDot(text);
+  let pos = 0;
+  let anonymousClusters = 0;
+
+  const peek = () => tokens[pos];
+  const next = () => tokens[pos++];
+  const accept = (value: string) => {
+    if (peek()?.value === value) {
+      pos++;
+      return true;
+    }
+    return false;
+  };
+  const expect = (value: string) => {
+    if (!accept(value)) throw new Error(`Expected "${value}" in DOT source near "${peek()?.value ?? 'end of file'}"`);
+  };
+
+  const parseAttributes = () => {
+    const attrs: Record<string, string> = {};
+    while (accept('[')) {
+      while (!accept(']')) {
+        const key = next();
+        if (!key) throw new Error('Unterminated attribute list in DOT source');
+        if (key.type !== 'id') continue;
+        if (accept('=')) attrs[key.value.toLowerCase()] = next()?.value ?? '';
+      }
+    }
+    return attrs;
+  };
+
+  const applyNodeAttributes = (id: string, cluster: string | null, attrs: Record<string, string>) => {
+    const node = ensureNode(diagram, id, cluster, attrs.label && attrs.label !== '\\N' ? attrs.label : undefined);
+    const fill = attrs.fillcolor || attrs.color;
+    if (fill) node.fill = fill;
+    const shape = DOT_SHAPES[attrs.shape?.toLowerCase()];
+    if (shape) node.shape = shape === 'rect' && /rounded/.test(attrs.style || '') ? 'rounded' : shape;
+  };
+
+  const parseStatements = (cluster: string | null): string[] => {
+    const members: string[] = [];
+    while (peek() && peek().value !== '}') {
+      const first = parseOperand(cluster, members);
+      const operands = [first.ids];
+      let undirected = false;
+      while (peek()?.value === '->' || peek()?.value === '--') {
+        undirected = next().value === '--';
+        operands.push(parseOperand(cluster, members).ids);
+      }
+
+      // A trailing attribute list belongs to the edge chain, or to a lone node statement
+      const attrs = parseAttributes();
+      if (operands.length > 1) {
+        const label = attrs.label || attrs.xlabel;
+        const dir = attrs.dir?.toLowerCase() || (undirected ? 'none' : 'forward');
+        const direction: LinkDirection = dir === 'both' || dir === 'none' ? dir : 'forward';
+        // dir=back draws the arrow at the tail, which is a forward link the other way round
+        const reversed = dir === 'back';
+        for (let i = 0; i < operands.length - 1; i++) {
+          operands[i].forEach((source) =>
+            operands[i + 1].forEach((target) =>
+              diagram.edges.push(reversed ? { source: target, target: source, label, direction } : { source, target, label, direction }),
+            ),
+          );
+        }
+      } else if (first.isNode) {
+        applyNodeAttributes(first.ids[0], cluster, attrs);
+      }
+      while (accept(';') || accept(','));
+    }
+    return members;
+  };
+
+  // Returns the node ids an edge operand stands for; attribute statements yield none
+  const parseOperand = (cluster: string | null, members: string[]): { ids: string[]; isNode: boolean } => {
+    const token = peek();
+    if (!token) return { ids: [], isNode: false };
+
+    if (token.value === 'subgraph' || token.value === '{') {
+      let name = '';
+      if (accept('subgraph') && peek()?.value !== '{') name = next().value;
+      expect('{');
+      const id = name.startsWith('cluster') ? name : null;
+      if (id) diagram.clusters.set(id, { label: name.replace(/^cluster_?/, '') || `cluster ${anonymousClusters++}`, parent: cluster });
+      const inner = parseStatements(id ?? cluster);
+      expect('}');
+      members.push(...inner);
+      return { ids: inner, isNode: false };
+    }
+
+    next();
+    if (token.type === 'punct') return { ids: [], isNode: false };
+
+    const keyword = token.value.toLowerCase();
+    if (['graph', 'node', 'edge'].includes(keyword) && peek()?.value === '[') {
+      const attrs = parseAttributes();
+      if (keyword === 'graph') applyGraphAttributes(cluster, attrs);
+      return { ids: [], isNode: false };
+    }
+    if (accept('=')) {
+      applyGraphAttributes(cluster, { [keyword]: next()?.value ?? '' });
+      return { ids: [], isNode: false };
+    }
+
+    // Ports (node:port:compass) only affect edge anchoring
+    while (accept(':')) next();
+    const node = ensureNode(diagram, token.value, cluster);
+    // Nodes are often used in edges before their cluster lists them; the cluster still claims them
+    if (cluster) node.cluster = cluster;
+    members.push(token.value);
+    return { ids: [token.value], isNode: true };
+  };
+
+  const applyGraphAttributes = (cluster: string | null, attrs: Record<string, string>) => {
+    if (attrs.rankdir && !cluster) diagram.horizontal = /LR|RL/i.test(attrs.rankdir);
+    if (attrs.label && cluster) diagram.clusters.get(cluster)!.label = attrs.label;
+  };
+
+  accept('strict');
+  const kind = next();
+  if (!kind || !['graph', 'digraph'].includes(kind.value.toLowerCase())) {
+    throw new Error('Not a Graphviz file (expected "graph" or "digraph")');
+  }
+  if (peek()?.value !== '{') next();
+  expect('{');
+  parseStatements(null);
+  expect('}');
+  return diagram;
+}
+
+// --- draw.io ---------------------------------------------------------------------
+
+const stripHtml = (value: string) => {
+  if (!value) return '';
+  const withBreaks = value.replace(/<br\s*\/?>/gi, ' ').replace(/<\/(div|p)>/gi, ' ');
+  const text = new DOMParser().parseFromString(withBreaks, 'text/html').body.textContent || '';
+  return text.replace(/\s+/g, ' ').trim();
+};
+
+const styleValue = (style: string, key: string) => style.match(new RegExp(`(?:^|;)${key}=([^;]*)`))?.[1];
+
+const drawioShape = (style: string): NodeShape => {
+  const shape = styleValue(style, 'shape') ?? '';
+  if (/(^|;)ellipse(;|$)/.test(style) || shape === 'ellipse') return 'circle';
+  if (/(^|;)rhombus(;|$)/.test(style) || shape === 'rhombus') return 'diamond';
+  if (shape.startsWith('hexagon')) return 'hexagon';
+  if (shape.startsWith('cylinder') || shape === 'datastore') return 'cylinder';
+  return styleValue(style, 'rounded') === '1' ? 'rounded' : 'rect';
+};
+
+// Compressed diagrams are deflated, base64 encoded and URI encoded
+async function inflateDiagram(encoded: string): Promise<string> {
+  const bytes = Uint8Array.from(atob(encoded), (char) => char.charCodeAt(0));
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  const inflated = await new Response(stream).text();
+  return decodeURIComponent(inflated);
+}
+
+async function parseDrawio(text: string): Promise<ParsedDiagram> {
+  const diagram = emptyDiagram();
+  const parser = new DOMParser();
+  const doc = parser.parseFromString(text, 'text/xml');
+  if (doc.querySelector('parsererror')) throw new Error('Not a valid draw.io XML file');
+
+  let model = doc.querySelector('mxGraphModel');
+  if (!model) {
+    const encoded = doc.querySelector('diagram')?.textContent?.trim();
+    if (!encoded) throw new Error('No diagram found in draw.io file');
+    model = parser.parseFromString(await inflateDiagram(encoded), 'text/xml').querySelector('mxGraphModel');
+    if (!model) throw new Error('No diagram found in draw.io file');
+  }
+
+  interface Cell {
+    id: string;
+    value: string;
+    style: string;
+    parent: string | null;
+    vertex: boolean;
+    edge: boolean;
+    source: string | null;
+    target: string | null;
+    geometry: Rect;
+  }
+
+  const cells = new Map<string, Cell>();
+  model.querySelectorAll('mxCell').forEach((element) => {
+    // <object>/<UserObject> wrappers carry the id and label of custom-property cells
+    const wrapper = element.parentElement && ['object', 'UserObject'].includes(element.parentElement.tagName) ? element.parentElement : null;
+    const id = wrapper?.getAttribute('id') || element.getAttribute('id');
+    if (!id) return;
+    const geometry = element.querySelector('mxGeometry');
+    cells.set(id, {
+      id,
+      value: wrapper?.getAttribute('label') ?? element.getAttribute('value') ?? '',
+      style: element.getAttribute('style') || '',
+      parent: element.getAttribute('parent'),
+      vertex: element.getAttribute('vertex') === '1',
+      edge: element.getAttribute('edge') === '1',
+      source: element.getAttribute('source'),
+      target: element.getAttribute('target'),
+      geometry: {
+        x: parseFloat(geometry?.getAttribute('x') || '0'),
+        y: parseFloat(geometry?.getAttribute('y') || '0'),
+        width: parseFloat(geometry?.getAttribute('width') || '0'),
+        height: parseFloat(geometry?.getAttribute('height') || '0'),
+      },
+    });
+  });
+
+  const vertices = Array.from(cells.values()).filter((cell) => cell.vertex);
+  const parentIds = new Set(vertices.map((cell) => cell.parent));
+  const isContainer = (cell: Cell) =>
+    /(^|;)(swimlane|group)(;|$)/.test(cell.style) || styleValue(cell.style, 'container') === '1' || parentIds.has(cell.id);
+  const isEdgeLabel = (cell: Cell) => !!cell.parent && !!cells.get(cell.parent)?.edge;
+
+  // Child geometry is relative to its container
+  const absolute = (cell: Cell): Rect => {
+    const parent = cell.parent ? cells.get(cell.parent) : undefined;
+    if (!parent?.vertex) return cell.geometry;
+    const origin = absolute(parent);
+    return { ...cell.geometry, x: cell.geometry.x + origin.x, y: cell.geometry.y + origin.y };
+  };
+  const containerOf = (cell: Cell) => (cell.parent && cells.get(cell.parent)?.vertex ? cell.parent : null);
+
+  vertices.forEach((cell) => {
+    if (isEdgeLabel(cell)) return;
+    const rect = absolute(cell);
+    const label = stripHtml(cell.value);
+    if (isContainer(cell)) {
+      diagram.clusters.set(cell.id, { label, parent: containerOf(cell), rect });
+    } else if (/(^|;)text(;|$)/.test(cell.style)) {
+      if (label) diagram.labels.push({ text: label, x: rect.x, y: rect.y + rect.height / 2 });
+    } else {
+      const fill = styleValue(cell.style, 'fillColor');
+      diagram.nodes.set(cell.id, {
+        label: label || cell.id,
+        fill: fill && fill !== 'none' ? fill : undefined,
+        shape: drawioShape(cell.style),
+        cluster: containerOf(cell),
+        x: rect.x + rect.width / 2,
+        y: rect.y + rect.height / 2,
+      });
+    }
+  });
+
+  cells.forEach((cell) => {
+    if (!cell.edge || !cell.source || !cell.target) return;
+    if (!diagram.nodes.has(cell.source) || !diagram.nodes.has(cell.target)) return;
+    const childLabel = vertices.find((child) => child.parent === cell.id && child.value)?.value;
+    const label = stripHtml(cell.value || childLabel || '');
+    // draw.io edges end in an arrow unless the style turns it off
+    const hasEnd = (styleValue(cell.style, 'endArrow') ?? 'classic') !== 'none';
+    const hasStart = (styleValue(cell.style, 'startArrow') ?? 'none') !== 'none';
+    const direction: LinkDirection = hasStart && hasEnd ? 'both' : hasStart || hasEnd ? 'forward' : 'none';
+    const [source, target] = hasStart && !hasEnd ? [cell.target, cell.source] : [cell.source, cell.target];
+    const routing: LinkRouting | undefined = /orthogonal|elbow/i.test(styleValue(cell.style, 'edgeStyle') ?? '')
+      ? 'orthogonal'
+      : styleValue(cell.style, 'curved') === '1'
+        ? 'curved'
+        : undefined;
+    diagram.edges.push({ source, target, label: label || undefined, direction, routing });
+  });
+
+  return diagram;
+}
+
+// --- GraphData assembly -------------------------------------------------------------
+
+function toGraphData(diagram: ParsedDiagram): GraphData {
+  const nodes: GraphNode[] = Array.from(diagram.nodes.entries()).map(([id, node]) => {
+    // Circles are the default shape, so they are not stored
+    const shape = node.shape && node.shape !== 'circle' ? node.shape : undefined;
+    return {
+      id,
+      label: node.label,
+      group: 0,
+      x: node.x,
+      y: node.y,
+      appearance: node.fill || shape
+        ? { ...(node.fill ? { fill: node.fill, stroke: node.fill } : {}), ...(shape ? { shape } : {}) }
+        : undefined,
+      activeStates: [],
+      meta_data: {},
+    };
+  });
+
+  const links: GraphLink[] = assignLinkIds(diagram.edges.map((edge) => ({
+    source: edge.source,
+    target: edge.target,
+    ...(edge.direction && edge.direction !== 'forward' ? { direction: edge.direction } : {}),
+    ...(edge.routing ? { routing: edge.routing } : {}),
+    activeStates: [],
+    meta_data: edge.label ? { label: edge.label } : undefined,
+  })));
+
+  // Text formats carry no coordinates; lay them out and move the result into view
+  if (nodes.some((node) => node.x === undefined || node.y === undefined)) {
+    const positions = computeLayout({ nodes, links }, new Map(), diagram.horizontal ? 'layered-horizontal' : 'layered');
+    const points = Array.from(positions.values());
+    const minX = Math.min(...points.map((p) => p.x));
+    const minY = Math.min(...points.map((p) => p.y));
+    nodes.forEach((node) => {
+      const point = positions.get(node.id)!;
+      node.x = point.x - minX + CANVAS_MARGIN;
+      node.y = point.y - minY + CANVAS_MARGIN;
+    });
+  }
+
+  // Clusters without geometry wrap their members, innermost first
+  const zoneIds = new Map(Array.from(diagram.clusters.keys()).map((id) => [id, crypto.randomUUID()]));
+  const rects = new Map<string, Rect>();
+  const depth = (id: string): number => {
+    const parent = diagram.clusters.get(id)?.parent;
+    return parent ? depth(parent) + 1 : 0;
+  };
+  const clusterIds = Array.from(diagram.clusters.keys()).sort((a, b) => depth(b) - depth(a));
+
+  clusterIds.forEach((id) => {
+    const cluster = diagram.clusters.get(id)!;
+    if (cluster.rect) {
+      rects.set(id, cluster.rect);
+      return;
+    }
+    const boxes: Rect[] = [
+      ...nodes.filter((node) => diagram.nodes.get(node.id)!.cluster === id).map((node) => ({ x: node.x!, y: node.y!, width: 0, height: 0 })),
+      ...clusterIds.filter((child) => diagram.clusters.get(child)!.parent === id && rects.has(child)).map((child) => rects.get(child)!),
+    ];
+    if (boxes.length === 0) return;
+    const minX = Math.min(...boxes.map((b) => b.x)) - CLUSTER_PADDING;
+    const minY = Math.min(...boxes.map((b) => b.y)) - CLUSTER_PADDING - CLUSTER_TITLE_SPACE;
+    const maxX = Math.max(...boxes.map((b) => b.x + b.width)) + CLUSTER_PADDING;
+    const maxY = Math.max(...boxes.map((b) => b.y + b.height)) + CLUSTER_PADDING;
+    rects.set(id, { x: minX, y: minY, width: maxX - minX, height: maxY - minY });
+  });
+
+  const zones: EnvironmentZone[] = clusterIds
+    .filter((id) => rects.has(id))
+    .reverse() // Outer zones first so they render behind nested ones
+    .map((id) => ({
+      id: zoneIds.get(id)!,
+      label: diagram.clusters.get(id)!.label,
+      ...rects.get(id)!,
+      isLocked: true,
+      attachedElementIds: {
+        nodes: nodes.filter((node) => diagram.nodes.get(node.id)!.cluster === id).map((node) => node.id),
+        zones: clusterIds.filter((child) => diagram.clusters.get(child)!.parent === id && rects.has(child)).map((child) => zoneIds.get(child)!),
+        labels: [],
+      },
+    }));
+
+  const labels: EnvironmentLabel[] = diagram.labels.map((label) => ({
+    id: crypto.randomUUID(),
+    x: label.x,
+    y: label.y,
+    text: label.text,
+    fontSize: 16,
+  }));
+
+  return { nodes, links, environments: { zones, labels } };
+}
+
+// --- Public API -----------------------------------------------------------------------
+
+export function detectDiagramFormat(fileName: string, text: string): DiagramFormat | null {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'mmd' || extension === 'mermaid') return 'mermaid';
+  if (extension === 'dot' || extension === 'gv') return 'dot';
+  if (extension === 'drawio') return 'drawio';
+
+  const trimmed = text.trim();
+  if (trimmed.startsWith('<')) return 'drawio';
+  if (/^(strict\s+)?(di)?graph\b[^{]*\{/i.test(trimmed)) return 'dot';
+  if (/^(flowchart|graph)\b/m.test(trimmed) || /```mermaid/.test(trimmed)) return 'mermaid';
+  return null;
+}
+
+/**
+ * Converts a Mermaid flowchart, Graphviz DOT graph or draw.io diagram into
+ * GraphData. Subgraphs/clusters/containers become locked zones with their
+ * members attached, and edge labels are stored in the link's `meta_data.label`.
+ */
+export async function importDiagram(text: string, format: DiagramFormat): Promise<GraphData> {
+  let diagram: ParsedDiagram;
+  if (format === 'mermaid') {
+    // Markdown docs: use the first fenced mermaid block
+    const fenced = text.match(/```mermaid\s*\n([\s\S]*?)```/);
+    diagram = parseMermaid(fenced ? fenced[1] : text);
+  } else if (format === 'dot') {
+    diagram = parseDot(text);
+  } else {
+    diagram = await parseDrawio(text);
+  }
+  if (diagram.nodes.size === 0) throw new Error('The diagram does not contain any nodes');
+  return toGraphData(diagram);
+}
@@ -0,0 +1,15 @@
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = filename;
+  document.body.appendChild(anchor);
+  anchor.click();
+  anchor.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export function toFileName(name: string, extension: string): string {
+  const base = name.trim().replace(/[\\/:*?"<>|]+/g, '_') || 'graphflow';
+  return `${base}.${extension}`;
+}
@@ -0,0 +1,219 @@
+// Minimal streaming GIF89a encoder: one global 256-colour palette
+// (popularity-quantised over sample frames), LZW-compressed frames and an
+// infinite NETSCAPE loop. Frames are quantised and compressed as they are
+// added, so the caller never has to hold more than one RGBA frame.
+
+export interface GifPalette {
+  colors: Uint8Array; // 256 RGB triples
+  indexOf: (r: number, g: number, b: number) => number;
+}
+
+const MAX_COLORS = 256;
+const HISTOGRAM_STRIDE = 7;
+const CHUNK_SIZE = 1 << 16;
+
+const toKey = (r: number, g: number, b: number) => ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+
+/** Palette of the most common colours in `samples` (RGBA frames). */
+export function buildPalette(samples: Uint8ClampedArray[]): GifPalette {
+  const histogram = new Uint32Array(1 << 15);
+  samples.forEach((data) => {
+    for (let i = 0; i < data.length; i += 4 * HISTOGRAM_STRIDE) {
+      histogram[toKey(data[i], data[i + 1], data[i + 2])]++;
+    }
+  });
+
+  const used: number[] = [];
+  histogram.forEach((count, key) => {
+    if (count > 0) used.push(key);
+  });
+  used.sort((a, b) => histogram[b] - histogram[a]);
+  const chosen = Math.max(1, Math.min(used.length, MAX_COLORS));
+
+  const colors = new Uint8Array(MAX_COLORS * 3);
+  used.slice(0, MAX_COLORS).forEach((key, index) => {
+    colors[index * 3] = ((key >> 10) & 31) << 3;
+    colors[index * 3 + 1] = ((key >> 5) & 31) << 3;
+    colors[index * 3 + 2] = (key & 31) << 3;
+  });
+
+  const nearest = (key: number) => {
+    const r = ((key >> 10) & 31) << 3;
+    const g = ((key >> 5) & 31) << 3;
+    const b = (key & 31) << 3;
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let i = 0; i < chosen; i++) {
+      const dr = colors[i * 3] - r;
+      const dg = colors[i * 3 + 1] - g;
+      const db = colors[i * 3 + 2] - b;
+      const distance = dr * dr + dg * dg + db * db;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = i;
+        if (distance === 0) break;
+      }
+    }
+    return best;
+  };
+
+  // Each 15-bit colour is matched to the palette the first time it occurs
+  const lookup = new Uint8Array(1 << 15);
+  const resolved = new Uint8Array(1 << 15);
+  const indexOf = (r: number, g: number, b: number) => {
+    const key = toKey(r, g, b);
+    if (!resolved[key]) {
+      lookup[key] = nearest(key);
+      resolved[key] = 1;
+    }
+    return lookup[key];
+  };
+
+  return { colors, indexOf };
+}
+
+// Appends bytes to fixed-size chunks instead of one growing array
+class ByteWriter {
+  private chunks: Uint8Array[] = [];
+  private current = new Uint8Array(CHUNK_SIZE);
+  private length = 0;
+
+  byte(value: number) {
+    if (this.length === CHUNK_SIZE) {
+      this.chunks.push(this.current);
+      this.current = new Uint8Array(CHUNK_SIZE);
+      this.length = 0;
+    }
+    this.current[this.length++] = value & 0xff;
+  }
+
+  short(value: number) {
+    this.byte(value);
+    this.byte(value >> 8);
+  }
+
+  bytes(values: ArrayLike<number>) {
+    for (let i = 0; i < values.length; i++) this.byte(values[i]);
+  }
+
+  text(value: string) {
+    for (let i = 0; i < value.length; i++) this.byte(value.charCodeAt(i));
+  }
+
+  parts(): Uint8Array[] {
+    return [...this.chunks, this.current.subarray(0, this.length)];
+  }
+}
+
+// Writes the LZW code stream straight into 255-byte data sub-blocks
+function lzwEncode(indices: Uint8Array, minCodeSize: number, out: ByteWriter) {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const block = new Uint8Array(255);
+  let blockLength = 0;
+  let bitBuffer = 0;
+  let bitCount = 0;
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+
+  const flushBlock = () => {
+    out.byte(blockLength);
+    out.bytes(block.subarray(0, blockLength));
+    blockLength = 0;
+  };
+  const pushByte = (value: number) => {
+    block[blockLength++] = value;
+    if (blockLength === 255) flushBlock();
+  };
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      pushByte(bitBuffer & 0xff);
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const value = indices[i];
+    const key = (prefix << 8) | value;
+    const existing = table.get(key);
+    if (existing !== undefined) {
+      prefix = existing;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode === 4096) {
+      emit(clearCode);
+      table = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = value;
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) pushByte(bitBuffer & 0xff);
+  if (blockLength > 0) flushBlock();
+  out.byte(0);
+}
+
+export class GifEncoder {
+  private out = new ByteWriter();
+  private indices: Uint8Array;
+  private frameCount = 0;
+
+  constructor(private width: number, private height: number, private palette: GifPalette) {
+    this.indices = new Uint8Array(width * height);
+    const { out } = this;
+    out.text('GIF89a');
+    out.short(width);
+    out.short(height);
+    out.byte(0xf7); // global colour table, 8 bits per channel, 256 entries
+    out.byte(0);
+    out.byte(0);
+    out.bytes(palette.colors);
+
+    // NETSCAPE2.0 application extension: loop forever
+    out.bytes([0x21, 0xff, 0x0b]);
+    out.text('NETSCAPE2.0');
+    out.bytes([0x03, 0x01, 0x00, 0x00, 0x00]);
+  }
+
+  /** Quantises and compresses one RGBA frame; `data` is not kept. */
+  addFrame(data: Uint8ClampedArray, delayMs: number) {
+    const { out, indices, palette } = this;
+    for (let p = 0, i = 0; p < indices.length; p++, i += 4) {
+      indices[p] = palette.indexOf(data[i], data[i + 1], data[i + 2]);
+    }
+
+    out.bytes([0x21, 0xf9, 0x04, 0x04]);
+    out.short(Math.round(delayMs / 10));
+    out.bytes([0x00, 0x00]);
+
+    out.byte(0x2c);
+    out.short(0);
+    out.short(0);
+    out.short(this.width);
+    out.short(this.height);
+    out.byte(0);
+
+    out.byte(8);
+    lzwEncode(indices, 8, out);
+    this.frameCount++;
+  }
+
+  /** Ends the file and returns it as chunks, ready for a Blob. */
+  finish(): Uint8Array[] {
+    if (this.frameCount === 0) throw new Error('Cannot encode a GIF without frames');
+    this.out.byte(0x3b);
+    return this.out.parts();
+  }
+}
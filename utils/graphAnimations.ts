@@ -8,7 +8,12 @@ import {
   SimulationAction,
   ParallelStep,
   AtomicStep,
+  BranchStep,
+  BranchOutcome,
+  RepeatStep,
 } from '../types';
+import { findLinkPath } from './graphStyling';
+import { endpointId, findStepLink, stepRoute } from './linkGeometry';
 
 export interface AnimationContext {
   svgRef: React.RefObject<SVGSVGElement>;
@@ -18,12 +23,115 @@ export interface AnimationContext {
   isDirectorMode: boolean;
   updateStyles: () => void;
   onSimulationEnd?: (nodes: GraphNode[], links: GraphLink[]) => void;
+  onPlaybackUpdate?: () => void;
+  // Outcome name per branch id, taking precedence over the branch default
+  branchChoices?: Record<string, string>;
+  // Pause at branches with no choice or default instead of taking the first outcome
+  interactiveBranches?: boolean;
 }
 
-function applyNodeState(node: GraphNode | undefined, stateName: string | undefined): void {
+export interface PlaybackState {
+  time: number;
+  duration: number;
+  isPlaying: boolean;
+  speed: number;
+  // Start times of the top-level steps, used for step-back / step-forward
+  stepTimes: number[];
+  // The sequence being played; stepTimes[i] is the start of sequence.steps[i]
+  sequence: EventSequence;
+  // Branch the playhead is waiting on, if any
+  pendingBranch: BranchStep | null;
+}
+
+export interface AnimationPlayback {
+  play: () => void;
+  pause: () => void;
+  seek: (time: number) => void;
+  setSpeed: (speed: number) => void;
+  getState: () => PlaybackState;
+  chooseBranch: (branchId: string, outcome: string) => void;
+  kill: () => void;
+}
+
+// A state mutation scheduled on a (possibly nested) step timeline. Marks are
+// replayed in time order when seeking so activeStates match the playhead.
+interface StateMark {
+  timeline: gsap.core.Timeline;
+  position: number;
+  apply: () => void;
+}
+
+interface BranchMark {
+  step: BranchStep;
+  timeline: gsap.core.Timeline;
+  pending: boolean;
+}
+
+interface TimelineRecorder {
+  marks: StateMark[];
+  branches: BranchMark[];
+  packets: d3.Selection<SVGCircleElement, unknown, null, undefined>[];
+}
+
+function createRecorder(): TimelineRecorder {
+  return { marks: [], branches: [], packets: [] };
+}
+
+function addStateMark(
+  recorder: TimelineRecorder,
+  tl: gsap.core.Timeline,
+  position: number,
+  apply: () => void,
+  updateStyles: () => void,
+): void {
+  recorder.marks.push({ timeline: tl, position, apply });
+  tl.add(() => {
+    apply();
+    updateStyles();
+  }, position);
+}
+
+function getMarkTime(mark: Pick<StateMark, 'timeline' | 'position'>, master: gsap.core.Timeline): number {
+  let time = mark.position;
+  let anim: gsap.core.Animation | null = mark.timeline;
+  while (anim && anim !== master) {
+    time = anim.startTime() + time / (anim.timeScale() || 1);
+    anim = anim.parent;
+  }
+  return time;
+}
+
+// Adds a state, first dropping any state the theme marks as mutually exclusive with it
+function addState(states: string[], stateName: string, theme: ThemeConfig): string[] {
+  const exclusive = new Set<string>();
+  theme.exclusiveStateGroups?.forEach((group) => {
+    if (group.includes(stateName)) group.forEach((name) => exclusive.add(name));
+  });
+  const next = states.filter((name) => name === stateName || !exclusive.has(name));
+  if (!next.includes(stateName)) next.push(stateName);
+  return next;
+}
+
+function applyNodeState(node: GraphNode | undefined, stateName: string | undefined, theme: ThemeConfig): void {
   if (!node || !stateName) return;
-  node.activeStates = node.activeStates || [];
-  if (!node.activeStates.includes(stateName)) node.activeStates.push(stateName);
+  node.activeStates = addState(node.activeStates || [], stateName, theme);
+}
+
+function applyNodeStateEdits(node: GraphNode | undefined, step: AtomicStep, theme: ThemeConfig): void {
+  if (!node) return;
+  let states = node.activeStates || [];
+  if (step.clearNodeStates) states = [];
+  if (step.removeNodeState) {
+    const removed = Array.isArray(step.removeNodeState) ? step.removeNodeState : [step.removeNodeState];
+    states = states.filter((name) => !removed.includes(name));
+  }
+  if (step.setNodeState) states = [step.setNodeState];
+  if (step.toggleNodeState) {
+    states = states.includes(step.toggleNodeState)
+      ? states.filter((name) => name !== step.toggleNodeState)
+      : addState(states, step.toggleNodeState, theme);
+  }
+  node.activeStates = states;
 }
 
 function ensureAnimLayer(context: AnimationContext): d3.Selection<SVGGElement, unknown, null, undefined> | null {
@@ -37,8 +145,56 @@ function ensureAnimLayer(context: AnimationContext): d3.Selection<SVGGElement, u
   return layer;
 }
 
-function createPacket(animLayer: d3.Selection<any, unknown, null, undefined>, color: string, radius: number, source: GraphNode, isDirectorMode: boolean) {
-  return animLayer
+// One leg of a packet's route, and the link drawn between its nodes if any
+interface Hop {
+  from: GraphNode;
+  to: GraphNode;
+  link: GraphLink | undefined;
+}
+
+function resolveHops(step: AtomicStep, context: AnimationContext): Hop[] | null {
+  const nodes = stepRoute(step).map((id) => context.nodesRef.current.find((n) => n.id === id));
+  if (nodes.some((node) => !node)) return null;
+  // linkId names a link between from and to, so it only applies to direct steps
+  const linkId = step.via?.length ? undefined : step.linkId;
+  return nodes.slice(1).map((to, i) => ({
+    from: nodes[i]!,
+    to: to!,
+    link: findStepLink(context.linksRef.current, nodes[i]!.id, to!.id, linkId),
+  }));
+}
+
+/**
+ * Point `progress` (0..1) of the way along a hop. The link's rendered path is
+ * read each time, so packets follow curves, routes and nodes that are still
+ * moving; hops without a link go straight between the nodes.
+ */
+function hopPoint(context: AnimationContext, hop: Hop, progress: number): { x: number; y: number } {
+  const { link } = hop;
+  const path = link ? findLinkPath(context.svgRef.current, link) : null;
+  if (link && path) {
+    const length = path.getTotalLength();
+    const forward = endpointId(link.source) === hop.from.id;
+    const point = path.getPointAtLength(length * (forward ? progress : 1 - progress));
+    return { x: point.x, y: point.y };
+  }
+  const x0 = hop.from.x || 0;
+  const y0 = hop.from.y || 0;
+  return { x: x0 + ((hop.to.x || 0) - x0) * progress, y: y0 + ((hop.to.y || 0) - y0) * progress };
+}
+
+// Node pulses scale the node body (shape, icon and image) about the node centre
+const NODE_PULSE: gsap.TweenVars = { svgOrigin: '0 0' };
+
+function createPacket(
+  animLayer: d3.Selection<any, unknown, null, undefined>,
+  recorder: TimelineRecorder,
+  color: string,
+  radius: number,
+  source: GraphNode,
+  isDirectorMode: boolean,
+) {
+  const packet = animLayer
     .append('circle')
     .attr('r', radius)
     .attr('fill', color)
@@ -47,20 +203,46 @@ function createPacket(animLayer: d3.Selection<any, unknown, null, undefined>, co
     .attr('cx', source.x || 0)
     .attr('cy', source.y || 0)
     .attr('opacity', 0);
+  recorder.packets.push(packet);
+  return packet;
+}
+
+function applyLinkState(context: AnimationContext, step: AtomicStep, hops: Hop[]): void {
+  if (!step.linkStyle) return;
+  hops.forEach(({ link }) => {
+    if (link) link.activeStates = addState(link.activeStates || [], step.linkStyle!, context.theme);
+  });
+}
+
+function resetToInitialStates(sequence: EventSequence, context: AnimationContext): void {
+  context.nodesRef.current.forEach((node) => {
+    node.activeStates = [];
+  });
+  context.linksRef.current.forEach((link) => {
+    link.activeStates = [];
+  });
+
+  if (sequence.initNodes) {
+    sequence.initNodes.forEach((init) => {
+      const node = context.nodesRef.current.find((n) => n.id === init.id);
+      applyNodeState(node, init.nodeState, context.theme);
+    });
+  }
 }
 
 function buildAtomicTimeline(
   step: AtomicStep,
   animLayer: d3.Selection<any, unknown, null, undefined>,
   context: AnimationContext,
-  masterTl: gsap.core.Timeline,
+  recorder: TimelineRecorder,
 ): gsap.core.Timeline {
-  const { nodesRef, linksRef, theme, isDirectorMode, updateStyles } = context;
+  const { nodesRef, theme, isDirectorMode, updateStyles } = context;
   const tl = gsap.timeline({ delay: step.delay || 0 });
 
-  const sourceNode = nodesRef.current.find((n) => n.id === step.from);
-  const targetNode = nodesRef.current.find((n) => n.id === step.to);
-  if (!sourceNode || !targetNode) return tl;
+  const hops = resolveHops(step, context);
+  if (!hops) return tl;
+  const sourceNode = hops[0].from;
+  const targetNode = hops[hops.length - 1].to;
 
   const linkStyleDef = step.linkStyle ? theme.linkStyles?.[step.linkStyle] : null;
   const linkAnimConfig = linkStyleDef?.animation || {};
@@ -69,73 +251,91 @@ function buildAtomicTimeline(
   const packetColor = linkAnimConfig.packetColor || (isDirectorMode ? '#a855f7' : '#ef4444');
   const packetRadius = linkAnimConfig.packetRadius || 6;
   const travelDuration = step.duration || linkAnimConfig.duration || 1;
+  // Every hop takes an equal share of the travel time
+  const hopDuration = travelDuration / hops.length;
 
-  const packet = createPacket(animLayer, packetColor, packetRadius, sourceNode, isDirectorMode);
-
-  tl.to(`#node-${sourceNode.id}`, { attr: { r: 24 }, duration: 0.2, yoyo: true, repeat: 1 }, 0);
-  tl.to(packet.node(), { opacity: 1, duration: 0.1 }, 0);
-  tl.to(
-    packet.node(),
-    {
-      attr: { cx: targetNode.x || 0, cy: targetNode.y || 0 },
-      duration: travelDuration,
-      ease: 'power1.inOut',
-      onComplete: () => packet.remove(),
-    },
-    0,
-  );
+  const packet = createPacket(animLayer, recorder, packetColor, packetRadius, sourceNode, isDirectorMode);
+  const packetElement = packet.node()!;
 
-  tl.add(() => {
-    if (step.linkStyle) {
-      const svg = d3.select(context.svgRef.current);
-      const forwardId = `#link-group-${step.from}-${step.to}`;
-      const reverseId = `#link-group-${step.to}-${step.from}`;
-      let linkGroup = svg.select(forwardId);
-      if (linkGroup.empty()) linkGroup = svg.select(reverseId);
-      if (!linkGroup.empty()) {
-        const datum = linkGroup.datum() as GraphLink | undefined;
-        if (datum) {
-          datum.activeStates = datum.activeStates || [];
-          if (!datum.activeStates.includes(step.linkStyle!)) datum.activeStates.push(step.linkStyle!);
-        }
-      }
-    }
+  tl.to(`#node-${sourceNode.id}`, { ...NODE_PULSE, scale: 1.2, duration: 0.2, yoyo: true, repeat: 1 }, 0);
+  tl.to(packetElement, { opacity: 1, duration: 0.1 }, 0);
+  hops.forEach((hop, i) => {
+    // The position is recomputed in a modifier rather than onUpdate, since
+    // seeking renders with callbacks suppressed
+    const travel = { progress: 0 };
+    tl.to(
+      travel,
+      {
+        progress: 1,
+        duration: hopDuration,
+        ease: hops.length > 1 ? 'none' : 'power1.inOut',
+        modifiers: {
+          progress: (value: number) => {
+            const point = hopPoint(context, hop, value);
+            packetElement.setAttribute('cx', String(point.x));
+            packetElement.setAttribute('cy', String(point.y));
+            return value;
+          },
+        },
+      },
+      hopDuration * i,
+    );
+    if (i > 0) tl.to(`#node-${hop.from.id}`, { ...NODE_PULSE, scale: 1.2, duration: 0.2, yoyo: true, repeat: 1 }, hopDuration * i);
+  });
+  // Hide rather than remove, so seeking backwards can bring the packet back
+  tl.set(packetElement, { opacity: 0 }, travelDuration);
 
-    if (step.targetNodeState) {
+  addStateMark(
+    recorder,
+    tl,
+    travelDuration,
+    () => {
+      applyLinkState(context, step, hops);
       const node = nodesRef.current.find((n) => n.id === step.to);
-      applyNodeState(node, step.targetNodeState);
-    }
-
-    updateStyles();
-  }, travelDuration);
+      applyNodeStateEdits(node, step, theme);
+      applyNodeState(node, step.targetNodeState, theme);
+    },
+    updateStyles,
+  );
 
   if (step.processingNodeState) {
-    tl.add(() => {
-      const target = nodesRef.current.find((n) => n.id === step.to);
-      applyNodeState(target, step.processingNodeState);
-      updateStyles();
-    }, travelDuration + (step.durationProcessing || 0.4));
+    addStateMark(
+      recorder,
+      tl,
+      travelDuration + (step.durationProcessing || 0.4),
+      () => {
+        const target = nodesRef.current.find((n) => n.id === step.to);
+        applyNodeState(target, step.processingNodeState, theme);
+      },
+      updateStyles,
+    );
   }
 
   if (step.finalNodeState) {
-    tl.add(() => {
-      const target = nodesRef.current.find((n) => n.id === step.to);
-      applyNodeState(target, step.finalNodeState);
-      updateStyles();
-    }, travelDuration + (step.durationProcessing || 0.4) + (step.durationFinal || 0.4));
+    addStateMark(
+      recorder,
+      tl,
+      travelDuration + (step.durationProcessing || 0.4) + (step.durationFinal || 0.4),
+      () => {
+        const target = nodesRef.current.find((n) => n.id === step.to);
+        applyNodeState(target, step.finalNodeState, theme);
+      },
+      updateStyles,
+    );
   }
 
   if (nodeAnimConfig.scale || nodeAnimConfig.durationIn) {
     const selector = `#node-${targetNode.id}`;
     const animDuration = nodeAnimConfig.durationIn || 0.3;
     const animVars: gsap.TweenVars = {
+      ...NODE_PULSE,
       duration: animDuration,
       yoyo: true,
       repeat: 1,
       ease: 'back.out(1.7)',
     };
     if (nodeAnimConfig.scale) {
-      animVars.attr = { r: 20 * nodeAnimConfig.scale };
+      animVars.scale = nodeAnimConfig.scale;
     }
     tl.to(selector, animVars, travelDuration);
   }
@@ -143,64 +343,208 @@ function buildAtomicTimeline(
   return tl;
 }
 
+const MAX_REPEAT_COUNT = 500;
+
+function buildRepeatTimeline(
+  step: RepeatStep,
+  animLayer: d3.Selection<any, unknown, null, undefined>,
+  context: AnimationContext,
+  recorder: TimelineRecorder,
+): gsap.core.Timeline {
+  const timeline = gsap.timeline({ delay: step.delay || 0 });
+  const count = Math.min(Math.max(Math.floor(step.count) || 0, 0), MAX_REPEAT_COUNT);
+  let gap = step.interval || 0;
+
+  // Each iteration gets freshly built child timelines so packets and state
+  // marks are recorded per pass, which keeps seeking exact.
+  for (let i = 0; i < count; i++) {
+    const iteration = gsap.timeline();
+    step.steps.forEach((inner) => {
+      iteration.add(createStepTimeline(inner, animLayer, context, recorder));
+    });
+    timeline.add(iteration, i === 0 ? 0 : `+=${gap}`);
+    if (i > 0) gap *= step.backoff || 1;
+  }
+  return timeline;
+}
+
+function resolveBranchOutcome(step: BranchStep, context: AnimationContext): BranchOutcome | null {
+  const chosen = context.branchChoices?.[step.id] ?? step.defaultOutcome;
+  const outcome = step.outcomes.find((o) => o.name === chosen);
+  if (outcome) return outcome;
+  return context.interactiveBranches ? null : step.outcomes[0] || null;
+}
+
 function createStepTimeline(
   step: SimulationAction,
   animLayer: d3.Selection<any, unknown, null, undefined>,
   context: AnimationContext,
-  masterTl: gsap.core.Timeline,
+  recorder: TimelineRecorder,
 ): gsap.core.Timeline {
   if (step.type === 'parallel') {
     const timeline = gsap.timeline({ delay: step.delay || 0 });
     (step as ParallelStep).steps.forEach((inner) => {
-      timeline.add(createStepTimeline(inner, animLayer, context, masterTl), 0);
+      timeline.add(createStepTimeline(inner, animLayer, context, recorder), 0);
+    });
+    return timeline;
+  }
+
+  if (step.type === 'repeat') {
+    return buildRepeatTimeline(step, animLayer, context, recorder);
+  }
+
+  if (step.type === 'branch') {
+    // Only the resolved outcome is laid out; an unresolved branch stays
+    // empty and the playback pauses on it until an outcome is chosen.
+    const timeline = gsap.timeline({ delay: step.delay || 0 });
+    const outcome = resolveBranchOutcome(step, context);
+    recorder.branches.push({ step, timeline, pending: !outcome });
+    outcome?.steps.forEach((inner) => {
+      timeline.add(createStepTimeline(inner, animLayer, context, recorder));
     });
     return timeline;
   }
 
-  return buildAtomicTimeline(step as AtomicStep, animLayer, context, masterTl);
+  return buildAtomicTimeline(step as AtomicStep, animLayer, context, recorder);
 }
 
-export function runAnimationSequence(sequence: EventSequence, context: AnimationContext): void {
+export function runAnimationSequence(sequence: EventSequence, context: AnimationContext): AnimationPlayback | null {
   const animLayer = ensureAnimLayer(context);
-  if (!animLayer) return;
+  if (!animLayer) return null;
 
-  context.nodesRef.current.forEach((node) => {
-    node.activeStates = [];
-  });
-  context.linksRef.current.forEach((link) => {
-    link.activeStates = [];
-  });
+  resetToInitialStates(sequence, context);
+  context.updateStyles();
 
-  if (sequence.initNodes) {
-    sequence.initNodes.forEach((init) => {
-      const node = context.nodesRef.current.find((n) => n.id === init.id);
-      applyNodeState(node, init.nodeState);
+  const branchChoices: Record<string, string> = { ...context.branchChoices };
+  let speed = 1;
+  let pendingBranch: BranchStep | null = null;
+  let recorder = createRecorder();
+  let masterTl = gsap.timeline({ paused: true });
+  let stepTimes: number[] = [];
+  let timedMarks: { time: number; apply: () => void }[] = [];
+  let branchTimes = new Map<string, number>();
+
+  // Lays out the whole sequence for the current branch choices. Called again
+  // whenever a choice changes, since GSAP timelines cannot be re-routed.
+  const build = () => {
+    recorder = createRecorder();
+    masterTl = gsap.timeline({
+      paused: true,
+      onUpdate: () => context.onPlaybackUpdate?.(),
+      onComplete: () => {
+        context.onPlaybackUpdate?.();
+        if (!context.onSimulationEnd) return;
+        const cleanNodes = context.nodesRef.current.map((n) => ({ ...n, vx: undefined, vy: undefined, index: undefined }));
+        const cleanLinks = context.linksRef.current.map((l) => ({
+          ...l,
+          source: (l.source as any).id || l.source,
+          target: (l.target as any).id || l.target,
+        }));
+        context.onSimulationEnd(cleanNodes, cleanLinks);
+      },
     });
-  }
+    masterTl.timeScale(speed);
 
-  context.updateStyles();
+    const buildContext: AnimationContext = { ...context, branchChoices };
+    sequence.steps.forEach((step) => {
+      masterTl.add(createStepTimeline(step, animLayer, buildContext, recorder));
+    });
 
-  const masterTl = gsap.timeline({
-    onComplete: () => {
-      if (!context.onSimulationEnd) return;
-      const cleanNodes = context.nodesRef.current.map((n) => ({ ...n, vx: undefined, vy: undefined, index: undefined }));
-      const cleanLinks = context.linksRef.current.map((l) => ({
-        ...l,
-        source: (l.source as any).id || l.source,
-        target: (l.target as any).id || l.target,
-      }));
-      context.onSimulationEnd(cleanNodes, cleanLinks);
-    },
-  });
+    stepTimes = masterTl.getChildren(false, false, true).map((child) => child.startTime());
+    timedMarks = recorder.marks
+      .map((mark) => ({ time: getMarkTime(mark, masterTl), apply: mark.apply }))
+      .sort((a, b) => a.time - b.time);
+    // A branch repeated inside a loop resumes from its first occurrence
+    branchTimes = new Map();
+    recorder.branches.forEach((branch) => {
+      if (!branchTimes.has(branch.step.id)) {
+        branchTimes.set(branch.step.id, getMarkTime({ timeline: branch.timeline, position: 0 }, masterTl));
+      }
+    });
 
-  sequence.steps.forEach((step) => {
-    masterTl.add(createStepTimeline(step, animLayer, context, masterTl));
-  });
+    recorder.branches
+      .filter((branch) => branch.pending)
+      .forEach((branch) => {
+        branch.timeline.call(
+          () => {
+            masterTl.pause();
+            pendingBranch = branch.step;
+            context.onPlaybackUpdate?.();
+          },
+          undefined,
+          0,
+        );
+      });
+  };
+
+  const seek = (time: number) => {
+    const target = Math.max(0, Math.min(time, masterTl.duration()));
+    pendingBranch = null;
+    resetToInitialStates(sequence, context);
+    timedMarks.forEach((mark) => {
+      if (mark.time <= target) mark.apply();
+    });
+    masterTl.seek(target, true);
+    context.updateStyles();
+    context.onPlaybackUpdate?.();
+  };
+
+  const teardown = () => {
+    masterTl.kill();
+    recorder.packets.forEach((packet) => packet.remove());
+  };
+
+  build();
+  masterTl.play();
+
+  return {
+    play: () => {
+      // A waiting branch resumes through chooseBranch, once an outcome is picked
+      if (pendingBranch) return;
+      if (masterTl.progress() >= 1) seek(0);
+      masterTl.play();
+      context.onPlaybackUpdate?.();
+    },
+    pause: () => {
+      masterTl.pause();
+      context.onPlaybackUpdate?.();
+    },
+    seek,
+    setSpeed: (value: number) => {
+      speed = value > 0 ? value : 1;
+      masterTl.timeScale(speed);
+      context.onPlaybackUpdate?.();
+    },
+    getState: () => ({
+      time: masterTl.time(),
+      duration: masterTl.duration(),
+      isPlaying: masterTl.isActive(),
+      speed,
+      stepTimes,
+      sequence,
+      pendingBranch,
+    }),
+    chooseBranch: (branchId: string, outcome: string) => {
+      const resume = pendingBranch?.id === branchId || masterTl.isActive();
+      const resumeAt = branchTimes.get(branchId) ?? masterTl.time();
+      branchChoices[branchId] = outcome;
+      teardown();
+      build();
+      seek(resumeAt);
+      if (resume) masterTl.play();
+      context.onPlaybackUpdate?.();
+    },
+    kill: teardown,
+  };
 }
 
 export function runSingleAnimationStep(step: SimulationAction, context: AnimationContext): void {
   const animLayer = ensureAnimLayer(context);
   if (!animLayer) return;
-  const timeline = createStepTimeline(step, animLayer, context, gsap.timeline());
+  const recorder = createRecorder();
+  const timeline = createStepTimeline(step, animLayer, context, recorder);
+  timeline.eventCallback('onComplete', () => {
+    recorder.packets.forEach((packet) => packet.remove());
+  });
   timeline.play();
 }
@@ -0,0 +1,307 @@
+import { EnvironmentZone, GraphData } from '../types';
+import { endpointId } from './linkGeometry';
+
+export type LayoutAlgorithm = 'layered' | 'layered-horizontal' | 'grid' | 'radial';
+
+export interface LayoutPoint {
+  x: number;
+  y: number;
+}
+
+type Edge = [string, string];
+type Positions = Map<string, LayoutPoint>;
+
+const NODE_SPACING = 140;
+const LAYER_SPACING = 160;
+const RING_SPACING = 150;
+const COMPONENT_GAP = 200;
+const ZONE_PADDING = 50;
+const CROSSING_SWEEPS = 4;
+
+// --- Layered (Sugiyama) -------------------------------------------------------
+
+// Reverses DFS back edges so the graph becomes acyclic
+function breakCycles(ids: string[], edges: Edge[]): Edge[] {
+  const outgoing = new Map<string, string[]>(ids.map((id) => [id, []]));
+  edges.forEach(([s, t]) => outgoing.get(s)?.push(t));
+  const state = new Map<string, 'visiting' | 'done'>();
+  const backEdges = new Set<string>();
+
+  const visit = (id: string) => {
+    state.set(id, 'visiting');
+    outgoing.get(id)!.forEach((next) => {
+      if (state.get(next) === 'visiting') backEdges.add(`${id}->${next}`);
+      else if (!state.has(next)) visit(next);
+    });
+    state.set(id, 'done');
+  };
+  ids.forEach((id) => { if (!state.has(id)) visit(id); });
+
+  return edges.map(([s, t]) => (backEdges.has(`${s}->${t}`) ? [t, s] : [s, t]));
+}
+
+// Longest-path layering: every node sits one layer below its deepest predecessor
+function assignLayers(ids: string[], edges: Edge[]): Map<string, number> {
+  const incoming = new Map<string, string[]>(ids.map((id) => [id, []]));
+  const outgoing = new Map<string, string[]>(ids.map((id) => [id, []]));
+  edges.forEach(([s, t]) => {
+    outgoing.get(s)!.push(t);
+    incoming.get(t)!.push(s);
+  });
+
+  const layer = new Map<string, number>();
+  const pending = new Map(ids.map((id) => [id, incoming.get(id)!.length]));
+  const queue = ids.filter((id) => pending.get(id) === 0);
+  queue.forEach((id) => layer.set(id, 0));
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    outgoing.get(id)!.forEach((next) => {
+      layer.set(next, Math.max(layer.get(next) ?? 0, layer.get(id)! + 1));
+      pending.set(next, pending.get(next)! - 1);
+      if (pending.get(next) === 0) queue.push(next);
+    });
+  }
+  return layer;
+}
+
+function layeredLayout(ids: string[], edges: Edge[], horizontal: boolean): Positions {
+  const acyclic = breakCycles(ids, edges.filter(([s, t]) => s !== t));
+  const layerOf = assignLayers(ids, acyclic);
+
+  // Long edges are split with dummy nodes so crossing reduction sees every layer they cross
+  const neighbours = new Map<string, { up: string[]; down: string[] }>();
+  const ensure = (id: string) => {
+    if (!neighbours.has(id)) neighbours.set(id, { up: [], down: [] });
+    return neighbours.get(id)!;
+  };
+  ids.forEach(ensure);
+  let dummyCount = 0;
+  acyclic.forEach(([s, t]) => {
+    let previous = s;
+    for (let l = layerOf.get(s)! + 1; l < layerOf.get(t)!; l++) {
+      const dummy = `__dummy_${dummyCount++}`;
+      layerOf.set(dummy, l);
+      ensure(previous).down.push(dummy);
+      ensure(dummy).up.push(previous);
+      previous = dummy;
+    }
+    ensure(previous).down.push(t);
+    ensure(t).up.push(previous);
+  });
+
+  const layers: string[][] = [];
+  neighbours.forEach((_, id) => {
+    const l = layerOf.get(id) ?? 0;
+    (layers[l] ||= []).push(id);
+  });
+
+  // Barycenter heuristic, alternating downward and upward sweeps
+  const order = new Map<string, number>();
+  const indexLayer = (layerIds: string[]) => layerIds.forEach((id, i) => order.set(id, i));
+  layers.forEach(indexLayer);
+
+  const reorder = (layerIds: string[], direction: 'up' | 'down') => {
+    const barycenter = (id: string) => {
+      const linked = neighbours.get(id)![direction];
+      if (linked.length === 0) return order.get(id)!;
+      return linked.reduce((sum, other) => sum + order.get(other)!, 0) / linked.length;
+    };
+    const scored = layerIds.map((id) => ({ id, score: barycenter(id) }));
+    scored.sort((a, b) => a.score - b.score);
+    const sorted = scored.map((entry) => entry.id);
+    indexLayer(sorted);
+    return sorted;
+  };
+
+  for (let sweep = 0; sweep < CROSSING_SWEEPS; sweep++) {
+    for (let l = 1; l < layers.length; l++) layers[l] = reorder(layers[l], 'up');
+    for (let l = layers.length - 2; l >= 0; l--) layers[l] = reorder(layers[l], 'down');
+  }
+
+  const positions: Positions = new Map();
+  layers.forEach((layerIds, l) => {
+    layerIds.forEach((id, i) => {
+      if (id.startsWith('__dummy_')) return;
+      const across = (i - (layerIds.length - 1) / 2) * NODE_SPACING;
+      const along = l * LAYER_SPACING;
+      positions.set(id, horizontal ? { x: along, y: across } : { x: across, y: along });
+    });
+  });
+  return positions;
+}
+
+// --- Grid & radial ----------------------------------------------------------------
+
+// Breadth-first order per connected component, so linked nodes end up close together
+function components(ids: string[], edges: Edge[]): string[][] {
+  const adjacency = new Map<string, string[]>(ids.map((id) => [id, []]));
+  edges.forEach(([s, t]) => {
+    adjacency.get(s)?.push(t);
+    adjacency.get(t)?.push(s);
+  });
+  const seen = new Set<string>();
+  const result: string[][] = [];
+  ids.forEach((start) => {
+    if (seen.has(start)) return;
+    const component: string[] = [];
+    const queue = [start];
+    seen.add(start);
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      component.push(id);
+      adjacency.get(id)!.forEach((next) => {
+        if (!seen.has(next)) {
+          seen.add(next);
+          queue.push(next);
+        }
+      });
+    }
+    result.push(component);
+  });
+  return result;
+}
+
+function gridLayout(ids: string[], edges: Edge[]): Positions {
+  const ordered = components(ids, edges).flat();
+  const columns = Math.max(1, Math.ceil(Math.sqrt(ordered.length)));
+  return new Map(ordered.map((id, i) => [id, { x: (i % columns) * NODE_SPACING, y: Math.floor(i / columns) * NODE_SPACING }]));
+}
+
+// Each component is a BFS tree around its best-connected node; subtrees get
+// angular wedges proportional to their leaf count. Components sit side by side.
+function radialLayout(ids: string[], edges: Edge[]): Positions {
+  const adjacency = new Map<string, string[]>(ids.map((id) => [id, []]));
+  edges.forEach(([s, t]) => {
+    if (s === t) return;
+    adjacency.get(s)?.push(t);
+    adjacency.get(t)?.push(s);
+  });
+
+  const positions: Positions = new Map();
+  let cursorX = 0;
+
+  components(ids, edges).forEach((component) => {
+    const root = component.reduce((best, id) => (adjacency.get(id)!.length > adjacency.get(best)!.length ? id : best));
+    const children = new Map<string, string[]>();
+    const depth = new Map<string, number>([[root, 0]]);
+    const queue = [root];
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      children.set(id, []);
+      adjacency.get(id)!.forEach((next) => {
+        if (depth.has(next)) return;
+        depth.set(next, depth.get(id)! + 1);
+        children.get(id)!.push(next);
+        queue.push(next);
+      });
+    }
+
+    const leaves = new Map<string, number>();
+    const countLeaves = (id: string): number => {
+      const kids = children.get(id)!;
+      const count = kids.length === 0 ? 1 : kids.reduce((sum, kid) => sum + countLeaves(kid), 0);
+      leaves.set(id, count);
+      return count;
+    };
+    countLeaves(root);
+
+    const local: Positions = new Map();
+    const placeSubtree = (id: string, start: number, end: number) => {
+      const angle = (start + end) / 2;
+      const radius = depth.get(id)! * RING_SPACING;
+      local.set(id, { x: Math.cos(angle) * radius, y: Math.sin(angle) * radius });
+      let cursor = start;
+      children.get(id)!.forEach((kid) => {
+        const span = ((end - start) * leaves.get(kid)!) / leaves.get(id)!;
+        placeSubtree(kid, cursor, cursor + span);
+        cursor += span;
+      });
+    };
+    placeSubtree(root, -Math.PI / 2, (3 * Math.PI) / 2);
+
+    const extent = Math.max(...Array.from(depth.values())) * RING_SPACING;
+    local.forEach((point, id) => positions.set(id, { x: point.x + cursorX + extent, y: point.y }));
+    cursorX += extent * 2 + COMPONENT_GAP;
+  });
+  return positions;
+}
+
+// --- Zone-aware driver -----------------------------------------------------------
+
+function runAlgorithm(algorithm: LayoutAlgorithm, ids: string[], edges: Edge[]): Positions {
+  switch (algorithm) {
+    case 'layered': return layeredLayout(ids, edges, false);
+    case 'layered-horizontal': return layeredLayout(ids, edges, true);
+    case 'grid': return gridLayout(ids, edges);
+    case 'radial': return radialLayout(ids, edges);
+  }
+}
+
+function bounds(points: LayoutPoint[]) {
+  const xs = points.map((p) => p.x);
+  const ys = points.map((p) => p.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  return { minX, minY, width: Math.max(...xs) - minX, height: Math.max(...ys) - minY };
+}
+
+function centroid(points: LayoutPoint[]): LayoutPoint {
+  const sum = points.reduce((acc, p) => ({ x: acc.x + p.x, y: acc.y + p.y }), { x: 0, y: 0 });
+  return { x: sum.x / points.length, y: sum.y / points.length };
+}
+
+// Shifts (and, if `fit` is given, shrinks) a layout so it is centred on `center`
+function place(layout: Positions, center: LayoutPoint, fit?: { width: number; height: number }): Positions {
+  const box = bounds(Array.from(layout.values()));
+  const scale = fit
+    ? Math.min(1, box.width > 0 ? fit.width / box.width : 1, box.height > 0 ? fit.height / box.height : 1)
+    : 1;
+  const result: Positions = new Map();
+  layout.forEach((point, id) => {
+    result.set(id, {
+      x: center.x + (point.x - box.minX - box.width / 2) * scale,
+      y: center.y + (point.y - box.minY - box.height / 2) * scale,
+    });
+  });
+  return result;
+}
+
+/**
+ * Lays out the graph with the given algorithm. Nodes attached to a zone are
+ * laid out among themselves and fitted inside that zone; the remaining nodes
+ * are laid out together and centred where they were before.
+ */
+export function computeLayout(data: GraphData, current: Map<string, LayoutPoint>, algorithm: LayoutAlgorithm): Positions {
+  const zones = data.environments?.zones || [];
+  const owner = new Map<string, EnvironmentZone>();
+  zones.forEach((zone) => {
+    zone.attachedElementIds?.nodes.forEach((id) => { if (!owner.has(id)) owner.set(id, zone); });
+  });
+
+  const groups = new Map<EnvironmentZone | null, string[]>();
+  data.nodes.forEach((node) => {
+    const zone = owner.get(node.id) || null;
+    if (!groups.has(zone)) groups.set(zone, []);
+    groups.get(zone)!.push(node.id);
+  });
+
+  const edges: Edge[] = data.links.map((link) => [endpointId(link.source), endpointId(link.target)]);
+  const result: Positions = new Map();
+
+  groups.forEach((ids, zone) => {
+    const members = new Set(ids);
+    const layout = runAlgorithm(algorithm, ids, edges.filter(([s, t]) => members.has(s) && members.has(t)));
+    if (layout.size === 0) return;
+
+    const placed = zone
+      ? place(
+          layout,
+          { x: zone.x + zone.width / 2, y: zone.y + zone.height / 2 },
+          { width: Math.max(zone.width - ZONE_PADDING * 2, 0), height: Math.max(zone.height - ZONE_PADDING * 2, 0) },
+        )
+      : place(layout, centroid(ids.map((id) => current.get(id) || { x: 0, y: 0 })));
+    placed.forEach((point, id) => result.set(id, point));
+  });
+  return result;
+}
@@ -1,9 +1,25 @@
 import * as d3 from 'd3';
-import { GraphNode, GraphLink, ThemeConfig } from '../types';
+import { EnvironmentZone, GraphNode, GraphLink, LinkRouting, NodeShape, ThemeConfig } from '../types';
+import {
+  LinkRoute,
+  RouteObstacle,
+  RouteRequest,
+  computeLinkLanes,
+  getLinkId,
+  linkRoute,
+  locateAtDistance,
+  routeAngleAt,
+  routeMidpoint,
+  routePath,
+  routePointAt,
+  sliceRoute,
+} from './linkGeometry';
+import { nodeExtent, nodeShapePath } from './nodeShapes';
+import { nodeIconMarkup } from './nodeIcons';
 
 export interface NodeVisualContext {
   linkingSourceId: string | null;
-  selectedNodeId: string | null;
+  selectedNodeIds: string[];
   theme: ThemeConfig;
   readonly: boolean;
   isConfirmingDelete: boolean;
@@ -23,6 +39,10 @@ export interface NodeVisualResult {
   stroke: string;
   strokeWidth: number;
   radius: number;
+  shape: NodeShape;
+  icon: string | null;
+  iconColor: string;
+  image: string | null;
   badge: { text?: string; color?: string; textColor?: string } | null;
 }
 
@@ -32,12 +52,29 @@ export interface LinkVisualResult {
   opacity: number;
   outlineColor: string;
   outlineWidth: number;
+  arrowStart: boolean;
+  arrowEnd: boolean;
+  // Length of an arrowhead from base to tip
+  arrowSize: number;
+  routing: LinkRouting;
 }
 
+// Space left between an arrow tip and the node outline
+const ARROW_GAP = 2;
+
+// Edge label text, read from `meta_data.label`
+export function getLinkLabel(link: GraphLink): string | undefined {
+  const label = link.meta_data?.label;
+  return label !== undefined && label !== null && label !== '' ? String(label) : undefined;
+}
+
+// Triangle pointing along +x with its tip at the origin
+export const arrowPath = (size: number) => `M0,0 L${-size},${-size * 0.5} L${-size},${size * 0.5} Z`;
+
 export function getNodeVisuals(node: GraphNode, context: NodeVisualContext): NodeVisualResult {
   const {
     linkingSourceId,
-    selectedNodeId,
+    selectedNodeIds,
     theme,
     readonly,
     isConfirmingDelete,
@@ -46,7 +83,7 @@ export function getNodeVisuals(node: GraphNode, context: NodeVisualContext): Nod
   } = context;
 
   const isLinkingSource = linkingSourceId === node.id;
-  const isSelected = selectedNodeId === node.id;
+  const isSelected = selectedNodeIds.includes(node.id);
   const isDirectorSource = directorPicking === 'target' && linkingSourceId === node.id;
 
   const result: NodeVisualResult = {
@@ -54,6 +91,10 @@ export function getNodeVisuals(node: GraphNode, context: NodeVisualContext): Nod
     stroke: '#fff',
     strokeWidth: isSelected ? 4 : 2,
     radius: readonly ? 12 : 20,
+    shape: 'circle',
+    icon: null,
+    iconColor: '#ffffff',
+    image: null,
     badge: null,
   };
 
@@ -76,9 +117,12 @@ export function getNodeVisuals(node: GraphNode, context: NodeVisualContext): Nod
   const groupColors = ['#1a1a1a', '#ef4444', '#22c55e', '#3b82f6', '#f59e0b', '#8b5cf6'];
   result.fill = groupColors[(node.group || 0) % groupColors.length];
 
-  if (node.apparence) {
-    if (node.apparence.fill) result.fill = node.apparence.fill;
-    if (node.apparence.stroke && !isSelected) result.stroke = node.apparence.stroke;
+  if (node.appearance) {
+    if (node.appearance.fill) result.fill = node.appearance.fill;
+    if (node.appearance.stroke && !isSelected) result.stroke = node.appearance.stroke;
+    if (node.appearance.shape) result.shape = node.appearance.shape;
+    if (node.appearance.icon) result.icon = node.appearance.icon;
+    if (node.appearance.image) result.image = node.appearance.image;
   }
 
   if (node.activeStates && theme.nodeStyles) {
@@ -90,6 +134,10 @@ export function getNodeVisuals(node: GraphNode, context: NodeVisualContext): Nod
       if (persistent.stroke && !isSelected) result.stroke = persistent.stroke;
       if (persistent.strokeWidth !== undefined && !isSelected) result.strokeWidth = persistent.strokeWidth;
       if (persistent.radius !== undefined) result.radius = persistent.radius;
+      if (persistent.shape) result.shape = persistent.shape;
+      if (persistent.icon) result.icon = persistent.icon;
+      if (persistent.iconColor) result.iconColor = persistent.iconColor;
+      if (persistent.image) result.image = persistent.image;
       if (persistent.badge) result.badge = persistent.badge;
     });
   }
@@ -100,9 +148,7 @@ export function getNodeVisuals(node: GraphNode, context: NodeVisualContext): Nod
 export function getLinkVisuals(link: GraphLink, context: LinkVisualContext): LinkVisualResult {
   const { selectedLinkId, theme, readonly, isDirectorMode } = context;
 
-  const sourceId = (link.source as any).id || link.source;
-  const targetId = (link.target as any).id || link.target;
-  const isSelected = selectedLinkId === `${sourceId}-${targetId}` || selectedLinkId === `${targetId}-${sourceId}`;
+  const isSelected = selectedLinkId === getLinkId(link);
 
   const result: LinkVisualResult = {
     mainColor: isSelected ? (isDirectorMode ? '#a855f7' : '#6366f1') : isDirectorMode ? '#334155' : '#94a3b8',
@@ -114,6 +160,10 @@ export function getLinkVisuals(link: GraphLink, context: LinkVisualContext): Lin
         : 'rgba(99, 102, 241, 0.2)'
       : 'transparent',
     outlineWidth: isSelected ? 8 : 0,
+    arrowStart: link.direction === 'both',
+    arrowEnd: link.direction !== 'none',
+    arrowSize: 0,
+    routing: 'straight',
   };
 
   if (link.activeStates && theme.linkStyles) {
@@ -126,19 +176,170 @@ export function getLinkVisuals(link: GraphLink, context: LinkVisualContext): Lin
       if (persistent.opacity !== undefined && !isSelected) result.opacity = persistent.opacity;
       if (persistent.outlineColor && !isSelected) result.outlineColor = persistent.outlineColor;
       if (persistent.outlineWidth !== undefined && !isSelected) result.outlineWidth = persistent.outlineWidth;
+      if (persistent.routing) result.routing = persistent.routing;
     });
   }
+  // A link's own routing wins over its styles'
+  if (link.routing) result.routing = link.routing;
 
+  result.arrowSize = Math.max(readonly ? 5 : 8, result.width * 3);
   return result;
 }
 
+type NodeOutline = Pick<NodeVisualResult, 'shape' | 'radius'>;
+
+// Obstacles of one updateStyles pass; `version` changes whenever any box moves
+interface ObstacleSet {
+  boxes: RouteObstacle[];
+  version: number;
+}
+
+let obstacleSignature = '';
+let obstacleVersion = 0;
+
+function toObstacleSet(boxes: RouteObstacle[]): ObstacleSet {
+  const signature = boxes.map(({ x, y, width, height }) => `${x},${y},${width},${height}`).join(';');
+  if (signature !== obstacleSignature) {
+    obstacleSignature = signature;
+    obstacleVersion++;
+  }
+  return { boxes, version: obstacleVersion };
+}
+
+// Curved and orthogonal routes, reused until an end or an obstacle moves
+const routeCache = new WeakMap<GraphLink, { key: string; version: number; route: LinkRoute }>();
+
+function cachedRoute(link: GraphLink, request: Omit<RouteRequest, 'obstacles'>, obstacles: () => ObstacleSet): LinkRoute {
+  if (request.isLoop || request.routing === 'straight') return linkRoute({ ...request, obstacles: [] });
+  const { boxes, version } = obstacles();
+  const { source, target, lane, reversed, routing } = request;
+  const key = `${source.x},${source.y},${target.x},${target.y},${lane},${reversed},${routing}`;
+  const cached = routeCache.get(link);
+  if (cached && cached.key === key && cached.version === version) return cached.route;
+  const route = linkRoute({ ...request, obstacles: boxes });
+  routeCache.set(link, { key, version, route });
+  return route;
+}
+
+/**
+ * Places the visible parts of a link along its route. Ends with an arrowhead
+ * stop at the node outline so the tip is not hidden under the node.
+ */
+function layoutLink(
+  group: d3.Selection<any, GraphLink, any, any>,
+  link: GraphLink,
+  visuals: LinkVisualResult,
+  lane: number,
+  sourceOutline: NodeOutline,
+  targetOutline: NodeOutline,
+  obstacles: () => ObstacleSet,
+): void {
+  const source = link.source as GraphNode;
+  const target = link.target as GraphNode;
+  const isLoop = source.id === target.id;
+  const route = cachedRoute(
+    link,
+    {
+      source: { x: source.x || 0, y: source.y || 0 },
+      target: { x: target.x || 0, y: target.y || 0 },
+      lane,
+      reversed: source.id > target.id,
+      isLoop,
+      routing: visuals.routing,
+    },
+    obstacles,
+  );
+
+  // How far the outline is from the centre where the route crosses it
+  const extent = (outline: NodeOutline, fromEnd: boolean) => {
+    const centre = fromEnd ? route[route.length - 1].end : route[0].start;
+    const exit = routePointAt(route, locateAtDistance(route, outline.radius, fromEnd));
+    const angle = (Math.atan2(exit.y - centre.y, exit.x - centre.x) * 180) / Math.PI;
+    return nodeExtent(outline.shape, outline.radius, angle);
+  };
+  const sourceRadius = extent(sourceOutline, false);
+  const targetRadius = extent(targetOutline, true);
+
+  // Arrowheads only fit when the nodes do not overlap
+  const start = route[0].start;
+  const end = route[route.length - 1].end;
+  const chord = Math.hypot(end.x - start.x, end.y - start.y);
+  const fits = isLoop || chord > sourceRadius + targetRadius + visuals.arrowSize * 2;
+  const showStart = visuals.arrowStart && fits;
+  const showEnd = visuals.arrowEnd && fits;
+
+  // The line stops inside the arrowhead so a wide stroke cannot poke past the tip
+  const startTip = locateAtDistance(route, sourceRadius + ARROW_GAP);
+  const endTip = locateAtDistance(route, targetRadius + ARROW_GAP, true);
+  const lineStart = showStart ? locateAtDistance(route, sourceRadius + ARROW_GAP + visuals.arrowSize * 0.7) : isLoop ? startTip : { segment: 0, t: 0 };
+  const lineEnd = showEnd ? locateAtDistance(route, targetRadius + ARROW_GAP + visuals.arrowSize * 0.7, true) : isLoop ? endTip : { segment: route.length - 1, t: 1 };
+
+  group.selectAll('.link-outline, .link-core').attr('d', routePath(sliceRoute(route, lineStart, lineEnd)));
+  group.select('.link-hitbox').attr('d', routePath(route));
+
+  const startPoint = routePointAt(route, startTip);
+  const endPoint = routePointAt(route, endTip);
+  group
+    .select('.link-arrow-start')
+    .style('display', showStart ? null : 'none')
+    .attr('d', arrowPath(visuals.arrowSize))
+    .attr('transform', `translate(${startPoint.x},${startPoint.y}) rotate(${routeAngleAt(route, startTip) + 180})`);
+  group
+    .select('.link-arrow-end')
+    .style('display', showEnd ? null : 'none')
+    .attr('d', arrowPath(visuals.arrowSize))
+    .attr('transform', `translate(${endPoint.x},${endPoint.y}) rotate(${routeAngleAt(route, endTip)})`);
+
+  const middle = routeMidpoint(route);
+  group.select('.link-label').attr('x', middle.x).attr('y', middle.y);
+}
+
+/** The invisible full-length path of a rendered link, which holds its whole route. */
+export function findLinkPath(svg: SVGSVGElement | null, link: GraphLink): SVGPathElement | null {
+  return d3
+    .select(svg)
+    .selectAll<SVGGElement, GraphLink>('g.link-group')
+    .filter((d) => d === link)
+    .select<SVGPathElement>('.link-hitbox')
+    .node();
+}
+
+// Share of the node's width taken by its image, and by its icon
+const IMAGE_SCALE = 1.4;
+const ICON_SCALE = 1.1;
+
+/** Shows a node's image, or else its icon, centred in its shape. */
+function layoutNodeContent(group: d3.Selection<any, GraphNode, any, any>, visuals: NodeVisualResult): void {
+  const imageSize = visuals.radius * IMAGE_SCALE;
+  group
+    .select('.node-image')
+    .style('display', visuals.image ? null : 'none')
+    .attr('href', visuals.image)
+    .attr('x', -imageSize / 2)
+    .attr('y', -imageSize / 2)
+    .attr('width', imageSize)
+    .attr('height', imageSize);
+
+  const iconSize = Math.round(visuals.radius * ICON_SCALE);
+  const markup = !visuals.image && visuals.icon ? nodeIconMarkup(visuals.icon, iconSize, visuals.iconColor) : null;
+  const icon = group.select<SVGGElement>('.node-icon');
+  // Styles refresh on every tick, so the markup is only replaced when it changes
+  const key = markup ? `${visuals.icon}|${iconSize}|${visuals.iconColor}` : '';
+  if (icon.attr('data-icon') !== key) {
+    icon.attr('data-icon', key).html(markup ?? '');
+  }
+  icon.attr('transform', `translate(${-iconSize / 2},${-iconSize / 2})`);
+}
+
 interface UpdateStylesParams {
   linkSelection: d3.Selection<any, GraphLink, any, any> | null;
   nodeSelection: d3.Selection<any, GraphNode, any, any> | null;
+  // Curved and orthogonal links route around these as well as the nodes
+  zones: EnvironmentZone[];
   nodeContext: NodeVisualContext;
   linkContext: LinkVisualContext;
   readonly: boolean;
-  selectedNodeId: string | null;
+  selectedNodeIds: string[];
   isConfirmingDelete: boolean;
   isDirectorMode: boolean;
 }
@@ -147,18 +348,34 @@ export function updateStyles(params: UpdateStylesParams): void {
   const {
     linkSelection,
     nodeSelection,
+    zones,
     nodeContext,
     linkContext,
     readonly,
-    selectedNodeId,
+    selectedNodeIds,
     isConfirmingDelete,
     isDirectorMode,
   } = params;
 
   if (linkSelection) {
+    const lanes = computeLinkLanes(linkSelection.data());
+    const outlineOf = (node: GraphLink['source']): NodeOutline =>
+      typeof node === 'object' ? getNodeVisuals(node, nodeContext) : { shape: 'circle', radius: 0 };
+    // Built on first use, since straight links need no obstacles
+    let obstacles: ObstacleSet | null = null;
+    const getObstacles = () => {
+      obstacles ??= toObstacleSet([
+        ...(nodeSelection?.data() || []).map((node) => {
+          const { radius } = outlineOf(node);
+          return { x: (node.x || 0) - radius, y: (node.y || 0) - radius, width: radius * 2, height: radius * 2 };
+        }),
+        ...zones.map(({ x, y, width, height }) => ({ x, y, width, height })),
+      ]);
+      return obstacles;
+    };
     linkSelection.each(function (d: GraphLink) {
       const visuals = getLinkVisuals(d, linkContext);
-      const group = d3.select(this);
+      const group = d3.select<any, GraphLink>(this);
       group
         .select('.link-outline')
         .attr('stroke', visuals.outlineColor)
@@ -168,24 +385,35 @@ export function updateStyles(params: UpdateStylesParams): void {
         .attr('stroke', visuals.mainColor)
         .attr('stroke-width', visuals.width)
         .attr('stroke-opacity', visuals.opacity);
+      group
+        .selectAll('.link-arrow')
+        .attr('fill', visuals.mainColor)
+        .attr('fill-opacity', visuals.opacity);
+      group
+        .select('.link-label')
+        .attr('fill', isDirectorMode ? '#cbd5e1' : '#475569')
+        .attr('stroke', isDirectorMode ? '#0f172a' : 'white');
+      layoutLink(group, d, visuals, lanes.get(getLinkId(d)) ?? 0, outlineOf(d.source), outlineOf(d.target), getObstacles);
     });
   }
 
   if (nodeSelection) {
     nodeSelection.each(function (d: GraphNode) {
       const visuals = getNodeVisuals(d, nodeContext);
-      const isSelected = selectedNodeId === d.id;
+      const isSelected = selectedNodeIds.includes(d.id);
       const group = d3.select(this);
 
       group
-        .select('.node-circle')
-        .attr('r', visuals.radius)
+        .select('.node-shape')
+        .attr('d', nodeShapePath(visuals.shape, visuals.radius))
         .attr('fill', visuals.fill)
         .attr('stroke', visuals.stroke)
         .attr('stroke-width', visuals.strokeWidth)
         .classed('confirming-delete-anim', isSelected && isConfirmingDelete)
         .classed('selected-node-glow', isSelected && !isConfirmingDelete);
 
+      layoutNodeContent(group, visuals);
+
       group
         .select('.node-label-bg')
         .attr('stroke', nodeContext.isDirectorMode ? '#0f172a' : 'white');
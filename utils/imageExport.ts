@@ -0,0 +1,195 @@
+export type ImageExportFormat = 'svg' | 'png' | 'pdf';
+export type ImageExportRegion = 'viewport' | 'fit';
+
+export interface ImageExportOptions {
+  format: ImageExportFormat;
+  region: ImageExportRegion;
+  dpi: number;
+  includeGrid: boolean;
+}
+
+// A rectangle in world (zoom-layer) coordinates
+export interface ImageExportFrame {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ImageExportTarget {
+  svg: SVGSVGElement;
+  frame: ImageExportFrame;
+  background: string;
+  title: string;
+}
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const CSS_DPI = 96;
+const FONT_FAMILY = 'ui-sans-serif, system-ui, -apple-system, "Segoe UI", Roboto, sans-serif';
+// Editor-only overlays that never belong in an export
+const TRANSIENT_SELECTORS = ['.canvas-bg', '.ghost-line', '.marquee-rect'];
+
+/**
+ * Clones the live canvas into a standalone SVG framed on `frame`. The zoom
+ * transform is replaced by a plain offset so the export does not depend on
+ * the current zoom level; the grid is re-anchored to the frame or dropped.
+ */
+export function buildStaticSvg(target: ImageExportTarget, includeGrid: boolean): string {
+  const { svg, frame, background, title } = target;
+  const width = Math.max(1, Math.round(frame.width));
+  const height = Math.max(1, Math.round(frame.height));
+
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute('xmlns', SVG_NS);
+  clone.setAttribute('width', String(width));
+  clone.setAttribute('height', String(height));
+  clone.setAttribute('viewBox', `0 0 ${width} ${height}`);
+  clone.setAttribute('font-family', FONT_FAMILY);
+  clone.removeAttribute('class');
+  clone.removeAttribute('style');
+
+  TRANSIENT_SELECTORS.forEach((selector) => clone.querySelectorAll(selector).forEach((el) => el.remove()));
+  if (!includeGrid) clone.querySelectorAll('.grid-rect, #grid-pattern').forEach((el) => el.remove());
+  clone.querySelectorAll('.zoom-layer').forEach((layer) => layer.setAttribute('transform', `translate(${-frame.x},${-frame.y})`));
+
+  const titleElement = document.createElementNS(SVG_NS, 'title');
+  titleElement.textContent = title;
+  const backgroundRect = document.createElementNS(SVG_NS, 'rect');
+  backgroundRect.setAttribute('width', '100%');
+  backgroundRect.setAttribute('height', '100%');
+  backgroundRect.setAttribute('fill', background);
+  clone.insertBefore(backgroundRect, clone.firstChild);
+  clone.insertBefore(titleElement, clone.firstChild);
+
+  return new XMLSerializer().serializeToString(clone);
+}
+
+async function rasterize(source: string, width: number, height: number, scale: number): Promise<HTMLCanvasElement> {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context is not available');
+
+  const url = URL.createObjectURL(new Blob([source], { type: 'image/svg+xml;charset=utf-8' }));
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+  return canvas;
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error(`Could not encode ${type}`))), type, quality);
+  });
+}
+
+// --- PNG ------------------------------------------------------------------------
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Inserts a pHYs chunk after IHDR so viewers and print tools pick up the DPI
+function withPngDpi(png: Uint8Array, dpi: number): Uint8Array {
+  const pixelsPerMeter = Math.round(dpi / 0.0254);
+  const chunk = new Uint8Array(21);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, 9);
+  chunk.set([0x70, 0x48, 0x59, 0x73], 4); // "pHYs"
+  view.setUint32(8, pixelsPerMeter);
+  view.setUint32(12, pixelsPerMeter);
+  chunk[16] = 1; // unit: metre
+  view.setUint32(17, crc32(chunk.subarray(4, 17)));
+
+  const ihdrEnd = 8 + 25; // signature + IHDR (length, type, 13 data bytes, crc)
+  const result = new Uint8Array(png.length + chunk.length);
+  result.set(png.subarray(0, ihdrEnd), 0);
+  result.set(chunk, ihdrEnd);
+  result.set(png.subarray(ihdrEnd), ihdrEnd + chunk.length);
+  return result;
+}
+
+// --- PDF ------------------------------------------------------------------------
+
+// Single-page PDF with the rendering embedded as a JPEG (DCTDecode) image
+function buildPdf(jpeg: Uint8Array, pixelWidth: number, pixelHeight: number, pageWidth: number, pageHeight: number, title: string): Blob {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const push = (part: string | Uint8Array) => {
+    const bytes = typeof part === 'string' ? encoder.encode(part) : part;
+    parts.push(bytes);
+    length += bytes.length;
+  };
+  const pdfString = (text: string) => `(${text.replace(/[\\()]/g, '\\$&').replace(/[^\x20-\x7e]/g, '?')})`;
+  const w = pageWidth.toFixed(2);
+  const h = pageHeight.toFixed(2);
+  const content = `q ${w} 0 0 ${h} 0 0 cm /Im0 Do Q`;
+
+  const objects: (string | Uint8Array)[][] = [
+    ['<< /Type /Catalog /Pages 2 0 R >>'],
+    ['<< /Type /Pages /Kids [3 0 R] /Count 1 >>'],
+    [`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${w} ${h}] /Resources << /XObject << /Im0 4 0 R >> >> /Contents 5 0 R >>`],
+    [
+      `<< /Type /XObject /Subtype /Image /Width ${pixelWidth} /Height ${pixelHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n`,
+      jpeg,
+      '\nendstream',
+    ],
+    [`<< /Length ${content.length} >>\nstream\n${content}\nendstream`],
+    [`<< /Title ${pdfString(title)} /Producer (Mijin) >>`],
+  ];
+
+  push('%PDF-1.4\n%\xff\xff\xff\xff\n');
+  objects.forEach((body, i) => {
+    offsets.push(length);
+    push(`${i + 1} 0 obj\n`);
+    body.forEach(push);
+    push('\nendobj\n');
+  });
+  const xrefOffset = length;
+  push(`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`);
+  offsets.forEach((offset) => push(`${String(offset).padStart(10, '0')} 00000 n \n`));
+  push(`trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${objects.length} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(parts, { type: 'application/pdf' });
+}
+
+/**
+ * Renders the framed canvas as SVG, PNG or PDF. Raster formats are drawn at
+ * `dpi` (96 = one pixel per canvas unit); the PDF page keeps the frame's
+ * physical size at 96 units per inch.
+ */
+export async function exportImage(target: ImageExportTarget, options: ImageExportOptions): Promise<Blob> {
+  const source = buildStaticSvg(target, options.includeGrid);
+  if (options.format === 'svg') {
+    return new Blob([`<?xml version="1.0" encoding="UTF-8"?>\n${source}`], { type: 'image/svg+xml' });
+  }
+
+  const width = Math.max(1, Math.round(target.frame.width));
+  const height = Math.max(1, Math.round(target.frame.height));
+  const canvas = await rasterize(source, width, height, options.dpi / CSS_DPI);
+
+  if (options.format === 'png') {
+    const png = new Uint8Array(await (await canvasToBlob(canvas, 'image/png')).arrayBuffer());
+    return new Blob([withPngDpi(png, options.dpi)], { type: 'image/png' });
+  }
+
+  const jpeg = new Uint8Array(await (await canvasToBlob(canvas, 'image/jpeg', 0.95)).arrayBuffer());
+  const pointsPerUnit = 72 / CSS_DPI;
+  return buildPdf(jpeg, canvas.width, canvas.height, width * pointsPerUnit, height * pointsPerUnit, target.title);
+}
@@ -0,0 +1,440 @@
+import { AtomicStep, GraphLink, GraphNode, LinkRouting } from '../types';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// A cubic Bézier; straight lines are cubics with their controls on the line
+export interface LinkCurve {
+  start: Point;
+  c1: Point;
+  c2: Point;
+  end: Point;
+}
+
+// Consecutive curves from the source centre to the target centre
+export type LinkRoute = LinkCurve[];
+
+// Axis-aligned box a routed link steers around (a node's bounding square or a zone)
+export interface RouteObstacle {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// A position on a route: curve `segment` at parameter `t`
+export interface RouteLocation {
+  segment: number;
+  t: number;
+}
+
+// Distance between the apexes of neighbouring parallel links
+const PARALLEL_SPACING = 28;
+// Reach of a self-loop's control points, and how much each further loop adds
+const LOOP_SIZE = 70;
+const LOOP_GROWTH = 24;
+// Half the angle between a self-loop's two control points
+const LOOP_SPREAD = Math.PI / 6;
+// Clearance kept around obstacles
+const OBSTACLE_PADDING = 12;
+// Apex height of a curved link, relative to its length
+const CURVE_BEND = 0.2;
+// Extra length an orthogonal route may take to save a bend, or to avoid an obstacle
+const BEND_COST = 40;
+const HIT_COST = 10000;
+// Points checked per curve when testing it against obstacles
+const CURVE_SAMPLES = 24;
+
+/** Node id at one end of a link, whether or not the simulation has resolved it to a node. */
+export const endpointId = (end: string | GraphNode) => (typeof end === 'string' ? end : end.id);
+
+/** Id of a link; links saved before ids existed fall back to their endpoint pair. */
+export const getLinkId = (link: GraphLink) => link.id ?? `${endpointId(link.source)}-${endpointId(link.target)}`;
+
+/** First free id of the form `source-target`, `source-target-2`, ... */
+export function createLinkId(links: GraphLink[], source: string, target: string): string {
+  const used = new Set(links.map(getLinkId));
+  const base = `${source}-${target}`;
+  let id = base;
+  for (let n = 2; used.has(id); n++) id = `${base}-${n}`;
+  return id;
+}
+
+/**
+ * Gives every link without an id one that is unique in the list. The result
+ * only depends on the list, so clients migrating the same graph agree on it.
+ */
+export function assignLinkIds(links: GraphLink[]): GraphLink[] {
+  if (links.every((link) => link.id)) return links;
+  const assigned: GraphLink[] = links.filter((link) => link.id);
+  return links.map((link) => {
+    if (link.id) return link;
+    const withId = { ...link, id: createLinkId(assigned, endpointId(link.source), endpointId(link.target)) };
+    assigned.push(withId);
+    return withId;
+  });
+}
+
+/** Nodes a step's packet visits, from `from` through `via` to `to`. */
+export const stepRoute = (step: AtomicStep): string[] => [step.from, ...(step.via || []), step.to];
+
+/**
+ * The link a step travels along: `linkId` when given, otherwise the first
+ * link from `from` to `to`, then the first one the other way round.
+ */
+export function findStepLink(links: GraphLink[], from: string, to: string, linkId?: string): GraphLink | undefined {
+  if (linkId) return links.find((link) => getLinkId(link) === linkId);
+  const joins = (link: GraphLink, s: string, t: string) => endpointId(link.source) === s && endpointId(link.target) === t;
+  return links.find((link) => joins(link, from, to)) ?? links.find((link) => joins(link, to, from));
+}
+
+/**
+ * Spreads links that share their endpoints. Parallel links get signed lanes
+ * centred on the straight line (0 when alone); self-loops on a node are
+ * numbered from 0 so each one is drawn a bit larger.
+ */
+export function computeLinkLanes(links: GraphLink[]): Map<string, number> {
+  const groups = new Map<string, GraphLink[]>();
+  links.forEach((link) => {
+    const s = endpointId(link.source);
+    const t = endpointId(link.target);
+    const key = s < t ? `${s}\n${t}` : `${t}\n${s}`;
+    groups.set(key, [...(groups.get(key) || []), link]);
+  });
+
+  const lanes = new Map<string, number>();
+  groups.forEach((group) => {
+    group.forEach((link, i) => {
+      const s = endpointId(link.source);
+      const t = endpointId(link.target);
+      if (s === t) {
+        lanes.set(getLinkId(link), i);
+        return;
+      }
+      // Lanes are measured against the pair's sorted direction, so a request
+      // and its reply end up on opposite sides
+      const lane = i - (group.length - 1) / 2;
+      lanes.set(getLinkId(link), s < t ? lane : -lane);
+    });
+  });
+  return lanes;
+}
+
+/** Centre-to-centre curve of a link in lane `lane` (see computeLinkLanes). */
+export function linkCurve(source: Point, target: Point, lane: number, isLoop: boolean): LinkCurve {
+  if (isLoop) {
+    const reach = LOOP_SIZE + LOOP_GROWTH * lane;
+    const up = -Math.PI / 2;
+    return {
+      start: source,
+      c1: { x: source.x + reach * Math.cos(up - LOOP_SPREAD), y: source.y + reach * Math.sin(up - LOOP_SPREAD) },
+      c2: { x: source.x + reach * Math.cos(up + LOOP_SPREAD), y: source.y + reach * Math.sin(up + LOOP_SPREAD) },
+      end: source,
+    };
+  }
+
+  return bowedCurve(source, target, lane * PARALLEL_SPACING);
+}
+
+// Curve whose apex sits `bend` to the left of the straight line (right when negative)
+function bowedCurve(source: Point, target: Point, bend: number): LinkCurve {
+  const dx = target.x - source.x;
+  const dy = target.y - source.y;
+  const length = Math.hypot(dx, dy) || 1;
+  // The apex of a quadratic sits halfway to its control point
+  const offset = bend * 2;
+  const control = {
+    x: (source.x + target.x) / 2 - (dy / length) * offset,
+    y: (source.y + target.y) / 2 + (dx / length) * offset,
+  };
+  return {
+    start: source,
+    c1: { x: source.x + ((control.x - source.x) * 2) / 3, y: source.y + ((control.y - source.y) * 2) / 3 },
+    c2: { x: target.x + ((control.x - target.x) * 2) / 3, y: target.y + ((control.y - target.y) * 2) / 3 },
+    end: target,
+  };
+}
+
+export function pointAt(curve: LinkCurve, t: number): Point {
+  const u = 1 - t;
+  const a = u * u * u;
+  const b = 3 * u * u * t;
+  const c = 3 * u * t * t;
+  const d = t * t * t;
+  return {
+    x: a * curve.start.x + b * curve.c1.x + c * curve.c2.x + d * curve.end.x,
+    y: a * curve.start.y + b * curve.c1.y + c * curve.c2.y + d * curve.end.y,
+  };
+}
+
+/** Direction of travel at `t`, in degrees. */
+export function angleAt(curve: LinkCurve, t: number): number {
+  const u = 1 - t;
+  const dx = 3 * u * u * (curve.c1.x - curve.start.x) + 6 * u * t * (curve.c2.x - curve.c1.x) + 3 * t * t * (curve.end.x - curve.c2.x);
+  const dy = 3 * u * u * (curve.c1.y - curve.start.y) + 6 * u * t * (curve.c2.y - curve.c1.y) + 3 * t * t * (curve.end.y - curve.c2.y);
+  return (Math.atan2(dy, dx) * 180) / Math.PI;
+}
+
+/**
+ * Parameter at which the curve is `distance` away from its start (or, with
+ * `fromEnd`, from its end). Assumes the curve moves away from that end over
+ * its first half, which holds for every curve linkCurve builds.
+ */
+export function parameterAtDistance(curve: LinkCurve, distance: number, fromEnd = false): number {
+  const anchor = fromEnd ? curve.end : curve.start;
+  let lo = fromEnd ? 1 : 0;
+  let hi = 0.5;
+  for (let i = 0; i < 20; i++) {
+    const mid = (lo + hi) / 2;
+    const p = pointAt(curve, mid);
+    if (Math.hypot(p.x - anchor.x, p.y - anchor.y) < distance) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+}
+
+/** The part of a curve between parameters t0 and t1, itself a cubic. */
+export function sliceCurve(curve: LinkCurve, t0: number, t1: number): LinkCurve {
+  // Cut at t1, then cut the head at the matching point of the shortened curve
+  const head = splitCurve(curve, t1)[0];
+  return t1 > 0 ? splitCurve(head, t0 / t1)[1] : head;
+}
+
+function splitCurve(curve: LinkCurve, t: number): [LinkCurve, LinkCurve] {
+  const lerp = (a: Point, b: Point): Point => ({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+  const p01 = lerp(curve.start, curve.c1);
+  const p12 = lerp(curve.c1, curve.c2);
+  const p23 = lerp(curve.c2, curve.end);
+  const p012 = lerp(p01, p12);
+  const p123 = lerp(p12, p23);
+  const mid = lerp(p012, p123);
+  return [
+    { start: curve.start, c1: p01, c2: p012, end: mid },
+    { start: mid, c1: p123, c2: p23, end: curve.end },
+  ];
+}
+
+export interface RouteRequest {
+  source: Point;
+  target: Point;
+  // Lane from computeLinkLanes
+  lane: number;
+  // The link runs against its pair's sorted direction, which flips its lane
+  reversed: boolean;
+  isLoop: boolean;
+  routing: LinkRouting;
+  obstacles: RouteObstacle[];
+}
+
+/**
+ * Route of a link for its routing style. Curved and orthogonal links steer
+ * clear of the obstacles, ignoring any that contain one of their endpoints
+ * (the end nodes themselves and the zones they sit in).
+ */
+export function linkRoute(request: RouteRequest): LinkRoute {
+  const { source, target, lane, reversed, isLoop, routing } = request;
+  if (isLoop || routing === 'straight') return [linkCurve(source, target, lane, isLoop)];
+
+  const contains = (box: RouteObstacle, p: Point) =>
+    p.x >= box.x && p.x <= box.x + box.width && p.y >= box.y && p.y <= box.y + box.height;
+  const obstacles = request.obstacles
+    .filter((box) => !contains(box, source) && !contains(box, target))
+    .map((box) => ({
+      x: box.x - OBSTACLE_PADDING,
+      y: box.y - OBSTACLE_PADDING,
+      width: box.width + OBSTACLE_PADDING * 2,
+      height: box.height + OBSTACLE_PADDING * 2,
+    }));
+  // Bends and channel offsets are chosen in the pair's sorted direction so
+  // that the links of a pair agree on them
+  const side = reversed ? -1 : 1;
+
+  if (routing === 'curved') return [curvedRoute(source, target, lane, side, obstacles)];
+  return polylineRoute(orthogonalPoints(source, target, lane * side * PARALLEL_SPACING, obstacles));
+}
+
+// Boxes that overlap the area spanned by `points`, grown by `margin`
+function boxesNear(obstacles: RouteObstacle[], points: Point[], margin: number): RouteObstacle[] {
+  const xs = points.map((p) => p.x);
+  const ys = points.map((p) => p.y);
+  const minX = Math.min(...xs) - margin;
+  const maxX = Math.max(...xs) + margin;
+  const minY = Math.min(...ys) - margin;
+  const maxY = Math.max(...ys) + margin;
+  return obstacles.filter((box) => box.x < maxX && box.x + box.width > minX && box.y < maxY && box.y + box.height > minY);
+}
+
+// Strictly inside, so a route may run along the padded edge of a box
+const insideBox = (box: RouteObstacle, p: Point) =>
+  p.x > box.x && p.x < box.x + box.width && p.y > box.y && p.y < box.y + box.height;
+
+function curvedRoute(source: Point, target: Point, lane: number, side: number, obstacles: RouteObstacle[]): LinkCurve {
+  const base = Math.hypot(target.x - source.x, target.y - source.y) * CURVE_BEND;
+  let best: { curve: LinkCurve; hits: number } | null = null;
+  for (const bend of [base, -base, base * 2, -base * 2]) {
+    const curve = bowedCurve(source, target, lane * PARALLEL_SPACING + bend * side);
+    // The curve stays inside the hull of its control points
+    const nearby = boxesNear(obstacles, [curve.start, curve.c1, curve.c2, curve.end], 0);
+    let hits = 0;
+    for (let i = 1; nearby.length > 0 && i < CURVE_SAMPLES; i++) {
+      const p = pointAt(curve, i / CURVE_SAMPLES);
+      hits += nearby.filter((box) => insideBox(box, p)).length;
+    }
+    if (!best || hits < best.hits) best = { curve, hits };
+    if (hits === 0) break;
+  }
+  return best!.curve;
+}
+
+// Whether an axis-aligned segment passes through a box
+function segmentHits(a: Point, b: Point, box: RouteObstacle): boolean {
+  const minX = Math.min(a.x, b.x);
+  const maxX = Math.max(a.x, b.x);
+  const minY = Math.min(a.y, b.y);
+  const maxY = Math.max(a.y, b.y);
+  return minX < box.x + box.width && maxX > box.x && minY < box.y + box.height && maxY > box.y;
+}
+
+/**
+ * Corner points of the cheapest orthogonal route: an L with one bend, or a Z
+ * or U with two bends around a vertical or horizontal channel. Channels run
+ * halfway between the ends or just outside an obstacle, moved by `offset` so
+ * parallel links get their own.
+ *
+ * Candidates are tried shortest first and obstacle tests stop as soon as a
+ * candidate cannot beat the best so far, so a clear route found early saves
+ * testing the rest against every obstacle.
+ */
+function orthogonalPoints(source: Point, target: Point, offset: number, obstacles: RouteObstacle[]): Point[] {
+  const candidates: Point[][] = [];
+  if (offset === 0) {
+    candidates.push([source, { x: target.x, y: source.y }, target], [source, { x: source.x, y: target.y }, target]);
+  }
+  const channelsX = [(source.x + target.x) / 2, ...obstacles.flatMap((box) => [box.x, box.x + box.width])];
+  const channelsY = [(source.y + target.y) / 2, ...obstacles.flatMap((box) => [box.y, box.y + box.height])];
+  channelsX.forEach((x) => candidates.push([source, { x: x + offset, y: source.y }, { x: x + offset, y: target.y }, target]));
+  channelsY.forEach((y) => candidates.push([source, { x: source.x, y: y + offset }, { x: target.x, y: y + offset }, target]));
+
+  // Length and bends only; the sort is stable, so ties keep their order
+  const ranked = candidates
+    .map((candidate) => {
+      const points = simplifyPolyline(candidate);
+      let cost = BEND_COST * (points.length - 2);
+      for (let i = 1; i < points.length; i++) {
+        cost += Math.abs(points[i].x - points[i - 1].x) + Math.abs(points[i].y - points[i - 1].y);
+      }
+      return { points, cost };
+    })
+    .sort((a, b) => a.cost - b.cost);
+
+  let best = ranked[0].points;
+  let bestCost = Infinity;
+  for (const { points, cost: baseCost } of ranked) {
+    if (baseCost >= bestCost) break;
+    let cost = baseCost;
+    for (let i = 1; i < points.length && cost < bestCost; i++) {
+      for (let j = 0; j < obstacles.length && cost < bestCost; j++) {
+        if (segmentHits(points[i - 1], points[i], obstacles[j])) cost += HIT_COST;
+      }
+    }
+    if (cost < bestCost) {
+      best = points;
+      bestCost = cost;
+    }
+  }
+  return best;
+}
+
+// Drops repeated points and the middle one of three in a line
+function simplifyPolyline(points: Point[]): Point[] {
+  const result: Point[] = [];
+  points.forEach((p) => {
+    const last = result[result.length - 1];
+    if (last && last.x === p.x && last.y === p.y) return;
+    const before = result[result.length - 2];
+    if (before && ((before.x === last.x && last.x === p.x) || (before.y === last.y && last.y === p.y))) result.pop();
+    result.push(p);
+  });
+  return result;
+}
+
+function polylineRoute(points: Point[]): LinkRoute {
+  if (points.length < 2) return [linkCurve(points[0], points[0], 0, false)];
+  return points.slice(1).map((end, i) => {
+    const start = points[i];
+    return {
+      start,
+      c1: { x: start.x + (end.x - start.x) / 3, y: start.y + (end.y - start.y) / 3 },
+      c2: { x: start.x + ((end.x - start.x) * 2) / 3, y: start.y + ((end.y - start.y) * 2) / 3 },
+      end,
+    };
+  });
+}
+
+/**
+ * Where the route is `distance` away from its start (or, with `fromEnd`, its
+ * end), assuming it moves away from that end until it gets there.
+ */
+export function locateAtDistance(route: LinkRoute, distance: number, fromEnd = false): RouteLocation {
+  if (route.length === 1) return { segment: 0, t: parameterAtDistance(route[0], distance, fromEnd) };
+  const anchor = fromEnd ? route[route.length - 1].end : route[0].start;
+  const away = (p: Point) => Math.hypot(p.x - anchor.x, p.y - anchor.y);
+  const order = route.map((_, i) => (fromEnd ? route.length - 1 - i : i));
+  for (const segment of order) {
+    const curve = route[segment];
+    if (away(fromEnd ? curve.start : curve.end) < distance) continue;
+    let lo = fromEnd ? 1 : 0;
+    let hi = fromEnd ? 0 : 1;
+    for (let i = 0; i < 20; i++) {
+      const mid = (lo + hi) / 2;
+      if (away(pointAt(curve, mid)) < distance) lo = mid;
+      else hi = mid;
+    }
+    return { segment, t: (lo + hi) / 2 };
+  }
+  return fromEnd ? { segment: 0, t: 0 } : { segment: route.length - 1, t: 1 };
+}
+
+export const routePointAt = (route: LinkRoute, at: RouteLocation) => pointAt(route[at.segment], at.t);
+export const routeAngleAt = (route: LinkRoute, at: RouteLocation) => angleAt(route[at.segment], at.t);
+
+/** The part of a route between two locations; empty if they are out of order. */
+export function sliceRoute(route: LinkRoute, from: RouteLocation, to: RouteLocation): LinkRoute {
+  if (from.segment === to.segment) return [sliceCurve(route[from.segment], from.t, to.t)];
+  if (from.segment > to.segment) return [];
+  return [
+    sliceCurve(route[from.segment], from.t, 1),
+    ...route.slice(from.segment + 1, to.segment),
+    sliceCurve(route[to.segment], 0, to.t),
+  ];
+}
+
+/** Point halfway along the route, by length. */
+export function routeMidpoint(route: LinkRoute): Point {
+  const lengths = route.map((curve) => {
+    let length = 0;
+    let previous = curve.start;
+    for (let i = 1; i <= CURVE_SAMPLES; i++) {
+      const p = pointAt(curve, i / CURVE_SAMPLES);
+      length += Math.hypot(p.x - previous.x, p.y - previous.y);
+      previous = p;
+    }
+    return length;
+  });
+  let remaining = lengths.reduce((sum, length) => sum + length, 0) / 2;
+  for (let i = 0; i < route.length; i++) {
+    if (remaining <= lengths[i] || i === route.length - 1) {
+      return pointAt(route[i], lengths[i] > 0 ? Math.min(1, remaining / lengths[i]) : 0.5);
+    }
+    remaining -= lengths[i];
+  }
+  return route[0].start;
+}
+
+export const routePath = (route: LinkRoute) =>
+  route.length === 0
+    ? ''
+    : `M${route[0].start.x},${route[0].start.y} ` +
+      route.map((curve) => `C${curve.c1.x},${curve.c1.y} ${curve.c2.x},${curve.c2.y} ${curve.end.x},${curve.end.y}`).join(' ');
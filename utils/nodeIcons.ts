@@ -0,0 +1,86 @@
+import {
+  Activity, Bell, Bot, Brain, Building2, Cloud, Code, Container, Cpu, CreditCard, Database, FileText, GitBranch, Globe,
+  HardDrive, Inbox, KeyRound, Laptop, Layers, ListOrdered, Lock, Mail, MessageSquare, Monitor, Network, Router, Search,
+  Server, Settings, Shield, ShoppingCart, Smartphone, User, Users, Zap,
+  type IconNode,
+} from 'lucide';
+
+/** Icons a node can show, by the name stored in `icon`. */
+export const NODE_ICONS: Record<string, IconNode> = {
+  database: Database,
+  server: Server,
+  cloud: Cloud,
+  container: Container,
+  cpu: Cpu,
+  'hard-drive': HardDrive,
+  layers: Layers,
+  network: Network,
+  router: Router,
+  globe: Globe,
+  queue: ListOrdered,
+  inbox: Inbox,
+  'message-square': MessageSquare,
+  mail: Mail,
+  bell: Bell,
+  zap: Zap,
+  user: User,
+  users: Users,
+  smartphone: Smartphone,
+  laptop: Laptop,
+  monitor: Monitor,
+  lock: Lock,
+  key: KeyRound,
+  shield: Shield,
+  'credit-card': CreditCard,
+  'shopping-cart': ShoppingCart,
+  'file-text': FileText,
+  search: Search,
+  settings: Settings,
+  activity: Activity,
+  code: Code,
+  'git-branch': GitBranch,
+  bot: Bot,
+  brain: Brain,
+  building: Building2,
+};
+
+const escapeAttribute = (value: string | number) =>
+  String(value).replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+
+const serializeElement = (tag: string, attrs: Record<string, string | number>, children = '') => {
+  const attributes = Object.entries(attrs)
+    .map(([name, value]) => ` ${name}="${escapeAttribute(value)}"`)
+    .join('');
+  return `<${tag}${attributes}>${children}</${tag}>`;
+};
+
+// Markup is rebuilt on every style refresh, so each variant is serialised once
+const markupCache = new Map<string, string>();
+
+/** Standalone `<svg>` markup of an icon, or null for an unknown name. */
+export function nodeIconMarkup(name: string, size: number, color: string): string | null {
+  const icon = NODE_ICONS[name];
+  if (!icon) return null;
+  const key = `${name}|${size}|${color}`;
+  let markup = markupCache.get(key);
+  if (markup === undefined) {
+    // Same root attributes lucide puts on its own icons
+    markup = serializeElement(
+      'svg',
+      {
+        xmlns: 'http://www.w3.org/2000/svg',
+        width: size,
+        height: size,
+        viewBox: '0 0 24 24',
+        fill: 'none',
+        stroke: color,
+        'stroke-width': 2,
+        'stroke-linecap': 'round',
+        'stroke-linejoin': 'round',
+      },
+      icon.map(([tag, attrs]) => serializeElement(tag, attrs)).join(''),
+    );
+    markupCache.set(key, markup);
+  }
+  return markup;
+}
@@ -0,0 +1,36 @@
+// Longest side of an uploaded raster image; it is stored inline in the project
+const MAX_IMAGE_SIZE = 128;
+
+const readAsDataUrl = (file: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error('Could not read the image file'));
+    reader.readAsDataURL(file);
+  });
+
+/**
+ * Reads an uploaded image as a data URL for a node's `appearance.image`.
+ * SVGs are kept as they are; other images are scaled down to fit
+ * MAX_IMAGE_SIZE so they do not bloat the project.
+ */
+export async function readNodeImage(file: File): Promise<string> {
+  if (!file.type.startsWith('image/')) throw new Error(`${file.name} is not an image`);
+  const dataUrl = await readAsDataUrl(file);
+  if (file.type === 'image/svg+xml') return dataUrl;
+
+  const image = new Image();
+  await new Promise<void>((resolve, reject) => {
+    image.onload = () => resolve();
+    image.onerror = () => reject(new Error(`Could not decode ${file.name}`));
+    image.src = dataUrl;
+  });
+  const scale = Math.min(1, MAX_IMAGE_SIZE / Math.max(image.naturalWidth, image.naturalHeight));
+  if (scale === 1) return dataUrl;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(image.naturalWidth * scale);
+  canvas.height = Math.round(image.naturalHeight * scale);
+  canvas.getContext('2d')!.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/png');
+}
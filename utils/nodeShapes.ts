@@ -0,0 +1,80 @@
+import { NodeShape } from '../types';
+
+export const NODE_SHAPES: NodeShape[] = ['circle', 'rect', 'rounded', 'hexagon', 'cylinder', 'diamond'];
+
+// Corner radius of `rounded`, half-width of `cylinder` and height of its end caps, relative to the radius
+const CORNER = 0.3;
+const CYLINDER_WIDTH = 0.85;
+const CYLINDER_CAP = 0.25;
+
+const polygon = (points: [number, number][]) => `M${points.map(([x, y]) => `${x},${y}`).join(' L')} Z`;
+
+/** Outline of a node centred on the origin. */
+export function nodeShapePath(shape: NodeShape, radius: number): string {
+  const r = radius;
+  switch (shape) {
+    case 'rect':
+      return polygon([[-r, -r], [r, -r], [r, r], [-r, r]]);
+    case 'rounded': {
+      const c = r * CORNER;
+      return (
+        `M${-r + c},${-r} H${r - c} A${c},${c} 0 0 1 ${r},${-r + c} V${r - c} A${c},${c} 0 0 1 ${r - c},${r} ` +
+        `H${-r + c} A${c},${c} 0 0 1 ${-r},${r - c} V${-r + c} A${c},${c} 0 0 1 ${-r + c},${-r} Z`
+      );
+    }
+    case 'hexagon': {
+      const h = (r * Math.sqrt(3)) / 2;
+      return polygon([[r, 0], [r / 2, h], [-r / 2, h], [-r, 0], [-r / 2, -h], [r / 2, -h]]);
+    }
+    case 'cylinder': {
+      const w = r * CYLINDER_WIDTH;
+      const cap = r * CYLINDER_CAP;
+      // Body, then the front rim of the top cap
+      return (
+        `M${-w},${-r + cap} A${w},${cap} 0 0 1 ${w},${-r + cap} V${r - cap} A${w},${cap} 0 0 1 ${-w},${r - cap} Z ` +
+        `M${-w},${-r + cap} A${w},${cap} 0 0 0 ${w},${-r + cap}`
+      );
+    }
+    case 'diamond':
+      return polygon([[0, -r], [r, 0], [0, r], [-r, 0]]);
+    default:
+      return `M${r},0 A${r},${r} 0 1 1 ${-r},0 A${r},${r} 0 1 1 ${r},0 Z`;
+  }
+}
+
+/**
+ * Distance from the centre to the outline in direction `angle` (degrees), so
+ * links can end on the outline whatever the shape. Rounded corners are
+ * treated as square.
+ */
+export function nodeExtent(shape: NodeShape, radius: number, angle: number): number {
+  const theta = (angle * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(theta));
+  const sin = Math.abs(Math.sin(theta));
+  switch (shape) {
+    case 'rect':
+      return radius / Math.max(cos, sin);
+    case 'rounded': {
+      const edge = radius / Math.max(cos, sin);
+      const inner = radius * (1 - CORNER);
+      if (Math.min(edge * cos, edge * sin) <= inner) return edge;
+      // The ray leaves through a corner arc centred on (inner, inner)
+      const along = inner * (cos + sin);
+      const corner = radius * CORNER;
+      return along + Math.sqrt(along * along - 2 * inner * inner + corner * corner);
+    }
+    case 'diamond':
+      return radius / (cos + sin);
+    case 'hexagon': {
+      // Sides face 30°, 90°, 150°, ...; measure the angle from the nearest one
+      const sector = Math.PI / 3;
+      const offset = (((theta - Math.PI / 6) % sector) + sector) % sector;
+      const fromNormal = offset > sector / 2 ? offset - sector : offset;
+      return (radius * Math.sqrt(3)) / 2 / Math.cos(fromNormal);
+    }
+    case 'cylinder':
+      return Math.min(cos > 0 ? (radius * CYLINDER_WIDTH) / cos : Infinity, sin > 0 ? radius / sin : Infinity);
+    default:
+      return radius;
+  }
+}
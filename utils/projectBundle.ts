@@ -0,0 +1,158 @@
+import { GraphProject } from '../types';
+import { migrateProject } from './projectMigrations';
+
+export const MIJIN_BUNDLE_FORMAT = 'mijin-bundle';
+export const MIJIN_BUNDLE_VERSION = 1;
+export const MIJIN_BUNDLE_EXTENSION = 'mijin';
+
+export interface MijinBundle {
+  format: typeof MIJIN_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: number;
+  projects: GraphProject[];
+}
+
+export type ImportConflictStrategy = 'keep-both' | 'replace';
+
+type BundleMigration = (bundle: any) => any;
+
+/**
+ * Upgrades a bundle from version `n` to `n + 1`. Version 0 stands for files
+ * written before bundles were versioned: a raw `graphflow_projects` array or
+ * a single project object.
+ */
+const BUNDLE_MIGRATIONS: Record<number, BundleMigration> = {
+  0: (legacy) => ({
+    format: MIJIN_BUNDLE_FORMAT,
+    version: 1,
+    exportedAt: Date.now(),
+    projects: Array.isArray(legacy) ? legacy : [legacy],
+  }),
+};
+
+export function createBundle(projects: GraphProject[]): MijinBundle {
+  return {
+    format: MIJIN_BUNDLE_FORMAT,
+    version: MIJIN_BUNDLE_VERSION,
+    exportedAt: Date.now(),
+    projects,
+  };
+}
+
+export function serializeBundle(bundle: MijinBundle): string {
+  return JSON.stringify(bundle, null, 2);
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function detectVersion(raw: unknown): number {
+  if (isObject(raw) && raw.format === MIJIN_BUNDLE_FORMAT) {
+    if (typeof raw.version !== 'number' || !Number.isInteger(raw.version) || raw.version < 1) {
+      throw new Error('Bundle has an invalid version');
+    }
+    return raw.version;
+  }
+  if (Array.isArray(raw) || (isObject(raw) && 'graphData' in raw)) return 0;
+  throw new Error('Not a Mijin project file');
+}
+
+// Returns the problem with a project, or null when it is usable
+function validateProject(project: unknown): string | null {
+  if (!isObject(project)) return 'not an object';
+  if (typeof project.name !== 'string') return 'missing name';
+  const { graphData, themeData, eventData } = project;
+  if (!isObject(graphData) || !Array.isArray(graphData.nodes) || !Array.isArray(graphData.links)) {
+    return 'graphData must contain nodes and links arrays';
+  }
+  if (graphData.nodes.some((node: any) => !isObject(node) || typeof node.id !== 'string')) {
+    return 'every node needs a string id';
+  }
+  if (!isObject(themeData) || !isObject(themeData.nodeStyles) || !isObject(themeData.linkStyles)) {
+    return 'themeData must contain nodeStyles and linkStyles';
+  }
+  if (!isObject(eventData) || !Array.isArray(eventData.steps)) return 'eventData must contain a steps array';
+  return null;
+}
+
+/**
+ * Parses a `.mijin` file (or a legacy project dump), migrates it to the
+ * current bundle version, upgrades every project to the current schema and
+ * validates it. Throws with a readable message for anything that cannot be
+ * imported.
+ */
+export function parseBundle(text: string): GraphProject[] {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  let version = detectVersion(raw);
+  if (version > MIJIN_BUNDLE_VERSION) {
+    throw new Error(`Bundle version ${version} is newer than this app supports (${MIJIN_BUNDLE_VERSION})`);
+  }
+  let bundle: any = raw;
+  while (version < MIJIN_BUNDLE_VERSION) {
+    bundle = BUNDLE_MIGRATIONS[version](bundle);
+    version = bundle.version;
+  }
+
+  if (!Array.isArray(bundle.projects) || bundle.projects.length === 0) throw new Error('Bundle contains no projects');
+  const seenIds = new Set<string>();
+  return bundle.projects.map((entry: any, index: number) => {
+    const name = isObject(entry) && typeof entry.name === 'string' ? `"${entry.name}"` : `#${index + 1}`;
+    let project: any;
+    try {
+      project = migrateProject(entry);
+    } catch (err: any) {
+      throw new Error(`Project ${name} is invalid: ${err.message}`);
+    }
+    const problem = validateProject(project);
+    if (problem) throw new Error(`Project ${name} is invalid: ${problem}`);
+    // Missing or repeated ids within the file get a fresh one
+    const id = typeof project.id === 'string' && project.id && !seenIds.has(project.id) ? project.id : crypto.randomUUID();
+    seenIds.add(id);
+    return {
+      ...project,
+      id,
+      updatedAt: typeof project.updatedAt === 'number' ? project.updatedAt : Date.now(),
+      isPinned: !!project.isPinned,
+    } as GraphProject;
+  });
+}
+
+export function findConflicts(existing: GraphProject[], incoming: GraphProject[]): Set<string> {
+  const ids = new Set(existing.map((project) => project.id));
+  return new Set(incoming.filter((project) => ids.has(project.id)).map((project) => project.id));
+}
+
+/**
+ * Adds imported projects to the list. On an id clash, `replace` overwrites
+ * the existing project in place, while `keep-both` imports a copy under a
+ * fresh id and a suffixed name.
+ */
+export function mergeProjects(
+  existing: GraphProject[],
+  incoming: GraphProject[],
+  strategy: ImportConflictStrategy,
+  copySuffix: string,
+): GraphProject[] {
+  const conflicts = findConflicts(existing, incoming);
+  const replacements = new Map(incoming.filter((project) => conflicts.has(project.id)).map((project) => [project.id, project]));
+
+  if (strategy === 'replace') {
+    return [
+      ...existing.map((project) => replacements.get(project.id) ?? project),
+      ...incoming.filter((project) => !conflicts.has(project.id)),
+    ];
+  }
+
+  return [
+    ...existing,
+    ...incoming.map((project) =>
+      conflicts.has(project.id) ? { ...project, id: crypto.randomUUID(), name: `${project.name} ${copySuffix}` } : project,
+    ),
+  ];
+}
@@ -0,0 +1,117 @@
+import { GraphProject } from '../types';
+import { assignLinkIds } from './linkGeometry';
+
+export const CURRENT_SCHEMA_VERSION = 3;
+// Projects saved before `schemaVersion` existed
+const UNVERSIONED_SCHEMA = 1;
+
+type ProjectMigration = (project: any) => any;
+
+/**
+ * Entry `n` upgrades a project from schema version `n` to `n + 1`. Add a new
+ * entry and bump CURRENT_SCHEMA_VERSION whenever the stored shape changes.
+ */
+const PROJECT_MIGRATIONS: Record<number, ProjectMigration> = {
+  // v1 -> v2: node `apparence` is spelled `appearance`
+  1: (project) => ({
+    ...project,
+    graphData: {
+      ...project.graphData,
+      nodes: (project.graphData?.nodes || []).map(({ apparence, ...node }: any) =>
+        apparence && !node.appearance ? { ...node, appearance: apparence } : node,
+      ),
+    },
+  }),
+  // v2 -> v3: links carry an `id`, so a pair of nodes can hold several
+  2: (project) => ({
+    ...project,
+    graphData: { ...project.graphData, links: assignLinkIds(project.graphData?.links || []) },
+  }),
+};
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Brings a stored project up to CURRENT_SCHEMA_VERSION. Throws when the
+ * project is not an object or was written by a newer version of the app.
+ */
+export function migrateProject(raw: unknown): GraphProject {
+  if (!isObject(raw)) throw new Error('Project is not an object');
+  let version = raw.schemaVersion ?? UNVERSIONED_SCHEMA;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < UNVERSIONED_SCHEMA) {
+    throw new Error(`Project has an invalid schema version: ${String(version)}`);
+  }
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`Project schema version ${version} is newer than this app supports (${CURRENT_SCHEMA_VERSION})`);
+  }
+
+  let project: any = raw;
+  while (version < CURRENT_SCHEMA_VERSION) {
+    project = PROJECT_MIGRATIONS[version](project);
+    version += 1;
+  }
+  return { ...project, schemaVersion: CURRENT_SCHEMA_VERSION } as GraphProject;
+}
+
+// Minimal shape check so a half-written project cannot crash the Dashboard
+function isUsableProject(project: GraphProject): boolean {
+  return (
+    typeof project.id === 'string' &&
+    typeof project.name === 'string' &&
+    isObject(project.graphData) &&
+    Array.isArray(project.graphData.nodes) &&
+    Array.isArray(project.graphData.links) &&
+    isObject(project.themeData) &&
+    isObject(project.eventData)
+  );
+}
+
+export interface LoadedProjects {
+  projects: GraphProject[];
+  // Raw entries that could not be loaded, or the whole payload if it was unreadable
+  rejected: unknown[] | string | null;
+}
+
+// Data that failed to load, as held by the app until the user deals with it
+export interface RecoveredData {
+  // Where the data was set aside (a storage key or store), or null if that failed
+  key: string | null;
+  data: string;
+}
+
+/**
+ * Migrates a list of stored projects. Entries that fail are returned in
+ * `rejected` rather than dropped.
+ */
+export function migrateProjects(entries: unknown[]): { projects: GraphProject[]; rejected: unknown[] | null } {
+  const projects: GraphProject[] = [];
+  const rejected: unknown[] = [];
+  entries.forEach((entry) => {
+    try {
+      const project = migrateProject(entry);
+      if (isUsableProject(project)) projects.push(project);
+      else rejected.push(entry);
+    } catch (e) {
+      console.error('Failed to migrate project:', e);
+      rejected.push(entry);
+    }
+  });
+  return { projects, rejected: rejected.length > 0 ? rejected : null };
+}
+
+/**
+ * Parses and migrates a serialized project list. Nothing is dropped silently:
+ * entries that fail are returned in `rejected` so the caller can keep them
+ * aside, and an unparsable payload is returned verbatim.
+ */
+export function loadProjects(text: string): LoadedProjects {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { projects: [], rejected: text };
+  }
+  if (!Array.isArray(parsed)) return { projects: [], rejected: text };
+  return migrateProjects(parsed);
+}
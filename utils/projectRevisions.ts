@@ -0,0 +1,57 @@
+import { GraphProject, ProjectRevision, RevisionKind } from '../types';
+import { migrateProject } from './projectMigrations';
+
+// Autosaves add a snapshot at most this often; manual saves always do
+export const AUTO_REVISION_INTERVAL_MS = 10 * 60 * 1000;
+// Older automatic snapshots are pruned; named and restore revisions are kept
+export const MAX_AUTO_REVISIONS = 30;
+// Stands in for the unsaved editor state when comparing
+export const CURRENT_REVISION_ID = 'current';
+
+export interface RevisionRequest {
+  kind: RevisionKind;
+  label?: string;
+  restoredFrom?: string;
+}
+
+export function createRevision(project: GraphProject, request: RevisionRequest): ProjectRevision {
+  return {
+    id: crypto.randomUUID(),
+    projectId: project.id,
+    createdAt: Date.now(),
+    kind: request.kind,
+    ...(request.label?.trim() ? { label: request.label.trim() } : {}),
+    ...(request.restoredFrom ? { restoredFrom: request.restoredFrom } : {}),
+    project,
+  };
+}
+
+// `revisions` is newest first, as returned by ProjectStorage.listRevisions
+export function shouldAutoSnapshot(revisions: ProjectRevision[], now: number): boolean {
+  return revisions.length === 0 || now - revisions[0].createdAt >= AUTO_REVISION_INTERVAL_MS;
+}
+
+// Ids of the automatic snapshots that fall beyond MAX_AUTO_REVISIONS
+export function revisionsToPrune(revisions: ProjectRevision[]): string[] {
+  return revisions
+    .filter((revision) => revision.kind === 'auto')
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .slice(MAX_AUTO_REVISIONS)
+    .map((revision) => revision.id);
+}
+
+/**
+ * Sorts stored revisions newest first and brings their project copies up to
+ * the current schema. Revisions that cannot be migrated are left out.
+ */
+export function readRevisions(entries: unknown[]): ProjectRevision[] {
+  const revisions: ProjectRevision[] = [];
+  entries.forEach((entry: any) => {
+    try {
+      revisions.push({ ...entry, project: migrateProject(entry?.project) });
+    } catch (e) {
+      console.error('Skipping unreadable revision:', e);
+    }
+  });
+  return revisions.sort((a, b) => b.createdAt - a.createdAt);
+}
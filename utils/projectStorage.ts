@@ -0,0 +1,300 @@
+import { GraphProject, ProjectRevision } from '../types';
+import { RecoveredData, loadProjects, migrateProjects } from './projectMigrations';
+import { readRevisions, revisionsToPrune } from './projectRevisions';
+
+// Where projects lived before the IndexedDB backend; still used as the fallback
+export const LEGACY_STORAGE_KEY = 'graphflow_projects';
+const RECOVERY_KEY_PREFIX = 'graphflow_projects_recovered_';
+const REVISIONS_KEY_PREFIX = 'graphflow_revisions_';
+
+const DB_NAME = 'mijin';
+const DB_VERSION = 2;
+const PROJECT_STORE = 'projects';
+const REVISION_STORE = 'revisions';
+const REVISION_PROJECT_INDEX = 'projectId';
+// Unreadable records are moved here instead of being deleted
+const RECOVERED_STORE = 'recovered';
+const META_STORE = 'meta';
+const LEGACY_MIGRATED_KEY = 'legacyMigrated';
+
+export interface StoredProjects {
+  projects: GraphProject[];
+  recovered: RecoveredData | null;
+}
+
+/**
+ * Persists projects one at a time so an edit only rewrites the project it
+ * touched. `load` migrates whatever it finds and sets unreadable data aside.
+ */
+export interface ProjectStorage {
+  load(): Promise<StoredProjects>;
+  save(project: GraphProject): Promise<void>;
+  // Also deletes the project's revisions
+  remove(id: string): Promise<void>;
+  // Newest first
+  listRevisions(projectId: string): Promise<ProjectRevision[]>;
+  // Prunes automatic snapshots beyond MAX_AUTO_REVISIONS
+  addRevision(revision: ProjectRevision): Promise<void>;
+}
+
+export type StorageMode = 'local' | 'server';
+
+export interface StorageSettings {
+  mode: StorageMode;
+  // Base URL of the FastAPI backend that hosts /projects
+  serverUrl: string;
+}
+
+const STORAGE_SETTINGS_KEY = 'mijin_storage_settings';
+export const DEFAULT_SERVER_URL = 'http://localhost:8000';
+
+export function readStorageSettings(): StorageSettings {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_SETTINGS_KEY) || '{}');
+    return {
+      mode: saved.mode === 'server' ? 'server' : 'local',
+      serverUrl: typeof saved.serverUrl === 'string' && saved.serverUrl ? saved.serverUrl : DEFAULT_SERVER_URL,
+    };
+  } catch {
+    return { mode: 'local', serverUrl: DEFAULT_SERVER_URL };
+  }
+}
+
+export function writeStorageSettings(settings: StorageSettings): void {
+  localStorage.setItem(STORAGE_SETTINGS_KEY, JSON.stringify(settings));
+}
+
+// `unavailable` is reported when projects could not be loaded at all
+export type StorageErrorKind = 'full' | 'failed' | 'unavailable';
+
+export function classifyStorageError(error: unknown): StorageErrorKind {
+  const name = (error as { name?: string } | null)?.name;
+  return name === 'QuotaExceededError' || name === 'NS_ERROR_DOM_QUOTA_REACHED' ? 'full' : 'failed';
+}
+
+// --- IndexedDB --------------------------------------------------------------------
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+// Quota errors surface as a transaction abort rather than a request error
+function completion(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = tx.onabort = () => reject(tx.error ?? new Error('Storage transaction was aborted'));
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = (event) => {
+      const db = req.result;
+      if (event.oldVersion < 1) {
+        db.createObjectStore(PROJECT_STORE, { keyPath: 'id' });
+        db.createObjectStore(RECOVERED_STORE, { autoIncrement: true });
+        db.createObjectStore(META_STORE);
+      }
+      if (event.oldVersion < 2) {
+        db.createObjectStore(REVISION_STORE, { keyPath: 'id' }).createIndex(REVISION_PROJECT_INDEX, 'projectId');
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function createIndexedDbStorage(db: IDBDatabase): ProjectStorage {
+  const write = async (run: (store: IDBObjectStore) => void) => {
+    const tx = db.transaction(PROJECT_STORE, 'readwrite');
+    run(tx.objectStore(PROJECT_STORE));
+    await completion(tx);
+  };
+
+  return {
+    async load() {
+      const readTx = db.transaction([PROJECT_STORE, META_STORE], 'readonly');
+      const [entries, legacyMigrated] = await Promise.all([
+        request(readTx.objectStore(PROJECT_STORE).getAll()),
+        request(readTx.objectStore(META_STORE).get(LEGACY_MIGRATED_KEY)),
+      ]);
+      const current = migrateProjects(entries);
+
+      // One-time import of the old localStorage list
+      const legacyText = legacyMigrated ? null : localStorage.getItem(LEGACY_STORAGE_KEY);
+      const legacy = legacyText !== null ? loadProjects(legacyText) : null;
+      const knownIds = new Set(current.projects.map((project) => project.id));
+      const imported = (legacy?.projects ?? []).filter((project) => !knownIds.has(project.id));
+
+      const rejected: unknown[] = [...(current.rejected ?? [])];
+      if (typeof legacy?.rejected === 'string') rejected.push(legacy.rejected);
+      else if (legacy?.rejected) rejected.push(...legacy.rejected);
+      const recoveredData = rejected.length > 0 ? JSON.stringify(rejected) : null;
+
+      if (imported.length > 0 || recoveredData !== null || !legacyMigrated) {
+        const tx = db.transaction([PROJECT_STORE, RECOVERED_STORE, META_STORE], 'readwrite');
+        const projectStore = tx.objectStore(PROJECT_STORE);
+        imported.forEach((project) => projectStore.put(project));
+        if (recoveredData !== null) {
+          tx.objectStore(RECOVERED_STORE).add({ savedAt: Date.now(), data: recoveredData });
+          (current.rejected ?? []).forEach((entry: any) => projectStore.delete(entry.id));
+        }
+        tx.objectStore(META_STORE).put(true, LEGACY_MIGRATED_KEY);
+        await completion(tx);
+      }
+      // Only drop the old copy once everything in it is safely in IndexedDB
+      if (legacyText !== null) localStorage.removeItem(LEGACY_STORAGE_KEY);
+
+      return {
+        projects: [...current.projects, ...imported],
+        recovered: recoveredData !== null ? { key: `${DB_NAME}/${RECOVERED_STORE}`, data: recoveredData } : null,
+      };
+    },
+    save: (project) => write((store) => store.put(project)),
+    async remove(id) {
+      const tx = db.transaction([PROJECT_STORE, REVISION_STORE], 'readwrite');
+      tx.objectStore(PROJECT_STORE).delete(id);
+      const revisions = tx.objectStore(REVISION_STORE);
+      const keys = revisions.index(REVISION_PROJECT_INDEX).getAllKeys(id);
+      keys.onsuccess = () => keys.result.forEach((key) => revisions.delete(key));
+      await completion(tx);
+    },
+    async listRevisions(projectId) {
+      const tx = db.transaction(REVISION_STORE, 'readonly');
+      return readRevisions(await request(tx.objectStore(REVISION_STORE).index(REVISION_PROJECT_INDEX).getAll(projectId)));
+    },
+    async addRevision(revision) {
+      const tx = db.transaction(REVISION_STORE, 'readwrite');
+      const revisions = tx.objectStore(REVISION_STORE);
+      revisions.put(revision);
+      const existing = revisions.index(REVISION_PROJECT_INDEX).getAll(revision.projectId);
+      existing.onsuccess = () => revisionsToPrune(existing.result).forEach((id) => revisions.delete(id));
+      await completion(tx);
+    },
+  };
+}
+
+// --- localStorage fallback -----------------------------------------------------
+
+// Used where IndexedDB is unavailable; rewrites the whole list on every change
+function createLocalStorageStorage(): ProjectStorage {
+  let projects: GraphProject[] = [];
+  const flush = async () => {
+    localStorage.setItem(LEGACY_STORAGE_KEY, JSON.stringify(projects));
+  };
+
+  return {
+    async load() {
+      const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+      if (saved === null) return { projects, recovered: null };
+      const { projects: loaded, rejected } = loadProjects(saved);
+      projects = loaded;
+      if (rejected === null) return { projects, recovered: null };
+
+      // Never overwrite what we could not read: copy it aside first
+      const data = typeof rejected === 'string' ? rejected : JSON.stringify(rejected);
+      const key = `${RECOVERY_KEY_PREFIX}${Date.now()}`;
+      try {
+        localStorage.setItem(key, data);
+        return { projects, recovered: { key, data } };
+      } catch (e) {
+        console.error('Failed to set aside unreadable projects:', e);
+        return { projects, recovered: { key: null, data } };
+      }
+    },
+    save(project) {
+      const index = projects.findIndex((p) => p.id === project.id);
+      projects = index === -1 ? [...projects, project] : projects.map((p, i) => (i === index ? project : p));
+      return flush();
+    },
+    remove(id) {
+      projects = projects.filter((p) => p.id !== id);
+      localStorage.removeItem(`${REVISIONS_KEY_PREFIX}${id}`);
+      return flush();
+    },
+    async listRevisions(projectId) {
+      const saved = localStorage.getItem(`${REVISIONS_KEY_PREFIX}${projectId}`);
+      if (saved === null) return [];
+      try {
+        const parsed = JSON.parse(saved);
+        return Array.isArray(parsed) ? readRevisions(parsed) : [];
+      } catch (e) {
+        console.error('Failed to read revisions:', e);
+        return [];
+      }
+    },
+    async addRevision(revision) {
+      const next = [revision, ...(await this.listRevisions(revision.projectId))];
+      const pruned = new Set(revisionsToPrune(next));
+      localStorage.setItem(`${REVISIONS_KEY_PREFIX}${revision.projectId}`, JSON.stringify(next.filter((r) => !pruned.has(r.id))));
+    },
+  };
+}
+
+// --- Server ----------------------------------------------------------------------
+
+// Talks to the backend's /projects routes so a team shares one library
+function createServerStorage(serverUrl: string): ProjectStorage {
+  const root = serverUrl.trim().replace(/\/+$/, '');
+  const call = async (path: string, init?: RequestInit): Promise<any> => {
+    const response = await fetch(`${root}${path}`, {
+      ...init,
+      headers: init?.body ? { 'Content-Type': 'application/json' } : undefined,
+    });
+    if (!response.ok) {
+      const err = await response.json().catch(() => ({}));
+      throw new Error(typeof (err as any).detail === 'string' ? (err as any).detail : `HTTP ${response.status}`);
+    }
+    return response.status === 204 ? null : response.json();
+  };
+  const projectPath = (id: string) => `/projects/${encodeURIComponent(id)}`;
+
+  return {
+    async load() {
+      const entries = await call('/projects');
+      if (!Array.isArray(entries)) throw new Error('Server returned an invalid project list');
+      // Unreadable projects stay untouched on the server
+      const { projects, rejected } = migrateProjects(entries);
+      return { projects, recovered: rejected ? { key: `${root}/projects`, data: JSON.stringify(rejected) } : null };
+    },
+    async save(project) {
+      await call(projectPath(project.id), { method: 'PUT', body: JSON.stringify(project) });
+    },
+    async remove(id) {
+      await call(projectPath(id), { method: 'DELETE' });
+    },
+    async listRevisions(projectId) {
+      return readRevisions(await call(`${projectPath(projectId)}/revisions`));
+    },
+    async addRevision(revision) {
+      await call(`${projectPath(revision.projectId)}/revisions`, { method: 'POST', body: JSON.stringify(revision) });
+    },
+  };
+}
+
+/**
+ * Opens the storage selected in the settings. Local mode uses IndexedDB when
+ * the browser allows it (some private modes do not) and falls back to
+ * localStorage otherwise.
+ */
+export async function openProjectStorage(settings: StorageSettings = readStorageSettings()): Promise<ProjectStorage> {
+  if (settings.mode === 'server') return createServerStorage(settings.serverUrl);
+  if (typeof indexedDB !== 'undefined') {
+    try {
+      return createIndexedDbStorage(await openDatabase());
+    } catch (e) {
+      console.warn('IndexedDB is unavailable, falling back to localStorage:', e);
+    }
+  }
+  return createLocalStorageStorage();
+}
+
+// Resolves when the backend answers its health check
+export async function checkServer(serverUrl: string): Promise<void> {
+  const response = await fetch(`${serverUrl.trim().replace(/\/+$/, '')}/health`);
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+}
@@ -0,0 +1,189 @@
+import { GraphLink, GraphNode, GraphProject, SimulationAction } from '../types';
+import { assignLinkIds, endpointId, getLinkId, stepRoute } from './linkGeometry';
+
+export type DiffStatus = 'unchanged' | 'added' | 'removed' | 'changed';
+
+// One line of a side-by-side comparison; `before`/`after` are null on the side where the item is missing
+export interface DiffRow {
+  key: string;
+  status: DiffStatus;
+  before: string | null;
+  after: string | null;
+  changedFields: string[];
+}
+
+export interface SnapshotDiff {
+  nodes: DiffRow[];
+  links: DiffRow[];
+  steps: DiffRow[];
+  themeChanged: boolean;
+}
+
+const sameJson = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+// Node fields that count as an edit; simulation state (vx, index, ...) does not
+const NODE_FIELDS: Record<string, (node: GraphNode) => unknown> = {
+  label: (node) => node.label,
+  group: (node) => node.group,
+  appearance: (node) => node.appearance,
+  states: (node) => node.activeStates ?? [],
+  meta_data: (node) => node.meta_data,
+  position: (node) => [Math.round(node.fx ?? node.x ?? 0), Math.round(node.fy ?? node.y ?? 0)],
+};
+
+const LINK_FIELDS: Record<string, (link: GraphLink) => unknown> = {
+  value: (link) => link.value,
+  direction: (link) => link.direction ?? 'forward',
+  routing: (link) => link.routing,
+  states: (link) => link.activeStates ?? [],
+  meta_data: (link) => link.meta_data,
+};
+
+function changedFields<T>(fields: Record<string, (item: T) => unknown>, before: T, after: T): string[] {
+  return Object.entries(fields)
+    .filter(([, read]) => !sameJson(read(before), read(after)))
+    .map(([name]) => name);
+}
+
+// Items present on both sides first (in `before` order), then the added ones
+function diffKeyed<T>(
+  before: Map<string, T>,
+  after: Map<string, T>,
+  fields: Record<string, (item: T) => unknown>,
+  describeBefore: (item: T) => string,
+  describeAfter: (item: T) => string,
+): DiffRow[] {
+  const rows: DiffRow[] = [];
+  before.forEach((item, key) => {
+    const other = after.get(key);
+    if (!other) {
+      rows.push({ key, status: 'removed', before: describeBefore(item), after: null, changedFields: [] });
+      return;
+    }
+    const changed = changedFields(fields, item, other);
+    rows.push({
+      key,
+      status: changed.length > 0 ? 'changed' : 'unchanged',
+      before: describeBefore(item),
+      after: describeAfter(other),
+      changedFields: changed,
+    });
+  });
+  after.forEach((item, key) => {
+    if (!before.has(key)) rows.push({ key, status: 'added', before: null, after: describeAfter(item), changedFields: [] });
+  });
+  return rows;
+}
+
+// Snapshots from before links had ids get the ids the schema migration would give them
+function keyLinks(links: GraphLink[]): Map<string, GraphLink> {
+  return new Map(assignLinkIds(links).map((link) => [getLinkId(link), link]));
+}
+
+function labeller(project: GraphProject) {
+  const labels = new Map(project.graphData.nodes.map((node) => [node.id, node.label || node.id]));
+  return (id: string) => labels.get(id) ?? id;
+}
+
+export function describeStep(step: SimulationAction, nodeLabel: (id: string) => string): string {
+  const suffix = step.label ? ` · ${step.label}` : '';
+  switch (step.type) {
+    case 'parallel':
+      return `⇉ ${step.steps.length}${suffix}`;
+    case 'branch':
+      return `◇ ${step.outcomes.map((outcome) => outcome.name).join(' / ')}${suffix}`;
+    case 'repeat':
+      return `↻ ×${step.count} (${step.steps.length})${suffix}`;
+    default:
+      return `${stepRoute(step).map(nodeLabel).join(' → ')}${suffix}`;
+  }
+}
+
+/**
+ * Aligns the two top-level step lists on their longest common subsequence.
+ * A removal directly followed by an addition is reported as one changed step.
+ */
+function diffSteps(before: GraphProject, after: GraphProject): DiffRow[] {
+  const a = before.eventData.steps;
+  const b = after.eventData.steps;
+  const aJson = a.map((step) => JSON.stringify(step));
+  const bJson = b.map((step) => JSON.stringify(step));
+
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = aJson[i] === bJson[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const labelBefore = labeller(before);
+  const labelAfter = labeller(after);
+  const rows: DiffRow[] = [];
+  const removed: number[] = [];
+  const added: number[] = [];
+  const flush = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      const i = removed[k];
+      const j = added[k];
+      rows.push({
+        key: `step-${rows.length}`,
+        status: i === undefined ? 'added' : j === undefined ? 'removed' : 'changed',
+        before: i === undefined ? null : describeStep(a[i], labelBefore),
+        after: j === undefined ? null : describeStep(b[j], labelAfter),
+        changedFields: [],
+      });
+    }
+    removed.length = 0;
+    added.length = 0;
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && aJson[i] === bJson[j]) {
+      flush();
+      rows.push({
+        key: `step-${rows.length}`,
+        status: 'unchanged',
+        before: describeStep(a[i], labelBefore),
+        after: describeStep(b[j], labelAfter),
+        changedFields: [],
+      });
+      i++;
+      j++;
+    } else if (j >= b.length || (i < a.length && lcs[i + 1][j] >= lcs[i][j + 1])) {
+      removed.push(i++);
+    } else {
+      added.push(j++);
+    }
+  }
+  flush();
+  return rows;
+}
+
+/** Compares the nodes, links and top-level steps of two project snapshots. */
+export function diffSnapshots(before: GraphProject, after: GraphProject): SnapshotDiff {
+  const labelBefore = labeller(before);
+  const labelAfter = labeller(after);
+  const describeLink = (label: (id: string) => string) => (link: GraphLink) =>
+    `${label(endpointId(link.source))} → ${label(endpointId(link.target))}${link.meta_data?.label ? ` · ${link.meta_data.label}` : ''}`;
+
+  return {
+    nodes: diffKeyed(
+      new Map(before.graphData.nodes.map((node) => [node.id, node])),
+      new Map(after.graphData.nodes.map((node) => [node.id, node])),
+      NODE_FIELDS,
+      (node) => node.label || node.id,
+      (node) => node.label || node.id,
+    ),
+    links: diffKeyed(
+      keyLinks(before.graphData.links),
+      keyLinks(after.graphData.links),
+      LINK_FIELDS,
+      describeLink(labelBefore),
+      describeLink(labelAfter),
+    ),
+    steps: diffSteps(before, after),
+    themeChanged: !sameJson(before.themeData, after.themeData),
+  };
+}
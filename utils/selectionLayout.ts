@@ -0,0 +1,57 @@
+import { GraphNode } from '../types';
+
+export type AlignCommand = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+export type DistributeCommand = 'horizontal' | 'vertical';
+export type ArrangeCommand = { type: 'align'; edge: AlignCommand } | { type: 'distribute'; axis: DistributeCommand };
+
+export interface NodePosition {
+  x: number;
+  y: number;
+}
+
+const positionOf = (node: GraphNode): NodePosition => ({ x: node.x ?? 0, y: node.y ?? 0 });
+
+/**
+ * Computes new positions for a set of nodes. Alignment snaps every node to the
+ * extreme (or centre) of the selection's bounding box; distribution keeps the
+ * outermost nodes in place and spaces the others evenly between them.
+ * Returns an empty map when the selection is too small for the command.
+ */
+export function arrangeNodes(nodes: GraphNode[], command: ArrangeCommand): Map<string, NodePosition> {
+  const result = new Map<string, NodePosition>();
+  if (nodes.length < 2) return result;
+
+  const positions = nodes.map((node) => ({ id: node.id, ...positionOf(node) }));
+
+  if (command.type === 'align') {
+    const xs = positions.map((p) => p.x);
+    const ys = positions.map((p) => p.y);
+    const minX = Math.min(...xs);
+    const maxX = Math.max(...xs);
+    const minY = Math.min(...ys);
+    const maxY = Math.max(...ys);
+
+    positions.forEach((p) => {
+      switch (command.edge) {
+        case 'left': result.set(p.id, { x: minX, y: p.y }); break;
+        case 'center': result.set(p.id, { x: (minX + maxX) / 2, y: p.y }); break;
+        case 'right': result.set(p.id, { x: maxX, y: p.y }); break;
+        case 'top': result.set(p.id, { x: p.x, y: minY }); break;
+        case 'middle': result.set(p.id, { x: p.x, y: (minY + maxY) / 2 }); break;
+        case 'bottom': result.set(p.id, { x: p.x, y: maxY }); break;
+      }
+    });
+    return result;
+  }
+
+  if (nodes.length < 3) return result;
+  const key = command.axis === 'horizontal' ? 'x' : 'y';
+  const sorted = [...positions].sort((a, b) => a[key] - b[key]);
+  const first = sorted[0][key];
+  const step = (sorted[sorted.length - 1][key] - first) / (sorted.length - 1);
+
+  sorted.forEach((p, index) => {
+    result.set(p.id, { x: p.x, y: p.y, [key]: first + step * index });
+  });
+  return result;
+}
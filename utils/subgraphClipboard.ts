@@ -0,0 +1,173 @@
+import { EnvironmentLabel, EnvironmentZone, GraphData, GraphLink, GraphNode } from '../types';
+import { assignLinkIds, endpointId } from './linkGeometry';
+
+export const SUBGRAPH_CLIPBOARD_KIND = 'graphflow/subgraph';
+
+// Plain JSON payload placed on the system clipboard, so it survives switching projects or tabs
+export interface SubgraphClipboard {
+  kind: typeof SUBGRAPH_CLIPBOARD_KIND;
+  version: 1;
+  nodes: GraphNode[];
+  links: GraphLink[];
+  zones: EnvironmentZone[];
+  labels: EnvironmentLabel[];
+}
+
+export interface PastedSubgraph {
+  data: GraphData;
+  nodeIds: string[];
+}
+
+const contains = (zone: EnvironmentZone, x?: number, y?: number) =>
+  x !== undefined && y !== undefined &&
+  x >= zone.x && x <= zone.x + zone.width &&
+  y >= zone.y && y <= zone.y + zone.height;
+
+const containsZone = (outer: EnvironmentZone, inner: EnvironmentZone) =>
+  outer.id !== inner.id &&
+  inner.x >= outer.x && inner.x + inner.width <= outer.x + outer.width &&
+  inner.y >= outer.y && inner.y + inner.height <= outer.y + outer.height;
+
+/**
+ * Collects the selected nodes, the links between them, and the environment
+ * around them. A zone comes along when every node inside it (attached or
+ * geometrically contained) is selected; zones nested in it and labels within
+ * it follow. Explicitly selected zones are always copied with their nodes.
+ */
+export function extractSubgraph(data: GraphData, nodeIds: string[], zoneIds: string[] = []): SubgraphClipboard | null {
+  const zones = data.environments?.zones || [];
+  const labels = data.environments?.labels || [];
+
+  const nodesIn = (zone: EnvironmentZone) =>
+    data.nodes
+      .filter((node) => zone.attachedElementIds?.nodes.includes(node.id) || contains(zone, node.x, node.y))
+      .map((node) => node.id);
+
+  const selected = new Set(nodeIds);
+  const pickedZones = new Set(zoneIds);
+  zones.filter((zone) => pickedZones.has(zone.id)).forEach((zone) => nodesIn(zone).forEach((id) => selected.add(id)));
+
+  zones.forEach((zone) => {
+    const inside = nodesIn(zone);
+    if (inside.length > 0 && inside.every((id) => selected.has(id))) pickedZones.add(zone.id);
+  });
+  zones.forEach((zone) => {
+    const parents = zones.filter((parent) => pickedZones.has(parent.id));
+    if (parents.some((parent) => containsZone(parent, zone) || parent.attachedElementIds?.zones.includes(zone.id))) {
+      pickedZones.add(zone.id);
+    }
+  });
+
+  const copiedZones = zones.filter((zone) => pickedZones.has(zone.id));
+  const copiedNodes = data.nodes.filter((node) => selected.has(node.id));
+  if (copiedNodes.length === 0 && copiedZones.length === 0) return null;
+
+  return {
+    kind: SUBGRAPH_CLIPBOARD_KIND,
+    version: 1,
+    nodes: copiedNodes.map((node) => ({ ...node })),
+    links: data.links
+      .filter((link) => selected.has(endpointId(link.source)) && selected.has(endpointId(link.target)))
+      .map((link) => ({ ...link, source: endpointId(link.source), target: endpointId(link.target) })),
+    zones: copiedZones.map((zone) => ({ ...zone })),
+    labels: labels
+      .filter((label) =>
+        copiedZones.some((zone) => zone.attachedElementIds?.labels.includes(label.id) || contains(zone, label.x, label.y)),
+      )
+      .map((label) => ({ ...label })),
+  };
+}
+
+export function serializeSubgraph(subgraph: SubgraphClipboard): string {
+  return JSON.stringify(subgraph, null, 2);
+}
+
+// Returns null for anything that is not a copied subgraph, so ordinary text pastes pass through
+export function parseSubgraph(text: string): SubgraphClipboard | null {
+  try {
+    const parsed = JSON.parse(text);
+    if (parsed?.kind !== SUBGRAPH_CLIPBOARD_KIND) return null;
+    if (!Array.isArray(parsed.nodes) || !Array.isArray(parsed.links)) return null;
+    return {
+      ...parsed,
+      zones: Array.isArray(parsed.zones) ? parsed.zones : [],
+      labels: Array.isArray(parsed.labels) ? parsed.labels : [],
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function getSubgraphCenter(subgraph: SubgraphClipboard): { x: number; y: number } {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  subgraph.nodes.forEach((node) => { xs.push(node.x ?? 0); ys.push(node.y ?? 0); });
+  subgraph.zones.forEach((zone) => { xs.push(zone.x, zone.x + zone.width); ys.push(zone.y, zone.y + zone.height); });
+  subgraph.labels.forEach((label) => { xs.push(label.x); ys.push(label.y); });
+  if (xs.length === 0) return { x: 0, y: 0 };
+  return { x: (Math.min(...xs) + Math.max(...xs)) / 2, y: (Math.min(...ys) + Math.max(...ys)) / 2 };
+}
+
+/**
+ * Merges a copied subgraph into `data`, shifted by `offset`. Node ids continue
+ * the numeric sequence used for new nodes; zone and label ids are fresh UUIDs.
+ * Links get fresh ids and are rewired, as are `attachedElementIds`; attachments
+ * pointing outside the copied set are dropped.
+ */
+export function pasteSubgraph(data: GraphData, subgraph: SubgraphClipboard, offset: { x: number; y: number }): PastedSubgraph {
+  let nextNodeId = Math.max(0, ...data.nodes.map((node) => parseInt(node.id) || 0)) + 1;
+  const nodeIds = new Map(subgraph.nodes.map((node) => [node.id, (nextNodeId++).toString()]));
+  const zoneIds = new Map(subgraph.zones.map((zone) => [zone.id, crypto.randomUUID()]));
+  const labelIds = new Map(subgraph.labels.map((label) => [label.id, crypto.randomUUID()]));
+
+  const remap = (ids: string[], mapping: Map<string, string>) =>
+    ids.filter((id) => mapping.has(id)).map((id) => mapping.get(id)!);
+
+  const nodes: GraphNode[] = subgraph.nodes.map((node) => ({
+    ...node,
+    id: nodeIds.get(node.id)!,
+    x: (node.x ?? 0) + offset.x,
+    y: (node.y ?? 0) + offset.y,
+  }));
+
+  const links: GraphLink[] = subgraph.links
+    .filter((link) => nodeIds.has(endpointId(link.source)) && nodeIds.has(endpointId(link.target)))
+    .map(({ id: _, ...link }) => ({
+      ...link,
+      source: nodeIds.get(endpointId(link.source))!,
+      target: nodeIds.get(endpointId(link.target))!,
+    }));
+
+  const zones: EnvironmentZone[] = subgraph.zones.map((zone) => ({
+    ...zone,
+    id: zoneIds.get(zone.id)!,
+    x: zone.x + offset.x,
+    y: zone.y + offset.y,
+    attachedElementIds: zone.attachedElementIds && {
+      nodes: remap(zone.attachedElementIds.nodes, nodeIds),
+      zones: remap(zone.attachedElementIds.zones, zoneIds),
+      labels: remap(zone.attachedElementIds.labels, labelIds),
+    },
+  }));
+
+  const labels: EnvironmentLabel[] = subgraph.labels.map((label) => ({
+    ...label,
+    id: labelIds.get(label.id)!,
+    x: label.x + offset.x,
+    y: label.y + offset.y,
+  }));
+
+  return {
+    data: {
+      ...data,
+      nodes: [...data.nodes, ...nodes],
+      links: assignLinkIds([...data.links, ...links]),
+      environments: {
+        ...data.environments,
+        zones: [...(data.environments?.zones || []), ...zones],
+        labels: [...(data.environments?.labels || []), ...labels],
+      },
+    },
+    nodeIds: nodes.map((node) => node.id),
+  };
+}
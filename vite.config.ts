@@ -64,6 +64,15 @@ export default defineConfig(({ mode }) => {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
+      },
+      build: {
+        rollupOptions: {
+          // embed.html is the iframe player for a single project bundle
+          input: {
+            main: path.resolve(__dirname, 'index.html'),
+            embed: path.resolve(__dirname, 'embed.html'),
+          },
+        },
       }
     };
 });